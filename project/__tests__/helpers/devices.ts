@@ -0,0 +1,21 @@
+/**
+ * Simulated devices for tests that run several users side by side
+ */
+
+/**
+ * Load a separate copy of the modules, as on another device or after an app restart
+ *
+ * Modules required inside `load` get their own state, including their own
+ * copy of a mocked storage module:
+ *
+ *   const device = loadModules(() => ({ prekeys: require('../../utils/prekeys') }));
+ */
+export const loadModules = <T>(load: () => T): T => {
+  let modules: T | undefined;
+
+  jest.isolateModules(() => {
+    modules = load();
+  });
+
+  return modules!;
+};
@@ -0,0 +1,102 @@
+/**
+ * Module mocks shared by the unit tests
+ *
+ * jest.mock factories cannot use imports, so tests require these inside
+ * the factory:
+ *
+ *   jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+ */
+
+/**
+ * React Native as seen by code that only checks the platform
+ */
+export const mockReactNative = (OS: string = 'web') => ({
+  Platform: {
+    OS,
+  },
+});
+
+/**
+ * In-memory stand-in for the parts of expo-file-system the app uses
+ */
+export const mockFileSystem = () => {
+  const files = new Map<string, string>();
+
+  return {
+    documentDirectory: 'file:///documents/',
+    getInfoAsync: jest.fn(async (uri: string) => ({ exists: files.has(uri), uri })),
+    readAsStringAsync: jest.fn(async (uri: string) => {
+      if (!files.has(uri)) {
+        throw new Error(`File ${uri} does not exist`);
+      }
+
+      return files.get(uri)!;
+    }),
+    writeAsStringAsync: jest.fn(async (uri: string, value: string) => {
+      files.set(uri, value);
+    }),
+    makeDirectoryAsync: jest.fn(async () => {}),
+    deleteAsync: jest.fn(async (uri: string) => {
+      files.delete(uri);
+    }),
+  };
+};
+
+/**
+ * In-memory stand-in for the storage module
+ *
+ * Secure and plain storage share the given items, but secure storage only
+ * takes values as large as SecureStore does. Every copy of the module gets
+ * its own items unless they are passed in, so devices loaded with
+ * jest.isolateModules do not share keys; passing the same map keeps them
+ * across a simulated restart.
+ */
+export const mockStorage = (items: Map<string, string> = new Map()) => {
+  const { StorageKeys } = jest.requireActual('../../utils/storage');
+
+  const memoryStorage = {
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      items.delete(key);
+    },
+    hasItem: async (key: string) => items.has(key),
+    setObject: async (key: string, value: unknown) => {
+      items.set(key, JSON.stringify(value));
+    },
+    getObject: async (key: string) => {
+      const value = items.get(key);
+      return value ? JSON.parse(value) : null;
+    },
+    clear: async () => {
+      items.clear();
+    },
+  };
+
+  // SecureStore rejects values over 2048 bytes
+  const checkSize = (key: string, value: string) => {
+    if (Buffer.byteLength(value) > 2048) {
+      throw new Error(`Value for ${key} is larger than SecureStore holds`);
+    }
+  };
+
+  const secureStorage = {
+    ...memoryStorage,
+    setItem: async (key: string, value: string) => {
+      checkSize(key, value);
+      await memoryStorage.setItem(key, value);
+    },
+    setObject: async (key: string, value: unknown) => {
+      checkSize(key, JSON.stringify(value));
+      await memoryStorage.setObject(key, value);
+    },
+  };
+
+  return {
+    StorageKeys,
+    secureStorage,
+    storage: memoryStorage,
+  };
+};
@@ -0,0 +1,147 @@
+/**
+ * Stand-ins for the server the unit tests talk to through fetch
+ *
+ * Suites build their fetch mock from routes; each route answers the
+ * requests it knows and leaves the rest to the next one:
+ *
+ *   global.fetch = mockFetch(mockKeysRoute(bundles), suiteRoute);
+ */
+
+import type { OneTimePrekey, SignedPrekey } from '../../utils/prekeys';
+
+// What a fetch mock resolves to; only what the API client reads
+export interface MockResponse {
+  ok: boolean;
+  status: number;
+  headers: { get: (name: string) => string | null };
+  json: () => Promise<unknown>;
+}
+
+// A request as routes see it
+export interface MockRequest {
+  method: string;
+  path: string;
+  searchParams: URLSearchParams;
+  // Bearer token of the signed-in device, empty when signed out
+  token: string;
+  body: unknown;
+}
+
+// Answers a request, or returns undefined for the next route to answer
+export type MockRoute = (
+  request: MockRequest
+) => MockResponse | undefined | Promise<MockResponse | undefined>;
+
+// Prekey bundle a device published, under the token it published it with
+export interface PublishedBundle {
+  identityKey: string;
+  signingKey: string;
+  signedPrekey: SignedPrekey;
+  oneTimePrekeys: OneTimePrekey[];
+}
+
+// Body of a prekey upload
+interface PrekeyUpload {
+  identityKey: string;
+  signingKey: string;
+  signedPrekey?: SignedPrekey;
+  oneTimePrekeys?: OneTimePrekey[];
+}
+
+/**
+ * JSON response with the given status
+ */
+export const jsonResponse = (status: number, body: unknown): MockResponse => ({
+  ok: status < 400,
+  status,
+  headers: { get: () => 'application/json' },
+  json: async () => body,
+});
+
+/**
+ * Read what routes need from a fetch call
+ */
+export const toMockRequest = (url: string, init: RequestInit = {}): MockRequest => {
+  const { pathname, searchParams } = new URL(url);
+  const headers = (init.headers || {}) as Record<string, string>;
+
+  return {
+    method: init.method || 'GET',
+    path: pathname,
+    searchParams,
+    token: (headers.Authorization || '').replace('Bearer ', ''),
+    body: typeof init.body === 'string' ? JSON.parse(init.body) : {},
+  };
+};
+
+/**
+ * fetch mock that asks the routes in turn and answers 404 when none knows the request
+ */
+export const mockFetch = (...routes: MockRoute[]): typeof fetch =>
+  jest.fn(async (url: string, init?: RequestInit) => {
+    const request = toMockRequest(url, init);
+
+    for (const route of routes) {
+      const response = await route(request);
+
+      if (response) {
+        return response;
+      }
+    }
+
+    return jsonResponse(404, { error: 'Not found' });
+  }) as unknown as typeof fetch;
+
+/**
+ * The server's prekey routes, keeping bundles under the token of their device
+ *
+ * Tokens are `user` for accounts with one device or `user:device` for
+ * accounts with several; a bundle is fetched by user and device ID.
+ */
+export const mockKeysRoute =
+  (bundles: Map<string, PublishedBundle>): MockRoute =>
+  ({ method, path, token, body }) => {
+    if (method === 'POST' && path === '/keys/prekeys') {
+      const upload = body as PrekeyUpload;
+      const published = bundles.get(token);
+
+      const bundle: PublishedBundle = {
+        identityKey: upload.identityKey,
+        signingKey: upload.signingKey,
+        signedPrekey: upload.signedPrekey || published!.signedPrekey,
+        oneTimePrekeys: [...(published?.oneTimePrekeys || []), ...(upload.oneTimePrekeys || [])],
+      };
+      bundles.set(token, bundle);
+
+      return jsonResponse(200, { success: true, count: bundle.oneTimePrekeys.length });
+    }
+
+    if (method === 'GET' && path === '/keys/prekeys/count') {
+      return jsonResponse(200, {
+        success: true,
+        count: bundles.get(token)?.oneTimePrekeys.length || 0,
+      });
+    }
+
+    const match = path.match(/^\/keys\/bundle\/(\w+)\/(\w+)$/);
+
+    if (method === 'GET' && match) {
+      const bundle = bundles.get(`${match[1]}:${match[2]}`) || bundles.get(match[1]);
+
+      if (!bundle) {
+        return jsonResponse(404, { error: 'No prekey bundle published' });
+      }
+
+      return jsonResponse(200, {
+        success: true,
+        bundle: {
+          identityKey: bundle.identityKey,
+          signingKey: bundle.signingKey,
+          signedPrekey: bundle.signedPrekey,
+          oneTimePrekey: bundle.oneTimePrekeys.shift() || null,
+        },
+      });
+    }
+
+    return undefined;
+  };
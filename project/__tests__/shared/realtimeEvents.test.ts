@@ -0,0 +1,94 @@
+import {
+  clientEventSchemas,
+  serverEventSchemas,
+  parseEvent,
+  serializeServerEvent,
+} from '../../shared/realtimeEvents';
+
+// Stand-in for a database ID, which is sent as a string
+class MockObjectId {
+  constructor(private readonly value: string) {}
+
+  toJSON() {
+    return this.value;
+  }
+}
+
+describe('Realtime events', () => {
+  test('should accept events that follow the contract', () => {
+    expect(
+      parseEvent(clientEventSchemas, 'typing', { conversationId: 'c1', isTyping: true })
+    ).toEqual({ success: true, data: { conversationId: 'c1', isTyping: true } });
+
+    expect(parseEvent(clientEventSchemas, 'ping', undefined)).toEqual({
+      success: true,
+      data: undefined,
+    });
+  });
+
+  test('should reject unknown and malformed events', () => {
+    expect(parseEvent(clientEventSchemas, 'typing_indicator', {})).toEqual({
+      success: false,
+      error: 'Unknown event: typing_indicator',
+    });
+    expect(parseEvent(clientEventSchemas, 'toString', {})).toMatchObject({ success: false });
+    expect(parseEvent(clientEventSchemas, undefined, {})).toMatchObject({ success: false });
+
+    const result = parseEvent(clientEventSchemas, 'typing', {
+      conversationId: 'c1',
+      isTyping: 'yes',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Malformed typing event: isTyping');
+  });
+
+  test('should send server events as plain checked JSON', () => {
+    const data = serializeServerEvent('message_status', {
+      conversationId: new MockObjectId('c1'),
+      messageId: new MockObjectId('m1'),
+      userId: 'u1',
+      status: 'read',
+      timestamp: 1,
+      type: 'read_receipt',
+    });
+
+    // Fields outside the contract are left out
+    expect(data).toEqual({
+      conversationId: 'c1',
+      messageId: 'm1',
+      userId: 'u1',
+      status: 'read',
+      timestamp: 1,
+    });
+
+    // Documents keep their own fields
+    expect(
+      serializeServerEvent('conversation_update', {
+        conversation: { _id: new MockObjectId('c1'), settings: { messageTimer: 30 } },
+      })
+    ).toEqual({ conversation: { _id: 'c1', settings: { messageTimer: 30 } } });
+
+    expect(() =>
+      serializeServerEvent('read_receipt', { messageId: 'm1' })
+    ).toThrow('Unknown event: read_receipt');
+    expect(() =>
+      serializeServerEvent('message_status', { messageId: 'm1', status: 'seen' })
+    ).toThrow('Malformed message_status event');
+  });
+
+  test('should describe every event the app listens to', () => {
+    expect(Object.keys(serverEventSchemas)).toEqual(
+      expect.arrayContaining([
+        'new_message',
+        'message_status',
+        'typing_indicator',
+        'new_conversation',
+        'conversation_update',
+        'message_updated',
+        'message_reaction',
+        'message_deleted',
+      ])
+    );
+  });
+});
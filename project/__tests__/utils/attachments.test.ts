@@ -0,0 +1,292 @@
+import nacl from 'tweetnacl';
+import { Buffer } from 'buffer';
+import {
+  ATTACHMENT_PART_SIZE,
+  attachmentManager,
+  bytesSource,
+  encodeMessageBody,
+  decodeMessageBody,
+} from '../../utils/attachments';
+import { encryptedFileSize } from '../../utils/fileEncryption';
+import { jsonResponse } from '../helpers/server';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('expo-file-system', () => ({}));
+
+jest.mock('../../utils/storage', () => {
+  const { StorageKeys } = jest.requireActual('../../utils/storage');
+
+  return require('../helpers/mocks').mockStorage(new Map([[StorageKeys.USER_ID, 'alice']]));
+});
+
+// Local mock of the server's /upload routes
+interface MockUpload {
+  size: number;
+  data: Buffer;
+  partDigests: Buffer[];
+  status: 'uploading' | 'complete';
+}
+
+const mockUploads = new Map<string, MockUpload>();
+let mockFailures: Array<'drop-request' | 'drop-response'> = [];
+
+const sha512 = (data: Uint8Array) => Buffer.from(nacl.hash(data));
+
+const mockRoute = async (url: string, init: RequestInit) => {
+  const { pathname, searchParams } = new URL(url);
+  const body = init.body ? JSON.parse(init.body as string) : {};
+  const [, , attachmentId, action] = pathname.split('/');
+  const upload = mockUploads.get(attachmentId);
+
+  if (init.method === 'POST' && !attachmentId) {
+    const id = `a${mockUploads.size}`;
+
+    mockUploads.set(id, {
+      size: body.size,
+      data: Buffer.alloc(0),
+      partDigests: [],
+      status: 'uploading',
+    });
+    return jsonResponse(201, { success: true, attachmentId: id, uploadedBytes: 0 });
+  }
+
+  if (!upload) {
+    return jsonResponse(404, { error: 'Attachment not found' });
+  }
+
+  if (init.method === 'GET' && !action) {
+    return jsonResponse(200, {
+      success: true,
+      size: upload.size,
+      uploadedBytes: upload.data.length,
+      status: upload.status,
+    });
+  }
+
+  if (init.method === 'PUT' && action === 'parts') {
+    const failure = mockFailures.shift();
+
+    if (failure === 'drop-request') {
+      throw new Error('Network request failed');
+    }
+
+    if (body.offset !== upload.data.length) {
+      return jsonResponse(409, { error: 'Unexpected part offset' });
+    }
+
+    const part = Buffer.from(body.part, 'base64');
+
+    if (sha512(part).toString('hex') !== body.digest) {
+      return jsonResponse(422, { error: 'Part digest mismatch' });
+    }
+
+    upload.data = Buffer.concat([upload.data, part]);
+    upload.partDigests.push(sha512(part));
+
+    if (failure === 'drop-response') {
+      throw new Error('Network request failed');
+    }
+
+    return jsonResponse(200, { success: true, uploadedBytes: upload.data.length });
+  }
+
+  if (init.method === 'POST' && action === 'complete') {
+    const checksum = sha512(Buffer.concat(upload.partDigests)).toString('hex');
+
+    if (upload.data.length !== upload.size || checksum !== body.checksum) {
+      return jsonResponse(422, { error: 'Checksum mismatch' });
+    }
+
+    upload.status = 'complete';
+    return jsonResponse(200, { success: true, status: 'complete' });
+  }
+
+  if (init.method === 'GET' && action === 'parts') {
+    const offset = Number(searchParams.get('offset'));
+
+    return jsonResponse(200, {
+      success: true,
+      offset,
+      part: upload.data.subarray(offset, offset + ATTACHMENT_PART_SIZE).toString('base64'),
+    });
+  }
+
+  if (init.method === 'DELETE') {
+    mockUploads.delete(attachmentId);
+    return jsonResponse(200, { success: true });
+  }
+
+  return jsonResponse(404, { error: 'Not found' });
+};
+
+const origin = {
+  conversationId: 'conversation',
+  uploaderId: 'alice',
+  uploadedBy: 'Alice',
+  sharedWith: ['bob'],
+};
+
+describe('Attachments', () => {
+  beforeEach(() => {
+    mockUploads.clear();
+    mockFailures = [];
+    global.fetch = jest.fn(mockRoute) as unknown as typeof fetch;
+  });
+
+  test('should upload encrypted parts and download the original file', async () => {
+    const data = nacl.randomBytes(ATTACHMENT_PART_SIZE * 2 + 1000);
+    const uploadProgress: number[] = [];
+    const downloadProgress: number[] = [];
+
+    const attachment = await attachmentManager.upload(
+      bytesSource(data, 'report.pdf', 'application/pdf'),
+      origin,
+      (progress) => uploadProgress.push(progress.processedBytes)
+    );
+
+    // The server holds only the encrypted stream
+    const stored = mockUploads.get(attachment._id)!;
+    expect(stored.status).toBe('complete');
+    expect(stored.data.length).toBe(encryptedFileSize(data.length));
+    expect(stored.data.includes(Buffer.from(data.subarray(0, 64)))).toBe(false);
+    expect(uploadProgress).toEqual([
+      ATTACHMENT_PART_SIZE,
+      ATTACHMENT_PART_SIZE * 2,
+      stored.data.length,
+    ]);
+
+    const downloaded = await attachmentManager.downloadData(attachment, (progress) =>
+      downloadProgress.push(progress.processedBytes)
+    );
+
+    expect(Buffer.compare(downloaded, data)).toBe(0);
+    expect(downloadProgress[downloadProgress.length - 1]).toBe(stored.data.length);
+
+    const [file] = await attachmentManager.getFiles();
+    expect(file).toMatchObject({
+      id: attachment._id,
+      name: 'report.pdf',
+      type: 'document',
+      size: data.length,
+      uploadedBy: 'Alice',
+      checksum: attachment.checksum,
+      downloadCount: 1,
+      permissions: { canDelete: true },
+    });
+  });
+
+  test('should resume an upload after failed requests', async () => {
+    const data = nacl.randomBytes(ATTACHMENT_PART_SIZE * 2);
+
+    // One part never arrives, the next is stored but its response is lost
+    mockFailures = ['drop-request', 'drop-response'];
+
+    const attachment = await attachmentManager.upload(
+      bytesSource(data, 'photo.jpg', 'image/jpeg'),
+      origin
+    );
+
+    expect(mockUploads.get(attachment._id)!.data.length).toBe(encryptedFileSize(data.length));
+    expect(Buffer.compare(await attachmentManager.downloadData(attachment), data)).toBe(0);
+  });
+
+  test('should refuse downloads that do not match the checksum', async () => {
+    const data = nacl.randomBytes(5000);
+    const attachment = await attachmentManager.upload(
+      bytesSource(data, 'notes.txt', 'text/plain'),
+      origin
+    );
+
+    await expect(
+      attachmentManager.downloadData({ ...attachment, checksum: '00'.repeat(64) })
+    ).rejects.toThrow('Attachment checksum mismatch');
+
+    // A server that alters the stored file is caught as well
+    mockUploads.get(attachment._id)!.data[100] ^= 1;
+    await expect(attachmentManager.downloadData(attachment)).rejects.toThrow();
+  });
+
+  test('should carry attachments inside the message body', async () => {
+    const attachment = await attachmentManager.upload(
+      bytesSource(nacl.randomBytes(10), 'a.bin', 'application/octet-stream'),
+      origin
+    );
+
+    const body = encodeMessageBody('See attached', [attachment]);
+
+    expect(decodeMessageBody(body)).toEqual({
+      content: 'See attached',
+      attachments: [attachment],
+    });
+    expect(encodeMessageBody('Hello')).toBe('Hello');
+    expect(decodeMessageBody('{"type":"text"}')).toEqual({
+      content: '{"type":"text"}',
+      attachments: [],
+    });
+  });
+
+  test('should carry replies and edit history inside the message body', () => {
+    const replyTo = {
+      messageId: 'm1',
+      senderId: 'bob',
+      senderName: 'Bob',
+      preview: 'Lunch?',
+    };
+    const edits = [{ content: 'Sure', createdAt: '2026-01-01T12:00:00.000Z' }];
+
+    const body = encodeMessageBody('Sure, at noon', [], { replyTo, edits });
+
+    expect(decodeMessageBody(body)).toEqual({
+      content: 'Sure, at noon',
+      attachments: [],
+      replyTo,
+      edits,
+    });
+    expect(encodeMessageBody('Hello', [], { edits: [] })).toBe('Hello');
+
+    // Malformed extras are dropped
+    expect(
+      decodeMessageBody(
+        JSON.stringify({
+          type: 'attachments',
+          version: 1,
+          text: 'Hi',
+          attachments: [],
+          replyTo: { messageId: 1 },
+          edits: [{ content: 'Hey' }],
+        })
+      )
+    ).toEqual({ content: 'Hi', attachments: [], edits: [] });
+  });
+
+  test('should carry rich messages inside the message body', () => {
+    const rich = {
+      type: 'location' as const,
+      location: { latitude: 48.8566, longitude: 2.3522, accuracy: 12 },
+    };
+
+    const body = encodeMessageBody('📍 Location', [], { rich });
+
+    expect(decodeMessageBody(body)).toEqual({
+      content: '📍 Location',
+      attachments: [],
+      rich,
+    });
+
+    // Clients that do not know the rich message still read its text
+    expect(JSON.parse(body).text).toBe('📍 Location');
+    expect(
+      decodeMessageBody(
+        JSON.stringify({
+          type: 'attachments',
+          version: 1,
+          text: 'Hi',
+          attachments: [],
+          rich: { type: 'location', location: { latitude: 'here' } },
+        })
+      )
+    ).toEqual({ content: 'Hi', attachments: [] });
+  });
+});
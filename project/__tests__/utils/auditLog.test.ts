@@ -0,0 +1,94 @@
+import util from 'tweetnacl-util';
+import { auditLog, AuditEntry } from '../../utils/auditLog';
+import { SealedRecords } from '../../utils/sealedRecords';
+import { secureStorage, storage } from '../../utils/storage';
+
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+// The log's pages, as someone holding its key could rewrite them
+const pages = new SealedRecords({
+  name: 'audit_log',
+  context: 'SecuriComm/audit-log',
+  label: 'Audit log',
+});
+
+const appendMany = async (count: number) => {
+  for (let i = 0; i < count; i++) {
+    await auditLog.append('auth', 'login', `Sign-in ${i}`);
+  }
+};
+
+describe('Audit log', () => {
+  beforeEach(async () => {
+    await secureStorage.clear();
+    auditLog.clearMemoryAudit();
+    pages.clearMemoryKey();
+  });
+
+  test('should chain entries and page them newest first', async () => {
+    const first = await auditLog.append('key', 'key_rotated', 'Key rotated', {
+      severity: 'medium',
+      details: { keyId: 'k1', version: 2 },
+    });
+    await appendMany(59);
+
+    expect(first).toMatchObject({ seq: 0, severity: 'medium', details: { keyId: 'k1', version: 2 } });
+
+    const page1 = await auditLog.getPage(25, 1);
+    expect(page1.total).toBe(60);
+    expect(page1.hasMore).toBe(true);
+    expect(page1.entries.map((entry) => entry.seq).slice(0, 3)).toEqual([59, 58, 57]);
+    expect(page1.entries[0].prevHash).toBe(page1.entries[1].hash);
+
+    const page3 = await auditLog.getPage(25, 3);
+    expect(page3.entries).toHaveLength(10);
+    expect(page3.hasMore).toBe(false);
+    expect(page3.entries[9].hash).toBe(first!.hash);
+
+    expect(await auditLog.verify()).toMatchObject({ valid: true, checked: 60, brokenAt: null });
+  });
+
+  test('should notice a changed entry', async () => {
+    await appendMany(5);
+
+    const stored = await pages.read<AuditEntry[]>('page.0');
+    stored![2].description = 'Nothing happened';
+    await pages.write('page.0', stored);
+
+    expect(await auditLog.verify()).toMatchObject({
+      valid: false,
+      checked: 2,
+      brokenAt: 2,
+      reason: 'Entry was changed',
+    });
+  });
+
+  test('should notice removed or reordered entries', async () => {
+    await appendMany(4);
+    const stored = (await pages.read<AuditEntry[]>('page.0'))!;
+
+    await pages.write('page.0', [stored[0], stored[2], stored[1], stored[3]]);
+    expect(await auditLog.verify()).toMatchObject({ valid: false, brokenAt: 1 });
+
+    // Cutting off the newest entry leaves the head behind
+    await pages.write('page.0', stored.slice(0, 3));
+    expect(await auditLog.verify()).toMatchObject({ valid: false, brokenAt: 3, reason: 'Entry is missing' });
+
+    await pages.write('page.0', stored);
+    await secureStorage.removeItem('audit_log_head');
+    expect(await auditLog.verify()).toMatchObject({ valid: false, reason: 'Log head is missing' });
+  });
+
+  test('should notice pages changed without the key', async () => {
+    await appendMany(3);
+    await storage.setItem('audit_log.page.0', util.encodeBase64(new Uint8Array(64)));
+
+    expect(await auditLog.verify()).toMatchObject({
+      valid: false,
+      brokenAt: 0,
+      reason: 'Page failed authentication',
+    });
+  });
+});
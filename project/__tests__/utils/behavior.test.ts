@@ -0,0 +1,116 @@
+import { behavior, BehaviorFactor } from '../../utils/behavior';
+import { secureStorage, StorageKeys } from '../../utils/storage';
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+jest.mock('../../utils/devices', () => ({
+  devices: {
+    getLinkedDevices: jest.fn(),
+  },
+}));
+
+const mockGetLinkedDevices: jest.Mock = jest.requireMock('../../utils/devices').devices
+  .getLinkedDevices;
+
+const device = (deviceId: string, name: string, current = false) => ({
+  deviceId,
+  name,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  lastSeenAt: '2026-01-01T00:00:00.000Z',
+  current,
+});
+
+// Local time on a day in January 2026
+const at = (day: number, hour: number, minute = 0, second = 0) =>
+  new Date(2026, 0, day, hour, minute, second).getTime();
+
+const factorOf = (factors: BehaviorFactor[], id: BehaviorFactor['id']) =>
+  factors.find((factor) => factor.id === id)!;
+
+describe('Behaviour monitor', () => {
+  beforeEach(async () => {
+    await secureStorage.clear();
+    await secureStorage.setItem(StorageKeys.USER_ID, 'alice');
+    behavior.clearMemoryBehavior();
+    mockGetLinkedDevices.mockReset();
+    mockGetLinkedDevices.mockResolvedValue([device('phone', 'Phone', true)]);
+  });
+
+  test('should learn usual sign-in times before judging them', async () => {
+    // Alice signs in around 9 in the morning
+    for (let day = 1; day <= 10; day++) {
+      await behavior.record('login', at(day, 9, day));
+    }
+
+    let assessment = await behavior.assess(at(10, 10));
+    expect(assessment.learning).toBe(true);
+    expect(factorOf(assessment.factors, 'login_time').score).toBe(0);
+
+    await behavior.record('login', at(11, 9));
+    assessment = await behavior.assess(at(11, 10));
+    expect(factorOf(assessment.factors, 'login_time')).toMatchObject({ score: 0, observed: 9 });
+
+    await behavior.record('login', at(12, 3));
+    const loginTime = factorOf((await behavior.assess(at(12, 3, 30))).factors, 'login_time');
+
+    expect(loginTime).toMatchObject({
+      factor: 'timeBasedThreats',
+      score: 6,
+      observed: 3,
+      expected: 9,
+    });
+    expect(loginTime.explanation).toContain('03:00');
+  });
+
+  test('should score a burst of messages against the usual sending rate', async () => {
+    // Two messages a minute during 30 active minutes
+    for (let minute = 0; minute < 30; minute++) {
+      await behavior.record('message_sent', at(1, 12, minute, 10));
+      await behavior.record('message_sent', at(1, 12, minute, 40));
+    }
+
+    let sendRate = factorOf((await behavior.assess(at(1, 12, 29, 50))).factors, 'send_rate');
+    expect(sendRate).toMatchObject({ score: 0, observed: 2, expected: 2 });
+
+    for (let second = 0; second < 20; second++) {
+      await behavior.record('message_sent', at(1, 12, 31, second));
+    }
+
+    sendRate = factorOf((await behavior.assess(at(1, 12, 31, 30))).factors, 'send_rate');
+    expect(sendRate.factor).toBe('behaviorPattern');
+    expect(sendRate.observed).toBe(20);
+    expect(sendRate.score).toBe(10);
+  });
+
+  test('should report new devices and repeated failed sign-ins', async () => {
+    // The first check only learns the account's devices
+    await behavior.record('login', at(1, 9));
+    let assessment = await behavior.assess(at(1, 9, 5));
+    expect(factorOf(assessment.factors, 'new_device').score).toBe(0);
+
+    mockGetLinkedDevices.mockResolvedValue([
+      device('phone', 'Phone', true),
+      device('tablet', 'Unknown tablet'),
+    ]);
+    await behavior.record('login', at(1, 10));
+
+    // Failed sign-ins are kept for the device, even when nobody is signed in
+    await secureStorage.removeItem(StorageKeys.USER_ID);
+    behavior.clearMemoryBehavior();
+    for (let i = 0; i < 4; i++) {
+      await behavior.record('auth_failed', at(1, 10, 1, i));
+    }
+
+    await secureStorage.setItem(StorageKeys.USER_ID, 'alice');
+    assessment = await behavior.assess(at(1, 10, 5));
+
+    expect(factorOf(assessment.factors, 'new_device')).toMatchObject({ score: 5, observed: 1 });
+    expect(factorOf(assessment.factors, 'new_device').explanation).toContain('Unknown tablet');
+    expect(factorOf(assessment.factors, 'failed_auth')).toMatchObject({ score: 8, observed: 4 });
+
+    // Both are forgotten once they are old
+    assessment = await behavior.assess(at(2, 11));
+    expect(factorOf(assessment.factors, 'new_device').score).toBe(0);
+    expect(factorOf(assessment.factors, 'failed_auth').score).toBe(0);
+  });
+});
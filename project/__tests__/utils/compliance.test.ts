@@ -0,0 +1,137 @@
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+jest.mock('../../utils/encryption', () => ({
+  getKeyPair: jest.fn(async () => ({ publicKey: 'public', privateKey: 'private' })),
+}));
+
+jest.mock('../../utils/prekeys', () => ({
+  isSignedPrekeyCurrent: jest.fn(async () => true),
+}));
+
+jest.mock('../../utils/auditLog', () => ({
+  auditLog: {
+    verify: jest.fn(async () => ({ valid: true, checked: 4, brokenAt: null, verifiedAt: 0 })),
+  },
+}));
+
+jest.mock('../../utils/security', () => ({
+  securityEngine: {
+    getSecurityHistory: jest.fn(() => [{ isSecure: true, score: 100, checkedAt: Date.now() }]),
+    getThreatHistory: jest.fn(() => []),
+  },
+}));
+
+jest.mock('../../utils/disappearing', () => ({
+  disappearing: {
+    getRetentionDays: jest.fn(() => null),
+  },
+}));
+
+jest.mock('../../utils/deviceProtection', () => ({
+  deviceProtection: {
+    getState: jest.fn(() => ({ screenCaptureBlocked: true, biometricLock: true, isLocked: false })),
+  },
+}));
+
+import { ComplianceState, assessCompliance, evaluateCompliance } from '../../utils/compliance';
+
+const mockVerify: jest.Mock = jest.requireMock('../../utils/auditLog').auditLog.verify;
+const mockGetRetentionDays: jest.Mock =
+  jest.requireMock('../../utils/disappearing').disappearing.getRetentionDays;
+const mockGetProtection: jest.Mock =
+  jest.requireMock('../../utils/deviceProtection').deviceProtection.getState;
+const mockGetSecurityHistory: jest.Mock =
+  jest.requireMock('../../utils/security').securityEngine.getSecurityHistory;
+const mockGetThreatHistory: jest.Mock =
+  jest.requireMock('../../utils/security').securityEngine.getThreatHistory;
+
+const passingState: ComplianceState = {
+  identityKeys: true,
+  signedPrekeyCurrent: true,
+  retentionDays: 30,
+  auditLog: { valid: true, checked: 4, brokenAt: null, verifiedAt: 0 },
+  screenCaptureBlocked: true,
+  biometricLock: true,
+  deviceSecure: true,
+  lastScanAt: Date.now(),
+};
+
+describe('Compliance rules', () => {
+  test('should only report a framework as met when every control passes', () => {
+    const status = evaluateCompliance(passingState);
+
+    Object.values(status).forEach((result) => {
+      expect(result.status).toBe('compliant');
+      expect(result.passed).toBe(result.total);
+    });
+
+    const partial = evaluateCompliance({ ...passingState, retentionDays: null, deviceSecure: null });
+
+    expect(partial.gdpr).toMatchObject({ status: 'partial', passed: 3, total: 4 });
+    expect(partial.gdpr.controls.find((control) => control.id === 'data_retention')).toMatchObject({
+      passed: false,
+      remediation: expect.stringContaining('Auto-Delete'),
+    });
+    expect(partial.hipaa.status).toBe('partial');
+    expect(partial.hipaa.controls.filter((control) => control.remediation)).toHaveLength(1);
+  });
+
+  test('should report nothing met without keys, retention or an intact audit log', () => {
+    const status = evaluateCompliance({
+      ...passingState,
+      identityKeys: false,
+      retentionDays: null,
+      auditLog: { valid: false, checked: 2, brokenAt: 2, reason: 'Entry was changed', verifiedAt: 0 },
+    });
+
+    expect(status.ccpa).toMatchObject({ status: 'non_compliant', passed: 0 });
+  });
+
+  test('should check the protections in force and audit log of this device', async () => {
+    let status = await assessCompliance();
+
+    // Nothing removes old messages until auto-delete is on
+    expect(status.ccpa.status).toBe('partial');
+    expect(status.soc2.status).toBe('compliant');
+
+    // Switches that are on but not in force do not count
+    mockGetRetentionDays.mockReturnValueOnce(30);
+    mockGetProtection.mockReturnValueOnce({
+      screenCaptureBlocked: false,
+      biometricLock: false,
+      isLocked: false,
+    });
+    mockVerify.mockResolvedValueOnce({ valid: false, checked: 1, brokenAt: 1, verifiedAt: 0 });
+    status = await assessCompliance();
+
+    expect(status.gdpr.controls.map((control) => [control.id, control.passed])).toEqual([
+      ['encryption', true],
+      ['data_retention', true],
+      ['audit_log', false],
+      ['screen_security', false],
+    ]);
+    expect(status.hipaa.controls.find((control) => control.id === 'biometric_auth')).toMatchObject({
+      passed: false,
+      remediation: expect.stringContaining('Enroll'),
+    });
+  });
+
+  test('should only count threat monitoring while scans are recent', async () => {
+    const monitoring = (status: ReturnType<typeof evaluateCompliance>) =>
+      status.soc2.controls.find((control) => control.id === 'threat_monitoring')!;
+
+    expect(monitoring(evaluateCompliance({ ...passingState, lastScanAt: null })).passed).toBe(false);
+    expect(
+      monitoring(evaluateCompliance({ ...passingState, lastScanAt: Date.now() - 2 * 24 * 60 * 60 * 1000 }))
+    ).toMatchObject({ passed: false, remediation: expect.stringContaining('security scan') });
+
+    // The latest of the last security check and threat analysis counts
+    const old = Date.now() - 2 * 24 * 60 * 60 * 1000;
+    mockGetSecurityHistory.mockReturnValueOnce([{ isSecure: true, score: 100, checkedAt: old }]);
+    mockGetThreatHistory.mockReturnValueOnce([{ level: 0, lastScan: Date.now() }]);
+    expect(monitoring(await assessCompliance()).passed).toBe(true);
+
+    mockGetSecurityHistory.mockReturnValueOnce([]);
+    expect(monitoring(await assessCompliance()).passed).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+jest.mock('expo-screen-capture', () => ({
+  isAvailableAsync: jest.fn(async () => true),
+  preventScreenCaptureAsync: jest.fn(async () => {}),
+  allowScreenCaptureAsync: jest.fn(async () => {}),
+}));
+
+jest.mock('../../utils/auditLog', () => ({
+  auditLog: {
+    append: jest.fn(async () => {}),
+  },
+}));
+
+import * as ScreenCapture from 'expo-screen-capture';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { deviceProtection } from '../../utils/deviceProtection';
+import { auditLog } from '../../utils/auditLog';
+
+const mockIsAvailable = ScreenCapture.isAvailableAsync as jest.Mock;
+const mockIsEnrolled = LocalAuthentication.isEnrolledAsync as jest.Mock;
+const mockAuthenticate = LocalAuthentication.authenticateAsync as jest.Mock;
+
+describe('Device protection', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await deviceProtection.apply({ screenSecurity: false, biometricAuth: false });
+  });
+
+  test('should block screen capture while screen security is on', async () => {
+    let state = await deviceProtection.apply({ screenSecurity: true, biometricAuth: false });
+
+    expect(state.screenCaptureBlocked).toBe(true);
+    expect(ScreenCapture.preventScreenCaptureAsync).toHaveBeenCalled();
+
+    state = await deviceProtection.apply({ screenSecurity: false, biometricAuth: false });
+
+    expect(state.screenCaptureBlocked).toBe(false);
+    expect(ScreenCapture.allowScreenCaptureAsync).toHaveBeenCalled();
+  });
+
+  test('should not report screen capture as blocked where it cannot be', async () => {
+    mockIsAvailable.mockResolvedValueOnce(false);
+
+    const state = await deviceProtection.apply({ screenSecurity: true, biometricAuth: false });
+
+    expect(state.screenCaptureBlocked).toBe(false);
+    expect(ScreenCapture.preventScreenCaptureAsync).not.toHaveBeenCalled();
+  });
+
+  test('should only lock the app with enrolled biometrics', async () => {
+    mockIsEnrolled.mockResolvedValueOnce(false);
+
+    let state = await deviceProtection.apply({ screenSecurity: false, biometricAuth: true });
+    deviceProtection.lock();
+
+    expect(state.biometricLock).toBe(false);
+    expect(deviceProtection.getState().isLocked).toBe(false);
+
+    state = await deviceProtection.apply({ screenSecurity: false, biometricAuth: true });
+    deviceProtection.lock();
+
+    expect(state.biometricLock).toBe(true);
+    expect(deviceProtection.getState().isLocked).toBe(true);
+  });
+
+  test('should stay locked until biometrics match', async () => {
+    await deviceProtection.apply({ screenSecurity: false, biometricAuth: true });
+    deviceProtection.lock();
+
+    mockAuthenticate.mockResolvedValueOnce({ success: false, error: 'user_cancel' });
+
+    expect(await deviceProtection.unlock()).toBe(false);
+    expect(deviceProtection.getState().isLocked).toBe(true);
+    expect(auditLog.append).toHaveBeenCalledWith(
+      'auth',
+      'biometric_unlock_failed',
+      expect.any(String),
+      expect.objectContaining({ details: { error: 'user_cancel' } })
+    );
+
+    expect(await deviceProtection.unlock()).toBe(true);
+    expect(deviceProtection.getState().isLocked).toBe(false);
+  });
+});
@@ -0,0 +1,258 @@
+import util from 'tweetnacl-util';
+import type { LinkRequest } from '../../utils/provisioning';
+import { loadModules } from '../helpers/devices';
+import {
+  jsonResponse,
+  mockFetch,
+  mockKeysRoute,
+  MockRoute,
+  PublishedBundle,
+} from '../helpers/server';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage; signed-in devices use `user:device` tokens
+let mockUserId = '';
+let mockDeviceId = '';
+
+jest.mock('../../utils/storage', () => {
+  const { StorageKeys } = jest.requireActual('../../utils/storage');
+  const items = new Map<string, string>([[StorageKeys.DEVICE_ID, mockDeviceId]]);
+
+  if (mockUserId) {
+    items.set(StorageKeys.AUTH_TOKEN, `${mockUserId}:${mockDeviceId}`);
+    items.set(StorageKeys.USER_ID, mockUserId);
+  }
+
+  return require('../helpers/mocks').mockStorage(items);
+});
+
+// Local mock of the server's /keys and /devices routes
+type ProvisioningSession = {
+  owner: string;
+  status: 'pending' | 'requested' | 'approved';
+  request?: LinkRequest & { mac: string; claimHash: string };
+  result?: { nonce: string; ciphertext: string; token: string };
+};
+
+const mockBundles = new Map<string, PublishedBundle>();
+const mockDevices = new Map<string, string[]>();
+const mockProvisioning = new Map<string, ProvisioningSession>();
+
+const mockDevicesRoute: MockRoute = ({ method, path, token, body }) => {
+  const [userId] = token.split(':');
+
+  // Bundles are only handed out for devices of the account
+  const bundleMatch = path.match(/^\/keys\/bundle\/(\w+)\/(\w+)$/);
+
+  if (method === 'GET' && bundleMatch) {
+    const isListed = (mockDevices.get(bundleMatch[1]) || []).includes(bundleMatch[2]);
+
+    return isListed ? undefined : jsonResponse(404, { error: 'Device not found' });
+  }
+
+  const devicesMatch = path.match(/^\/devices\/user\/(\w+)$/);
+
+  if (method === 'GET' && devicesMatch) {
+    return jsonResponse(200, { success: true, deviceIds: mockDevices.get(devicesMatch[1]) || [] });
+  }
+
+  if (method === 'POST' && path === '/devices/provisioning') {
+    const provisioningId = 'a'.repeat(31) + mockProvisioning.size;
+
+    mockProvisioning.set(provisioningId, { owner: userId, status: 'pending' });
+
+    return jsonResponse(201, {
+      success: true,
+      provisioningId,
+      expiresAt: new Date(Date.now() + 600000).toISOString(),
+    });
+  }
+
+  const provisioningMatch = path.match(/^\/devices\/provisioning\/(\w+)(?:\/(\w+))?$/);
+
+  if (provisioningMatch) {
+    const session = mockProvisioning.get(provisioningMatch[1])!;
+    const action = provisioningMatch[2];
+
+    if (action === 'request') {
+      session.request = body as ProvisioningSession['request'];
+      session.status = 'requested';
+      return jsonResponse(202, { success: true });
+    }
+
+    if (!action) {
+      return jsonResponse(200, { success: true, status: session.status, request: session.request });
+    }
+
+    if (action === 'approve') {
+      const { nonce, ciphertext } = body as { nonce: string; ciphertext: string };
+
+      session.result = { nonce, ciphertext, token: `${session.owner}:${session.request!.deviceId}` };
+      session.status = 'approved';
+      mockDevices.get(session.owner)!.push(session.request!.deviceId);
+      return jsonResponse(200, { success: true });
+    }
+
+    if (action === 'result') {
+      const { claim } = body as { claim: string };
+      const claimHash = util.encodeBase64(
+        require('tweetnacl').hash(util.decodeUTF8(claim)).slice(0, 32)
+      );
+
+      if (claimHash !== session.request!.claimHash) {
+        return jsonResponse(404, { error: 'Link code expired' });
+      }
+
+      return jsonResponse(200, {
+        success: true,
+        status: session.status,
+        userId: session.owner,
+        ...session.result,
+      });
+    }
+  }
+
+  return undefined;
+};
+
+type Device = {
+  storage: typeof import('../../utils/storage');
+  encryption: typeof import('../../utils/encryption');
+  keyAgreement: typeof import('../../utils/keyAgreement');
+  prekeys: typeof import('../../utils/prekeys');
+  ratchet: typeof import('../../utils/ratchet');
+  devices: typeof import('../../utils/devices').devices;
+  provisioning: typeof import('../../utils/provisioning');
+};
+
+// Load a separate copy of the modules for each device
+const loadDevice = (userId: string, deviceId: string): Device => {
+  mockUserId = userId;
+  mockDeviceId = deviceId;
+
+  return loadModules(() => ({
+    storage: require('../../utils/storage'),
+    encryption: require('../../utils/encryption'),
+    keyAgreement: require('../../utils/keyAgreement'),
+    prekeys: require('../../utils/prekeys'),
+    ratchet: require('../../utils/ratchet'),
+    devices: require('../../utils/devices').devices,
+    provisioning: require('../../utils/provisioning'),
+  }));
+};
+
+// A device registered with its own account
+const createAccount = async (userId: string): Promise<Device> => {
+  const device = loadDevice(userId, 'phone');
+
+  mockDevices.set(userId, ['phone']);
+  await device.keyAgreement.ensureIdentityKeyPair();
+  await device.keyAgreement.ensureSigningKeyPair();
+  await device.prekeys.replenishPrekeys();
+
+  return device;
+};
+
+// A new install linked to the account of a signed-in device
+const linkDevice = async (primary: Device, deviceId: string): Promise<Device> => {
+  const device = loadDevice('', deviceId);
+  const offer = await primary.provisioning.createProvisioningOffer();
+  const pending = await device.provisioning.requestDeviceLink(offer.qrData);
+
+  const request = await primary.provisioning.checkLinkRequest(offer);
+  await primary.provisioning.approveLinkRequest(offer, request!);
+
+  const result = await device.provisioning.checkDeviceLink(pending);
+
+  // What signing in with the token does
+  await device.storage.secureStorage.setItem(device.storage.StorageKeys.AUTH_TOKEN, result!.token);
+  await device.storage.secureStorage.setItem(device.storage.StorageKeys.USER_ID, result!.userId);
+  await device.prekeys.replenishPrekeys();
+
+  return device;
+};
+
+const identityOf = async (device: Device) => (await device.encryption.getKeyPair())!.publicKey;
+
+describe('Linked devices', () => {
+  let alice: Device;
+  let bob: Device;
+
+  beforeEach(async () => {
+    mockBundles.clear();
+    mockDevices.clear();
+    mockProvisioning.clear();
+    global.fetch = mockFetch(mockDevicesRoute, mockKeysRoute(mockBundles));
+
+    alice = await createAccount('alice');
+    bob = await createAccount('bob');
+  });
+
+  test('should hand the identity to a linked device', async () => {
+    const laptop = await linkDevice(alice, 'laptop');
+
+    expect(await identityOf(laptop)).toBe(await identityOf(alice));
+    expect(await laptop.encryption.getSigningKeyPair()).toEqual(
+      await alice.encryption.getSigningKeyPair()
+    );
+    expect(mockDevices.get('alice')).toEqual(['phone', 'laptop']);
+
+    // The server only ever relayed ciphertext
+    const session = [...mockProvisioning.values()][0];
+    const privateKey = (await alice.encryption.getKeyPair())!.privateKey;
+    expect(JSON.stringify(session)).not.toContain(privateKey);
+  });
+
+  test('should refuse a link request altered by the server', async () => {
+    const laptop = loadDevice('', 'laptop');
+    const offer = await alice.provisioning.createProvisioningOffer();
+
+    await laptop.provisioning.requestDeviceLink(offer.qrData);
+
+    // Swap in a key the server controls
+    const session = mockProvisioning.get(offer.provisioningId)!;
+    session.request!.deviceKey = offer.publicKey;
+
+    await expect(alice.provisioning.checkLinkRequest(offer)).rejects.toThrow(
+      'Link request did not come from the scanning device'
+    );
+  });
+
+  test('should fan messages out to every device except revoked ones', async () => {
+    const laptop = await linkDevice(alice, 'laptop');
+    const aliceKey = await identityOf(alice);
+    const bobKey = await identityOf(bob);
+    const members = [
+      { _id: 'alice', publicKey: aliceKey },
+      { _id: 'bob', publicKey: bobKey },
+    ];
+
+    const fromBob = await bob.ratchet.encryptForPeers(members, 'Hi Alice');
+
+    expect(Object.keys(JSON.parse(fromBob!).ciphertexts).sort()).toEqual([
+      'alice.laptop',
+      'alice.phone',
+    ]);
+    expect(await alice.ratchet.decryptFromPeer('bob', bobKey, fromBob!)).toBe('Hi Alice');
+    expect(await laptop.ratchet.decryptFromPeer('bob', bobKey, fromBob!)).toBe('Hi Alice');
+
+    // Our own other devices get a copy of what we send
+    const fromAlice = await alice.ratchet.encryptForPeers(members, 'Hi Bob');
+
+    expect(await bob.ratchet.decryptFromPeer('alice', aliceKey, fromAlice!)).toBe('Hi Bob');
+    expect(await laptop.ratchet.decryptFromPeer('alice', aliceKey, fromAlice!)).toBe('Hi Bob');
+
+    // Once revoked, the laptop is left out
+    mockDevices.set('alice', ['phone']);
+    bob.devices.clearMemoryDevices();
+
+    const afterRevoke = await bob.ratchet.encryptForPeers(members, 'Still there?');
+
+    expect(Object.keys(JSON.parse(afterRevoke!).ciphertexts)).toEqual(['alice.phone']);
+    await expect(
+      laptop.ratchet.decryptFromPeer('bob', bobKey, afterRevoke!)
+    ).rejects.toThrow('Message was not encrypted for this device');
+  });
+});
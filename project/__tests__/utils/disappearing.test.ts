@@ -0,0 +1,209 @@
+import {
+  disappearing,
+  formatMessageTimer,
+  formatDataRetention,
+  getExpiresAt,
+  isExpired,
+  ExpiredMessage,
+} from '../../utils/disappearing';
+import { messageStore } from '../../utils/messageStore';
+import { attachmentManager } from '../../utils/attachments';
+import { updateDeviceSettings } from '../../utils/deviceSettings';
+import { secureStorage, storage, StorageKeys } from '../../utils/storage';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('expo-file-system', () => ({}));
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+const makeMessage = (id: string, createdAt: number, expiresAt?: number) => ({
+  _id: id,
+  conversationId: 'c1',
+  content: `message ${id}`,
+  createdAt: new Date(createdAt).toISOString(),
+  updatedAt: new Date(createdAt).toISOString(),
+  expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+  attachments: [{ _id: `file-${id}` }],
+});
+
+const makeAttachment = (id: string) => ({
+  _id: id,
+  name: `${id}.txt`,
+  type: 'text/plain',
+  size: 1,
+  key: '',
+  checksum: '',
+});
+
+describe('Disappearing messages', () => {
+  beforeEach(async () => {
+    disappearing.clearMemoryExpiry();
+    attachmentManager.clearMemoryFiles();
+    await storage.removeItem('message_expiry.entries');
+    await secureStorage.removeItem(StorageKeys.SETTINGS);
+  });
+
+  afterEach(() => {
+    disappearing.clearMemoryExpiry();
+  });
+
+  test('should label timers', () => {
+    expect(formatMessageTimer(0)).toBe('Off');
+    expect(formatMessageTimer(undefined)).toBe('Off');
+    expect(formatMessageTimer(30)).toBe('30s');
+    expect(formatMessageTimer(5 * 60)).toBe('5m');
+    expect(formatMessageTimer(8 * 60 * 60)).toBe('8h');
+    expect(formatMessageTimer(24 * 60 * 60)).toBe('1d');
+    expect(formatMessageTimer(28 * 24 * 60 * 60)).toBe('4w');
+    expect(formatDataRetention(1)).toBe('1 day');
+    expect(formatDataRetention(30)).toBe('30 days');
+    expect(formatDataRetention(365)).toBe('1 year');
+  });
+
+  test('should work out when messages disappear', () => {
+    const timerSetAt = Date.UTC(2026, 0, 1);
+    const settings = {
+      messageTimer: 60,
+      messageTimerUpdatedAt: new Date(timerSetAt).toISOString(),
+    };
+
+    // The server's expiry wins
+    expect(getExpiresAt(makeMessage('a', timerSetAt, timerSetAt + 5000), settings)).toBe(
+      new Date(timerSetAt + 5000).toISOString()
+    );
+
+    // Messages sent under the timer disappear after it
+    expect(getExpiresAt(makeMessage('b', timerSetAt + 1000), settings)).toBe(
+      new Date(timerSetAt + 61000).toISOString()
+    );
+
+    // Messages sent before the timer was set are kept
+    expect(getExpiresAt(makeMessage('c', timerSetAt - 1000), settings)).toBeUndefined();
+    expect(getExpiresAt(makeMessage('d', timerSetAt + 1000), { messageTimer: 0 })).toBeUndefined();
+
+    expect(isExpired({ expiresAt: new Date(Date.now() - 1).toISOString() })).toBe(true);
+    expect(isExpired({ expiresAt: new Date(Date.now() + 60000).toISOString() })).toBe(false);
+    expect(isExpired({})).toBe(false);
+  });
+
+  test('should remove expired messages and their files', async () => {
+    const now = Date.now();
+    const gone = makeMessage('gone', now - 10000, now - 1000);
+    const kept = makeMessage('kept', now - 10000, now + 60 * 60 * 1000);
+    const plain = makeMessage('plain', now - 10000);
+
+    await messageStore.putMessages('c1', [gone, kept, plain]);
+    await attachmentManager.recordFiles(
+      [makeAttachment('file-gone'), makeAttachment('file-kept')],
+      { conversationId: 'c1', uploaderId: 'alice', uploadedBy: 'Alice', sharedWith: ['alice'] }
+    );
+
+    const expired: ExpiredMessage[] = [];
+    const unsubscribe = disappearing.onExpired((messages) => expired.push(...messages));
+
+    await disappearing.track('c1', [gone, kept, plain]);
+    unsubscribe();
+
+    expect(expired).toEqual([{ conversationId: 'c1', messageId: 'gone' }]);
+    expect((await messageStore.getMessages('c1', 10)).map((m) => m._id).sort()).toEqual([
+      'kept',
+      'plain',
+    ]);
+    expect((await attachmentManager.getFiles()).map((file) => file.id)).toEqual(['file-kept']);
+  });
+
+  test('should remove messages that expired while the app was closed', async () => {
+    const now = Date.now();
+    const message = makeMessage('later', now - 10000, now + 60 * 60 * 1000);
+
+    await messageStore.putMessages('c1', [message]);
+    await disappearing.track('c1', [message]);
+
+    // The app restarts after the message expired
+    disappearing.clearMemoryExpiry();
+    messageStore.clearMemoryMessages();
+
+    const realNow = Date.now;
+    Date.now = () => now + 2 * 60 * 60 * 1000;
+
+    try {
+      const expired: ExpiredMessage[] = [];
+      const unsubscribe = disappearing.onExpired((messages) => expired.push(...messages));
+
+      await disappearing.start();
+      unsubscribe();
+
+      expect(expired).toEqual([{ conversationId: 'c1', messageId: 'later' }]);
+      expect(await messageStore.getMessage('c1', 'later')).toBeNull();
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test('should remember every expiring message, however many there are', async () => {
+    const now = Date.now();
+    const messages = Array.from({ length: 25 }, (_, i) =>
+      makeMessage(`many-${i}`, now - 10000, now + 60 * 60 * 1000 + i)
+    );
+
+    await messageStore.putMessages('c1', messages);
+
+    for (const message of messages) {
+      await disappearing.track('c1', [message]);
+    }
+
+    // The app restarts after the messages expired
+    disappearing.clearMemoryExpiry();
+    messageStore.clearMemoryMessages();
+
+    const realNow = Date.now;
+    Date.now = () => now + 2 * 60 * 60 * 1000;
+
+    try {
+      const expired = await disappearing.sweep();
+
+      expect(expired.map((item) => item.messageId).sort()).toEqual(
+        messages.map((message) => message._id).sort()
+      );
+      expect(await messageStore.getMessage('c1', 'many-0')).toBeNull();
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test('should remove messages past the retention period when auto-delete is on', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const old = { ...makeMessage('old', now - 8 * day), conversationId: 'c2' };
+    const recent = makeMessage('recent', now - day);
+
+    await messageStore.putMessages('c2', [old]);
+    await messageStore.putMessages('c1', [recent]);
+    await attachmentManager.recordFiles(
+      [makeAttachment('file-old'), makeAttachment('file-recent')],
+      { conversationId: 'c1', uploaderId: 'alice', uploadedBy: 'Alice', sharedWith: ['alice'] }
+    );
+
+    // Nothing is removed while auto-delete is off
+    expect(await disappearing.sweep()).toEqual([]);
+    expect(disappearing.isPastRetention(old)).toBe(false);
+    expect(disappearing.getRetentionDays()).toBeNull();
+
+    await updateDeviceSettings({ autoDelete: true, dataRetention: 7 });
+
+    expect(await disappearing.sweep()).toEqual([{ conversationId: 'c2', messageId: 'old' }]);
+    expect(disappearing.getRetentionDays()).toBe(7);
+    expect(await messageStore.getMessage('c2', 'old')).toBeNull();
+    expect(await messageStore.getMessage('c1', 'recent')).not.toBeNull();
+    expect(await messageStore.search('old')).toEqual([]);
+
+    const fileIds = (await attachmentManager.getFiles()).map((file) => file.id);
+    expect(fileIds).toContain('file-recent');
+    expect(fileIds).not.toContain('file-old');
+
+    expect(disappearing.isPastRetention(old)).toBe(true);
+    expect(disappearing.isPastRetention(recent)).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import type { EnvelopeContext } from '../../utils/envelope';
+import { loadModules } from '../helpers/devices';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+type Device = {
+  envelopes: typeof import('../../utils/envelope').envelopes;
+  signingKey: string;
+};
+
+// Load a separate copy of the modules for each user
+const createDevice = async (): Promise<Device> => {
+  const { keyAgreement, envelopes } = loadModules(() => ({
+    keyAgreement: require('../../utils/keyAgreement') as typeof import('../../utils/keyAgreement'),
+    envelopes: require('../../utils/envelope').envelopes as Device['envelopes'],
+  }));
+
+  const signingKeyPair = await keyAgreement.ensureSigningKeyPair();
+
+  return { envelopes, signingKey: signingKeyPair.publicKey };
+};
+
+// Stands in for a ratchet message; the envelope does not look inside
+const payload = JSON.stringify({
+  type: 'ratchet',
+  version: 1,
+  header: { dh: 'ratchet-key', pn: 0, n: 0 },
+  nonce: 'nonce',
+  ciphertext: 'ciphertext',
+});
+
+const decrypt = async () => 'Hello Bob';
+
+describe('Message envelopes', () => {
+  let alice: Device;
+  let bob: Device;
+
+  beforeEach(async () => {
+    alice = await createDevice();
+    bob = await createDevice();
+  });
+
+  const fromAlice = (conversationId = 'conversation1'): EnvelopeContext => ({
+    conversationId,
+    senderId: 'alice',
+    signingKey: alice.signingKey,
+  });
+
+  test('should fill every encrypted content field', async () => {
+    const envelope = JSON.parse(
+      await alice.envelopes.seal('alice', 'conversation1', payload)
+    );
+
+    expect(envelope.version).toBe(1);
+    expect(envelope.content).toEqual({
+      data: payload,
+      nonce: expect.any(String),
+      algorithm: 'double-ratchet',
+      keyId: 'ratchet-key',
+      checksum: expect.any(String),
+    });
+    expect(await bob.envelopes.open(JSON.stringify(envelope), fromAlice(), decrypt)).toBe(
+      'Hello Bob'
+    );
+  });
+
+  test('should reject envelopes for another conversation or sender', async () => {
+    const envelope = await alice.envelopes.seal('alice', 'conversation1', payload);
+
+    await expect(bob.envelopes.open(envelope, fromAlice('conversation2'), decrypt)).rejects.toThrow(
+      'Envelope conversation mismatch'
+    );
+    await expect(
+      bob.envelopes.open(envelope, { ...fromAlice(), senderId: 'carol' }, decrypt)
+    ).rejects.toThrow('Envelope sender mismatch');
+  });
+
+  test('should reject tampered envelopes', async () => {
+    const envelope = JSON.parse(await alice.envelopes.seal('alice', 'conversation1', payload));
+
+    // Moving the envelope to another conversation breaks the signature
+    const moved = { ...envelope, conversationId: 'conversation2' };
+    await expect(
+      bob.envelopes.open(JSON.stringify(moved), fromAlice('conversation2'), decrypt)
+    ).rejects.toThrow('Invalid envelope signature');
+
+    const backdated = { ...envelope, timestamp: envelope.timestamp - 1000 };
+    await expect(bob.envelopes.open(JSON.stringify(backdated), fromAlice(), decrypt)).rejects.toThrow(
+      'Invalid envelope signature'
+    );
+
+    const altered = { ...envelope, content: { ...envelope.content, data: `${payload} ` } };
+    await expect(bob.envelopes.open(JSON.stringify(altered), fromAlice(), decrypt)).rejects.toThrow(
+      'Envelope checksum mismatch'
+    );
+
+    // Signed by someone other than the sender
+    await expect(
+      bob.envelopes.open(
+        JSON.stringify(envelope),
+        { ...fromAlice(), signingKey: bob.signingKey },
+        decrypt
+      )
+    ).rejects.toThrow('Invalid envelope signature');
+  });
+
+  test('should reject duplicate and replayed envelopes', async () => {
+    const envelope = await alice.envelopes.seal('alice', 'conversation1', payload);
+
+    const [first, second] = await Promise.allSettled([
+      bob.envelopes.open(envelope, fromAlice(), decrypt),
+      bob.envelopes.open(envelope, fromAlice(), decrypt),
+    ]);
+    expect(first.status).toBe('fulfilled');
+    expect(second.status).toBe('rejected');
+
+    // Still rejected once the in-memory state is gone
+    bob.envelopes.clearMemoryEnvelopes();
+    await expect(bob.envelopes.open(envelope, fromAlice(), decrypt)).rejects.toThrow(
+      'Envelope already received'
+    );
+  });
+
+  test('should allow an envelope to be retried when decryption fails', async () => {
+    const envelope = await alice.envelopes.seal('alice', 'conversation1', payload);
+
+    await expect(
+      bob.envelopes.open(envelope, fromAlice(), async () => {
+        throw new Error('Sender key not available');
+      })
+    ).rejects.toThrow('Sender key not available');
+
+    expect(await bob.envelopes.open(envelope, fromAlice(), decrypt)).toBe('Hello Bob');
+  });
+
+  test('should reject envelopes from outside the replay window', async () => {
+    const now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now');
+
+    dateNow.mockReturnValue(now - 31 * 24 * 60 * 60 * 1000);
+    const old = await alice.envelopes.seal('alice', 'conversation1', payload);
+
+    dateNow.mockReturnValue(now + 60 * 60 * 1000);
+    const future = await alice.envelopes.seal('alice', 'conversation1', payload);
+
+    dateNow.mockReturnValue(now);
+    await expect(bob.envelopes.open(old, fromAlice(), decrypt)).rejects.toThrow(
+      'Envelope has expired'
+    );
+    await expect(bob.envelopes.open(future, fromAlice(), decrypt)).rejects.toThrow(
+      'Envelope timestamp is in the future'
+    );
+
+    dateNow.mockRestore();
+  });
+
+  test('should open history of any age once per message', async () => {
+    const dateNow = jest.spyOn(Date, 'now');
+
+    dateNow.mockReturnValue(Date.now() - 365 * 24 * 60 * 60 * 1000);
+    const old = await alice.envelopes.seal('alice', 'conversation1', payload);
+    dateNow.mockRestore();
+
+    const fromHistory = (messageId: string): EnvelopeContext => ({
+      ...fromAlice(),
+      messageId,
+      fromHistory: true,
+    });
+
+    expect(await bob.envelopes.open(old, fromHistory('m1'), decrypt)).toBe('Hello Bob');
+
+    // Loading the same message again is fine, even after a restart
+    bob.envelopes.clearMemoryEnvelopes();
+    expect(await bob.envelopes.open(old, fromHistory('m1'), decrypt)).toBe('Hello Bob');
+
+    // The envelope copied into another message is a replay
+    await expect(bob.envelopes.open(old, fromHistory('m2'), decrypt)).rejects.toThrow(
+      'Envelope already received'
+    );
+    await expect(
+      bob.envelopes.open(old, { ...fromAlice(), messageId: 'm1' }, decrypt)
+    ).rejects.toThrow('Envelope has expired');
+  });
+});
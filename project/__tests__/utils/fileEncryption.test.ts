@@ -0,0 +1,184 @@
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import {
+  FILE_HEADER_LENGTH,
+  FileDecryptor,
+  FileEncryptor,
+  FileProgress,
+  encryptedFileSize,
+  encryptFileStream,
+  decryptFileStream,
+  encryptFile,
+  decryptFile,
+} from '../../utils/fileEncryption';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+const CHUNK_SIZE = 1024;
+
+const fromArray = async function* (pieces: Uint8Array[]) {
+  yield* pieces;
+};
+
+const readAll = async (stream: AsyncIterable<Uint8Array>): Promise<Uint8Array[]> => {
+  const pieces: Uint8Array[] = [];
+
+  for await (const piece of stream) {
+    pieces.push(piece);
+  }
+
+  return pieces;
+};
+
+const join = (pieces: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(pieces.reduce((size, piece) => size + piece.length, 0));
+  let offset = 0;
+
+  pieces.forEach((piece) => {
+    result.set(piece, offset);
+    offset += piece.length;
+  });
+
+  return result;
+};
+
+// Header followed by sealed chunks, kept apart so tests can rearrange them
+const encryptChunks = async (data: Uint8Array, key: string) => {
+  const encryptor = await FileEncryptor.create(key, CHUNK_SIZE);
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+
+  // An empty file still gets its final chunk
+  do {
+    const isFinal = offset + CHUNK_SIZE >= data.length;
+    chunks.push(encryptor.encryptChunk(data.subarray(offset, offset + CHUNK_SIZE), isFinal));
+    offset += CHUNK_SIZE;
+  } while (offset < data.length);
+
+  return { header: encryptor.header, chunks };
+};
+
+const decryptAll = (key: string, pieces: Uint8Array[]): Uint8Array => {
+  const decryptor = new FileDecryptor(key);
+  const plaintext = pieces.flatMap((piece) => decryptor.push(piece));
+
+  plaintext.push(decryptor.finish());
+
+  return join(plaintext);
+};
+
+describe('Chunked file encryption', () => {
+  const key = util.encodeBase64(nacl.randomBytes(32));
+  const data = nacl.randomBytes(CHUNK_SIZE * 3 + 100);
+
+  test('should round-trip a file streamed in uneven pieces', async () => {
+    const encryptProgress: FileProgress[] = [];
+    const decryptProgress: FileProgress[] = [];
+
+    // Pieces that do not line up with chunk boundaries
+    const source = [data.subarray(0, 700), data.subarray(700, 2500), data.subarray(2500)];
+    const encrypted = join(
+      await readAll(
+        encryptFileStream(
+          fromArray(source),
+          data.length,
+          key,
+          (progress) => encryptProgress.push(progress),
+          CHUNK_SIZE
+        )
+      )
+    );
+
+    expect(encrypted.length).toBe(encryptedFileSize(data.length, CHUNK_SIZE));
+    expect(encryptProgress.map((progress) => progress.processedBytes)).toEqual([
+      1024, 2048, 3072, 3172,
+    ]);
+
+    const received = [
+      encrypted.subarray(0, 10),
+      encrypted.subarray(10, 3000),
+      encrypted.subarray(3000),
+    ];
+    const decrypted = join(
+      await readAll(
+        decryptFileStream(fromArray(received), encrypted.length, key, (progress) =>
+          decryptProgress.push(progress)
+        )
+      )
+    );
+
+    expect(decrypted).toEqual(data);
+    expect(decryptProgress[decryptProgress.length - 1]).toEqual({
+      processedBytes: encrypted.length,
+      totalBytes: encrypted.length,
+    });
+  });
+
+  test('should round-trip empty files and exact chunk multiples', async () => {
+    for (const size of [0, CHUNK_SIZE, CHUNK_SIZE * 2]) {
+      const file = nacl.randomBytes(size);
+      const { header, chunks } = await encryptChunks(file, key);
+
+      expect(join([header, ...chunks]).length).toBe(encryptedFileSize(size, CHUNK_SIZE));
+      expect(decryptAll(key, [header, ...chunks])).toEqual(file);
+    }
+
+    const whole = nacl.randomBytes(200000);
+    expect(await decryptFile(await encryptFile(whole, key), key)).toEqual(whole);
+  });
+
+  test('should detect truncated streams', async () => {
+    const { header, chunks } = await encryptChunks(data, key);
+
+    // Dropping the final chunk leaves a stream that ends on a full chunk
+    expect(() => decryptAll(key, [header, ...chunks.slice(0, -1)])).toThrow(
+      'Encrypted file is truncated'
+    );
+
+    // Cutting into the final chunk
+    const last = chunks[chunks.length - 1];
+    expect(() => decryptAll(key, [header, ...chunks.slice(0, -1), last.subarray(0, 50)])).toThrow(
+      'Encrypted file is truncated or corrupted'
+    );
+
+    expect(() => decryptAll(key, [header.subarray(0, FILE_HEADER_LENGTH - 1)])).toThrow(
+      'Encrypted file is truncated'
+    );
+  });
+
+  test('should detect reordered, tampered and appended chunks', async () => {
+    const { header, chunks } = await encryptChunks(data, key);
+
+    expect(() => decryptAll(key, [header, chunks[1], chunks[0], ...chunks.slice(2)])).toThrow(
+      'File chunk failed authentication'
+    );
+
+    const tampered = chunks[0].slice();
+    tampered[5] ^= 1;
+    expect(() => decryptAll(key, [header, tampered, ...chunks.slice(1)])).toThrow(
+      'File chunk failed authentication'
+    );
+
+    // The header is bound into the key
+    const otherHeader = header.slice();
+    otherHeader[FILE_HEADER_LENGTH - 1] ^= 1;
+    expect(() => decryptAll(key, [otherHeader, ...chunks])).toThrow();
+
+    // A chunk from another file cannot be spliced in
+    const other = await encryptChunks(data, key);
+    expect(() => decryptAll(key, [header, other.chunks[0], ...chunks.slice(1)])).toThrow(
+      'File chunk failed authentication'
+    );
+
+    const exact = await encryptChunks(data.subarray(0, CHUNK_SIZE * 2), key);
+    expect(() => decryptAll(key, [exact.header, ...exact.chunks, chunks[2]])).toThrow(
+      'Unexpected data after the final file chunk'
+    );
+
+    const wrongKey = util.encodeBase64(nacl.randomBytes(32));
+    await expect(decryptFile(join([header, ...chunks]), wrongKey)).rejects.toThrow(
+      'Failed to decrypt file'
+    );
+  });
+});
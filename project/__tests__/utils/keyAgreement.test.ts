@@ -0,0 +1,158 @@
+import util from 'tweetnacl-util';
+import { loadModules } from '../helpers/devices';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+type Device = {
+  keyAgreement: typeof import('../../utils/keyAgreement');
+  publicKey: string;
+};
+
+// Load a separate copy of the modules for each user
+const createDevice = async (): Promise<Device> => {
+  const keyAgreement: Device['keyAgreement'] = loadModules(() =>
+    require('../../utils/keyAgreement')
+  );
+
+  const identityKeyPair = await keyAgreement.ensureIdentityKeyPair();
+
+  return { keyAgreement, publicKey: identityKeyPair.publicKey };
+};
+
+// Loaded apart too, so the devices do not share its storage
+const { hkdf, hmacSha512 }: typeof import('../../utils/encryption') = loadModules(() =>
+  require('../../utils/encryption')
+);
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+describe('HMAC-SHA512', () => {
+  // RFC 4231 test cases 1, 2 and 6
+  test('should match the RFC 4231 test vectors', () => {
+    expect(toHex(hmacSha512(new Uint8Array(20).fill(0x0b), util.decodeUTF8('Hi There')))).toBe(
+      '87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cde' +
+        'daa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854'
+    );
+
+    expect(
+      toHex(hmacSha512(util.decodeUTF8('Jefe'), util.decodeUTF8('what do ya want for nothing?')))
+    ).toBe(
+      '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea250554' +
+        '9758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737'
+    );
+
+    // Keys longer than the block size are hashed first
+    expect(
+      toHex(
+        hmacSha512(
+          new Uint8Array(131).fill(0xaa),
+          util.decodeUTF8('Test Using Larger Than Block-Size Key - Hash Key First')
+        )
+      )
+    ).toBe(
+      '80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f352' +
+        '6b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598'
+    );
+  });
+});
+
+describe('HKDF', () => {
+  // Inputs of RFC 5869 test cases 1 and 3, with SHA-512 as the hash
+  const inputKeyMaterial = new Uint8Array(22).fill(0x0b);
+  const salt = fromHex('000102030405060708090a0b0c');
+
+  test('should match the RFC 5869 test vectors over SHA-512', () => {
+    // Without salt or info the salt is a block of zeros
+    expect(toHex(hkdf(inputKeyMaterial, new Uint8Array(0), '', 42))).toBe(
+      'f5fa02b18298a72a8c23898a8703472c6eb179dc204c03425c970e3b164bf90f' +
+        'ff22d04836d0e2343bac'
+    );
+
+    expect(toHex(hkdf(inputKeyMaterial, salt, 'SecuriComm/conversation-key/v1'))).toBe(
+      'b0f8aef9ef197fdcff0264d7ff45c023848d54731186728bdb39ec3a07bc4f74'
+    );
+  });
+
+  test('should expand across several blocks and refuse lengths it cannot produce', () => {
+    expect(toHex(hkdf(inputKeyMaterial, salt, 'SecuriComm/test', 150))).toBe(
+      '1089d88a83c086b77f1153af94d2a80f48b3bfa9ac25c9348dd5f0ce43121e0c' +
+        '4c0536d60c740de8ea5c126f2f6015676b35e0b416d19f2629fab13761497525' +
+        'bcbb7e564e3a00ebcbc10e121e867507ffe7e64b38e8618fada02a467656ac9b' +
+        '0d21eb145f4443c03c016274942cfcb27f871f53fe703d687cc6a5897c68497c' +
+        '003d7b534e7187e8baa4917a4ad033323193bae83753'
+    );
+
+    // Shorter output is a prefix of longer output
+    expect(toHex(hkdf(inputKeyMaterial, salt, 'SecuriComm/test', 70))).toBe(
+      toHex(hkdf(inputKeyMaterial, salt, 'SecuriComm/test', 150)).slice(0, 140)
+    );
+
+    expect(() => hkdf(inputKeyMaterial, salt, 'SecuriComm/test', 255 * 64 + 1)).toThrow(
+      'HKDF output length too large'
+    );
+  });
+});
+
+describe('Conversation key agreement', () => {
+  let alice: Device;
+  let bob: Device;
+  let carol: Device;
+
+  beforeEach(async () => {
+    alice = await createDevice();
+    bob = await createDevice();
+    carol = await createDevice();
+  });
+
+  test('should keep the identity key pair once it exists', async () => {
+    const identityKeyPair = await alice.keyAgreement.ensureIdentityKeyPair();
+
+    expect(identityKeyPair.publicKey).toBe(alice.publicKey);
+    expect((await alice.keyAgreement.ensureIdentityKeyPair()).privateKey).toBe(
+      identityKeyPair.privateKey
+    );
+  });
+
+  test('should derive the same key on both sides of a conversation', async () => {
+    const aliceKey = await alice.keyAgreement.deriveConversationKey('conversation1', bob.publicKey);
+    const bobKey = await bob.keyAgreement.deriveConversationKey('conversation1', alice.publicKey);
+
+    expect(alice.publicKey).not.toBe(bob.publicKey);
+    expect(util.decodeBase64(aliceKey)).toHaveLength(32);
+    expect(aliceKey).toBe(bobKey);
+
+    // Keys are stable across the cache being cleared
+    alice.keyAgreement.clearConversationKeys();
+    expect(await alice.keyAgreement.deriveConversationKey('conversation1', bob.publicKey)).toBe(
+      aliceKey
+    );
+  });
+
+  test('should derive different keys for other conversations and peers', async () => {
+    const key = await alice.keyAgreement.deriveConversationKey('conversation1', bob.publicKey);
+
+    expect(await alice.keyAgreement.deriveConversationKey('conversation2', bob.publicKey)).not.toBe(
+      key
+    );
+    expect(await alice.keyAgreement.deriveConversationKey('conversation1', carol.publicKey)).not.toBe(
+      key
+    );
+    expect(await carol.keyAgreement.deriveConversationKey('conversation1', bob.publicKey)).not.toBe(
+      key
+    );
+  });
+
+  test('should fail for a public key that is not a key', async () => {
+    await expect(
+      alice.keyAgreement.deriveConversationKey('conversation1', 'bm90IGEga2V5')
+    ).rejects.toThrow('Failed to derive conversation key');
+  });
+});
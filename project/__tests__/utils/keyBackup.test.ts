@@ -0,0 +1,109 @@
+import util from 'tweetnacl-util';
+import { loadModules } from '../helpers/devices';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+type Device = {
+  backup: typeof import('../../utils/keyBackup');
+  encryption: typeof import('../../utils/encryption');
+  keyAgreement: typeof import('../../utils/keyAgreement');
+  verification: typeof import('../../utils/verification');
+};
+
+// Load a separate copy of the modules, as on a new install
+const createDevice = async (): Promise<Device> => {
+  const device: Device = loadModules(() => ({
+    backup: require('../../utils/keyBackup'),
+    encryption: require('../../utils/encryption'),
+    keyAgreement: require('../../utils/keyAgreement'),
+    verification: require('../../utils/verification'),
+  }));
+
+  await device.keyAgreement.ensureIdentityKeyPair();
+  await device.keyAgreement.ensureSigningKeyPair();
+
+  return device;
+};
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('Key backup', () => {
+  let alice: Device;
+  let backup: string;
+
+  beforeAll(async () => {
+    alice = await createDevice();
+
+    await alice.verification.markContactVerified('bob', 'bob-identity-key');
+
+    backup = await alice.backup.createKeyBackup(PASSPHRASE);
+  });
+
+  test('should not contain keys in the clear', async () => {
+    const identityKeyPair = await alice.encryption.getKeyPair();
+    const parsed = JSON.parse(backup);
+
+    expect(parsed).toMatchObject({
+      type: 'key_backup',
+      version: 1,
+      kdf: { algorithm: 'scrypt', N: 32768, r: 8, p: 1 },
+    });
+    expect(backup).not.toContain(identityKeyPair!.privateKey);
+    expect(backup).not.toContain('bob-identity-key');
+  });
+
+  test('should restore every key on a new install', async () => {
+    const restored = await createDevice();
+    const summary = await restored.backup.restoreKeyBackup(backup, PASSPHRASE);
+
+    expect(summary.contactCount).toBe(1);
+    expect(await restored.encryption.getKeyPair()).toEqual(await alice.encryption.getKeyPair());
+    expect(await restored.encryption.getSigningKeyPair()).toEqual(
+      await alice.encryption.getSigningKeyPair()
+    );
+    expect(await restored.verification.getVerifiedContacts()).toHaveProperty('bob');
+  });
+
+  test('should reject a wrong passphrase', async () => {
+    const restored = await createDevice();
+    const before = await restored.encryption.getKeyPair();
+
+    await expect(
+      restored.backup.restoreKeyBackup(backup, 'incorrect horse battery')
+    ).rejects.toThrow('Wrong passphrase or damaged backup');
+    expect(await restored.encryption.getKeyPair()).toEqual(before);
+  });
+
+  test('should reject a modified backup', async () => {
+    const restored = await createDevice();
+    const parsed = JSON.parse(backup);
+    const ciphertext = util.decodeBase64(parsed.ciphertext);
+
+    ciphertext[ciphertext.length - 1] ^= 1;
+
+    await expect(
+      restored.backup.restoreKeyBackup(
+        JSON.stringify({ ...parsed, ciphertext: util.encodeBase64(ciphertext) }),
+        PASSPHRASE
+      )
+    ).rejects.toThrow('Wrong passphrase or damaged backup');
+
+    // Weakening the key derivation is refused before any work is done
+    await expect(
+      restored.backup.restoreKeyBackup(
+        JSON.stringify({ ...parsed, kdf: { ...parsed.kdf, N: 2 } }),
+        PASSPHRASE
+      )
+    ).rejects.toThrow('Unsupported key backup parameters');
+  });
+
+  test('should refuse short passphrases', async () => {
+    await expect(alice.backup.createKeyBackup('short')).rejects.toThrow(
+      'Passphrase must be at least 12 characters'
+    );
+  });
+});
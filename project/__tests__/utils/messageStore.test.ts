@@ -0,0 +1,137 @@
+import { messageStore, tokenize, StoredMessage } from '../../utils/messageStore';
+import { storage } from '../../utils/storage';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('expo-file-system', () => ({}));
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+const start = Date.UTC(2026, 0, 1);
+
+const makeMessage = (
+  conversationId: string,
+  index: number,
+  content: string = `message ${index}`
+): StoredMessage => {
+  const time = new Date(start + index * 1000).toISOString();
+
+  return { _id: `${conversationId}-${index}`, conversationId, content, createdAt: time, updatedAt: time };
+};
+
+describe('Message store', () => {
+  test('should page through stored messages newest first', async () => {
+    const messages = Array.from({ length: 250 }, (_, i) => makeMessage('paged', i));
+
+    // Stored out of order and in several batches
+    await messageStore.putMessages('paged', messages.slice(100));
+    await messageStore.putMessages('paged', messages.slice(0, 100).reverse());
+
+    const newest = await messageStore.getMessages('paged', 20);
+    expect(newest.map((m) => m._id)).toEqual(
+      messages.slice(230).reverse().map((m) => m._id)
+    );
+
+    const older = await messageStore.getMessages('paged', 150, newest[19].createdAt);
+    expect(older.map((m) => m._id)).toEqual(
+      messages.slice(80, 230).reverse().map((m) => m._id)
+    );
+
+    // Storing a message again replaces it
+    await messageStore.putMessages('paged', [{ ...messages[5], content: 'edited' }]);
+    const all = await messageStore.getMessages('paged', 1000);
+    expect(all).toHaveLength(250);
+    expect(all.find((m) => m._id === messages[5]._id)?.content).toBe('edited');
+
+    // Everything survives a restart
+    messageStore.clearMemoryMessages();
+    expect(await messageStore.getMessages('paged', 1000)).toEqual(all);
+  });
+
+  test('should search decrypted text across conversations', async () => {
+    await messageStore.putMessages('alpha', [
+      makeMessage('alpha', 1, 'Meet at the Café tomorrow'),
+      makeMessage('alpha', 2, 'Bring the documents'),
+      makeMessage('alpha', 3, 'The café is closed'),
+    ]);
+    await messageStore.putMessages('beta', [makeMessage('beta', 4, 'Coffee at the café?')]);
+
+    const ids = async (query: string, conversationId?: string) =>
+      (await messageStore.search(query, { conversationId })).map((m) => m._id);
+
+    // Newest first, case-insensitive, on word prefixes
+    expect(await ids('CAFÉ')).toEqual(['beta-4', 'alpha-3', 'alpha-1']);
+    expect(await ids('doc')).toEqual(['alpha-2']);
+    expect(await ids('the caf')).toEqual(['beta-4', 'alpha-3', 'alpha-1']);
+    expect(await ids('café closed')).toEqual(['alpha-3']);
+    expect(await ids('café', 'alpha')).toEqual(['alpha-3', 'alpha-1']);
+    expect(await ids('tea')).toEqual([]);
+    expect(await ids('  ')).toEqual([]);
+
+    // Edits and deletions update the index
+    await messageStore.putMessages('alpha', [makeMessage('alpha', 1, 'Meet at the station')]);
+    await messageStore.deleteMessage('alpha', 'alpha-3');
+    expect(await ids('café')).toEqual(['beta-4']);
+    expect(await ids('station')).toEqual(['alpha-1']);
+
+    await messageStore.deleteConversation('beta');
+    expect(await ids('café')).toEqual([]);
+    expect(await messageStore.getMessages('beta')).toEqual([]);
+  });
+
+  test('should keep records sealed and bound to their names', async () => {
+    await messageStore.putMessages('sealed', [makeMessage('sealed', 1, 'secret plans')]);
+
+    const manifest = await storage.getItem('message_db.manifest');
+    const shard = await storage.getItem(`message_db.search.${'s'.charCodeAt(0) % 16}`);
+    expect(manifest).not.toContain('sealed');
+    expect(shard).not.toContain('secret');
+
+    // A record moved to another name does not open
+    await storage.setItem('message_db.manifest', shard!);
+    messageStore.clearMemoryMessages();
+    await expect(messageStore.getMessages('sealed')).rejects.toThrow(
+      'Message store record failed authentication'
+    );
+    await storage.setItem('message_db.manifest', manifest!);
+    expect(await messageStore.getMessages('sealed')).toHaveLength(1);
+  });
+
+  test('should track the last sync per conversation', async () => {
+    expect(await messageStore.getLastSync('synced')).toBeNull();
+
+    const synced = { updatedAt: '2026-01-01T00:00:00.000Z', messageId: 'a'.repeat(24) };
+    const other = { updatedAt: '2026-02-01T00:00:00.000Z', messageId: 'b'.repeat(24) };
+
+    await messageStore.setLastSync('synced', synced);
+    await messageStore.setLastSync('other', other);
+    expect(await messageStore.getLastSync('synced')).toEqual(synced);
+
+    await messageStore.deleteConversation('synced');
+    expect(await messageStore.getLastSync('synced')).toBeNull();
+    expect(await messageStore.getLastSync('other')).toEqual(other);
+  });
+
+  test('should track the last sync of many conversations', async () => {
+    const positions = Array.from({ length: 60 }, (_, i) => ({
+      updatedAt: new Date(start + i * 1000).toISOString(),
+      messageId: i.toString(16).padStart(24, '0'),
+    }));
+
+    for (const [i, position] of positions.entries()) {
+      await messageStore.setLastSync(`many${i}`, position);
+    }
+
+    // Still there after an app restart
+    messageStore.clearMemoryMessages();
+
+    for (const [i, position] of positions.entries()) {
+      expect(await messageStore.getLastSync(`many${i}`)).toEqual(position);
+    }
+  });
+
+  test('should split text into normalized words', () => {
+    expect(tokenize('Hello, WORLD! hello a 42 naïve')).toEqual(['hello', 'world', '42', 'naïve']);
+  });
+});
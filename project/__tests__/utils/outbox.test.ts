@@ -0,0 +1,239 @@
+import { outbox, OutboxEntry } from '../../utils/outbox';
+import { secureStorage } from '../../utils/storage';
+import { jsonResponse } from '../helpers/server';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+// Local mock of the server's POST /messages route
+interface MockMessage {
+  _id: string;
+  conversation: string;
+  sender: { _id: string };
+  clientId: string;
+  encryptedContent: { data: string; nonce: string; algorithm?: string };
+  createdAt: string;
+}
+
+let mockStored: MockMessage[] = [];
+let mockFailures: Array<'drop-request' | 'drop-response' | 'reject'> = [];
+
+const mockRoute = async (_url: string, init: RequestInit) => {
+  const body = JSON.parse(init.body as string);
+  const failure = mockFailures.shift();
+
+  if (failure === 'drop-request') {
+    throw new Error('Network request failed');
+  }
+
+  if (failure === 'reject') {
+    return jsonResponse(400, { error: 'Message rejected' });
+  }
+
+  // The server refuses messages without their sealed content and its nonce
+  const { encryptedContent } = body;
+
+  if (typeof encryptedContent?.data !== 'string' || typeof encryptedContent?.nonce !== 'string') {
+    return jsonResponse(400, { error: 'Message content is required' });
+  }
+
+  // Messages already stored under their client ID are not stored again
+  let message = mockStored.find((m) => m.clientId === body.clientId);
+
+  if (!message) {
+    message = {
+      _id: `m${mockStored.length}`,
+      conversation: body.conversationId,
+      sender: { _id: 'u1' },
+      clientId: body.clientId,
+      encryptedContent,
+      createdAt: new Date().toISOString(),
+    };
+    mockStored.push(message);
+  }
+
+  if (failure === 'drop-response') {
+    throw new Error('Network request failed');
+  }
+
+  return jsonResponse(201, { success: true, message });
+};
+
+// Stand-in for a sealed envelope; only its nonce is read outside the envelope service
+const seal = (content: string) =>
+  JSON.stringify({
+    type: 'envelope',
+    content: { algorithm: 'sender-key', nonce: `n-${content}`, data: content },
+  });
+
+// Sealed content of the stored messages
+const storedContent = () => mockStored.map((m) => JSON.parse(m.encryptedContent.data).content.data);
+
+const encrypt = jest.fn(async (entry: OutboxEntry) => seal(`sealed:${entry.content}`));
+const onSent = jest.fn();
+
+describe('Message outbox', () => {
+  beforeEach(async () => {
+    outbox.clearMemoryOutbox();
+    await secureStorage.clear();
+
+    mockStored = [];
+    mockFailures = [];
+    encrypt.mockClear();
+    onSent.mockClear();
+    global.fetch = jest.fn(mockRoute) as unknown as typeof fetch;
+
+    outbox.setHandlers({ encrypt, onSent });
+  });
+
+  afterEach(() => {
+    outbox.clearMemoryOutbox();
+  });
+
+  test('should hold messages while offline and send them in order', async () => {
+    const first = await outbox.enqueue('c1', 'one');
+    await outbox.enqueue('c2', 'other');
+    await outbox.enqueue('c1', 'two');
+    await outbox.flush();
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect((await outbox.getEntries('c1')).map((entry) => entry.content)).toEqual([
+      'one',
+      'two',
+    ]);
+
+    outbox.setOnline(true);
+    await outbox.flush();
+
+    expect(
+      mockStored
+        .filter((m) => m.conversation === 'c1')
+        .map((m) => JSON.parse(m.encryptedContent.data).content.data)
+    ).toEqual(['sealed:one', 'sealed:two']);
+    expect(await outbox.getEntries()).toEqual([]);
+    expect(first.clientId).toMatch(/^[a-f0-9]{32}$/);
+    expect(onSent).toHaveBeenCalledWith(
+      expect.objectContaining({ clientId: first.clientId }),
+      expect.objectContaining({ _id: 'm0', conversation: 'c1', clientId: first.clientId })
+    );
+  });
+
+  test('should post the sealed content the way the server stores it', async () => {
+    outbox.setOnline(true);
+
+    const entry = await outbox.enqueue('c1', 'hello');
+    await outbox.flush();
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+
+    expect(url).toMatch(/\/messages$/);
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({
+      conversationId: 'c1',
+      encryptedContent: {
+        data: seal('sealed:hello'),
+        nonce: 'n-sealed:hello',
+        algorithm: 'sender-key',
+      },
+      attachments: [],
+      clientId: entry.clientId,
+    });
+    expect(onSent).toHaveBeenCalledWith(
+      expect.objectContaining({ clientId: entry.clientId }),
+      expect.objectContaining({
+        encryptedContent: expect.objectContaining({ data: seal('sealed:hello') }),
+      })
+    );
+  });
+
+  test('should retry with backoff and store a resent message once', async () => {
+    outbox.setOnline(true);
+
+    // The first attempt never arrives, the second is stored but its response is lost
+    mockFailures = ['drop-request', 'drop-response'];
+
+    const before = Date.now();
+    const entry = await outbox.enqueue('c1', 'hello');
+    await outbox.flush();
+
+    let [pending] = await outbox.getEntries();
+    expect(pending).toMatchObject({ status: 'sending', attempts: 1 });
+    expect(pending.nextAttemptAt).toBeGreaterThanOrEqual(before + 2000);
+
+    // Nothing is sent again before the backoff ends
+    await outbox.flush();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    // A returning connection skips the wait
+    outbox.setOnline(false);
+    outbox.setOnline(true);
+    await outbox.flush();
+
+    [pending] = await outbox.getEntries();
+    expect(pending).toMatchObject({ status: 'sending', attempts: 2 });
+    expect(pending.nextAttemptAt).toBeGreaterThanOrEqual(before + 4000);
+
+    outbox.setOnline(false);
+    outbox.setOnline(true);
+    await outbox.flush();
+
+    expect(await outbox.getEntries()).toEqual([]);
+    expect(mockStored).toEqual([expect.objectContaining({ clientId: entry.clientId })]);
+    expect(storedContent()).toEqual(['sealed:hello']);
+
+    // Every attempt sent the same sealed payload
+    expect(encrypt).toHaveBeenCalledTimes(1);
+  });
+
+  test('should mark rejected messages failed and hold back later ones', async () => {
+    outbox.setOnline(true);
+    mockFailures = ['reject'];
+
+    const failed = await outbox.enqueue('c1', 'one');
+    await outbox.enqueue('c1', 'two');
+    await outbox.enqueue('c2', 'other');
+    await outbox.flush();
+
+    expect(await outbox.getEntries('c1')).toEqual([
+      expect.objectContaining({ content: 'one', status: 'failed', error: 'Message rejected' }),
+      expect.objectContaining({ content: 'two', status: 'sending', attempts: 0 }),
+    ]);
+    expect(storedContent()).toEqual(['sealed:other']);
+
+    // Failed messages stay failed until retried by hand
+    outbox.setOnline(false);
+    outbox.setOnline(true);
+    await outbox.flush();
+    expect(mockStored).toHaveLength(1);
+
+    await outbox.retry(failed.clientId);
+    await outbox.flush();
+
+    expect(storedContent()).toEqual(['sealed:other', 'sealed:one', 'sealed:two']);
+  });
+
+  test('should fail after repeated errors and keep messages across sessions', async () => {
+    const entry = await outbox.enqueue('c1', 'hello');
+
+    // Starting a new session reads the outbox back from storage
+    outbox.clearMemoryOutbox();
+    outbox.setHandlers({ encrypt, onSent });
+
+    mockFailures = Array(5).fill('drop-request');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      outbox.setOnline(true);
+      await outbox.flush();
+      outbox.setOnline(false);
+    }
+
+    expect(await outbox.getEntries()).toEqual([
+      expect.objectContaining({ clientId: entry.clientId, status: 'failed', attempts: 5 }),
+    ]);
+
+    expect(await outbox.discard(entry.clientId)).toBe(true);
+    expect(await outbox.getEntries()).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import util from 'tweetnacl-util';
+import { loadModules } from '../helpers/devices';
+import { mockFetch, mockKeysRoute, PublishedBundle } from '../helpers/server';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage, signed in as mockCurrentUser
+let mockCurrentUser = '';
+
+jest.mock('../../utils/storage', () => {
+  const { StorageKeys } = jest.requireActual('../../utils/storage');
+
+  return require('../helpers/mocks').mockStorage(
+    new Map([[StorageKeys.AUTH_TOKEN, mockCurrentUser]])
+  );
+});
+
+// Prekey bundles published to the mock server
+const mockBundles = new Map<string, PublishedBundle>();
+
+type Device = {
+  prekeys: typeof import('../../utils/prekeys');
+  sessions: typeof import('../../utils/ratchet').ratchetSessions;
+};
+
+// Load a separate copy of the modules for each user
+const createDevice = (userId: string): Device => {
+  mockCurrentUser = userId;
+
+  return loadModules(() => ({
+    prekeys: require('../../utils/prekeys'),
+    sessions: require('../../utils/ratchet').ratchetSessions,
+  }));
+};
+
+describe('Prekey bundles', () => {
+  let alice: Device;
+  let bob: Device;
+
+  beforeEach(() => {
+    mockBundles.clear();
+    global.fetch = mockFetch(mockKeysRoute(mockBundles));
+
+    alice = createDevice('alice');
+    bob = createDevice('bob');
+  });
+
+  test('should publish a signed bundle and top up one-time prekeys only when low', async () => {
+    expect(await bob.prekeys.replenishPrekeys()).toBe(true);
+
+    const published = mockBundles.get('bob')!;
+    expect(published.oneTimePrekeys).toHaveLength(50);
+    expect(published.signedPrekey.signature).toBeDefined();
+
+    const uploads = (global.fetch as jest.Mock).mock.calls.length;
+    expect(await bob.prekeys.replenishPrekeys()).toBe(true);
+
+    // Only the count is checked the second time
+    expect((global.fetch as jest.Mock).mock.calls.length).toBe(uploads + 1);
+    expect(mockBundles.get('bob')!.oneTimePrekeys).toHaveLength(50);
+  });
+
+  test('should report whether the signed prekey is due for rotation', async () => {
+    expect(await bob.prekeys.isSignedPrekeyCurrent()).toBe(false);
+
+    await bob.prekeys.replenishPrekeys();
+    expect(await bob.prekeys.isSignedPrekeyCurrent()).toBe(true);
+
+    const signedPrekey = mockBundles.get('bob')!.signedPrekey;
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 8 * 24 * 60 * 60 * 1000);
+
+    expect(await bob.prekeys.isSignedPrekeyCurrent()).toBe(false);
+
+    // Replenishing replaces and publishes it
+    await bob.prekeys.replenishPrekeys();
+    expect(mockBundles.get('bob')!.signedPrekey.keyId).not.toBe(signedPrekey.keyId);
+    expect(await bob.prekeys.isSignedPrekeyCurrent()).toBe(true);
+
+    clock.mockRestore();
+  });
+
+  test('should start a session from a bundle while the recipient is offline', async () => {
+    await bob.prekeys.replenishPrekeys();
+    await alice.prekeys.replenishPrekeys();
+    const aliceKey = mockBundles.get('alice')!.identityKey;
+
+    // Bob is offline from here on: Alice only talks to the server
+    const bundle = await alice.prekeys.fetchPrekeyBundle('bob', 'phone');
+    expect(bundle).not.toBeNull();
+    expect(bundle!.oneTimePrekey).toBeDefined();
+
+    await alice.sessions.startSession('bob', bundle!);
+    const first = await alice.sessions.encrypt('bob', bundle!.identityKey, 'Hello Bob');
+    const second = await alice.sessions.encrypt('bob', bundle!.identityKey, 'Are you there?');
+
+    const { init } = JSON.parse(first).header;
+    expect(init.ephemeralKey).toBeDefined();
+
+    // Bob comes back online and reads the queued messages
+    expect(await bob.sessions.decrypt('alice', aliceKey, first)).toBe('Hello Bob');
+    expect(await bob.sessions.decrypt('alice', aliceKey, second)).toBe('Are you there?');
+
+    const reply = await bob.sessions.encrypt('alice', init.identityKey, 'Hi Alice');
+    expect(await alice.sessions.decrypt('bob', bundle!.identityKey, reply)).toBe('Hi Alice');
+
+    // Once answered, Alice stops sending the session-opening header
+    const third = await alice.sessions.encrypt('bob', bundle!.identityKey, 'Great');
+    expect(JSON.parse(third).header.init).toBeUndefined();
+    expect(await bob.sessions.decrypt('alice', aliceKey, third)).toBe('Great');
+  });
+
+  test('should consume the one-time prekey after use', async () => {
+    await bob.prekeys.replenishPrekeys();
+    await alice.prekeys.replenishPrekeys();
+    const aliceKey = mockBundles.get('alice')!.identityKey;
+
+    const bundle = await alice.prekeys.fetchPrekeyBundle('bob', 'phone');
+    await alice.sessions.startSession('bob', bundle!);
+    const message = await alice.sessions.encrypt('bob', bundle!.identityKey, 'Hello');
+
+    await bob.sessions.decrypt('alice', aliceKey, message);
+
+    // Replaying the opening message cannot rebuild the session
+    await bob.sessions.deleteSession('alice');
+    await expect(bob.sessions.decrypt('alice', aliceKey, message)).rejects.toThrow(
+      'One-time prekey not found'
+    );
+  });
+
+  test('should work without a one-time prekey', async () => {
+    await bob.prekeys.replenishPrekeys();
+    await alice.prekeys.replenishPrekeys();
+    const aliceKey = mockBundles.get('alice')!.identityKey;
+    mockBundles.get('bob')!.oneTimePrekeys = [];
+
+    const bundle = await alice.prekeys.fetchPrekeyBundle('bob', 'phone');
+    expect(bundle!.oneTimePrekey).toBeNull();
+
+    await alice.sessions.startSession('bob', bundle!);
+    const message = await alice.sessions.encrypt('bob', bundle!.identityKey, 'Hello');
+
+    expect(await bob.sessions.decrypt('alice', aliceKey, message)).toBe('Hello');
+  });
+
+  test('should reject a bundle with a forged signed prekey', async () => {
+    await bob.prekeys.replenishPrekeys();
+    await alice.prekeys.replenishPrekeys();
+
+    const bundle = await alice.prekeys.fetchPrekeyBundle('bob', 'phone');
+    const forged = {
+      ...bundle!,
+      signedPrekey: {
+        ...bundle!.signedPrekey,
+        publicKey: util.encodeBase64(new Uint8Array(32).fill(7)),
+      },
+    };
+
+    expect(alice.prekeys.verifyPrekeyBundle(bundle!)).toBe(true);
+    expect(alice.prekeys.verifyPrekeyBundle(forged)).toBe(false);
+    await expect(alice.sessions.startSession('bob', forged)).rejects.toThrow(
+      'Invalid signed prekey signature'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { presence, formatLastSeen, Presence } from '../../utils/presence';
+
+type MockHandler = (data: any) => void;
+
+// Stand-in for the shared connection
+jest.mock('../../utils/websocket', () => {
+  const connection = {
+    handlers: new Map<string, MockHandler>(),
+    listeners: [] as MockHandler[],
+  };
+
+  return {
+    connection,
+    realtime: {
+      subscribe: (event: string, handler: MockHandler) => {
+        connection.handlers.set(event, handler);
+        return () => {};
+      },
+      onStateChange: (listener: MockHandler) => {
+        connection.listeners.push(listener);
+        return () => {};
+      },
+    },
+  };
+});
+
+jest.mock('../../utils/api', () => ({
+  api: {
+    presence: {
+      get: jest.fn(),
+    },
+  },
+}));
+
+const mockConnection = jest.requireMock('../../utils/websocket').connection;
+const mockGetPresence: jest.Mock = jest.requireMock('../../utils/api').api.presence.get;
+
+const online = (userId: string): Presence => ({ userId, status: 'online', lastSeen: null });
+
+// Let fetched presence be applied
+const flush = async () => {
+  for (let i = 0; i < 3; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('Presence', () => {
+  beforeEach(() => {
+    presence.clearMemoryPresence();
+    mockGetPresence.mockReset();
+    mockGetPresence.mockImplementation(async (userIds: string[]) => ({
+      success: true,
+      data: { presence: userIds.map(online) },
+    }));
+  });
+
+  test('should describe when a user was last seen', () => {
+    const now = Date.parse('2026-01-01T12:00:00.000Z');
+    const at = (lastSeen: string | null): Presence => ({ userId: 'u1', status: 'offline', lastSeen });
+
+    expect(formatLastSeen(undefined, now)).toBeNull();
+    expect(formatLastSeen(online('u1'), now)).toBe('Online');
+    expect(formatLastSeen(at('2026-01-01T11:59:30.000Z'), now)).toBe('Last seen just now');
+    expect(formatLastSeen(at('2026-01-01T11:15:00.000Z'), now)).toBe('Last seen 45m ago');
+    expect(formatLastSeen(at('2026-01-01T09:00:00.000Z'), now)).toBe('Last seen 3h ago');
+    expect(formatLastSeen(at('2025-12-30T12:00:00.000Z'), now)).toBe('Last seen 2d ago');
+
+    // Hidden by the user's privacy settings
+    expect(formatLastSeen(at(null), now)).toBeNull();
+  });
+
+  test('should fetch each user once and follow status events', async () => {
+    const changes: Presence[][] = [];
+    const unsubscribe = presence.onChange((changed) => changes.push(changed));
+
+    presence.track(['u1', 'u2']);
+    presence.track(['u2']);
+    await flush();
+
+    expect(mockGetPresence).toHaveBeenCalledTimes(1);
+    expect(mockGetPresence).toHaveBeenCalledWith(['u1', 'u2']);
+    expect(presence.get('u1')).toEqual(online('u1'));
+
+    mockConnection.handlers.get('user_status')({
+      userId: 'u1',
+      status: 'offline',
+      lastSeen: '2026-01-01T00:00:00.000Z',
+      timestamp: 1,
+    });
+
+    // Users hiding their last seen time have none
+    mockConnection.handlers.get('user_status')({ userId: 'u2', status: 'offline', timestamp: 1 });
+    unsubscribe();
+
+    expect(presence.get('u1')).toEqual({
+      userId: 'u1',
+      status: 'offline',
+      lastSeen: '2026-01-01T00:00:00.000Z',
+    });
+    expect(presence.get('u2')).toEqual({ userId: 'u2', status: 'offline', lastSeen: null });
+    expect(changes).toHaveLength(3);
+  });
+
+  test('should fetch presence again after reconnecting', async () => {
+    presence.track(['u1']);
+    await flush();
+
+    mockConnection.listeners.forEach((listener: MockHandler) => listener({ isConnected: true }));
+    await flush();
+
+    expect(mockGetPresence).toHaveBeenCalledTimes(2);
+    expect(mockGetPresence).toHaveBeenLastCalledWith(['u1']);
+  });
+});
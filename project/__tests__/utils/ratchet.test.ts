@@ -0,0 +1,182 @@
+import type { RatchetPayload } from '../../utils/ratchet';
+import { loadModules } from '../helpers/devices';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage, which survives an app restart
+let mockItems = new Map<string, string>();
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage(mockItems));
+
+type Device = {
+  sessions: typeof import('../../utils/ratchet').ratchetSessions;
+  identityKey: string;
+  items: Map<string, string>;
+};
+
+// Load a separate copy of the modules for each user, or a fresh copy of a
+// device's modules as after an app restart
+const createDevice = async (items = new Map<string, string>()): Promise<Device> => {
+  mockItems = items;
+
+  const { keyAgreement, sessions } = loadModules(() => ({
+    keyAgreement: require('../../utils/keyAgreement') as typeof import('../../utils/keyAgreement'),
+    sessions: require('../../utils/ratchet').ratchetSessions as Device['sessions'],
+  }));
+
+  const identityKeyPair = await keyAgreement.ensureIdentityKeyPair();
+
+  return { sessions, identityKey: identityKeyPair.publicKey, items };
+};
+
+// Change one header field of a ratchet message
+const tamper = (content: string, changes: Record<string, unknown>): string => {
+  const payload: RatchetPayload = JSON.parse(content);
+
+  return JSON.stringify({ ...payload, header: { ...payload.header, ...changes } });
+};
+
+describe('Double ratchet sessions', () => {
+  let alice: Device;
+  let bob: Device;
+
+  const fromAlice = (plaintext: string) => alice.sessions.encrypt('bob', bob.identityKey, plaintext);
+  const fromBob = (plaintext: string) => bob.sessions.encrypt('alice', alice.identityKey, plaintext);
+  const toAlice = (content: string) => alice.sessions.decrypt('bob', bob.identityKey, content);
+  const toBob = (content: string) => bob.sessions.decrypt('alice', alice.identityKey, content);
+
+  beforeEach(async () => {
+    alice = await createDevice();
+    bob = await createDevice();
+  });
+
+  test('should exchange messages in both directions with a new key each time', async () => {
+    const first = await fromAlice('Hello Bob');
+    const second = await fromAlice('Hello Bob');
+
+    expect(JSON.parse(first).ciphertext).not.toBe(JSON.parse(second).ciphertext);
+    expect(await toBob(first)).toBe('Hello Bob');
+    expect(await toBob(second)).toBe('Hello Bob');
+
+    const reply = await fromBob('Hi Alice');
+    expect(JSON.parse(reply).header.dh).not.toBe(JSON.parse(first).header.dh);
+    expect(await toAlice(reply)).toBe('Hi Alice');
+
+    // Answered, so Alice stops announcing the session
+    const third = await fromAlice('Great');
+    expect(JSON.parse(third).header.init).toBeUndefined();
+    expect(await toBob(third)).toBe('Great');
+  });
+
+  test('should read messages that arrive out of order, each once', async () => {
+    const messages = [await fromAlice('One'), await fromAlice('Two'), await fromAlice('Three')];
+
+    expect(await toBob(messages[2])).toBe('Three');
+    expect(await toBob(messages[0])).toBe('One');
+    expect(await toBob(messages[1])).toBe('Two');
+
+    // The key of a skipped message is deleted once used
+    await expect(toBob(messages[0])).rejects.toThrow('Failed to decrypt message');
+  });
+
+  test('should keep keys of messages skipped in an earlier chain', async () => {
+    const first = await fromAlice('First');
+    const delayed = await fromAlice('Delayed');
+
+    expect(await toBob(first)).toBe('First');
+    expect(await toAlice(await fromBob('Reply'))).toBe('Reply');
+
+    // Alice has moved to a new ratchet key before Bob sees her second message
+    const next = await fromAlice('Next');
+    expect(JSON.parse(next).header).toMatchObject({ pn: 2, n: 0 });
+
+    expect(await toBob(next)).toBe('Next');
+    expect(await toBob(delayed)).toBe('Delayed');
+  });
+
+  test('should keep sessions and skipped message keys across a restart', async () => {
+    const first = await fromAlice('First');
+    const skipped = await fromAlice('Skipped');
+    const third = await fromAlice('Third');
+
+    expect(await toBob(first)).toBe('First');
+    expect(await toBob(third)).toBe('Third');
+
+    bob = await createDevice(bob.items);
+
+    expect(await bob.sessions.hasSession('alice')).toBe(true);
+    expect(await toBob(skipped)).toBe('Skipped');
+    expect(await toAlice(await fromBob('Back again'))).toBe('Back again');
+  });
+
+  test('should refuse to skip more than 500 messages without losing the session', async () => {
+    const messages: string[] = [];
+
+    for (let i = 0; i < 502; i++) {
+      messages.push(await fromAlice(`Message ${i}`));
+    }
+
+    await expect(toBob(messages[501])).rejects.toThrow('Too many skipped messages');
+
+    // Nothing was stored for the rejected message
+    expect(await bob.sessions.hasSession('alice')).toBe(false);
+    expect(await toBob(messages[1])).toBe('Message 1');
+    expect(await toBob(messages[501])).toBe('Message 501');
+  });
+
+  test('should settle on one session when both sides start at once', async () => {
+    const fromAliceFirst = await fromAlice('Hi Bob');
+    const fromBobFirst = await fromBob('Hi Alice');
+
+    expect(await toBob(fromAliceFirst)).toBe('Hi Bob');
+    expect(await toAlice(fromBobFirst)).toBe('Hi Alice');
+
+    // Either side can keep talking over the session both now share
+    expect(await toAlice(await fromBob('Still there?'))).toBe('Still there?');
+    expect(await toBob(await fromAlice('Yes'))).toBe('Yes');
+    expect(await toBob(await fromAlice('Again'))).toBe('Again');
+    expect(await toAlice(await fromBob('Good'))).toBe('Good');
+  });
+
+  test('should reject messages whose header was changed', async () => {
+    const first = await fromAlice('Hello Bob');
+    expect(await toBob(first)).toBe('Hello Bob');
+
+    const message = await fromAlice('Pay me');
+    const { header } = JSON.parse(message);
+
+    // The header is bound to the message key
+    await expect(toBob(tamper(message, { pn: header.pn + 1 }))).rejects.toThrow(
+      'Failed to decrypt message'
+    );
+    await expect(toBob(tamper(message, { n: header.n + 1 }))).rejects.toThrow(
+      'Failed to decrypt message'
+    );
+    await expect(toBob(tamper(message, { init: undefined }))).rejects.toThrow(
+      'Failed to decrypt message'
+    );
+
+    expect(await toBob(message)).toBe('Pay me');
+  });
+
+  test('should only open sessions for the identity key the server reports', async () => {
+    const mallory = await createDevice();
+    const message = await fromAlice('Hello Bob');
+    const forged = tamper(message, {
+      init: { ...JSON.parse(message).header.init, identityKey: mallory.identityKey },
+    });
+
+    await expect(bob.sessions.decrypt('alice', undefined, message)).rejects.toThrow(
+      'Peer identity key not available'
+    );
+    await expect(toBob(forged)).rejects.toThrow('Peer identity key mismatch');
+
+    // A message from someone else claiming to be Alice
+    const fromMallory = await mallory.sessions.encrypt('bob', bob.identityKey, 'I am Alice');
+    await expect(toBob(fromMallory)).rejects.toThrow('Peer identity key mismatch');
+
+    expect(await bob.sessions.hasSession('alice')).toBe(false);
+    expect(await toBob(message)).toBe('Hello Bob');
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  receipts,
+  addReceipt,
+  summarizeReceipts,
+  ReceiptedMessage,
+} from '../../utils/receipts';
+
+type MockStateListener = (state: { isConnected: boolean }) => void;
+
+// Stand-in for the shared connection
+jest.mock('../../utils/websocket', () => {
+  const connection = {
+    isConnected: true,
+    sent: [] as any[],
+    listeners: [] as MockStateListener[],
+  };
+
+  return {
+    connection,
+    realtime: {
+      getState: () => ({ isConnected: connection.isConnected }),
+      onStateChange: (listener: MockStateListener) => {
+        connection.listeners.push(listener);
+        return () => {};
+      },
+      send: (event: string, data: unknown) => {
+        if (!connection.isConnected) {
+          return false;
+        }
+
+        connection.sent.push({ event, data });
+        return true;
+      },
+    },
+  };
+});
+
+const mockConnection = jest.requireMock('../../utils/websocket').connection;
+
+const receipt = (user: string) => ({ user, timestamp: '2026-01-01T00:00:00.000Z' });
+
+describe('Receipts', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    receipts.clearMemoryReceipts();
+    mockConnection.isConnected = true;
+    mockConnection.sent = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should add up receipts across members', () => {
+    const members = ['alice', 'bob', 'carol'];
+
+    expect(summarizeReceipts({}, members, 'alice')).toEqual({
+      status: 'sent',
+      delivered: [],
+      read: [],
+      pending: ['bob', 'carol'],
+    });
+
+    const delivered = addReceipt<ReceiptedMessage>({}, 'bob', 'delivered', 't1');
+    const read = addReceipt(delivered, 'carol', 'read', 't2');
+
+    // Reading also counts as delivered
+    expect(read.deliveredTo).toEqual([
+      { user: 'bob', timestamp: 't1' },
+      { user: 'carol', timestamp: 't2' },
+    ]);
+    expect(summarizeReceipts(read, members, 'alice')).toEqual({
+      status: 'delivered',
+      delivered: ['bob'],
+      read: ['carol'],
+      pending: [],
+    });
+
+    // The sender's own receipt does not count
+    const allRead = {
+      deliveredTo: [receipt('bob'), receipt('carol')],
+      readBy: [receipt('alice'), receipt('bob'), receipt('carol')],
+    };
+    expect(summarizeReceipts(allRead, members, 'alice').status).toBe('read');
+  });
+
+  test('should send each receipt once, in batches per conversation', () => {
+    receipts.markDelivered('c1', ['m1', 'm2']);
+    receipts.markDelivered('c1', ['m2', 'm3']);
+    receipts.markRead('c1', ['m1']);
+    receipts.markDelivered('c1', ['m1']);
+
+    jest.advanceTimersByTime(500);
+
+    expect(mockConnection.sent).toEqual([
+      { event: 'delivered', data: { conversationId: 'c1', messageIds: ['m1', 'm2', 'm3'] } },
+      { event: 'read', data: { conversationId: 'c1', messageIds: ['m1'] } },
+    ]);
+  });
+
+  test('should not send read receipts while they are turned off', () => {
+    receipts.setReadReceipts(false);
+    receipts.markRead('c1', ['m1']);
+    receipts.markDelivered('c1', ['m2']);
+
+    jest.advanceTimersByTime(500);
+
+    expect(mockConnection.sent).toEqual([
+      { event: 'delivered', data: { conversationId: 'c1', messageIds: ['m2'] } },
+    ]);
+  });
+
+  test('should hold receipts until connected', () => {
+    mockConnection.isConnected = false;
+    receipts.markRead('c1', ['m1']);
+
+    jest.advanceTimersByTime(500);
+    expect(mockConnection.sent).toEqual([]);
+
+    mockConnection.isConnected = true;
+    mockConnection.listeners.forEach((listener: MockStateListener) =>
+      listener({ isConnected: true })
+    );
+    jest.advanceTimersByTime(500);
+
+    expect(mockConnection.sent).toEqual([
+      { event: 'read', data: { conversationId: 'c1', messageIds: ['m1'] } },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+import {
+  isRichContent,
+  createLocationContent,
+  createContactContent,
+  createAudioContent,
+  checkContactFingerprint,
+  buildWaveform,
+  formatDuration,
+  getRichPreview,
+  getMapUrl,
+  WAVEFORM_BARS,
+} from '../../utils/richMessages';
+
+const newIdentityKey = () => util.encodeBase64(nacl.box.keyPair().publicKey);
+
+describe('Rich messages', () => {
+  test('should share a location pin', () => {
+    const pin = createLocationContent(
+      { latitude: 52.52, longitude: 13.405, accuracy: null },
+      '  Office  '
+    );
+
+    expect(pin).toEqual({
+      type: 'location',
+      location: { latitude: 52.52, longitude: 13.405, accuracy: 0 },
+      label: 'Office',
+    });
+    expect(isRichContent(pin)).toBe(true);
+    expect(getRichPreview(pin)).toBe('📍 Office');
+    expect(getMapUrl(pin, 'android')).toBe('geo:52.52,13.405?q=52.52,13.405(Office)');
+
+    // Positions off the globe are dropped
+    expect(
+      isRichContent({ ...pin, location: { latitude: 91, longitude: 0, accuracy: 5 } })
+    ).toBe(false);
+  });
+
+  test('should carry the fingerprint of the key on a contact card', () => {
+    const card = createContactContent({
+      _id: 'carol',
+      displayName: 'Carol',
+      email: 'carol@example.com',
+      publicKey: newIdentityKey(),
+    });
+
+    expect(isRichContent(card)).toBe(true);
+    expect(card.contact.fingerprint).toMatch(/^\d{30}$/);
+    expect(checkContactFingerprint(card)).toBe(true);
+    expect(getRichPreview(card)).toBe('👤 Carol');
+
+    // A card whose key was swapped no longer matches its fingerprint
+    const swapped = { ...card, contact: { ...card.contact, publicKey: newIdentityKey() } };
+    expect(checkContactFingerprint(swapped)).toBe(false);
+  });
+
+  test('should build a voice note waveform from recording levels', () => {
+    expect(buildWaveform([])).toEqual([]);
+    expect(buildWaveform([-60, -30, 0, 10, -90])).toEqual([0, 0.5, 1, 1, 0]);
+
+    const levels = Array.from({ length: 1000 }, (_, i) => -(i % 60));
+    const note = createAudioContent(65400, levels);
+
+    expect(note.duration).toBe(65);
+    expect(note.waveform).toHaveLength(WAVEFORM_BARS);
+    expect(isRichContent(note)).toBe(true);
+    expect(getRichPreview(note)).toBe('🎤 Voice note (1:05)');
+    expect(formatDuration(9)).toBe('0:09');
+
+    expect(isRichContent({ ...note, waveform: [2] })).toBe(false);
+    expect(isRichContent({ type: 'video' })).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+// Mock Platform for testing
+jest.mock('react-native', () => ({
+  ...require('../helpers/mocks').mockReactNative('android'),
+  AccessibilityInfo: {
+    isAccessibilityServiceEnabled: jest.fn(async () => false),
+  },
+}));
+
+jest.mock('expo-device', () => ({
+  isDevice: true,
+  modelName: 'Pixel 8',
+  isRootedExperimentalAsync: jest.fn(async () => false),
+  isSideLoadingEnabledAsync: jest.fn(async () => false),
+}));
+
+jest.mock('expo-network', () => ({
+  NetworkStateType: { VPN: 'VPN', WIFI: 'WIFI' },
+  getNetworkStateAsync: jest.fn(async () => ({ type: 'WIFI' })),
+}));
+
+jest.mock('expo-application', () => ({
+  ApplicationReleaseType: {},
+  getIosApplicationReleaseTypeAsync: jest.fn(),
+}));
+
+jest.mock('expo-screen-capture', () => ({
+  getPermissionsAsync: jest.fn(async () => ({ granted: false })),
+  addScreenshotListener: jest.fn(),
+}));
+
+jest.mock('../../utils/api', () => ({
+  API_BASE_URL: 'https://api.securicomm.app',
+}));
+
+jest.mock('../../utils/behavior', () => ({
+  behavior: {
+    assess: async () => ({ learning: true, factors: [] }),
+  },
+}));
+
+jest.mock('../../utils/auditLog', () => ({
+  ...jest.requireActual('../../utils/auditLog'),
+  auditLog: {
+    append: jest.fn(async () => null),
+  },
+}));
+
+import { securityEngine } from '../../utils/security';
+import { DEMO_DETECTORS, ThreatDetector } from '../../utils/threatDetectors';
+
+const mockDevice = jest.requireMock('expo-device');
+const mockAppend: jest.Mock = jest.requireMock('../../utils/auditLog').auditLog.append;
+
+const fixedDetector = (overrides: Partial<ThreatDetector>): ThreatDetector => ({
+  id: 'fixed',
+  name: 'Fixed',
+  category: 'network',
+  factor: 'networkAnomaly',
+  weight: 10,
+  detect: async () => ({
+    detected: true,
+    severity: 5,
+    confidence: 80,
+    evidence: [{ source: 'test', observation: 'Always found' }],
+    issue: 'Fixed issue',
+    recommendation: 'Fix it',
+  }),
+  ...overrides,
+});
+
+describe('Security engine', () => {
+  const defaultIds = securityEngine.getDetectors().map((detector) => detector.id);
+
+  afterEach(() => {
+    securityEngine.getDetectors()
+      .filter((detector) => !defaultIds.includes(detector.id))
+      .forEach((detector) => securityEngine.unregisterDetector(detector.id));
+    defaultIds.forEach((id) => securityEngine.setDetectorWeight(id, null));
+    securityEngine.clearHistory();
+    mockDevice.isRootedExperimentalAsync.mockResolvedValue(false);
+    mockAppend.mockClear();
+  });
+
+  test('should give the same findings for the same device', async () => {
+    // The demo detectors stay off unless asked for
+    expect(defaultIds.some((id) => id.startsWith('demo-'))).toBe(false);
+
+    // Development builds count as debuggable
+    securityEngine.setDetectorWeight('debugger', 0);
+
+    const first = await securityEngine.performSecurityCheck();
+    const second = await securityEngine.performSecurityCheck();
+
+    expect(first.score).toBe(100);
+    expect(second.score).toBe(first.score);
+    expect(second.issues).toEqual(first.issues);
+
+    // Detectors for other platforms do not run
+    const ids = first.detections.map((record) => record.detectorId);
+    expect(ids).toContain('sideloading');
+    expect(ids).not.toContain('ios-distribution');
+  });
+
+  test('should score findings by detector weight and keep the evidence', async () => {
+    mockDevice.isRootedExperimentalAsync.mockResolvedValue(true);
+    securityEngine.setDetectorWeight('debugger', 0);
+    securityEngine.setDetectorWeight('root', 50);
+
+    const check = await securityEngine.performSecurityCheck();
+    const root = check.detections.find((record) => record.detectorId === 'root');
+
+    expect(check.score).toBe(50);
+    expect(check.isSecure).toBe(false);
+    expect(check.issues).toContain('Device appears to be rooted/jailbroken');
+    expect(root).toMatchObject({ status: 'detected', severity: 10, weight: 50 });
+    expect(root?.evidence).toEqual([
+      { source: 'expo-device', observation: 'Root heuristics', value: true },
+    ]);
+
+    const analysis = await securityEngine.performThreatAnalysis();
+    expect(analysis.factors.deviceIntegrity).toBe(10);
+    expect(analysis.level).toBe(10);
+  });
+
+  test('should record detectors that time out or fail', async () => {
+    securityEngine.registerDetector(
+      fixedDetector({ id: 'slow', timeout: 10, detect: () => new Promise(() => {}) })
+    );
+    securityEngine.registerDetector(
+      fixedDetector({
+        id: 'broken',
+        detect: async () => {
+          throw new Error('No signal');
+        },
+      })
+    );
+    securityEngine.registerDetector(fixedDetector({ id: 'found' }));
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const analysis = await securityEngine.performThreatAnalysis();
+    jest.mocked(console.error).mockRestore();
+
+    const byId = Object.fromEntries(
+      securityEngine.getLastDetections().map((record) => [record.detectorId, record])
+    );
+
+    expect(byId.slow).toMatchObject({ status: 'timeout', confidence: 0, severity: 0 });
+    expect(byId.broken).toMatchObject({ status: 'error', confidence: 0 });
+    expect(byId.broken.evidence[0].value).toBe('No signal');
+    expect(byId.found).toMatchObject({ status: 'detected', severity: 5 });
+    expect(analysis.factors.networkAnomaly).toBe(5);
+    expect(analysis.threats).toContain('Fixed issue');
+    expect(analysis.confidence).toBeLessThan(100);
+  });
+
+  test('should only run the demo detectors when turned on', async () => {
+    securityEngine.setDemoDetectors(true);
+    expect(securityEngine.getDetectors().filter((detector) => detector.demo)).toHaveLength(
+      DEMO_DETECTORS.length
+    );
+
+    securityEngine.setDemoDetectors(false);
+    expect(securityEngine.getDetectors().some((detector) => detector.demo)).toBe(false);
+  });
+
+  test('should log when a threat starts and stops being detected', async () => {
+    let detected = true;
+    securityEngine.registerDetector(
+      fixedDetector({
+        id: 'toggle',
+        detect: async () => ({
+          detected,
+          severity: detected ? 7 : 0,
+          confidence: 90,
+          evidence: [],
+          issue: 'Toggle issue',
+        }),
+      })
+    );
+
+    await securityEngine.performThreatAnalysis();
+    await securityEngine.performThreatAnalysis();
+
+    const threatCalls = () =>
+      mockAppend.mock.calls.filter(([, , , options]) => options?.details?.detectorId === 'toggle');
+
+    // Still detected on the second run, so only logged once
+    expect(threatCalls()).toHaveLength(1);
+    expect(threatCalls()[0]).toEqual([
+      'threat',
+      'threat_detected',
+      'Toggle issue',
+      { severity: 'high', details: { detectorId: 'toggle', severity: 7, confidence: 90 } },
+    ]);
+
+    detected = false;
+    await securityEngine.performThreatAnalysis();
+
+    expect(threatCalls()).toHaveLength(2);
+    expect(threatCalls()[1][1]).toBe('threat_cleared');
+  });
+
+  test('should tell subscribers when a scan finishes', async () => {
+    const listener = jest.fn();
+    const unsubscribe = securityEngine.onScanCompleted(listener);
+
+    await securityEngine.performSecurityCheck();
+    await securityEngine.performThreatAnalysis();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    await securityEngine.performSecurityCheck();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,96 @@
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative('ios'));
+
+jest.mock('expo-file-system', () => require('../helpers/mocks').mockFileSystem());
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+import { auditLog } from '../../utils/auditLog';
+import { ensureSigningKeyPair } from '../../utils/keyAgreement';
+import {
+  SecurityEvent,
+  collectAuditEvents,
+  createSecurityReport,
+  saveSecurityReport,
+  verifySecurityReport,
+} from '../../utils/securityReport';
+
+const mockFileSystem = jest.requireMock('expo-file-system');
+
+const event = (overrides: Partial<SecurityEvent>): SecurityEvent => ({
+  id: '1',
+  type: 'access',
+  severity: 'low',
+  title: 'Login',
+  description: 'Signed in',
+  timestamp: Date.UTC(2026, 0, 10),
+  ...overrides,
+});
+
+describe('Security reports', () => {
+  test('should report the matching audit events with a signature that checks out', async () => {
+    await auditLog.append('auth', 'login', 'Signed in');
+    await auditLog.append('key', 'key_rotated', 'Key rotated');
+    await auditLog.append('auth', 'login_failed', 'Wrong password', { severity: 'medium' });
+
+    const events = await collectAuditEvents();
+    expect(events.map((item) => item.title)).toEqual(['Login Failed', 'Key Rotated', 'Login']);
+
+    const report = await createSecurityReport(events, {
+      format: 'json',
+      filter: { types: ['access'], severities: ['medium', 'high'] },
+      integrity: await auditLog.verify(),
+    });
+    const parsed = JSON.parse(report.content);
+
+    expect(report.eventCount).toBe(1);
+    expect(parsed.events[0]).toMatchObject({ title: 'Login Failed', severity: 'medium' });
+    expect(parsed.integrity).toMatchObject({ valid: true, checked: 3 });
+
+    const { publicKey } = await ensureSigningKeyPair();
+    expect(report.signature.signingKey).toBe(publicKey);
+    expect(verifySecurityReport(report.content, report.signature, publicKey)).toBe(true);
+
+    // Any change to the report or another signer fails the check
+    expect(verifySecurityReport(report.content.replace('Wrong', 'Right'), report.signature)).toBe(
+      false
+    );
+    expect(verifySecurityReport(report.content, report.signature, 'c29tZW9uZSBlbHNl')).toBe(false);
+  });
+
+  test('should filter by date and keep text safe in CSV and HTML', async () => {
+    const events = [
+      event({ id: 'old', timestamp: Date.UTC(2025, 11, 1) }),
+      event({ id: 'formula', description: '=HYPERLINK("http://evil")' }),
+      event({ id: 'markup', type: 'threat', title: '<script>alert(1)</script>' }),
+    ];
+    const filter = { from: Date.UTC(2026, 0, 1) };
+
+    const csv = await createSecurityReport(events, { format: 'csv', filter });
+    expect(csv.eventCount).toBe(2);
+    expect(csv.content).not.toContain('old,');
+    expect(csv.content).toContain('"\'=HYPERLINK(""http://evil"")"');
+    expect(csv.content).toContain('# Audit log: Not checked');
+    expect(csv.mimeType).toBe('text/csv');
+
+    const html = await createSecurityReport(events, { format: 'html', filter });
+    expect(html.content).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html.content).not.toContain('<script>');
+    expect(html.filename).toMatch(/\.html$/);
+    expect(verifySecurityReport(html.content, html.signature)).toBe(true);
+  });
+
+  test('should save the report next to its signature', async () => {
+    const report = await createSecurityReport([event({})], { format: 'json' });
+    const saved = await saveSecurityReport(report);
+
+    expect(saved).toEqual({
+      reportUri: `file:///documents/reports/${report.filename}`,
+      signatureUri: `file:///documents/reports/${report.filename}.sig`,
+    });
+    expect(mockFileSystem.writeAsStringAsync).toHaveBeenCalledWith(saved!.reportUri, report.content);
+    expect(JSON.parse(await mockFileSystem.readAsStringAsync(saved!.signatureUri))).toEqual(
+      report.signature
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { loadModules } from '../helpers/devices';
+import {
+  jsonResponse,
+  mockFetch,
+  mockKeysRoute,
+  MockRoute,
+  PublishedBundle,
+} from '../helpers/server';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+// Each device gets its own in-memory storage, signed in as mockCurrentUser
+let mockCurrentUser = '';
+
+jest.mock('../../utils/storage', () => {
+  const { StorageKeys } = jest.requireActual('../../utils/storage');
+
+  return require('../helpers/mocks').mockStorage(
+    new Map([
+      [StorageKeys.AUTH_TOKEN, mockCurrentUser],
+      [StorageKeys.USER_ID, mockCurrentUser],
+      [StorageKeys.DEVICE_ID, 'phone'],
+    ])
+  );
+});
+
+// Local mock of the server's /keys and /devices routes
+type SenderKeyDistribution = { senderId: string; recipientId: string; content: string };
+
+const mockBundles = new Map<string, PublishedBundle>();
+const mockDistributions: SenderKeyDistribution[] = [];
+
+const mockSenderKeysRoute: MockRoute = ({ method, path, token, body }) => {
+  if (method === 'GET' && /^\/devices\/user\/\w+$/.test(path)) {
+    return jsonResponse(200, { success: true, deviceIds: ['phone'] });
+  }
+
+  if (method === 'POST' && path === '/keys/sender-keys') {
+    const { distributions } = body as { distributions: Omit<SenderKeyDistribution, 'senderId'>[] };
+
+    distributions.forEach((item) => mockDistributions.push({ senderId: token, ...item }));
+
+    return jsonResponse(201, { success: true });
+  }
+
+  if (method === 'GET' && path.startsWith('/keys/sender-keys/')) {
+    const pending = mockDistributions.filter((item) => item.recipientId === token);
+
+    pending.forEach((item) => mockDistributions.splice(mockDistributions.indexOf(item), 1));
+
+    return jsonResponse(200, { success: true, distributions: pending });
+  }
+
+  return undefined;
+};
+
+type Device = {
+  userId: string;
+  prekeys: typeof import('../../utils/prekeys');
+  groups: typeof import('../../utils/senderKeys').senderKeys;
+};
+
+// Load a separate copy of the modules for each user
+const createDevice = async (userId: string): Promise<Device> => {
+  mockCurrentUser = userId;
+
+  const device = loadModules(() => ({
+    userId,
+    prekeys: require('../../utils/prekeys'),
+    groups: require('../../utils/senderKeys').senderKeys,
+  }));
+
+  await device.prekeys.replenishPrekeys();
+
+  return device;
+};
+
+// Members as the conversation lists them, with the identity key the server holds
+const membersOf = (...devices: Device[]) =>
+  devices.map((device) => ({
+    _id: device.userId,
+    publicKey: mockBundles.get(device.userId)!.identityKey,
+  }));
+
+describe('Sender key groups', () => {
+  let alice: Device;
+  let bob: Device;
+  let carol: Device;
+
+  beforeEach(async () => {
+    mockBundles.clear();
+    mockDistributions.length = 0;
+    global.fetch = mockFetch(mockKeysRoute(mockBundles), mockSenderKeysRoute);
+
+    alice = await createDevice('alice');
+    bob = await createDevice('bob');
+    carol = await createDevice('carol');
+  });
+
+  test('should let every member read group messages', async () => {
+    const members = membersOf(alice, bob, carol);
+
+    const fromAlice = await alice.groups.encrypt('group1', 'alice', members, 'Hi all');
+    const fromBob = await bob.groups.encrypt('group1', 'bob', members, 'Hi Alice');
+
+    expect(await bob.groups.decrypt('group1', 'alice', members, fromAlice)).toBe('Hi all');
+    expect(await carol.groups.decrypt('group1', 'alice', members, fromAlice)).toBe('Hi all');
+    expect(await alice.groups.decrypt('group1', 'bob', members, fromBob)).toBe('Hi Alice');
+    expect(await carol.groups.decrypt('group1', 'bob', members, fromBob)).toBe('Hi Alice');
+
+    // Senders can read back their own messages
+    expect(await alice.groups.decrypt('group1', 'alice', members, fromAlice)).toBe('Hi all');
+  });
+
+  test('should only distribute a key once per member', async () => {
+    const members = membersOf(alice, bob, carol);
+
+    await alice.groups.encrypt('group1', 'alice', members, 'One');
+    expect(mockDistributions).toHaveLength(2);
+
+    await alice.groups.encrypt('group1', 'alice', members, 'Two');
+    expect(mockDistributions).toHaveLength(2);
+  });
+
+  test('should handle out-of-order messages and reject replays', async () => {
+    const members = membersOf(alice, bob);
+
+    const first = await alice.groups.encrypt('group1', 'alice', members, 'First');
+    const second = await alice.groups.encrypt('group1', 'alice', members, 'Second');
+
+    expect(await bob.groups.decrypt('group1', 'alice', members, second)).toBe('Second');
+    expect(await bob.groups.decrypt('group1', 'alice', members, first)).toBe('First');
+    await expect(bob.groups.decrypt('group1', 'alice', members, first)).rejects.toThrow(
+      'Message key already used'
+    );
+  });
+
+  test('should reject tampered messages', async () => {
+    const members = membersOf(alice, bob);
+
+    const message = JSON.parse(
+      await alice.groups.encrypt('group1', 'alice', members, 'Hello')
+    );
+    message.iteration += 1;
+
+    await expect(
+      bob.groups.decrypt('group1', 'alice', members, JSON.stringify(message))
+    ).rejects.toThrow('Invalid group message signature');
+  });
+
+  test('should rotate keys so removed members cannot read later messages', async () => {
+    const everyone = membersOf(alice, bob, carol);
+    const before = await alice.groups.encrypt('group1', 'alice', everyone, 'Before');
+
+    expect(await carol.groups.decrypt('group1', 'alice', everyone, before)).toBe('Before');
+
+    // Carol is removed from the group
+    await alice.groups.removeMember('group1', 'carol');
+    const remaining = membersOf(alice, bob);
+    const after = await alice.groups.encrypt('group1', 'alice', remaining, 'After');
+
+    expect(JSON.parse(after).keyId).not.toBe(JSON.parse(before).keyId);
+    expect(mockDistributions.some((item) => item.recipientId === 'carol')).toBe(false);
+    expect(await bob.groups.decrypt('group1', 'alice', remaining, after)).toBe('After');
+
+    // Carol still believes she is a member but never received the new key
+    await expect(carol.groups.decrypt('group1', 'alice', everyone, after)).rejects.toThrow(
+      'Sender key not available'
+    );
+  });
+
+  test('should rotate keys when members are added', async () => {
+    const original = membersOf(alice, bob);
+    const before = await alice.groups.encrypt('group1', 'alice', original, 'Before');
+
+    const everyone = membersOf(alice, bob, carol);
+    const after = await alice.groups.encrypt('group1', 'alice', everyone, 'After');
+
+    expect(JSON.parse(after).keyId).not.toBe(JSON.parse(before).keyId);
+    expect(await carol.groups.decrypt('group1', 'alice', everyone, after)).toBe('After');
+    await expect(carol.groups.decrypt('group1', 'alice', everyone, before)).rejects.toThrow(
+      'Sender key not available'
+    );
+  });
+
+  test('should reject messages from non-members', async () => {
+    const members = membersOf(alice, bob, carol);
+    const message = await carol.groups.encrypt('group1', 'carol', members, 'Hello');
+
+    await expect(
+      bob.groups.decrypt('group1', 'carol', membersOf(alice, bob), message)
+    ).rejects.toThrow('Sender is not a group member');
+  });
+});
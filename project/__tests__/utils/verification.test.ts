@@ -0,0 +1,129 @@
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+
+// Mock Platform for testing
+jest.mock('react-native', () => require('../helpers/mocks').mockReactNative());
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+import {
+  computeSafetyNumber,
+  formatSafetyNumber,
+  createVerificationPayload,
+  parseVerificationPayload,
+  getVerifiedContacts,
+  markContactVerified,
+  clearContactVerification,
+  getVerificationStatus,
+  recordIdentityKeys,
+  acknowledgeIdentityKeyChange,
+} from '../../utils/verification';
+
+const newIdentityKey = () => util.encodeBase64(nacl.box.keyPair().publicKey);
+
+describe('Contact verification', () => {
+  const aliceKey = newIdentityKey();
+  const bobKey = newIdentityKey();
+
+  test('should compute the same safety number on both devices', () => {
+    const onAlice = computeSafetyNumber('alice', aliceKey, 'bob', bobKey);
+    const onBob = computeSafetyNumber('bob', bobKey, 'alice', aliceKey);
+
+    expect(onAlice).toBe(onBob);
+    expect(onAlice).toMatch(/^\d{60}$/);
+    expect(formatSafetyNumber(onAlice)).toHaveLength(12);
+  });
+
+  test('should change the safety number when a key changes', () => {
+    const before = computeSafetyNumber('alice', aliceKey, 'bob', bobKey);
+    const after = computeSafetyNumber('alice', aliceKey, 'bob', newIdentityKey());
+
+    expect(after).not.toBe(before);
+  });
+
+  test('should round-trip the QR payload', () => {
+    const payload = createVerificationPayload('bob', bobKey);
+
+    expect(parseVerificationPayload(payload)).toEqual({
+      userId: 'bob',
+      identityKey: bobKey,
+    });
+  });
+
+  test('should reject invalid QR payloads', () => {
+    expect(parseVerificationPayload('https://example.com')).toBeNull();
+    expect(parseVerificationPayload('securicomm://verify?v=2&u=bob&k=abc')).toBeNull();
+    expect(
+      parseVerificationPayload(
+        `securicomm://verify?v=1&u=bob&k=${encodeURIComponent(util.encodeBase64(new Uint8Array(8)))}`
+      )
+    ).toBeNull();
+  });
+
+  test('should track verified contacts and detect key changes', async () => {
+    await markContactVerified('bob', bobKey);
+    const verified = await getVerifiedContacts();
+
+    expect(getVerificationStatus(verified, 'bob', bobKey)).toBe('verified');
+    expect(getVerificationStatus(verified, 'bob', newIdentityKey())).toBe('changed');
+    expect(getVerificationStatus(verified, 'carol', newIdentityKey())).toBe('unverified');
+
+    await clearContactVerification('bob');
+    expect(getVerificationStatus(await getVerifiedContacts(), 'bob', bobKey)).toBe('unverified');
+  });
+
+  test('should flag a changed key of a contact that was never verified', async () => {
+    const carolKey = newIdentityKey();
+    const carolNewKey = newIdentityKey();
+
+    let known = await recordIdentityKeys([{ _id: 'carol', publicKey: carolKey }]);
+    expect(getVerificationStatus({}, 'carol', carolKey, known)).toBe('unverified');
+
+    known = await recordIdentityKeys([{ _id: 'carol', publicKey: carolNewKey }]);
+    expect(known.carol.previousKey).toBe(carolKey);
+    expect(getVerificationStatus({}, 'carol', carolNewKey, known)).toBe('changed');
+
+    // Seeing the new key again keeps the warning
+    known = await recordIdentityKeys([{ _id: 'carol', publicKey: carolNewKey }]);
+    expect(getVerificationStatus({}, 'carol', carolNewKey, known)).toBe('changed');
+
+    await acknowledgeIdentityKeyChange('carol', carolNewKey);
+    known = await recordIdentityKeys([{ _id: 'carol', publicKey: carolNewKey }]);
+    expect(getVerificationStatus({}, 'carol', carolNewKey, known)).toBe('unverified');
+  });
+
+  test('should clear a key change when the contact is verified again', async () => {
+    const daveKey = newIdentityKey();
+    const daveNewKey = newIdentityKey();
+
+    await recordIdentityKeys([{ _id: 'dave', publicKey: daveKey }]);
+    await recordIdentityKeys([{ _id: 'dave', publicKey: daveNewKey }]);
+    await markContactVerified('dave', daveNewKey);
+
+    const known = await recordIdentityKeys([{ _id: 'dave', publicKey: daveNewKey }]);
+    expect(known.dave.previousKey).toBeUndefined();
+    expect(getVerificationStatus(await getVerifiedContacts(), 'dave', daveNewKey, known)).toBe('verified');
+  });
+
+  test('should keep track of many contacts', async () => {
+    const contacts = Array.from({ length: 60 }, (_, i) => ({
+      _id: `contact${i}`,
+      publicKey: newIdentityKey(),
+    }));
+
+    await recordIdentityKeys(contacts);
+
+    for (const contact of contacts) {
+      await markContactVerified(contact._id, contact.publicKey);
+    }
+
+    // A key change of the last contact is still noticed
+    const lastKey = newIdentityKey();
+    const known = await recordIdentityKeys([{ _id: 'contact59', publicKey: lastKey }]);
+    const verified = await getVerifiedContacts();
+
+    expect(Object.keys(verified)).toEqual(expect.arrayContaining(contacts.map((c) => c._id)));
+    expect(getVerificationStatus(verified, 'contact0', contacts[0].publicKey, known)).toBe('verified');
+    expect(getVerificationStatus(verified, 'contact59', lastKey, known)).toBe('changed');
+  });
+});
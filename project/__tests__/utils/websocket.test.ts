@@ -0,0 +1,301 @@
+import { realtime, getReconnectDelay } from '../../utils/websocket';
+import { secureStorage, StorageKeys } from '../../utils/storage';
+
+jest.mock('../../utils/storage', () => require('../helpers/mocks').mockStorage());
+
+// Stand-in for a Socket.IO connection the tests drive by hand
+class MockSocket {
+  listeners = new Map<string, (...args: any[]) => void>();
+  anyListener: ((event: string, data: unknown) => void) | null = null;
+  sent: any[] = [];
+
+  constructor(public query: Record<string, string>) {}
+
+  on(event: string, listener: (...args: any[]) => void) {
+    this.listeners.set(event, listener);
+  }
+
+  onAny(listener: (event: string, data: unknown) => void) {
+    this.anyListener = listener;
+  }
+
+  offAny() {
+    this.anyListener = null;
+  }
+
+  removeAllListeners() {
+    this.listeners.clear();
+  }
+
+  emit(channel: string, message: any) {
+    this.sent.push({ channel, ...message });
+  }
+
+  connect() {}
+
+  disconnect() {}
+
+  // Connection lifecycle events
+  fire(event: string, ...args: any[]) {
+    this.listeners.get(event)?.(...args);
+  }
+
+  // Events from the server
+  receive(event: string, data: unknown) {
+    this.anyListener?.(event, data);
+  }
+}
+
+const sockets: MockSocket[] = [];
+
+jest.mock('socket.io-client', () => ({
+  io: (_url: string, options: { query: Record<string, string> }) => {
+    const socket = new MockSocket(options.query);
+    sockets.push(socket);
+    return socket;
+  },
+}));
+
+const newMessage = (seq: number) => ({
+  conversationId: 'c1',
+  message: {
+    _id: `m${seq}`,
+    conversation: 'c1',
+    sender: { _id: 'u2' },
+    encryptedContent: { data: 'sealed', nonce: 'nonce' },
+    createdAt: new Date(seq).toISOString(),
+  },
+  timestamp: 1,
+  seq,
+});
+
+// Let the token be read and the socket be created
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+const connect = async () => {
+  await flush();
+  const socket = sockets[sockets.length - 1];
+  socket.fire('connect');
+  return socket;
+};
+
+describe('Realtime connection', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    sockets.length = 0;
+    await secureStorage.setItem(StorageKeys.AUTH_TOKEN, 'token');
+  });
+
+  afterEach(() => {
+    realtime.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should back off with jitter and no attempt limit', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    expect(getReconnectDelay(0)).toBeLessThan(1000);
+    expect(getReconnectDelay(3)).toBeGreaterThan(7000);
+    expect(getReconnectDelay(3)).toBeLessThan(8000);
+    expect(getReconnectDelay(50)).toBeLessThan(30000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getReconnectDelay(50)).toBe(0);
+  });
+
+  test('should deliver each event once and acknowledge in order', async () => {
+    const received: string[] = [];
+    const unsubscribe = realtime.subscribe('new_message', (data) => {
+      received.push(data.message._id);
+    });
+
+    realtime.start();
+    const socket = await connect();
+
+    // Live events arrive before the replay of missed ones
+    socket.receive('new_message', newMessage(13));
+    socket.receive('resume', { seq: 10, timestamp: 1 });
+    [11, 12, 13].forEach((seq) => socket.receive('new_message', newMessage(seq)));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+    unsubscribe();
+
+    expect(received).toEqual(['m13', 'm11', 'm12']);
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ack', payload: { seq: 13 } }]);
+  });
+
+  test('should not acknowledge past a missing event', async () => {
+    const unsubscribe = realtime.subscribe('new_message', () => {});
+
+    realtime.start();
+    const socket = await connect();
+
+    socket.receive('resume', { seq: 0, timestamp: 1 });
+    socket.receive('new_message', newMessage(1));
+    socket.receive('new_message', newMessage(3));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+    unsubscribe();
+
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ack', payload: { seq: 1 } }]);
+  });
+
+  test('should not acknowledge events nothing handled', async () => {
+    realtime.start();
+    const socket = await connect();
+
+    socket.receive('resume', { seq: 0, timestamp: 1 });
+    socket.receive('new_message', newMessage(1));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ack', payload: { seq: 0 } }]);
+  });
+
+  test('should acknowledge an event only once its handlers finished', async () => {
+    let finish = () => {};
+    const unsubscribe = realtime.subscribe(
+      'new_message',
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+
+    realtime.start();
+    const socket = await connect();
+
+    socket.receive('resync', { seq: 0, timestamp: 1 });
+    socket.receive('new_message', newMessage(1));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+    socket.sent.length = 0;
+
+    finish();
+    await flush();
+    jest.advanceTimersByTime(1000);
+    unsubscribe();
+
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ack', payload: { seq: 1 } }]);
+  });
+
+  test('should handle a failed event again when it is replayed', async () => {
+    const handled: number[] = [];
+    let attempts = 0;
+    const unsubscribe = realtime.subscribe('new_message', async (data) => {
+      attempts += 1;
+      if (attempts === 1) {
+        throw new Error('Decryption failed');
+      }
+      handled.push(data.seq!);
+    });
+
+    realtime.start();
+    const socket = await connect();
+
+    socket.receive('resume', { seq: 0, timestamp: 1 });
+    socket.receive('new_message', newMessage(1));
+    socket.receive('new_message', newMessage(2));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+
+    // Neither the failed event nor the one after it is acknowledged
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ack', payload: { seq: 0 } }]);
+
+    socket.sent.length = 0;
+    socket.receive('new_message', newMessage(1));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+    unsubscribe();
+
+    expect(handled).toEqual([2, 1]);
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ack', payload: { seq: 2 } }]);
+  });
+
+  test('should give up on an event its handler always fails on', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const unsubscribe = realtime.subscribe('new_message', async (data) => {
+      if (data.seq === 1) {
+        throw new Error('Decryption failed');
+      }
+    });
+
+    realtime.start();
+    const socket = await connect();
+
+    socket.receive('resume', { seq: 0, timestamp: 1 });
+    socket.receive('new_message', newMessage(2));
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+
+    // Replayed until the attempts run out, then processed so the events after it are acknowledged
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      socket.sent.length = 0;
+      socket.receive('new_message', newMessage(1));
+
+      await flush();
+      jest.advanceTimersByTime(1000);
+
+      expect(socket.sent).toEqual(
+        attempt < 5 ? [] : [{ channel: 'message', type: 'ack', payload: { seq: 2 } }]
+      );
+    }
+
+    unsubscribe();
+
+    expect(error).toHaveBeenCalledWith('WebSocket event new_message #1 dropped after 5 failed attempts');
+    error.mockRestore();
+  });
+
+  test('should reconnect and resume from the last event', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    realtime.start();
+    const socket = await connect();
+
+    expect(socket.query).toEqual({ token: 'token' });
+
+    socket.receive('resync', { seq: 7, timestamp: 1 });
+    socket.fire('disconnect', 'transport close');
+    expect(realtime.getState().isConnected).toBe(false);
+
+    jest.advanceTimersByTime(500);
+    const resumed = await connect();
+
+    expect(resumed).not.toBe(socket);
+    expect(resumed.query).toEqual({ token: 'token', lastEventSeq: '7' });
+    expect(realtime.getState().isConnected).toBe(true);
+  });
+
+  test('should reconnect when heartbeats go unanswered', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    realtime.start();
+    const socket = await connect();
+
+    jest.advanceTimersByTime(25000);
+    expect(socket.sent).toEqual([{ channel: 'message', type: 'ping', payload: {} }]);
+
+    // Answered heartbeats keep the connection
+    socket.receive('pong', { timestamp: 1 });
+    jest.advanceTimersByTime(10000);
+    expect(sockets).toHaveLength(1);
+
+    jest.advanceTimersByTime(25000 + 10000);
+    await flush();
+
+    expect(sockets).toHaveLength(2);
+  });
+});
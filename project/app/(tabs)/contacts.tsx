@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -16,6 +16,7 @@ import {
   Search,
   Plus,
   Shield,
+  ShieldAlert,
   Phone,
   MessageCircle,
   Video,
@@ -24,77 +25,108 @@ import {
   QrCode,
   Key,
 } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useConversation } from '@/contexts/ConversationContext';
+import { KeyVerification } from '@/components/KeyVerification';
+import {
+  getVerifiedContacts,
+  getVerificationStatus,
+  recordIdentityKeys,
+  VerifiedContact,
+  VerificationStatus,
+  KnownIdentityKey,
+} from '@/utils/verification';
+import { usePresence, formatLastSeen } from '@/utils/presence';
 
 interface Contact {
   id: string;
   name: string;
-  phone: string;
-  email?: string;
+  email: string;
   avatar: string;
-  isOnline: boolean;
   isVerified: boolean;
-  publicKey: string;
-  lastSeen: string;
-  mutualContacts: number;
+  verificationStatus: VerificationStatus;
+  publicKey?: string;
 }
 
 export default function ContactsScreen() {
+  const { user } = useAuth();
+  const { conversations } = useConversation();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTab, setSelectedTab] = useState<'all' | 'verified' | 'pending'>('all');
+  const [verifiedContacts, setVerifiedContacts] = useState<Record<string, VerifiedContact>>({});
+  const [knownIdentityKeys, setKnownIdentityKeys] = useState<Record<string, KnownIdentityKey>>({});
+  const [verification, setVerification] = useState<{
+    contact: Contact | null;
+    startScanning: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    loadVerifiedContacts();
+  }, []);
+
+  const loadVerifiedContacts = async () => {
+    try {
+      setVerifiedContacts(await getVerifiedContacts());
+    } catch (error) {
+      console.error('Load verified contacts error:', error);
+    }
+  };
+
+  // Notice identity keys that changed since they were first seen
+  useEffect(() => {
+    const participants = conversations.flatMap((conversation) =>
+      conversation.participants.filter((participant) => participant._id !== user?.userID)
+    );
+
+    recordIdentityKeys(participants)
+      .then(setKnownIdentityKeys)
+      .catch((error) => console.error('Record identity keys error:', error));
+  }, [conversations, user]);
 
-  const contacts: Contact[] = [
-    {
-      id: '1',
-      name: 'Sarah Chen',
-      phone: '+1 (555) 123-4567',
-      email: 'sarah.chen@secure.com',
-      avatar: 'SC',
-      isOnline: true,
-      isVerified: true,
-      publicKey: 'pub_key_abc123...',
-      lastSeen: 'now',
-      mutualContacts: 12,
-    },
-    {
-      id: '2',
-      name: 'Mark Johnson',
-      phone: '+1 (555) 987-6543',
-      email: 'mark.j@encrypted.com',
-      avatar: 'MJ',
-      isOnline: false,
-      isVerified: true,
-      publicKey: 'pub_key_def456...',
-      lastSeen: '2h ago',
-      mutualContacts: 8,
-    },
-    {
-      id: '3',
-      name: 'Emma Davis',
-      phone: '+1 (555) 777-8888',
-      email: 'emma.davis@secure.net',
-      avatar: 'ED',
-      isOnline: true,
-      isVerified: false,
-      publicKey: 'pub_key_ghi789...',
-      lastSeen: 'now',
-      mutualContacts: 5,
-    },
-    {
-      id: '4',
-      name: 'Alex Rodriguez',
-      phone: '+1 (555) 444-3333',
-      avatar: 'AR',
-      isOnline: false,
-      isVerified: true,
-      publicKey: 'pub_key_jkl012...',
-      lastSeen: '1d ago',
-      mutualContacts: 15,
-    },
-  ];
+  // Contacts are the other participants of our direct conversations
+  const contacts = useMemo(() => {
+    const byId = new Map<string, Contact>();
+
+    conversations
+      .filter((conversation) => conversation.type === 'direct')
+      .forEach((conversation) => {
+        conversation.participants
+          .filter((participant) => participant._id !== user?.userID)
+          .forEach((participant) => {
+            const name = participant.displayName || participant.email;
+            const verificationStatus = getVerificationStatus(
+              verifiedContacts,
+              participant._id,
+              participant.publicKey,
+              knownIdentityKeys
+            );
+
+            byId.set(participant._id, {
+              id: participant._id,
+              name,
+              email: participant.email,
+              avatar: name
+                .split(/[\s@.]+/)
+                .filter(Boolean)
+                .slice(0, 2)
+                .map((part) => part[0].toUpperCase())
+                .join(''),
+              isVerified: verificationStatus === 'verified',
+              verificationStatus,
+              publicKey: participant.publicKey,
+            });
+          });
+      });
+
+    return Array.from(byId.values());
+  }, [conversations, user, verifiedContacts, knownIdentityKeys]);
+
+  // Online and last seen as far as each contact's privacy settings allow
+  const contactPresence = usePresence(contacts.map((contact) => contact.id));
 
   const filteredContacts = contacts.filter(contact => {
     const matchesSearch = contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         contact.phone.includes(searchQuery);
+                         contact.email.toLowerCase().includes(searchQuery.toLowerCase());
     
     if (selectedTab === 'verified') return matchesSearch && contact.isVerified;
     if (selectedTab === 'pending') return matchesSearch && !contact.isVerified;
@@ -102,32 +134,40 @@ export default function ContactsScreen() {
   });
 
   const ContactItem = ({ contact }: { contact: Contact }) => (
-    <TouchableOpacity style={styles.contactItem}>
+    <TouchableOpacity
+      style={styles.contactItem}
+      onPress={() => setVerification({ contact, startScanning: false })}
+    >
       <BlurView intensity={20} style={styles.contactItemBlur}>
         <View style={styles.contactLeft}>
           <View style={styles.avatarContainer}>
             <View style={[styles.avatar, { backgroundColor: '#00FF94' }]}>
               <Text style={styles.avatarText}>{contact.avatar}</Text>
             </View>
-            {contact.isOnline && <View style={styles.onlineIndicator} />}
+            {contactPresence[contact.id]?.status === 'online' && (
+              <View style={styles.onlineIndicator} />
+            )}
             {contact.isVerified && (
               <View style={styles.verifiedBadge}>
                 <Shield size={10} color="#FFFFFF" />
               </View>
             )}
+            {contact.verificationStatus === 'changed' && (
+              <View style={[styles.verifiedBadge, styles.changedBadge]}>
+                <ShieldAlert size={10} color="#FFFFFF" />
+              </View>
+            )}
           </View>
 
           <View style={styles.contactInfo}>
             <Text style={styles.contactName}>{contact.name}</Text>
-            <Text style={styles.contactPhone}>{contact.phone}</Text>
+            <Text style={styles.contactPhone}>{contact.email}</Text>
             <View style={styles.contactMeta}>
-              <Text style={styles.lastSeen}>
-                {contact.isOnline ? 'Online' : `Last seen ${contact.lastSeen}`}
-              </Text>
-              {contact.mutualContacts > 0 && (
-                <Text style={styles.mutualContacts}>
-                  • {contact.mutualContacts} mutual
-                </Text>
+              {formatLastSeen(contactPresence[contact.id]) && (
+                <Text style={styles.lastSeen}>{formatLastSeen(contactPresence[contact.id])}</Text>
+              )}
+              {contact.verificationStatus === 'changed' && (
+                <Text style={styles.keyChanged}>• Key changed</Text>
               )}
             </View>
           </View>
@@ -198,13 +238,13 @@ export default function ContactsScreen() {
           <QuickAction
             icon={<QrCode size={24} color="#00D4FF" />}
             label="QR Code"
-            onPress={() => Alert.alert('QR Code', 'Scan QR to add contact')}
+            onPress={() => setVerification({ contact: null, startScanning: true })}
             color="#00D4FF"
           />
           <QuickAction
             icon={<Key size={24} color="#FF6B35" />}
             label="Key Exchange"
-            onPress={() => Alert.alert('Key Exchange', 'Secure key exchange')}
+            onPress={() => setVerification({ contact: null, startScanning: false })}
             color="#FF6B35"
           />
         </View>
@@ -271,7 +311,7 @@ export default function ContactsScreen() {
           <View style={styles.securityRow}>
             <Shield size={16} color="#00FF94" />
             <Text style={styles.securityText}>
-              All contacts use verified public keys
+              {contacts.filter(c => c.isVerified).length} of {contacts.length} contacts verified
             </Text>
           </View>
           <View style={styles.securityRow}>
@@ -281,6 +321,15 @@ export default function ContactsScreen() {
             </Text>
           </View>
         </BlurView>
+
+        <KeyVerification
+          visible={verification !== null}
+          contact={verification?.contact || null}
+          contacts={contacts}
+          startScanning={verification?.startScanning}
+          onClose={() => setVerification(null)}
+          onVerified={loadVerifiedContacts}
+        />
       </SafeAreaView>
     </LinearGradient>
   );
@@ -448,6 +497,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  changedBadge: {
+    backgroundColor: '#FF6B35',
+  },
   contactInfo: {
     flex: 1,
   },
@@ -472,10 +524,10 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     color: '#FFFFFF60',
   },
-  mutualContacts: {
+  keyChanged: {
     fontSize: 12,
-    fontFamily: 'Inter-Regular',
-    color: '#FFFFFF60',
+    fontFamily: 'Inter-SemiBold',
+    color: '#FF6B35',
     marginLeft: 4,
   },
   contactActions: {
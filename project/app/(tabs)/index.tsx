@@ -13,6 +13,7 @@ import { BlurView } from 'expo-blur';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSecurity } from '@/contexts/SecurityContext';
+import { FrameworkResult } from '@/utils/compliance';
 import {
   Shield,
   Activity,
@@ -41,6 +42,13 @@ import Animated, {
 
 const { width } = Dimensions.get('window');
 
+// Badge colours of the compliance statuses
+const COMPLIANCE_COLORS: Record<FrameworkResult['status'], string> = {
+  compliant: '#00FF94',
+  partial: '#FFB800',
+  non_compliant: '#FF4444',
+};
+
 export default function Dashboard() {
   const { user } = useAuth();
   const { 
@@ -361,16 +369,18 @@ export default function Dashboard() {
               <Text style={styles.complianceTitle}>Regulatory Compliance</Text>
             </View>
             <View style={styles.complianceGrid}>
-              {Object.entries(complianceStatus).map(([key, status]) => (
+              {complianceStatus ? Object.entries(complianceStatus).map(([key, result]) => (
                 <View key={key} style={styles.complianceItem}>
-                  <Text style={styles.complianceLabel}>{key.toUpperCase()}</Text>
-                  <View style={[styles.complianceStatus, { backgroundColor: status ? '#00FF94' : '#FF4444' }]}>
+                  <Text style={styles.complianceLabel}>{result.name}</Text>
+                  <View style={[styles.complianceStatus, { backgroundColor: COMPLIANCE_COLORS[result.status] }]}>
                     <Text style={styles.complianceStatusText}>
-                      {status ? '✓' : '✗'}
+                      {result.status === 'compliant' ? '✓' : `${result.passed}/${result.total}`}
                     </Text>
                   </View>
                 </View>
-              ))}
+              )) : (
+                <Text style={styles.complianceLabel}>Checking controls…</Text>
+              )}
             </View>
           </BlurView>
 
@@ -741,9 +751,10 @@ const styles = StyleSheet.create({
     color: '#FFFFFF80',
   },
   complianceStatus: {
-    width: 20,
+    minWidth: 20,
     height: 20,
     borderRadius: 10,
+    paddingHorizontal: 6,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,6 +15,10 @@ import { AISecurityEngine } from '@/components/AISecurityEngine';
 import ThreatMeter from '@/components/ThreatMeter';
 import SecurityBadge from '@/components/SecurityBadge';
 import EncryptionIndicator from '@/components/EncryptionIndicator';
+import { SecurityTimeline } from '@/components/SecurityTimeline';
+import { SecurityReportModal } from '@/components/SecurityReportModal';
+import { auditEntryToEvent } from '@/utils/securityReport';
+import { FrameworkResult } from '@/utils/compliance';
 import {
   Shield,
   Brain,
@@ -42,6 +46,16 @@ import Animated, {
 
 const { width } = Dimensions.get('window');
 
+// Audit log entries loaded at a time
+const LOG_PAGE_SIZE = 20;
+
+// Badge colours of the compliance statuses
+const COMPLIANCE_COLORS: Record<FrameworkResult['status'], string> = {
+  compliant: '#00FF94',
+  partial: '#FFB800',
+  non_compliant: '#FF4444',
+};
+
 export default function SecurityScreen() {
   const { 
     securityLevel, 
@@ -54,11 +68,34 @@ export default function SecurityScreen() {
     meshNetworkStatus,
     complianceStatus,
     securityHistory,
-    lastSecurityCheck
+    lastSecurityCheck,
+    logs,
+    hasMoreLogs,
+    logIntegrity,
+    getLogs,
+    verifyLogs,
   } = useSecurity();
 
   const [activeTab, setActiveTab] = useState<'overview' | 'ai-engine' | 'analytics'>('overview');
   const [isScanning, setIsScanning] = useState(false);
+  const [logPage, setLogPage] = useState(1);
+  const [showReport, setShowReport] = useState(false);
+  
+  const logEvents = useMemo(() => logs.map(auditEntryToEvent), [logs]);
+  
+  // Load the audit log and check its chain when the analytics open
+  React.useEffect(() => {
+    if (activeTab !== 'analytics') return;
+    
+    setLogPage(1);
+    getLogs(LOG_PAGE_SIZE, 1);
+    verifyLogs().catch((error) => console.error('Verify audit log error:', error));
+  }, [activeTab]);
+  
+  const loadOlderLogs = () => {
+    getLogs(LOG_PAGE_SIZE, logPage + 1);
+    setLogPage(logPage + 1);
+  };
 
   const pulseAnimation = useSharedValue(1);
   const shieldRotation = useSharedValue(0);
@@ -269,17 +306,33 @@ export default function SecurityScreen() {
           <Text style={styles.cardTitle}>Regulatory Compliance</Text>
         </View>
         <View style={styles.complianceGrid}>
-          {Object.entries(complianceStatus).map(([key, status]) => (
+          {complianceStatus ? Object.entries(complianceStatus).map(([key, result]) => (
             <View key={key} style={styles.complianceItem}>
-              <Text style={styles.complianceLabel}>{key.toUpperCase()}</Text>
-              <View style={[styles.complianceStatus, { backgroundColor: status ? '#00FF94' : '#FF4444' }]}>
+              <Text style={styles.complianceLabel}>{result.name}</Text>
+              <View style={[styles.complianceStatus, { backgroundColor: COMPLIANCE_COLORS[result.status] }]}>
                 <Text style={styles.complianceStatusText}>
-                  {status ? '✓' : '✗'}
+                  {result.status === 'compliant' ? '✓' : `${result.passed}/${result.total}`}
                 </Text>
               </View>
             </View>
-          ))}
+          )) : (
+            <Text style={styles.complianceLabel}>Checking controls…</Text>
+          )}
         </View>
+        {complianceStatus && (
+          <View style={styles.complianceRemediation}>
+            {Object.values(complianceStatus)
+              .flatMap((result) => result.controls)
+              .filter((control, index, controls) =>
+                !control.passed && controls.findIndex((other) => other.id === control.id) === index
+              )
+              .map((control) => (
+                <Text key={control.id} style={styles.complianceRemediationText}>
+                  {control.title}: {control.remediation}
+                </Text>
+              ))}
+          </View>
+        )}
       </BlurView>
     </View>
   );
@@ -391,7 +444,7 @@ export default function SecurityScreen() {
                   Security Check - Score: {check.score.toFixed(0)}%
                 </Text>
                 <Text style={styles.historyTime}>
-                  {new Date().toLocaleTimeString()}
+                  {new Date(check.checkedAt).toLocaleTimeString()}
                 </Text>
               </View>
               <View style={[
@@ -406,6 +459,20 @@ export default function SecurityScreen() {
           ))}
         </View>
       </BlurView>
+
+      {/* Audit Log */}
+      <SecurityTimeline
+        events={logEvents}
+        maxEvents={logEvents.length}
+        hasMore={hasMoreLogs}
+        onLoadMore={loadOlderLogs}
+        integrity={logIntegrity}
+      />
+
+      <TouchableOpacity style={styles.exportButton} onPress={() => setShowReport(true)}>
+        <FileShield size={18} color="#00FF94" />
+        <Text style={styles.exportButtonText}>Export Signed Report</Text>
+      </TouchableOpacity>
     </View>
   );
 
@@ -467,6 +534,8 @@ export default function SecurityScreen() {
           {activeTab === 'analytics' && <SecurityAnalytics />}
         </ScrollView>
       </SafeAreaView>
+
+      <SecurityReportModal visible={showReport} onClose={() => setShowReport(false)} />
     </LinearGradient>
   );
 }
@@ -716,9 +785,10 @@ const styles = StyleSheet.create({
     color: '#FFFFFF80',
   },
   complianceStatus: {
-    width: 20,
+    minWidth: 20,
     height: 20,
     borderRadius: 10,
+    paddingHorizontal: 6,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -727,6 +797,16 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#000000',
   },
+  complianceRemediation: {
+    marginTop: 8,
+    gap: 6,
+  },
+  complianceRemediationText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#FFB800',
+    lineHeight: 18,
+  },
   analyticsCard: {
     backgroundColor: 'rgba(255, 255, 255, 0.05)',
     borderRadius: 16,
@@ -821,4 +901,20 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: '#000000',
   },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#00FF94',
+    paddingVertical: 12,
+    marginBottom: 20,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00FF94',
+  },
 });
\ No newline at end of file
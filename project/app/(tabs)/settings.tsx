@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -11,12 +11,25 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, AccountPrivacy } from '@/contexts/AuthContext';
 import { useSecurity } from '@/contexts/SecurityContext';
+import { KeyBackupModal, KeyBackupMode } from '@/components/KeyBackupModal';
+import { LinkedDevices } from '@/components/LinkedDevices';
+import {
+  DeviceSettings,
+  DEFAULT_DEVICE_SETTINGS,
+  getDeviceSettings,
+  updateDeviceSettings,
+} from '@/utils/deviceSettings';
+import {
+  disappearing,
+  DATA_RETENTION_OPTIONS,
+  formatDataRetention,
+} from '@/utils/disappearing';
+import { deviceProtection } from '@/utils/deviceProtection';
 import {
   Settings as SettingsIcon,
   Shield,
-  Lock,
   Key,
   Eye,
   EyeOff,
@@ -30,35 +43,112 @@ import {
   Database,
   Wifi,
   ChevronRight,
+  Upload,
+  Download,
+  Smartphone,
+  CheckCheck,
+  Clock,
 } from 'lucide-react-native';
 
 export default function SettingsScreen() {
-  const { logout } = useAuth();
+  const { user, logout, updatePrivacy } = useAuth();
   const { 
     securityLevel, 
     isEmergencyMode, 
     enableEmergencyMode, 
-    disableEmergencyMode 
+    disableEmergencyMode,
+    checkCompliance,
   } = useSecurity();
 
-  const [settings, setSettings] = useState({
-    biometricAuth: true,
-    endToEndEncryption: true,
-    autoDelete: false,
-    darkMode: true,
-    notifications: true,
-    metadataProtection: true,
-    meshNetworking: false,
-    aiThreatDetection: true,
-    screenSecurity: true,
-    voiceEncryption: true,
-  });
-
-  const toggleSetting = (key: string) => {
+  const [settings, setSettings] = useState<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
+  const [keyBackupMode, setKeyBackupMode] = useState<KeyBackupMode | null>(null);
+  const [showLinkedDevices, setShowLinkedDevices] = useState(false);
+
+  useEffect(() => {
+    getDeviceSettings().then(setSettings);
+  }, []);
+
+  // Device settings are kept so compliance checks see them
+  const toggleSetting = async (key: keyof DeviceSettings) => {
     setSettings(prev => ({
       ...prev,
-      [key]: !prev[key as keyof typeof prev],
+      [key]: !prev[key],
     }));
+
+    try {
+      const updated = await updateDeviceSettings({ [key]: !settings[key] });
+      
+      // Protections take effect straight away, before compliance is checked
+      if (key === 'screenSecurity' || key === 'biometricAuth') {
+        await deviceProtection.apply(updated);
+      }
+      
+      if (key === 'autoDelete') {
+        await disappearing.sweep();
+      }
+      
+      await checkCompliance();
+    } catch (error) {
+      console.error('Update settings error:', error);
+    }
+  };
+
+  // Next retention period, wrapping around to the shortest
+  const cycleDataRetention = async () => {
+    const current = DATA_RETENTION_OPTIONS.indexOf(settings.dataRetention);
+    const dataRetention = DATA_RETENTION_OPTIONS[(current + 1) % DATA_RETENTION_OPTIONS.length];
+
+    setSettings(prev => ({ ...prev, dataRetention }));
+
+    try {
+      await updateDeviceSettings({ dataRetention });
+      await disappearing.sweep();
+      await checkCompliance();
+    } catch (error) {
+      console.error('Update settings error:', error);
+    }
+  };
+
+  // Read receipts are an account setting, shared by all devices
+  const toggleReadReceipts = async () => {
+    const updated = await updatePrivacy({
+      readReceipts: user?.privacy?.readReceipts === false,
+    });
+
+    if (!updated) {
+      Alert.alert('Read Receipts', 'The setting could not be changed. Please try again.');
+    }
+  };
+
+  const toggleLastSeen = async () => {
+    const updated = await updatePrivacy({
+      lastSeen: user?.privacy?.lastSeen === false,
+    });
+
+    if (!updated) {
+      Alert.alert('Last Seen', 'The setting could not be changed. Please try again.');
+    }
+  };
+
+  // Everyone, then contacts only, then nobody
+  const cycleProfileVisibility = async () => {
+    const options: AccountPrivacy['profileVisibility'][] = ['everyone', 'contacts', 'nobody'];
+    const current = options.indexOf(user?.privacy?.profileVisibility || 'everyone');
+    const updated = await updatePrivacy({
+      profileVisibility: options[(current + 1) % options.length],
+    });
+
+    if (!updated) {
+      Alert.alert('Online Status', 'The setting could not be changed. Please try again.');
+    }
+  };
+
+  const getProfileVisibilityText = () => {
+    switch (user?.privacy?.profileVisibility) {
+      case 'contacts': return 'Only contacts see when you are online';
+      case 'nobody': return 'Nobody sees when you are online';
+      default: return 'Everyone in your chats sees when you are online';
+    }
   };
 
   const handleLogout = () => {
@@ -198,14 +288,6 @@ export default function SettingsScreen() {
               onPress={() => toggleSetting('biometricAuth')}
               showToggle
             />
-            <SettingItem
-              icon={<Lock size={20} color="#00FF94" />}
-              title="End-to-End Encryption"
-              subtitle="XChaCha20-Poly1305 encryption"
-              value={settings.endToEndEncryption}
-              onPress={() => toggleSetting('endToEndEncryption')}
-              showToggle
-            />
             <SettingItem
               icon={<Eye size={20} color="#00FF94" />}
               title="Metadata Protection"
@@ -214,6 +296,29 @@ export default function SettingsScreen() {
               onPress={() => toggleSetting('metadataProtection')}
               showToggle
             />
+            <SettingItem
+              icon={<CheckCheck size={20} color="#00FF94" />}
+              title="Read Receipts"
+              subtitle="Let others see when you read their messages"
+              value={user?.privacy?.readReceipts !== false}
+              onPress={toggleReadReceipts}
+              showToggle
+            />
+            <SettingItem
+              icon={<Clock size={20} color="#00FF94" />}
+              title="Last Seen"
+              subtitle="Let others see when you were last online"
+              value={user?.privacy?.lastSeen !== false}
+              onPress={toggleLastSeen}
+              showToggle
+            />
+            <SettingItem
+              icon={<EyeOff size={20} color="#00FF94" />}
+              title="Online Status"
+              subtitle={getProfileVisibilityText()}
+              onPress={cycleProfileVisibility}
+              showChevron
+            />
             <SettingItem
               icon={<Database size={20} color="#00FF94" />}
               title="Auto-Delete Messages"
@@ -222,18 +327,48 @@ export default function SettingsScreen() {
               onPress={() => toggleSetting('autoDelete')}
               showToggle
             />
+            {settings.autoDelete && (
+              <SettingItem
+                icon={<Clock size={20} color="#00FF94" />}
+                title="Keep Messages For"
+                subtitle={formatDataRetention(settings.dataRetention)}
+                onPress={cycleDataRetention}
+                showChevron
+              />
+            )}
           </SettingSection>
 
-          {/* AI & Threat Detection */}
-          <SettingSection title="AI & Threat Detection">
+          {/* Key Backup */}
+          <SettingSection title="Key Backup">
             <SettingItem
-              icon={<Shield size={20} color="#9D4EDD" />}
-              title="AI Threat Detection"
-              subtitle="Monitor for security threats"
-              value={settings.aiThreatDetection}
-              onPress={() => toggleSetting('aiThreatDetection')}
-              showToggle
+              icon={<Upload size={20} color="#00D4FF" />}
+              title="Back Up Keys"
+              subtitle="Export keys protected by a passphrase"
+              onPress={() => setKeyBackupMode('export')}
+              showChevron
             />
+            <SettingItem
+              icon={<Download size={20} color="#00D4FF" />}
+              title="Restore Keys"
+              subtitle="Import keys from a backup"
+              onPress={() => setKeyBackupMode('restore')}
+              showChevron
+            />
+          </SettingSection>
+
+          {/* Linked Devices */}
+          <SettingSection title="Linked Devices">
+            <SettingItem
+              icon={<Smartphone size={20} color="#00D4FF" />}
+              title="Manage Devices"
+              subtitle="Link a new device or remove one"
+              onPress={() => setShowLinkedDevices(true)}
+              showChevron
+            />
+          </SettingSection>
+
+          {/* AI & Threat Detection */}
+          <SettingSection title="AI & Threat Detection">
             <SettingItem
               icon={<EyeOff size={20} color="#9D4EDD" />}
               title="Screen Security"
@@ -332,6 +467,17 @@ export default function SettingsScreen() {
           </View>
         </ScrollView>
       </SafeAreaView>
+
+      <KeyBackupModal
+        visible={keyBackupMode !== null}
+        mode={keyBackupMode || 'export'}
+        onClose={() => setKeyBackupMode(null)}
+      />
+
+      <LinkedDevices
+        visible={showLinkedDevices}
+        onClose={() => setShowLinkedDevices(false)}
+      />
     </LinearGradient>
   );
 }
@@ -5,6 +5,7 @@ import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { SecurityProvider } from '@/contexts/SecurityContext';
 import { FontProvider } from '@/contexts/FontContext';
+import { AppLock } from '@/components/AppLock';
 
 export default function RootLayout() {
   useFrameworkReady();
@@ -13,11 +14,13 @@ export default function RootLayout() {
     <FontProvider>
       <SecurityProvider>
         <AuthProvider>
-          <Stack screenOptions={{ headerShown: false }}>
-            <Stack.Screen name="auth" />
-            <Stack.Screen name="(tabs)" />
-            <Stack.Screen name="+not-found" />
-          </Stack>
+          <AppLock>
+            <Stack screenOptions={{ headerShown: false }}>
+              <Stack.Screen name="auth" />
+              <Stack.Screen name="(tabs)" />
+              <Stack.Screen name="+not-found" />
+            </Stack>
+          </AppLock>
           <StatusBar style="auto" backgroundColor="#0A0B0F" />
         </AuthProvider>
       </SecurityProvider>
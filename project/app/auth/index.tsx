@@ -13,6 +13,8 @@ import { BlurView } from 'expo-blur';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSecurity } from '@/contexts/SecurityContext';
+import { LinkDeviceScanner } from '@/components/LinkDeviceScanner';
+import { FrameworkResult } from '@/utils/compliance';
 import { Platform } from 'react-native';
 import { 
   Shield, 
@@ -24,7 +26,8 @@ import {
   Globe, 
   Zap,
   Brain,
-  FileShield
+  FileShield,
+  Smartphone
 } from 'lucide-react-native';
 import Animated, {
   useSharedValue,
@@ -37,12 +40,20 @@ import Animated, {
 
 const { width, height } = Dimensions.get('window');
 
+// Badge colours of the compliance statuses
+const COMPLIANCE_COLORS: Record<FrameworkResult['status'], string> = {
+  compliant: '#00FF94',
+  partial: '#FFB800',
+  non_compliant: '#FF4444',
+};
+
 export default function AuthScreen() {
   const { login, isLoading } = useAuth();
   const { securityLevel, encryptionStatus, complianceStatus } = useSecurity();
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [showSecurityDetails, setShowSecurityDetails] = useState(false);
   const [authStep, setAuthStep] = useState<'initial' | 'biometric' | 'verifying'>('initial');
+  const [showLinkScanner, setShowLinkScanner] = useState(false);
 
   const pulseAnimation = useSharedValue(1);
   const shieldRotation = useSharedValue(0);
@@ -233,16 +244,18 @@ export default function AuthScreen() {
           <Text style={styles.complianceTitle}>Regulatory Compliance</Text>
         </View>
         <View style={styles.complianceGrid}>
-          {Object.entries(complianceStatus).map(([key, status]) => (
+          {complianceStatus ? Object.entries(complianceStatus).map(([key, result]) => (
             <View key={key} style={styles.complianceItem}>
-              <Text style={styles.complianceLabel}>{key.toUpperCase()}</Text>
-              <View style={[styles.complianceStatus, { backgroundColor: status ? '#00FF94' : '#FF4444' }]}>
+              <Text style={styles.complianceLabel}>{result.name}</Text>
+              <View style={[styles.complianceStatus, { backgroundColor: COMPLIANCE_COLORS[result.status] }]}>
                 <Text style={styles.complianceStatusText}>
-                  {status ? '✓' : '✗'}
+                  {result.status === 'compliant' ? '✓' : `${result.passed}/${result.total}`}
                 </Text>
               </View>
             </View>
-          ))}
+          )) : (
+            <Text style={styles.complianceLabel}>Checking controls…</Text>
+          )}
         </View>
       </BlurView>
 
@@ -272,6 +285,16 @@ export default function AuthScreen() {
         </LinearGradient>
       </TouchableOpacity>
 
+      {/* Link to an existing account */}
+      <TouchableOpacity
+        style={styles.linkDeviceButton}
+        onPress={() => setShowLinkScanner(true)}
+        disabled={isAuthenticating || isLoading}
+      >
+        <Smartphone size={18} color="#00D4FF" />
+        <Text style={styles.linkDeviceText}>Link to an existing device</Text>
+      </TouchableOpacity>
+
       {/* Security Features */}
       <View style={styles.featuresContainer}>
         <View style={styles.feature}>
@@ -300,6 +323,15 @@ export default function AuthScreen() {
           © 2024 Naimara • Bzaro Coding Haus
         </Text>
       </View>
+
+      <LinkDeviceScanner
+        visible={showLinkScanner}
+        onClose={() => setShowLinkScanner(false)}
+        onLinked={() => {
+          setShowLinkScanner(false);
+          router.replace('/(tabs)');
+        }}
+      />
     </LinearGradient>
   );
 }
@@ -450,9 +482,10 @@ const styles = StyleSheet.create({
     color: '#FFFFFF80',
   },
   complianceStatus: {
-    width: 16,
+    minWidth: 16,
     height: 16,
     borderRadius: 8,
+    paddingHorizontal: 4,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -483,6 +516,19 @@ const styles = StyleSheet.create({
     color: '#000000',
     marginLeft: 12,
   },
+  linkDeviceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    marginBottom: 24,
+  },
+  linkDeviceText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00D4FF',
+    marginLeft: 8,
+  },
   featuresContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
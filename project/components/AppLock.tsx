@@ -0,0 +1,115 @@
+/**
+ * SecuriComm App Lock Component
+ *
+ * Puts the device protections into force when the app starts and covers
+ * the app while it is locked, until the user unlocks it with biometrics.
+ * The app locks again whenever it goes to the background.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, AppState } from 'react-native';
+import { Fingerprint } from 'lucide-react-native';
+import { getDeviceSettings } from '@/utils/deviceSettings';
+import { deviceProtection } from '@/utils/deviceProtection';
+
+export function AppLock({ children }: { children: React.ReactNode }) {
+  const [isLocked, setIsLocked] = useState(deviceProtection.getState().isLocked);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const unlock = async () => {
+    setIsUnlocking(true);
+
+    try {
+      await deviceProtection.unlock();
+    } catch (error) {
+      console.error('Unlock error:', error);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Lock on start, and ask for biometrics straight away
+  useEffect(() => {
+    const unsubscribe = deviceProtection.onChange((state) => setIsLocked(state.isLocked));
+
+    getDeviceSettings()
+      .then((settings) => deviceProtection.apply(settings))
+      .then(() => {
+        deviceProtection.lock();
+        return unlock();
+      })
+      .catch((error) => console.error('Apply device protection error:', error));
+
+    return unsubscribe;
+  }, []);
+
+  // Lock whenever the app leaves the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        deviceProtection.lock();
+      } else if (state === 'active' && deviceProtection.getState().isLocked) {
+        unlock();
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      {children}
+      {isLocked && (
+        <View style={styles.overlay}>
+          <Fingerprint size={64} color="#00FF94" />
+          <Text style={styles.title}>SecuriComm is locked</Text>
+          <Text style={styles.subtitle}>Unlock with your fingerprint or face</Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={unlock}
+            disabled={isUnlocking}
+          >
+            <Text style={styles.buttonText}>{isUnlocking ? 'Unlocking...' : 'Unlock'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#0A0B0F',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 24,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#8E8E93',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 32,
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#00FF94',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0A0B0F',
+  },
+});
@@ -11,18 +11,75 @@ import {
   Text,
   TextInput,
   FlatList,
+  ScrollView,
   StyleSheet,
   TouchableOpacity,
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  AppState,
+  ViewToken,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useConversation } from '@/contexts/ConversationContext';
+import * as Location from 'expo-location';
+import {
+  useConversation,
+  Message,
+  MessageReaction,
+  Participant,
+} from '@/contexts/ConversationContext';
 import { useSecurity } from '@/contexts/SecurityContext';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  getVerifiedContacts,
+  getVerificationStatus,
+  recordIdentityKeys,
+  acknowledgeIdentityKeyChange,
+  VerifiedContact,
+  KnownIdentityKey,
+} from '@/utils/verification';
+import { MESSAGE_TIMER_OPTIONS, formatMessageTimer } from '@/utils/disappearing';
+import { MessageEdit, Attachment, fileSource } from '@/utils/attachments';
+import { summarizeReceipts } from '@/utils/receipts';
+import { usePresence, formatLastSeen } from '@/utils/presence';
+import {
+  RichContent,
+  createLocationContent,
+  createContactContent,
+  createAudioContent,
+  formatDuration,
+  getRichPreview,
+} from '@/utils/richMessages';
+import { voiceNotes, VOICE_NOTE_MIME_TYPE } from '@/utils/voiceNotes';
 import EncryptionIndicator from './EncryptionIndicator';
 import ThreatMeter from './ThreatMeter';
+import RichMessage from './RichMessage';
+
+// Reactions offered in the message actions
+const REACTION_OPTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Shorter recordings are taken as a slip and not sent
+const MIN_VOICE_NOTE_DURATION = 1000;
+
+// How much of a message must be on screen, and for how long, before it counts as read
+const READ_VIEWABILITY_CONFIG = {
+  itemVisiblePercentThreshold: 60,
+  minimumViewTime: 500,
+};
+
+/**
+ * Group reactions by emoji, keeping who reacted
+ */
+const groupReactions = (reactions: MessageReaction[] = []): [string, string[]][] => {
+  const groups = new Map<string, string[]>();
+  
+  reactions.forEach((reaction) => {
+    groups.set(reaction.emoji, [...(groups.get(reaction.emoji) || []), reaction.userId]);
+  });
+  
+  return Array.from(groups.entries());
+};
 
 // Props interface
 export interface ChatInterfaceProps {
@@ -33,6 +90,7 @@ export interface ChatInterfaceProps {
 const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
   // Contexts
   const {
+    conversations,
     activeConversation,
     messages,
     typingUsers,
@@ -40,21 +98,82 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
     error,
     loadMessages,
     sendMessage,
+    uploadAttachment,
+    retryMessage,
+    editMessage,
+    reactToMessage,
+    deleteMessage,
+    setMessageTimer,
     setActiveConversation,
+    markAsRead,
     sendTypingIndicator,
   } = useConversation();
   
   const { securityLevel, threatLevel } = useSecurity();
   const { user } = useAuth();
   
+  // Presence of the other members, as far as their privacy settings allow
+  const otherParticipants = (activeConversation?.participants || []).filter(
+    (participant) => participant._id !== user?.userID
+  );
+  const participantPresence = usePresence(otherParticipants.map((participant) => participant._id));
+  
   // State
   const [messageText, setMessageText] = useState<string>('');
   const [isTyping, setIsTyping] = useState<boolean>(false);
   const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [showTimerOptions, setShowTimerOptions] = useState<boolean>(false);
+  const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [verifiedContacts, setVerifiedContacts] = useState<Record<string, VerifiedContact>>({});
+  const [knownIdentityKeys, setKnownIdentityKeys] = useState<Record<string, KnownIdentityKey>>({});
+  const [showShareOptions, setShowShareOptions] = useState<boolean>(false);
+  const [showContactPicker, setShowContactPicker] = useState<boolean>(false);
+  const [isSharing, setIsSharing] = useState<boolean>(false);
+  // Length of the voice note being recorded, null when not recording
+  const [recordingMillis, setRecordingMillis] = useState<number | null>(null);
   
   // Refs
   const flatListRef = useRef<FlatList>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const visibleMessagesRef = useRef<Message[]>([]);
+  
+  // Mark the messages on screen as read, but only while the app is in front
+  const markVisibleAsRead = () => {
+    if (!activeConversation || AppState.currentState !== 'active') return;
+    
+    const messageIds = visibleMessagesRef.current
+      .filter((item) => item.sender._id !== user?.userID && item._id !== item.clientId)
+      .map((item) => item._id);
+    
+    if (messageIds.length > 0) {
+      markAsRead(activeConversation._id, messageIds);
+    }
+  };
+  
+  const markVisibleAsReadRef = useRef(markVisibleAsRead);
+  markVisibleAsReadRef.current = markVisibleAsRead;
+  
+  // FlatList needs the same callback for its whole life
+  const handleViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      visibleMessagesRef.current = viewableItems.map((token) => token.item as Message);
+      markVisibleAsReadRef.current();
+    }
+  ).current;
+  
+  // Messages left on screen in the background are read when the app comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        markVisibleAsReadRef.current();
+      }
+    });
+    
+    return () => subscription.remove();
+  }, []);
   
   // Load conversation and messages
   useEffect(() => {
@@ -75,6 +194,32 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
     };
   }, [conversationId]);
   
+  // A voice note being recorded or played stops with the chat
+  useEffect(() => {
+    return () => {
+      voiceNotes.cancelRecording();
+      voiceNotes.stopPlayback();
+    };
+  }, []);
+  
+  // Load verified contacts whenever the conversation changes
+  useEffect(() => {
+    getVerifiedContacts()
+      .then(setVerifiedContacts)
+      .catch((error) => console.error('Load verified contacts error:', error));
+  }, [activeConversation?._id]);
+  
+  // Notice when the identity key of another member changed
+  const participantKeys = otherParticipants
+    .map((participant) => `${participant._id}:${participant.publicKey || ''}`)
+    .join(',');
+  
+  useEffect(() => {
+    recordIdentityKeys(otherParticipants)
+      .then(setKnownIdentityKeys)
+      .catch((error) => console.error('Record identity keys error:', error));
+  }, [participantKeys]);
+  
   // Load conversation
   const loadConversation = async () => {
     if (!conversationId) return;
@@ -159,10 +304,21 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
       setIsTyping(false);
       sendTypingIndicator(activeConversation._id, false);
       
-      // Send message
+      // Send message, or save the message being edited
       const trimmedMessage = messageText.trim();
       setMessageText('');
-      await sendMessage(activeConversation._id, trimmedMessage);
+      
+      if (editingMessage) {
+        setEditingMessage(null);
+        
+        if (trimmedMessage !== editingMessage.content) {
+          await editMessage(editingMessage._id, trimmedMessage);
+        }
+        return;
+      }
+      
+      setReplyTo(null);
+      await sendMessage(activeConversation._id, trimmedMessage, [], replyTo?._id);
       
       // Scroll to bottom
       if (flatListRef.current) {
@@ -173,9 +329,270 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
     }
   };
   
+  // Send a location pin, contact card or voice note; the preview is its text
+  const sendRichMessage = async (rich: RichContent, attachments: Attachment[] = []) => {
+    if (!activeConversation) return;
+    
+    setReplyTo(null);
+    await sendMessage(
+      activeConversation._id,
+      getRichPreview(rich),
+      attachments,
+      replyTo?._id,
+      rich
+    );
+    
+    if (flatListRef.current) {
+      flatListRef.current.scrollToOffset({ offset: 0, animated: true });
+    }
+  };
+  
+  // Share where we are now
+  const handleShareLocation = async () => {
+    setShowShareOptions(false);
+    
+    try {
+      const permission = await Location.requestForegroundPermissionsAsync();
+      
+      if (!permission.granted) {
+        Alert.alert('Location', 'Allow location access to share where you are.');
+        return;
+      }
+      
+      setIsSharing(true);
+      
+      const position = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.High,
+      });
+      
+      await sendRichMessage(createLocationContent(position.coords));
+    } catch (error) {
+      console.error('Share location error:', error);
+      Alert.alert('Location', 'Your location could not be found. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+  
+  // People from our conversations whose identity key we know
+  const getShareableContacts = (): Participant[] => {
+    const byId = new Map<string, Participant>();
+    
+    conversations.forEach((conversation) => {
+      conversation.participants.forEach((participant) => {
+        if (participant._id !== user?.userID && participant.publicKey) {
+          byId.set(participant._id, participant);
+        }
+      });
+    });
+    
+    return Array.from(byId.values());
+  };
+  
+  // Share a contact card with the key we know for the contact
+  const handleShareContact = async (contact: Participant) => {
+    setShowContactPicker(false);
+    
+    if (!contact.publicKey) return;
+    
+    try {
+      await sendRichMessage(createContactContent({ ...contact, publicKey: contact.publicKey }));
+    } catch (error) {
+      console.error('Share contact error:', error);
+    }
+  };
+  
+  // Start recording a voice note
+  const handleStartRecording = async () => {
+    try {
+      const started = await voiceNotes.startRecording(setRecordingMillis);
+      
+      if (!started) {
+        Alert.alert('Voice Note', 'Allow microphone access to record voice notes.');
+        return;
+      }
+      
+      setRecordingMillis(0);
+    } catch (error) {
+      console.error('Start recording error:', error);
+      Alert.alert('Voice Note', 'Recording could not be started.');
+    }
+  };
+  
+  // Stop recording and send the voice note, or throw it away
+  const handleStopRecording = async (send: boolean) => {
+    setRecordingMillis(null);
+    
+    if (!send || !activeConversation) {
+      await voiceNotes.cancelRecording();
+      return;
+    }
+    
+    const recording = await voiceNotes.stopRecording();
+    
+    if (!recording) return;
+    
+    try {
+      if (recording.durationMillis < MIN_VOICE_NOTE_DURATION) return;
+      
+      setIsSharing(true);
+      
+      // The audio is encrypted and uploaded like any other file
+      const attachment = await uploadAttachment(
+        activeConversation._id,
+        await fileSource(recording.uri, 'Voice note.m4a', VOICE_NOTE_MIME_TYPE)
+      );
+      
+      if (attachment) {
+        await sendRichMessage(
+          createAudioContent(recording.durationMillis, recording.levels),
+          [attachment]
+        );
+      }
+    } catch (error) {
+      console.error('Send voice note error:', error);
+      Alert.alert('Voice Note', 'The voice note could not be sent. Please try again.');
+    } finally {
+      setIsSharing(false);
+      await voiceNotes.deleteRecording(recording);
+    }
+  };
+  
+  // Quote a message in the next one
+  const handleReply = (message: Message) => {
+    setSelectedMessageId(null);
+    setEditingMessage(null);
+    setReplyTo(message);
+  };
+  
+  // Put one of our messages in the input to edit it
+  const handleEdit = (message: Message) => {
+    setSelectedMessageId(null);
+    setReplyTo(null);
+    setEditingMessage(message);
+    setMessageText(message.content);
+  };
+  
+  // Set, change or remove our reaction
+  const handleReact = async (message: Message, emoji: string) => {
+    setSelectedMessageId(null);
+    
+    const ownReaction = message.reactions?.find((reaction) => reaction.userId === user?.userID);
+    
+    await reactToMessage(message._id, ownReaction?.emoji === emoji ? null : emoji);
+  };
+  
+  // Delete a message here or for everyone
+  const handleDelete = async (message: Message, forEveryone: boolean) => {
+    setSelectedMessageId(null);
+    await deleteMessage(message._id, forEveryone);
+  };
+  
+  // Receipts of a message across the other members of the conversation
+  const getReceiptSummary = (item: Message) =>
+    summarizeReceipts(
+      item,
+      (activeConversation?.participants || []).map((participant) => participant._id),
+      item.sender._id
+    );
+  
+  // Short receipt state of one of our messages in a group, e.g. "Read by 2 of 3"
+  const formatGroupReceipts = (item: Message): string | null => {
+    const { read, delivered, pending } = getReceiptSummary(item);
+    const total = read.length + delivered.length + pending.length;
+    
+    if (read.length > 0) {
+      return `Read by ${read.length} of ${total}`;
+    }
+    
+    if (delivered.length > 0) {
+      return `Delivered to ${delivered.length} of ${total}`;
+    }
+    
+    return null;
+  };
+  
+  // Render who received and read one of our messages in a group
+  const renderReceiptList = (item: Message) => {
+    const { read, delivered } = getReceiptSummary(item);
+    const members = (activeConversation?.participants || []).filter(
+      (participant) => participant._id !== item.sender._id
+    );
+    
+    return (
+      <View style={styles.receiptList}>
+        {members.map((member) => (
+          <View key={member._id} style={styles.receiptRow}>
+            <Text style={styles.receiptName}>{member.displayName || member.email}</Text>
+            <Text style={styles.receiptState}>
+              {read.includes(member._id)
+                ? 'Read'
+                : delivered.includes(member._id)
+                  ? 'Delivered'
+                  : 'Sent'}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+  
+  // Render the actions for a long-pressed message
+  const renderMessageActions = (item: Message, isCurrentUser: boolean) => {
+    // Messages still in the outbox can only be deleted
+    const isSent = item._id !== item.clientId;
+    
+    return (
+      <View style={styles.messageActions}>
+        {isSent && isCurrentUser && activeConversation?.type === 'group' && renderReceiptList(item)}
+        
+        {isSent && (
+          <View style={styles.reactionOptions}>
+            {REACTION_OPTIONS.map((emoji) => (
+              <TouchableOpacity
+                key={emoji}
+                style={styles.reactionOption}
+                onPress={() => handleReact(item, emoji)}
+              >
+                <Text style={styles.reactionOptionText}>{emoji}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        
+        <View style={styles.actionButtons}>
+          {isSent && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleReply(item)}>
+              <Text style={styles.actionText}>Reply</Text>
+            </TouchableOpacity>
+          )}
+          
+          {isSent && isCurrentUser && !item.rich && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleEdit(item)}>
+              <Text style={styles.actionText}>Edit</Text>
+            </TouchableOpacity>
+          )}
+          
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item, false)}>
+            <Text style={styles.actionDeleteText}>Delete for me</Text>
+          </TouchableOpacity>
+          
+          {isSent && isCurrentUser && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item, true)}>
+              <Text style={styles.actionDeleteText}>Delete for everyone</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+  
   // Render message item
   const renderMessageItem = ({ item }: { item: any }) => {
     const isCurrentUser = item.sender._id === user?.userID;
+    const reactionGroups = groupReactions(item.reactions);
+    const groupReceipts =
+      isCurrentUser && activeConversation?.type === 'group' ? formatGroupReceipts(item) : null;
     
     return (
       <View
@@ -188,14 +605,64 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
           <Text style={styles.senderName}>{item.sender.displayName}</Text>
         )}
         
-        <View
+        <TouchableOpacity
+          activeOpacity={0.8}
           style={[
             styles.messageBubble,
             isCurrentUser ? styles.currentUserBubble : styles.otherUserBubble,
           ]}
+          onLongPress={() => setSelectedMessageId(item._id)}
         >
-          <Text style={styles.messageText}>{item.content}</Text>
-        </View>
+          {item.replyTo && (
+            <View style={styles.replyQuote}>
+              <Text style={styles.replyQuoteSender}>{item.replyTo.senderName}</Text>
+              <Text style={styles.replyQuoteText} numberOfLines={2}>
+                {item.replyTo.preview}
+              </Text>
+            </View>
+          )}
+          
+          {item.rich ? (
+            <RichMessage
+              content={item.rich}
+              attachment={item.attachments?.[0]}
+              verifiedContacts={verifiedContacts}
+            />
+          ) : (
+            <Text style={styles.messageText}>{item.content}</Text>
+          )}
+        </TouchableOpacity>
+        
+        {reactionGroups.length > 0 && (
+          <View style={styles.reactions}>
+            {reactionGroups.map(([emoji, userIds]) => (
+              <TouchableOpacity
+                key={emoji}
+                style={[
+                  styles.reaction,
+                  userIds.includes(user?.userID || '') ? styles.ownReaction : {},
+                ]}
+                onPress={() => handleReact(item, emoji)}
+              >
+                <Text style={styles.reactionText}>
+                  {emoji} {userIds.length > 1 ? userIds.length : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        
+        {historyMessageId === item._id && item.edits?.length > 0 && (
+          <View style={styles.editHistory}>
+            {item.edits.map((edit: MessageEdit, index: number) => (
+              <Text key={index} style={styles.editHistoryText}>
+                {new Date(edit.createdAt).toLocaleString()}: {edit.content}
+              </Text>
+            ))}
+          </View>
+        )}
+        
+        {selectedMessageId === item._id && renderMessageActions(item, isCurrentUser)}
         
         <View style={styles.messageFooter}>
           <Text style={styles.messageTime}>
@@ -205,8 +672,23 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
             })}
           </Text>
           
+          {item.editedAt && (
+            <TouchableOpacity
+              onPress={() =>
+                setHistoryMessageId(historyMessageId === item._id ? null : item._id)
+              }
+            >
+              <Text style={styles.editedLabel}>edited</Text>
+            </TouchableOpacity>
+          )}
+          
+          {groupReceipts && <Text style={styles.receiptSummary}>{groupReceipts}</Text>}
+          
           {isCurrentUser && (
             <View style={styles.messageStatus}>
+              {item.status === 'sending' && (
+                <Ionicons name="time-outline" size={14} color="#8E8E93" />
+              )}
               {item.status === 'sent' && (
                 <Ionicons name="checkmark" size={14} color="#8E8E93" />
               )}
@@ -218,6 +700,16 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
               )}
             </View>
           )}
+          
+          {isCurrentUser && item.status === 'failed' && (
+            <TouchableOpacity
+              style={styles.messageRetry}
+              onPress={() => retryMessage(item.clientId)}
+            >
+              <Ionicons name="alert-circle" size={14} color="#FF3B30" />
+              <Text style={styles.messageRetryText}>Not sent. Tap to retry</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     );
@@ -282,6 +774,17 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
     );
   };
   
+  // Set the disappearing message timer for everyone in the conversation
+  const handleSelectTimer = async (seconds: number) => {
+    if (!activeConversation) return;
+    
+    setShowTimerOptions(false);
+    
+    if (seconds !== (activeConversation.settings?.messageTimer || 0)) {
+      await setMessageTimer(activeConversation._id, seconds);
+    }
+  };
+  
   // Get conversation messages
   const getConversationMessages = () => {
     if (!activeConversation) return [];
@@ -289,6 +792,56 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
     return messages[activeConversation._id] || [];
   };
   
+  // Verified participants whose identity key no longer matches
+  const getChangedParticipants = () => {
+    if (!activeConversation) return [];
+    
+    return activeConversation.participants.filter(
+      (participant) =>
+        participant._id !== user?.userID &&
+        getVerificationStatus(
+          verifiedContacts,
+          participant._id,
+          participant.publicKey,
+          knownIdentityKeys
+        ) === 'changed'
+    );
+  };
+  
+  // Accept the new identity keys; verified contacts stay flagged until verified again
+  const handleAcknowledgeKeyChange = async () => {
+    try {
+      for (const participant of changedParticipants) {
+        if (participant.publicKey) {
+          await acknowledgeIdentityKeyChange(participant._id, participant.publicKey);
+        }
+      }
+      
+      setKnownIdentityKeys(await recordIdentityKeys(otherParticipants));
+    } catch (error) {
+      console.error('Acknowledge identity key change error:', error);
+    }
+  };
+  
+  const changedParticipants = getChangedParticipants();
+  
+  // Whether the other member is around, or how many members of a group are
+  const getPresenceText = (): string | null => {
+    if (!activeConversation) return null;
+    
+    if (activeConversation.type === 'direct') {
+      return formatLastSeen(participantPresence[otherParticipants[0]?._id]);
+    }
+    
+    const online = otherParticipants.filter(
+      (participant) => participantPresence[participant._id]?.status === 'online'
+    ).length;
+    
+    return online > 0 ? `${online} online` : null;
+  };
+  
+  const presenceText = getPresenceText();
+  
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -308,8 +861,72 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
           threatLevel={threatLevel}
           securityLevel={securityLevel}
         />
+        
+        {activeConversation && (
+          <TouchableOpacity
+            style={styles.timerButton}
+            onPress={() => setShowTimerOptions(!showTimerOptions)}
+          >
+            <Ionicons
+              name="timer-outline"
+              size={18}
+              color={activeConversation.settings?.messageTimer ? '#007AFF' : '#8E8E93'}
+            />
+            <Text style={styles.timerText}>
+              {formatMessageTimer(activeConversation.settings?.messageTimer)}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
       
+      {activeConversation && showTimerOptions && (
+        <View style={styles.timerOptions}>
+          {MESSAGE_TIMER_OPTIONS.map((seconds) => (
+            <TouchableOpacity
+              key={seconds}
+              style={[
+                styles.timerOption,
+                seconds === (activeConversation.settings?.messageTimer || 0)
+                  ? styles.timerOptionSelected
+                  : {},
+              ]}
+              onPress={() => handleSelectTimer(seconds)}
+            >
+              <Text
+                style={[
+                  styles.timerOptionText,
+                  seconds === (activeConversation.settings?.messageTimer || 0)
+                    ? styles.timerOptionTextSelected
+                    : {},
+                ]}
+              >
+                {formatMessageTimer(seconds)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      
+      {presenceText && (
+        <View style={styles.presenceBar}>
+          <Text style={styles.presenceText}>{presenceText}</Text>
+        </View>
+      )}
+      
+      {changedParticipants.length > 0 && (
+        <View style={styles.keyChangedBanner}>
+          <Ionicons name="warning" size={18} color="#FF9500" />
+          <Text style={styles.keyChangedText}>
+            The safety number with{' '}
+            {changedParticipants.map((p) => p.displayName || p.email).join(', ')}{' '}
+            has changed. Verify their identity again before sharing sensitive information.
+          </Text>
+          <TouchableOpacity onPress={handleAcknowledgeKeyChange}>
+            <Text style={styles.keyChangedAction}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
       <FlatList
         ref={flatListRef}
         style={styles.messagesList}
@@ -319,36 +936,152 @@ const ChatInterface = ({ conversationId }: ChatInterfaceProps) => {
         inverted
         onEndReached={handleLoadMore}
         onEndReachedThreshold={0.5}
+        onViewableItemsChanged={handleViewableItemsChanged}
+        viewabilityConfig={READ_VIEWABILITY_CONFIG}
         ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.loadingMore} /> : null}
         ListEmptyComponent={renderEmptyState()}
       />
       
       {renderTypingIndicator()}
       
-      <View style={styles.inputContainer}>
-        <TextInput
-          style={styles.input}
-          placeholder="Type a message..."
-          value={messageText}
-          onChangeText={handleMessageChange}
-          multiline
-        />
-        
-        <TouchableOpacity
-          style={[
-            styles.sendButton,
-            !messageText.trim() ? styles.sendButtonDisabled : {},
-          ]}
-          onPress={handleSendMessage}
-          disabled={!messageText.trim()}
-        >
-          <Ionicons
-            name="send"
-            size={20}
-            color={!messageText.trim() ? '#8E8E93' : '#FFFFFF'}
+      {(replyTo || editingMessage) && (
+        <View style={styles.composerBanner}>
+          <View style={styles.composerBannerContent}>
+            <Text style={styles.composerBannerTitle}>
+              {editingMessage
+                ? 'Editing message'
+                : `Replying to ${replyTo?.sender.displayName || ''}`}
+            </Text>
+            <Text style={styles.composerBannerText} numberOfLines={1}>
+              {(editingMessage || replyTo)?.content}
+            </Text>
+          </View>
+          
+          <TouchableOpacity
+            onPress={() => {
+              if (editingMessage) {
+                setMessageText('');
+              }
+              setReplyTo(null);
+              setEditingMessage(null);
+            }}
+          >
+            <Ionicons name="close" size={20} color="#8E8E93" />
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      {showShareOptions && (
+        <View style={styles.shareOptions}>
+          <TouchableOpacity style={styles.shareOption} onPress={handleShareLocation}>
+            <Ionicons name="location-outline" size={20} color="#007AFF" />
+            <Text style={styles.shareOptionText}>Location</Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity
+            style={styles.shareOption}
+            onPress={() => {
+              setShowShareOptions(false);
+              setShowContactPicker(true);
+            }}
+          >
+            <Ionicons name="person-outline" size={20} color="#007AFF" />
+            <Text style={styles.shareOptionText}>Contact</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      {showContactPicker && (
+        <ScrollView style={styles.contactPicker}>
+          {getShareableContacts().map((contact) => (
+            <TouchableOpacity
+              key={contact._id}
+              style={styles.contactPickerRow}
+              onPress={() => handleShareContact(contact)}
+            >
+              <Text style={styles.contactPickerName}>{contact.displayName || contact.email}</Text>
+            </TouchableOpacity>
+          ))}
+          
+          <TouchableOpacity
+            style={styles.contactPickerRow}
+            onPress={() => setShowContactPicker(false)}
+          >
+            <Text style={styles.contactPickerCancel}>Cancel</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+      
+      {recordingMillis !== null ? (
+        <View style={styles.inputContainer}>
+          <TouchableOpacity style={styles.attachButton} onPress={() => handleStopRecording(false)}>
+            <Ionicons name="trash-outline" size={22} color="#FF3B30" />
+          </TouchableOpacity>
+          
+          <View style={styles.recordingIndicator}>
+            <View style={styles.recordingDot} />
+            <Text style={styles.recordingText}>
+              Recording {formatDuration(recordingMillis / 1000)}
+            </Text>
+          </View>
+          
+          <TouchableOpacity style={styles.sendButton} onPress={() => handleStopRecording(true)}>
+            <Ionicons name="send" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.inputContainer}>
+          {!editingMessage && (
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={() => {
+                setShowContactPicker(false);
+                setShowShareOptions(!showShareOptions);
+              }}
+              disabled={!activeConversation || isSharing}
+            >
+              {isSharing ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <Ionicons name="add-circle-outline" size={26} color="#007AFF" />
+              )}
+            </TouchableOpacity>
+          )}
+          
+          <TextInput
+            style={styles.input}
+            placeholder="Type a message..."
+            value={messageText}
+            onChangeText={handleMessageChange}
+            multiline
           />
-        </TouchableOpacity>
-      </View>
+          
+          {!messageText.trim() && !editingMessage ? (
+            <TouchableOpacity
+              style={[styles.sendButton, !activeConversation ? styles.sendButtonDisabled : {}]}
+              onPress={handleStartRecording}
+              disabled={!activeConversation || isSharing}
+            >
+              <Ionicons name="mic" size={20} color={!activeConversation ? '#8E8E93' : '#FFFFFF'} />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                !messageText.trim() ? styles.sendButtonDisabled : {},
+              ]}
+              onPress={handleSendMessage}
+              disabled={!messageText.trim()}
+            >
+              <Ionicons
+                name="send"
+                size={20}
+                color={!messageText.trim() ? '#8E8E93' : '#FFFFFF'}
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
     </KeyboardAvoidingView>
   );
 };
@@ -366,6 +1099,73 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E5E5EA',
   },
+  timerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+    paddingHorizontal: 8,
+  },
+  timerText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginLeft: 4,
+  },
+  timerOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    padding: 8,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  timerOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+    borderRadius: 14,
+    backgroundColor: '#F2F2F7',
+  },
+  timerOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  timerOptionText: {
+    fontSize: 13,
+    color: '#000000',
+  },
+  timerOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  presenceBar: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  presenceText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  keyChangedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: '#FFF4E5',
+    borderBottomWidth: 1,
+    borderBottomColor: '#FFD699',
+  },
+  keyChangedText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8A4B00',
+    marginLeft: 8,
+  },
+  keyChangedAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8A4B00',
+    marginLeft: 12,
+  },
   messagesList: {
     flex: 1,
   },
@@ -448,6 +1248,148 @@ const styles = StyleSheet.create({
   messageStatus: {
     marginLeft: 4,
   },
+  messageRetry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 6,
+  },
+  messageRetryText: {
+    fontSize: 10,
+    color: '#FF3B30',
+    marginLeft: 2,
+  },
+  editedLabel: {
+    fontSize: 10,
+    color: '#8E8E93',
+    marginLeft: 6,
+  },
+  receiptSummary: {
+    fontSize: 10,
+    color: '#8E8E93',
+    marginLeft: 6,
+  },
+  receiptList: {
+    marginBottom: 4,
+    paddingBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  receiptRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  receiptName: {
+    fontSize: 12,
+    color: '#000000',
+  },
+  receiptState: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginLeft: 12,
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#007AFF',
+    paddingLeft: 8,
+    marginBottom: 6,
+  },
+  replyQuoteSender: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  replyQuoteText: {
+    fontSize: 13,
+    color: '#3C3C43',
+  },
+  reactions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  reaction: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    borderRadius: 10,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  ownReaction: {
+    borderColor: '#007AFF',
+  },
+  reactionText: {
+    fontSize: 12,
+  },
+  editHistory: {
+    marginTop: 4,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#E5E5EA',
+  },
+  editHistoryText: {
+    fontSize: 12,
+    color: '#3C3C43',
+  },
+  messageActions: {
+    marginTop: 4,
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  reactionOptions: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  reactionOption: {
+    padding: 4,
+  },
+  reactionOptionText: {
+    fontSize: 22,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  actionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  actionDeleteText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  composerBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  composerBannerContent: {
+    flex: 1,
+    borderLeftWidth: 3,
+    borderLeftColor: '#007AFF',
+    paddingLeft: 8,
+  },
+  composerBannerTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  composerBannerText: {
+    fontSize: 13,
+    color: '#3C3C43',
+  },
   typingContainer: {
     paddingHorizontal: 12,
     paddingVertical: 4,
@@ -493,6 +1435,71 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     backgroundColor: '#E5E5EA',
   },
+  attachButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 4,
+  },
+  shareOptions: {
+    flexDirection: 'row',
+    padding: 8,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  shareOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+    borderRadius: 14,
+    backgroundColor: '#F2F2F7',
+  },
+  shareOptionText: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginLeft: 4,
+  },
+  contactPicker: {
+    maxHeight: 240,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  contactPickerRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  contactPickerName: {
+    fontSize: 15,
+    color: '#000000',
+  },
+  contactPickerCancel: {
+    fontSize: 15,
+    color: '#FF3B30',
+  },
+  recordingIndicator: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#FF3B30',
+    marginRight: 8,
+  },
+  recordingText: {
+    fontSize: 15,
+    color: '#000000',
+  },
   loadingMore: {
     padding: 16,
   },
@@ -5,7 +5,6 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Alert,
   Dimensions,
   Image,
 } from 'react-native';
@@ -72,7 +71,8 @@ export interface SecureFile {
 
 interface FileSharingProps {
   files?: SecureFile[];
-  onUpload: (files: File[]) => void;
+  // Pick a file and upload it; records appear in `files` once uploaded
+  onUpload: () => void;
   onDownload: (fileId: string) => void;
   onDelete: (fileId: string) => void;
   onShare: (fileId: string, userIds: string[]) => void;
@@ -93,66 +93,6 @@ export function FileSharing({
   const [filterType, setFilterType] = useState<'all' | SecureFile['type']>('all');
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Sample data if none provided
-  const sampleFiles: SecureFile[] = files.length > 0 ? files : [
-    {
-      id: '1',
-      name: 'Security_Report_Q4.pdf',
-      type: 'document',
-      size: 2048576, // 2MB
-      mimeType: 'application/pdf',
-      uploadedAt: Date.now() - 86400000,
-      uploadedBy: 'Sarah Chen',
-      encryptionLevel: 'military',
-      accessLevel: 'group',
-      downloadCount: 12,
-      expiresAt: Date.now() + 86400000 * 30,
-      thumbnail: 'https://images.pexels.com/photos/590016/pexels-photo-590016.jpeg?auto=compress&cs=tinysrgb&w=200',
-      isEncrypted: true,
-      checksum: 'sha256:abc123...',
-      permissions: { canDownload: true, canShare: true, canDelete: false, canView: true },
-      sharedWith: ['user1', 'user2', 'user3'],
-      tags: ['security', 'report', 'quarterly'],
-    },
-    {
-      id: '2',
-      name: 'Team_Photo_2024.jpg',
-      type: 'image',
-      size: 5242880, // 5MB
-      mimeType: 'image/jpeg',
-      uploadedAt: Date.now() - 172800000,
-      uploadedBy: 'Mark Johnson',
-      encryptionLevel: 'enhanced',
-      accessLevel: 'group',
-      downloadCount: 8,
-      thumbnail: 'https://images.pexels.com/photos/3184465/pexels-photo-3184465.jpeg?auto=compress&cs=tinysrgb&w=200',
-      preview: 'https://images.pexels.com/photos/3184465/pexels-photo-3184465.jpeg?auto=compress&cs=tinysrgb&w=400',
-      isEncrypted: true,
-      checksum: 'sha256:def456...',
-      permissions: { canDownload: true, canShare: true, canDelete: true, canView: true },
-      sharedWith: ['user1', 'user4'],
-      tags: ['team', 'photo', '2024'],
-    },
-    {
-      id: '3',
-      name: 'Meeting_Recording.mp4',
-      type: 'video',
-      size: 104857600, // 100MB
-      mimeType: 'video/mp4',
-      uploadedAt: Date.now() - 259200000,
-      uploadedBy: 'Emma Davis',
-      encryptionLevel: 'standard',
-      accessLevel: 'private',
-      downloadCount: 3,
-      thumbnail: 'https://images.pexels.com/photos/3184339/pexels-photo-3184339.jpeg?auto=compress&cs=tinysrgb&w=200',
-      isEncrypted: true,
-      checksum: 'sha256:ghi789...',
-      permissions: { canDownload: true, canShare: false, canDelete: true, canView: true },
-      sharedWith: [],
-      tags: ['meeting', 'recording', 'confidential'],
-    },
-  ];
-
   const getFileIcon = (type: SecureFile['type'], size: number = 24) => {
     switch (type) {
       case 'document': return <FileText size={size} color="#00D4FF" />;
@@ -193,7 +133,7 @@ export function FileSharing({
     return 'Just now';
   };
 
-  const filteredFiles = sampleFiles
+  const filteredFiles = files
     .filter(file => {
       if (filterType !== 'all' && file.type !== filterType) return false;
       if (searchQuery && !file.name.toLowerCase().includes(searchQuery.toLowerCase())) return false;
@@ -357,7 +297,7 @@ export function FileSharing({
               <Grid size={20} color="#FFFFFF80" />
             )}
           </TouchableOpacity>
-          <TouchableOpacity style={styles.uploadButton} onPress={() => Alert.alert('Upload', 'File upload feature')}>
+          <TouchableOpacity style={styles.uploadButton} onPress={onUpload}>
             <Upload size={20} color="#00FF94" />
           </TouchableOpacity>
         </View>
@@ -414,13 +354,27 @@ export function FileSharing({
             {selectedFiles.size} selected
           </Text>
           <View style={styles.selectionButtons}>
-            <TouchableOpacity style={styles.selectionButton}>
+            <TouchableOpacity
+              style={styles.selectionButton}
+              onPress={() => {
+                selectedFiles.forEach(fileId => onDownload(fileId));
+                setSelectedFiles(new Set());
+              }}
+            >
               <Download size={16} color="#00FF94" />
             </TouchableOpacity>
             <TouchableOpacity style={styles.selectionButton}>
               <Share size={16} color="#00D4FF" />
             </TouchableOpacity>
-            <TouchableOpacity style={styles.selectionButton}>
+            <TouchableOpacity
+              style={styles.selectionButton}
+              onPress={() => {
+                files
+                  .filter(file => selectedFiles.has(file.id) && file.permissions.canDelete)
+                  .forEach(file => onDelete(file.id));
+                setSelectedFiles(new Set());
+              }}
+            >
               <Trash2 size={16} color="#FF4444" />
             </TouchableOpacity>
           </View>
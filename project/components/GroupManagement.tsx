@@ -40,6 +40,7 @@ import Animated, {
   withTiming,
   withSpring,
 } from 'react-native-reanimated';
+import { usePresence } from '@/utils/presence';
 
 const { width } = Dimensions.get('window');
 
@@ -107,6 +108,9 @@ export function GroupManagement({
   const [activeTab, setActiveTab] = useState<'groups' | 'create' | 'settings'>('groups');
   const [showMemberDetails, setShowMemberDetails] = useState<string | null>(null);
 
+  // Online and last seen of members as far as their privacy settings allow
+  const memberPresence = usePresence(selectedGroup?.members.map((member) => member.id) || []);
+
   // Sample data if none provided
   const sampleGroups: Group[] = groups.length > 0 ? groups : [
     {
@@ -251,6 +255,9 @@ export function GroupManagement({
   const MemberCard = ({ member, group }: { member: GroupMember; group: Group }) => {
     const RoleIcon = getRoleIcon(member.role);
     const roleColor = getRoleColor(member.role);
+    const presence = memberPresence[member.id];
+    const status = presence ? presence.status : member.status;
+    const lastSeen = presence ? presence.lastSeen && new Date(presence.lastSeen).getTime() : member.lastSeen;
 
     return (
       <TouchableOpacity
@@ -264,8 +271,8 @@ export function GroupManagement({
                 <Text style={styles.memberAvatarText}>{member.avatar}</Text>
               </View>
               <View style={[styles.statusDot, { 
-                backgroundColor: member.status === 'online' ? '#00FF94' : 
-                               member.status === 'away' ? '#FFB800' : '#FFFFFF40' 
+                backgroundColor: status === 'online' ? '#00FF94' : 
+                               status === 'away' ? '#FFB800' : '#FFFFFF40' 
               }]} />
             </View>
             
@@ -305,7 +312,7 @@ export function GroupManagement({
               <View style={styles.memberDetailRow}>
                 <Text style={styles.memberDetailLabel}>Last Seen:</Text>
                 <Text style={styles.memberDetailValue}>
-                  {member.status === 'online' ? 'Now' : new Date(member.lastSeen).toLocaleString()}
+                  {status === 'online' ? 'Now' : lastSeen ? new Date(lastSeen).toLocaleString() : 'Hidden'}
                 </Text>
               </View>
               <View style={styles.memberDetailRow}>
@@ -0,0 +1,275 @@
+/**
+ * SecuriComm Key Backup Component
+ *
+ * Lets the user export their keys as a passphrase-protected backup and
+ * restore such a backup on a new install.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  Share,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Download, Upload } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createKeyBackup,
+  validatePassphrase,
+  MIN_PASSPHRASE_LENGTH,
+} from '@/utils/keyBackup';
+
+export type KeyBackupMode = 'export' | 'restore';
+
+interface KeyBackupModalProps {
+  visible: boolean;
+  mode: KeyBackupMode;
+  onClose: () => void;
+}
+
+export function KeyBackupModal({ visible, mode, onClose }: KeyBackupModalProps) {
+  const { restoreKeys } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [backup, setBackup] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Never keep passphrases or backups around between uses
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase('');
+      setConfirmation('');
+      setBackup('');
+    }
+  }, [visible]);
+
+  const handleExport = async () => {
+    try {
+      validatePassphrase(passphrase);
+    } catch (error) {
+      Alert.alert('Weak Passphrase', (error as Error).message);
+      return;
+    }
+
+    if (passphrase !== confirmation) {
+      Alert.alert('Passphrases Differ', 'Enter the same passphrase twice.');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const content = await createKeyBackup(passphrase);
+
+      await Share.share({ title: 'SecuriComm Key Backup', message: content });
+      onClose();
+    } catch (error) {
+      console.error('Export key backup error:', error);
+      Alert.alert('Backup Failed', 'Your keys could not be backed up.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = () => {
+    Alert.alert(
+      'Restore Keys',
+      'The keys in this backup will replace the identity on this device. ' +
+        'Contacts will see that your key changed unless it matches the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setIsWorking(true);
+              const summary = await restoreKeys(backup.trim(), passphrase);
+
+              Alert.alert(
+                'Keys Restored',
+                `Restored your identity and ${summary.contactCount} verified contacts from ` +
+                  `${new Date(summary.createdAt).toLocaleDateString()}.`
+              );
+              onClose();
+            } catch (error) {
+              console.error('Restore key backup error:', error);
+              Alert.alert('Restore Failed', (error as Error).message);
+            } finally {
+              setIsWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const isExport = mode === 'export';
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{isExport ? 'Back Up Keys' : 'Restore Keys'}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <X size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <Text style={styles.bodyText}>
+              {isExport
+                ? 'Your identity keys, verified contacts and stored conversation keys ' +
+                  'are encrypted with a passphrase. Keep the backup and the passphrase ' +
+                  'in separate places; anyone holding both can read your messages.'
+                : 'Paste a backup created on another device and enter its passphrase.'}
+            </Text>
+
+            {!isExport && (
+              <TextInput
+                style={[styles.input, styles.backupInput]}
+                placeholder="Paste backup"
+                placeholderTextColor="#FFFFFF60"
+                value={backup}
+                onChangeText={setBackup}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+            )}
+
+            <TextInput
+              style={styles.input}
+              placeholder={`Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+              placeholderTextColor="#FFFFFF60"
+              value={passphrase}
+              onChangeText={setPassphrase}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+
+            {isExport && (
+              <TextInput
+                style={styles.input}
+                placeholder="Confirm passphrase"
+                placeholderTextColor="#FFFFFF60"
+                value={confirmation}
+                onChangeText={setConfirmation}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, isWorking && styles.disabledButton]}
+              onPress={isExport ? handleExport : handleRestore}
+              disabled={isWorking || !passphrase || (!isExport && !backup.trim())}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#000000" />
+              ) : (
+                <>
+                  {isExport ? (
+                    <Upload size={18} color="#000000" />
+                  ) : (
+                    <Download size={18} color="#000000" />
+                  )}
+                  <Text style={styles.primaryButtonText}>
+                    {isExport ? 'Create Backup' : 'Restore Backup'}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0B0F',
+    paddingHorizontal: 20,
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: 'Poppins-Bold',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF80',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  input: {
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  backupInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#00FF94',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#000000',
+  },
+});
@@ -0,0 +1,434 @@
+/**
+ * SecuriComm Key Verification Component
+ *
+ * Lets the user compare safety numbers with a contact, show their own
+ * verification QR code and scan a contact's code to mark them verified.
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Alert,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { X, QrCode, ShieldCheck, Camera } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { getKeyPair } from '@/utils/encryption';
+import {
+  computeSafetyNumber,
+  formatSafetyNumber,
+  createVerificationPayload,
+  parseVerificationPayload,
+  markContactVerified,
+} from '@/utils/verification';
+
+export interface VerifiableContact {
+  id: string;
+  name: string;
+  publicKey?: string;
+}
+
+interface KeyVerificationProps {
+  visible: boolean;
+  contact: VerifiableContact | null;
+  contacts: VerifiableContact[];
+  startScanning?: boolean;
+  onClose: () => void;
+  onVerified: (contactId: string) => void;
+}
+
+export function KeyVerification({
+  visible,
+  contact,
+  contacts,
+  startScanning = false,
+  onClose,
+  onVerified,
+}: KeyVerificationProps) {
+  const { user } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [identityKey, setIdentityKey] = useState<string | null>(null);
+  const [selectedContact, setSelectedContact] = useState<VerifiableContact | null>(contact);
+  const [isScanning, setIsScanning] = useState(startScanning);
+
+  // Ignore repeated scans of the same code while an alert is showing
+  const isHandlingScan = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedContact(contact);
+      setIsScanning(startScanning);
+      isHandlingScan.current = false;
+
+      getKeyPair().then((keyPair) => setIdentityKey(keyPair?.publicKey || null));
+    }
+  }, [visible, contact, startScanning]);
+
+  const safetyNumber = useMemo(() => {
+    if (!user || !identityKey || !selectedContact?.publicKey) {
+      return null;
+    }
+
+    return computeSafetyNumber(
+      user.userID,
+      identityKey,
+      selectedContact.id,
+      selectedContact.publicKey
+    );
+  }, [user, identityKey, selectedContact]);
+
+  const verify = async (target: VerifiableContact, publicKey: string) => {
+    await markContactVerified(target.id, publicKey);
+    onVerified(target.id);
+  };
+
+  const handleBarcodeScanned = async ({ data }: { data: string }) => {
+    if (isHandlingScan.current) return;
+    isHandlingScan.current = true;
+
+    const payload = parseVerificationPayload(data);
+    const scannedContact = payload
+      ? contacts.find((c) => c.id === payload.userId)
+      : undefined;
+
+    const finish = () => {
+      isHandlingScan.current = false;
+    };
+
+    if (!payload) {
+      Alert.alert('Invalid Code', 'This is not a SecuriComm verification code.', [
+        { text: 'OK', onPress: finish },
+      ]);
+      return;
+    }
+
+    if (!scannedContact || (selectedContact && selectedContact.id !== scannedContact.id)) {
+      Alert.alert('Unknown Contact', 'This code belongs to a different person.', [
+        { text: 'OK', onPress: finish },
+      ]);
+      return;
+    }
+
+    if (scannedContact.publicKey !== payload.identityKey) {
+      Alert.alert(
+        'Keys Do Not Match',
+        `The code does not match the key this device uses for ${scannedContact.name}. ` +
+          'Your conversation may be intercepted.',
+        [{ text: 'OK', onPress: finish }]
+      );
+      return;
+    }
+
+    try {
+      await verify(scannedContact, payload.identityKey);
+      setIsScanning(false);
+      setSelectedContact(scannedContact);
+      Alert.alert('Verified', `${scannedContact.name} is now verified.`, [
+        { text: 'OK', onPress: finish },
+      ]);
+    } catch (error) {
+      console.error('Verify contact error:', error);
+      finish();
+    }
+  };
+
+  const handleMarkVerified = () => {
+    if (!selectedContact?.publicKey) return;
+
+    const { publicKey } = selectedContact;
+
+    Alert.alert(
+      'Mark as Verified',
+      `Only continue if ${selectedContact.name} sees the same safety number.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Verify',
+          onPress: () =>
+            verify(selectedContact, publicKey).catch((error) =>
+              console.error('Verify contact error:', error)
+            ),
+        },
+      ]
+    );
+  };
+
+  const renderScanner = () => {
+    if (!permission?.granted) {
+      return (
+        <View style={styles.section}>
+          <Text style={styles.bodyText}>
+            Camera access is needed to scan verification codes.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestPermission}>
+            <Text style={styles.primaryButtonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.scannerContainer}>
+        <CameraView
+          style={styles.scanner}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={handleBarcodeScanned}
+        />
+        <Text style={styles.bodyText}>
+          Point the camera at your contact's verification code.
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {selectedContact ? `Verify ${selectedContact.name}` : 'Key Verification'}
+          </Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <X size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        {isScanning ? (
+          <>
+            {renderScanner()}
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setIsScanning(false)}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel Scan</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {selectedContact ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Safety Number</Text>
+                {safetyNumber ? (
+                  <View style={styles.safetyNumberGrid}>
+                    {formatSafetyNumber(safetyNumber).map((group, index) => (
+                      <Text key={index} style={styles.safetyNumberGroup}>
+                        {group}
+                      </Text>
+                    ))}
+                  </View>
+                ) : (
+                  <Text style={styles.bodyText}>
+                    {selectedContact.name} has not published an identity key yet.
+                  </Text>
+                )}
+                <Text style={styles.bodyText}>
+                  Compare these numbers with {selectedContact.name} in person or
+                  scan their code. If they match, your messages cannot be read by
+                  anyone in between.
+                </Text>
+
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={() => setIsScanning(true)}
+                >
+                  <Camera size={18} color="#000000" />
+                  <Text style={styles.primaryButtonText}>Scan Their Code</Text>
+                </TouchableOpacity>
+
+                {safetyNumber && (
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={handleMarkVerified}
+                  >
+                    <ShieldCheck size={18} color="#00FF94" />
+                    <Text style={styles.secondaryButtonText}>Mark as Verified</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ) : (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Compare Safety Number With</Text>
+                {contacts.map((c) => (
+                  <TouchableOpacity
+                    key={c.id}
+                    style={styles.contactRow}
+                    onPress={() => setSelectedContact(c)}
+                  >
+                    <Text style={styles.contactName}>{c.name}</Text>
+                  </TouchableOpacity>
+                ))}
+                {contacts.length === 0 && (
+                  <Text style={styles.bodyText}>No contacts to verify yet.</Text>
+                )}
+
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={() => setIsScanning(true)}
+                >
+                  <Camera size={18} color="#000000" />
+                  <Text style={styles.primaryButtonText}>Scan a Code</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <QrCode size={18} color="#00D4FF" />
+                <Text style={styles.sectionTitle}>Your Code</Text>
+              </View>
+              {user && identityKey ? (
+                <View style={styles.qrContainer}>
+                  <QRCode
+                    value={createVerificationPayload(user.userID, identityKey)}
+                    size={180}
+                    backgroundColor="#FFFFFF"
+                    color="#000000"
+                  />
+                </View>
+              ) : (
+                <Text style={styles.bodyText}>Your identity key is not available.</Text>
+              )}
+              <Text style={styles.bodyText}>
+                Let your contact scan this code to verify you.
+              </Text>
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0B0F',
+    paddingHorizontal: 20,
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: 'Poppins-Bold',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  safetyNumberGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  safetyNumberGroup: {
+    width: '25%',
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00FF94',
+    textAlign: 'center',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF80',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#00FF94',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#000000',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#00FF94',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00FF94',
+  },
+  contactRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  contactName: {
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF',
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  scannerContainer: {
+    flex: 1,
+  },
+  scanner: {
+    flex: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+});
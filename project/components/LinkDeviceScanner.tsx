@@ -0,0 +1,233 @@
+/**
+ * SecuriComm Link Device Scanner Component
+ *
+ * Scans the provisioning code shown on a signed-in device and waits for
+ * that device to approve this one.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { X } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PendingDeviceLink,
+  requestDeviceLink,
+  checkDeviceLink,
+} from '@/utils/provisioning';
+
+// How often to check whether the signed-in device has approved us
+const LINK_POLL_INTERVAL = 2000;
+
+interface LinkDeviceScannerProps {
+  visible: boolean;
+  onClose: () => void;
+  onLinked: () => void;
+}
+
+export function LinkDeviceScanner({ visible, onClose, onLinked }: LinkDeviceScannerProps) {
+  const { linkDevice } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [pendingLink, setPendingLink] = useState<PendingDeviceLink | null>(null);
+
+  // Ignore repeated scans of the same code
+  const isHandlingScan = useRef(false);
+  const isChecking = useRef(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setPendingLink(null);
+      isHandlingScan.current = false;
+    }
+  }, [visible]);
+
+  // Wait for approval on the signed-in device
+  useEffect(() => {
+    if (!pendingLink) return;
+
+    isChecking.current = false;
+
+    const interval = setInterval(async () => {
+      if (isChecking.current) return;
+
+      try {
+        isChecking.current = true;
+        const result = await checkDeviceLink(pendingLink);
+
+        if (!result) {
+          isChecking.current = false;
+          return;
+        }
+
+        clearInterval(interval);
+
+        if (await linkDevice(result)) {
+          onLinked();
+        } else {
+          Alert.alert('Linking Failed', 'This device could not sign in.');
+          setPendingLink(null);
+        }
+      } catch (error) {
+        console.error('Check device link error:', error);
+        clearInterval(interval);
+        setPendingLink(null);
+        isHandlingScan.current = false;
+        Alert.alert('Linking Failed', 'The code expired or was not approved.');
+      }
+    }, LINK_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [pendingLink]);
+
+  const handleBarcodeScanned = async ({ data }: { data: string }) => {
+    if (isHandlingScan.current) return;
+    isHandlingScan.current = true;
+
+    try {
+      setPendingLink(await requestDeviceLink(data));
+    } catch (error) {
+      console.error('Request device link error:', error);
+      Alert.alert('Invalid Code', (error as Error).message, [
+        {
+          text: 'OK',
+          onPress: () => {
+            isHandlingScan.current = false;
+          },
+        },
+      ]);
+    }
+  };
+
+  const renderScanner = () => {
+    if (!permission?.granted) {
+      return (
+        <View style={styles.section}>
+          <Text style={styles.bodyText}>
+            Camera access is needed to scan the link code.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestPermission}>
+            <Text style={styles.primaryButtonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.scannerContainer}>
+        <CameraView
+          style={styles.scanner}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={handleBarcodeScanned}
+        />
+        <Text style={styles.bodyText}>
+          On your signed-in device, open Settings, Linked Devices and show the
+          link code.
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Link Device</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <X size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        {pendingLink ? (
+          <View style={styles.section}>
+            <ActivityIndicator color="#00FF94" style={styles.spinner} />
+            <Text style={styles.bodyText}>
+              Approve this device on your signed-in device to finish linking.
+            </Text>
+          </View>
+        ) : (
+          renderScanner()
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0B0F',
+    paddingHorizontal: 20,
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: 'Poppins-Bold',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF80',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  spinner: {
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#00FF94',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#000000',
+  },
+  scannerContainer: {
+    flex: 1,
+  },
+  scanner: {
+    flex: 1,
+    borderRadius: 16,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,369 @@
+/**
+ * SecuriComm Linked Devices Component
+ *
+ * Lists the devices signed in to the account, revokes them, and shows
+ * the provisioning code another device scans to be linked.
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { X, QrCode, Smartphone, Trash2 } from 'lucide-react-native';
+import { useConversation } from '@/contexts/ConversationContext';
+import { devices, LinkedDevice } from '@/utils/devices';
+import { senderKeys } from '@/utils/senderKeys';
+import {
+  ProvisioningOffer,
+  createProvisioningOffer,
+  checkLinkRequest,
+  approveLinkRequest,
+} from '@/utils/provisioning';
+
+// How often to check whether a new device has scanned the code
+const LINK_POLL_INTERVAL = 2000;
+
+interface LinkedDevicesProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function LinkedDevices({ visible, onClose }: LinkedDevicesProps) {
+  const { conversations } = useConversation();
+  const [linkedDevices, setLinkedDevices] = useState<LinkedDevice[]>([]);
+  const [offer, setOffer] = useState<ProvisioningOffer | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Only one link request is handled at a time
+  const isHandlingRequest = useRef(false);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setLinkedDevices(await devices.getLinkedDevices());
+    } catch (error) {
+      console.error('Load devices error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      loadDevices();
+    } else {
+      // Never keep a provisioning secret around between uses
+      setOffer(null);
+    }
+  }, [visible, loadDevices]);
+
+  // Wait for the new device to scan the code
+  useEffect(() => {
+    if (!offer) return;
+
+    isHandlingRequest.current = false;
+
+    const interval = setInterval(async () => {
+      if (isHandlingRequest.current) return;
+
+      if (Date.now() > new Date(offer.expiresAt).getTime()) {
+        setOffer(null);
+        Alert.alert('Code Expired', 'Show a new code to link a device.');
+        return;
+      }
+
+      try {
+        isHandlingRequest.current = true;
+        const request = await checkLinkRequest(offer);
+
+        if (!request) {
+          isHandlingRequest.current = false;
+          return;
+        }
+
+        Alert.alert(
+          'Link Device',
+          `"${request.deviceName || 'Unknown device'}" will be able to read and send ` +
+            'messages as you. Only continue if it is your device.',
+          [
+            { text: 'Cancel', style: 'cancel', onPress: () => setOffer(null) },
+            {
+              text: 'Link',
+              onPress: async () => {
+                try {
+                  await approveLinkRequest(offer, request);
+                  devices.clearMemoryDevices();
+                  await loadDevices();
+                } catch (error) {
+                  console.error('Approve device link error:', error);
+                  Alert.alert('Linking Failed', (error as Error).message);
+                } finally {
+                  setOffer(null);
+                }
+              },
+            },
+          ]
+        );
+      } catch (error) {
+        console.error('Check link request error:', error);
+        setOffer(null);
+        Alert.alert('Linking Failed', (error as Error).message);
+      }
+    }, LINK_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [offer, loadDevices]);
+
+  const handleLinkDevice = async () => {
+    try {
+      setOffer(await createProvisioningOffer());
+    } catch (error) {
+      console.error('Create provisioning offer error:', error);
+      Alert.alert('Linking Failed', (error as Error).message);
+    }
+  };
+
+  const handleRevoke = (device: LinkedDevice) => {
+    Alert.alert(
+      'Remove Device',
+      `${device.name} will be signed out and will no longer receive messages.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await devices.revokeDevice(device.deviceId);
+
+              // The removed device must not read later group messages
+              await Promise.all(
+                conversations
+                  .filter((conversation) => conversation.type === 'group')
+                  .map((conversation) => senderKeys.rotate(conversation._id))
+              );
+
+              await loadDevices();
+            } catch (error) {
+              console.error('Revoke device error:', error);
+              Alert.alert('Remove Failed', (error as Error).message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Linked Devices</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <X size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Devices</Text>
+            {isLoading && linkedDevices.length === 0 ? (
+              <ActivityIndicator color="#00FF94" />
+            ) : (
+              linkedDevices.map((device) => (
+                <View key={device.deviceId} style={styles.deviceRow}>
+                  <Smartphone size={20} color="#00D4FF" />
+                  <View style={styles.deviceInfo}>
+                    <Text style={styles.deviceName}>
+                      {device.name}
+                      {device.current ? ' (this device)' : ''}
+                    </Text>
+                    <Text style={styles.deviceDetail}>
+                      Last active {new Date(device.lastSeenAt).toLocaleString()}
+                    </Text>
+                  </View>
+                  {!device.current && (
+                    <TouchableOpacity
+                      style={styles.revokeButton}
+                      onPress={() => handleRevoke(device)}
+                    >
+                      <Trash2 size={18} color="#FF4444" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <QrCode size={18} color="#00D4FF" />
+              <Text style={styles.sectionTitle}>Link New Device</Text>
+            </View>
+            {offer ? (
+              <>
+                <View style={styles.qrContainer}>
+                  <QRCode
+                    value={offer.qrData}
+                    size={200}
+                    backgroundColor="#FFFFFF"
+                    color="#000000"
+                  />
+                </View>
+                <Text style={styles.bodyText}>
+                  On the new device, choose "Link to an existing device" and scan
+                  this code. Your keys are sent to it encrypted end to end.
+                </Text>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setOffer(null)}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={styles.bodyText}>
+                  A linked device shares your identity and receives its own copy
+                  of every message.
+                </Text>
+                <TouchableOpacity style={styles.primaryButton} onPress={handleLinkDevice}>
+                  <QrCode size={18} color="#000000" />
+                  <Text style={styles.primaryButtonText}>Show Link Code</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0B0F',
+    paddingHorizontal: 20,
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: 'Poppins-Bold',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+  deviceDetail: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF60',
+    marginTop: 2,
+  },
+  revokeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 68, 68, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF80',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#00FF94',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#000000',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 4,
+    borderWidth: 1,
+    borderColor: '#00FF94',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00FF94',
+  },
+});
@@ -0,0 +1,214 @@
+/**
+ * SecuriComm Rich Message Component
+ *
+ * Shows a location pin, contact card or voice note in the message list.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking, Platform, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Attachment } from '@/utils/attachments';
+import {
+  RichContent,
+  LocationContent,
+  ContactContent,
+  AudioContent,
+  checkContactFingerprint,
+  formatFingerprint,
+  formatDuration,
+  getMapUrl,
+} from '@/utils/richMessages';
+import { VerifiedContact, getVerificationStatus } from '@/utils/verification';
+import { voiceNotes } from '@/utils/voiceNotes';
+
+// Props interface
+export interface RichMessageProps {
+  content: RichContent;
+  attachment?: Attachment;
+  verifiedContacts: Record<string, VerifiedContact>;
+}
+
+// Location pin; opens in the maps app when tapped
+const LocationPin = ({ content }: { content: LocationContent }) => {
+  const { latitude, longitude, accuracy } = content.location;
+
+  const handleOpen = async () => {
+    try {
+      await Linking.openURL(getMapUrl(content, Platform.OS));
+    } catch (error) {
+      console.error('Open location error:', error);
+      Alert.alert('Location', 'No maps app could open this location.');
+    }
+  };
+
+  return (
+    <TouchableOpacity style={styles.row} onPress={handleOpen}>
+      <Ionicons name="location" size={28} color="#FF3B30" />
+      <View style={styles.details}>
+        <Text style={styles.title}>{content.label || 'Shared location'}</Text>
+        <Text style={styles.subtitle}>
+          {latitude.toFixed(5)}, {longitude.toFixed(5)}
+        </Text>
+        {accuracy > 0 && (
+          <Text style={styles.subtitle}>Accurate to {Math.round(accuracy)} m</Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+// Contact card with its key fingerprint, checked against what we verified
+const ContactCard = ({
+  content,
+  verifiedContacts,
+}: {
+  content: ContactContent;
+  verifiedContacts: Record<string, VerifiedContact>;
+}) => {
+  const { contact } = content;
+  const isConsistent = checkContactFingerprint(content);
+  const status = getVerificationStatus(verifiedContacts, contact.userId, contact.publicKey);
+
+  const getKeyState = () => {
+    if (!isConsistent) {
+      return { color: '#FF3B30', text: 'Fingerprint does not match the key' };
+    }
+
+    switch (status) {
+      case 'verified':
+        return { color: '#34C759', text: 'Matches the key you verified' };
+      case 'changed':
+        return { color: '#FF9500', text: 'Differs from the key you verified' };
+      default:
+        return { color: '#8E8E93', text: 'Not verified by you' };
+    }
+  };
+
+  const keyState = getKeyState();
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Ionicons name="person-circle" size={32} color="#007AFF" />
+        <View style={styles.details}>
+          <Text style={styles.title}>{contact.name}</Text>
+          {contact.email && <Text style={styles.subtitle}>{contact.email}</Text>}
+        </View>
+      </View>
+
+      <Text style={styles.fingerprint}>{formatFingerprint(contact.fingerprint)}</Text>
+      <Text style={[styles.keyState, { color: keyState.color }]}>{keyState.text}</Text>
+    </View>
+  );
+};
+
+// Voice note with its waveform; the audio is decrypted only to play it
+const VoiceNote = ({
+  content,
+  attachment,
+}: {
+  content: AudioContent;
+  attachment?: Attachment;
+}) => {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+
+  useEffect(() => {
+    return voiceNotes.onPlaybackChange((attachmentId) => {
+      setIsPlaying(!!attachment && attachmentId === attachment._id);
+    });
+  }, [attachment?._id]);
+
+  const handlePress = async () => {
+    if (!attachment) return;
+
+    try {
+      if (isPlaying) {
+        await voiceNotes.stopPlayback();
+      } else {
+        await voiceNotes.play(attachment);
+      }
+    } catch {
+      Alert.alert('Voice Note', 'The voice note could not be played.');
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity onPress={handlePress} disabled={!attachment}>
+        <Ionicons
+          name={isPlaying ? 'stop-circle' : 'play-circle'}
+          size={32}
+          color={attachment ? '#007AFF' : '#C7C7CC'}
+        />
+      </TouchableOpacity>
+
+      <View style={styles.waveform}>
+        {content.waveform.map((level, index) => (
+          <View
+            key={index}
+            style={[styles.waveformBar, { height: 4 + level * 20 }]}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.subtitle}>{formatDuration(content.duration)}</Text>
+    </View>
+  );
+};
+
+// Rich message component
+const RichMessage = ({ content, attachment, verifiedContacts }: RichMessageProps) => {
+  switch (content.type) {
+    case 'location':
+      return <LocationPin content={content} />;
+    case 'contact':
+      return <ContactCard content={content} verifiedContacts={verifiedContacts} />;
+    case 'audio':
+      return <VoiceNote content={content} attachment={attachment} />;
+  }
+};
+
+// Styles
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  details: {
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#3C3C43',
+  },
+  fingerprint: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#3C3C43',
+    marginTop: 8,
+  },
+  keyState: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 24,
+    marginHorizontal: 8,
+  },
+  waveformBar: {
+    width: 3,
+    marginHorizontal: 1,
+    borderRadius: 1.5,
+    backgroundColor: '#007AFF',
+  },
+});
+
+export default RichMessage;
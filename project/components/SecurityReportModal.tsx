@@ -0,0 +1,348 @@
+/**
+ * SecuriComm Security Report Component
+ *
+ * Lets the user pick which security events to hand over and exports them
+ * as a signed JSON, CSV or printable HTML report.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  Share,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { X, FileText, Share2 } from 'lucide-react-native';
+import { useSecurity } from '@/contexts/SecurityContext';
+import {
+  ReportFormat,
+  SavedReport,
+  SecurityEvent,
+  SecurityReport,
+  saveSecurityReport,
+} from '@/utils/securityReport';
+
+type ReportRange = '24h' | '7d' | '30d' | 'all';
+
+// How far back each range reaches
+const RANGE_DURATIONS: Record<ReportRange, number | null> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+const EVENT_TYPES: SecurityEvent['type'][] = ['access', 'encryption', 'threat', 'emergency', 'scan'];
+
+const SEVERITIES: SecurityEvent['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'html', label: 'HTML (print to PDF)' },
+];
+
+interface SecurityReportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+export function SecurityReportModal({ visible, onClose }: SecurityReportModalProps) {
+  const { exportReport } = useSecurity();
+  const [range, setRange] = useState<ReportRange>('30d');
+  const [types, setTypes] = useState<SecurityEvent['type'][]>(EVENT_TYPES);
+  const [severities, setSeverities] = useState<SecurityEvent['severity'][]>(SEVERITIES);
+  const [format, setFormat] = useState<ReportFormat>('html');
+  const [report, setReport] = useState<SecurityReport | null>(null);
+  const [saved, setSaved] = useState<SavedReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (!visible) {
+      setReport(null);
+      setSaved(null);
+    }
+  }, [visible]);
+
+  const handleExport = async () => {
+    try {
+      setIsWorking(true);
+      const duration = RANGE_DURATIONS[range];
+      const created = await exportReport({
+        format,
+        filter: {
+          from: duration !== null ? Date.now() - duration : undefined,
+          types,
+          severities,
+        },
+      });
+
+      setReport(created);
+      setSaved(await saveSecurityReport(created));
+    } catch (error) {
+      console.error('Export security report error:', error);
+      Alert.alert('Export Failed', 'The security report could not be created.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const shareFile = async (title: string, content: string, uri?: string) => {
+    try {
+      // Android shares text only, so the file contents go in the message
+      await Share.share(
+        Platform.OS === 'ios' && uri ? { title, url: uri } : { title, message: content }
+      );
+    } catch (error) {
+      console.error('Share security report error:', error);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Security Report</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <X size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.bodyText}>
+              Reports are signed with this device's signing key. Keep the signature
+              file with the report so it can be checked later.
+            </Text>
+
+            <Text style={styles.label}>Period</Text>
+            <View style={styles.chips}>
+              {(Object.keys(RANGE_DURATIONS) as ReportRange[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, range === option && styles.chipActive]}
+                  onPress={() => setRange(option)}
+                >
+                  <Text style={[styles.chipText, range === option && styles.chipTextActive]}>
+                    {option === 'all' ? 'All time' : option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Event types</Text>
+            <View style={styles.chips}>
+              {EVENT_TYPES.map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, types.includes(type) && styles.chipActive]}
+                  onPress={() => setTypes(toggle(types, type))}
+                >
+                  <Text style={[styles.chipText, types.includes(type) && styles.chipTextActive]}>
+                    {type}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Severity</Text>
+            <View style={styles.chips}>
+              {SEVERITIES.map((severity) => (
+                <TouchableOpacity
+                  key={severity}
+                  style={[styles.chip, severities.includes(severity) && styles.chipActive]}
+                  onPress={() => setSeverities(toggle(severities, severity))}
+                >
+                  <Text
+                    style={[styles.chipText, severities.includes(severity) && styles.chipTextActive]}
+                  >
+                    {severity}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Format</Text>
+            <View style={styles.chips}>
+              {FORMATS.map((option) => (
+                <TouchableOpacity
+                  key={option.format}
+                  style={[styles.chip, format === option.format && styles.chipActive]}
+                  onPress={() => setFormat(option.format)}
+                >
+                  <Text
+                    style={[styles.chipText, format === option.format && styles.chipTextActive]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, isWorking && styles.disabledButton]}
+              onPress={handleExport}
+              disabled={isWorking || types.length === 0 || severities.length === 0}
+            >
+              {isWorking ? (
+                <ActivityIndicator color="#000000" />
+              ) : (
+                <>
+                  <FileText size={18} color="#000000" />
+                  <Text style={styles.primaryButtonText}>Create Report</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {report && (
+            <View style={styles.section}>
+              <Text style={styles.label}>{report.filename}</Text>
+              <Text style={styles.bodyText}>
+                {report.eventCount} events, signed with key{' '}
+                {report.signature.signingKey.slice(0, 16)}…
+              </Text>
+
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => shareFile('SecuriComm Security Report', report.content, saved?.reportUri)}
+              >
+                <Share2 size={16} color="#00FF94" />
+                <Text style={styles.secondaryButtonText}>Share Report</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() =>
+                  shareFile(
+                    'SecuriComm Report Signature',
+                    JSON.stringify(report.signature, null, 2),
+                    saved?.signatureUri
+                  )
+                }
+              >
+                <Share2 size={16} color="#00FF94" />
+                <Text style={styles.secondaryButtonText}>Share Signature</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0B0F',
+    paddingHorizontal: 20,
+    paddingTop: 48,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: 'Poppins-Bold',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#FFFFFF80',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(0, 255, 148, 0.15)',
+    borderColor: '#00FF94',
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#FFFFFF80',
+    textTransform: 'capitalize',
+  },
+  chipTextActive: {
+    color: '#00FF94',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#00FF94',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#000000',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00FF94',
+  },
+});
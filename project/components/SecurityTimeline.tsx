@@ -30,35 +30,29 @@ import Animated, {
   withTiming,
   withDelay,
 } from 'react-native-reanimated';
+import { AuditVerification } from '@/utils/auditLog';
+import { SecurityEvent } from '@/utils/securityReport';
 
-const { width } = Dimensions.get('window');
+export type { SecurityEvent } from '@/utils/securityReport';
 
-export interface SecurityEvent {
-  id: string;
-  type: 'scan' | 'threat' | 'encryption' | 'access' | 'network' | 'ai' | 'compliance';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  title: string;
-  description: string;
-  timestamp: number;
-  details?: {
-    source?: string;
-    action?: string;
-    result?: string;
-    metadata?: Record<string, any>;
-  };
-  resolved?: boolean;
-}
+const { width } = Dimensions.get('window');
 
 interface SecurityTimelineProps {
   events?: SecurityEvent[];
   maxEvents?: number;
   showFilters?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  integrity?: AuditVerification | null;
 }
 
 export function SecurityTimeline({ 
-  events = [], 
+  events, 
   maxEvents = 20,
-  showFilters = true 
+  showFilters = true,
+  hasMore = false,
+  onLoadMore,
+  integrity,
 }: SecurityTimelineProps) {
   const [filteredEvents, setFilteredEvents] = useState<SecurityEvent[]>([]);
   const [selectedFilter, setSelectedFilter] = useState<'all' | SecurityEvent['type']>('all');
@@ -143,7 +137,7 @@ export function SecurityTimeline({
     },
   ];
 
-  const allEvents = events.length > 0 ? events : sampleEvents;
+  const allEvents = events ?? sampleEvents;
 
   useEffect(() => {
     let filtered = allEvents;
@@ -179,6 +173,8 @@ export function SecurityTimeline({
         return { icon: Brain, color: '#FF6B35', label: 'AI Analysis' };
       case 'compliance':
         return { icon: Shield, color: '#00FF94', label: 'Compliance' };
+      case 'emergency':
+        return { icon: Zap, color: '#FF4444', label: 'Emergency Mode' };
       default:
         return { icon: Info, color: '#FFFFFF60', label: 'System' };
     }
@@ -278,16 +274,20 @@ export function SecurityTimeline({
           )}
 
           <View style={styles.eventFooter}>
-            <View style={styles.statusContainer}>
-              {event.resolved ? (
-                <CheckCircle size={14} color="#00FF94" />
-              ) : (
-                <XCircle size={14} color="#FF4444" />
-              )}
-              <Text style={[styles.statusText, { color: event.resolved ? '#00FF94' : '#FF4444' }]}>
-                {event.resolved ? 'Resolved' : 'Active'}
-              </Text>
-            </View>
+            {event.resolved !== undefined ? (
+              <View style={styles.statusContainer}>
+                {event.resolved ? (
+                  <CheckCircle size={14} color="#00FF94" />
+                ) : (
+                  <XCircle size={14} color="#FF4444" />
+                )}
+                <Text style={[styles.statusText, { color: event.resolved ? '#00FF94' : '#FF4444' }]}>
+                  {event.resolved ? 'Resolved' : 'Active'}
+                </Text>
+              </View>
+            ) : (
+              <View />
+            )}
             <Text style={styles.eventTimestamp}>
               {new Date(event.timestamp).toLocaleString()}
             </Text>
@@ -359,6 +359,12 @@ export function SecurityTimeline({
                   isSelected={selectedFilter === 'access'}
                   onPress={() => setSelectedFilter('access')}
                 />
+                <FilterButton
+                  label="Emergency"
+                  value="emergency"
+                  isSelected={selectedFilter === 'emergency'}
+                  onPress={() => setSelectedFilter('emergency')}
+                />
               </ScrollView>
             </View>
 
@@ -412,6 +418,21 @@ export function SecurityTimeline({
         </Text>
       </View>
 
+      {integrity && (
+        <View style={styles.integrityRow}>
+          {integrity.valid ? (
+            <CheckCircle size={14} color="#00FF94" />
+          ) : (
+            <AlertTriangle size={14} color="#FF4444" />
+          )}
+          <Text style={[styles.integrityText, { color: integrity.valid ? '#00FF94' : '#FF4444' }]}>
+            {integrity.valid
+              ? `Log intact: ${integrity.checked} entries verified`
+              : `Log tampered at entry #${integrity.brokenAt}: ${integrity.reason}`}
+          </Text>
+        </View>
+      )}
+
       <ScrollView style={styles.timelineContainer} showsVerticalScrollIndicator={false}>
         {filteredEvents.map((event, index) => (
           <TimelineEvent key={event.id} event={event} index={index} />
@@ -426,6 +447,12 @@ export function SecurityTimeline({
             </Text>
           </BlurView>
         )}
+
+        {hasMore && onLoadMore && (
+          <TouchableOpacity style={styles.loadMoreButton} onPress={onLoadMore}>
+            <Text style={styles.loadMoreText}>Load older events</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
     </View>
   );
@@ -500,6 +527,16 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     color: '#FFFFFF60',
   },
+  integrityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  integrityText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    marginLeft: 6,
+  },
   timelineContainer: {
     flex: 1,
   },
@@ -647,4 +684,13 @@ const styles = StyleSheet.create({
     color: '#FFFFFF60',
     textAlign: 'center',
   },
+  loadMoreButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#00FF94',
+  },
 });
\ No newline at end of file
@@ -8,6 +8,31 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { api } from '@/utils/api';
 import { secureStorage, StorageKeys } from '@/utils/storage';
+import {
+  ensureIdentityKeyPair,
+  clearConversationKeys,
+} from '@/utils/keyAgreement';
+import { ratchetSessions } from '@/utils/ratchet';
+import { replenishPrekeys } from '@/utils/prekeys';
+import { senderKeys } from '@/utils/senderKeys';
+import { envelopes } from '@/utils/envelope';
+import { restoreKeyBackup, KeyBackupSummary } from '@/utils/keyBackup';
+import { devices } from '@/utils/devices';
+import { DeviceLinkResult } from '@/utils/provisioning';
+import { attachmentManager } from '@/utils/attachments';
+import { outbox } from '@/utils/outbox';
+import { messageStore } from '@/utils/messageStore';
+import { disappearing } from '@/utils/disappearing';
+import { realtime } from '@/utils/websocket';
+import { receipts } from '@/utils/receipts';
+import { presence } from '@/utils/presence';
+import { behavior } from '@/utils/behavior';
+import { auditLog } from '@/utils/auditLog';
+import { clearMemoryContactKeys } from '@/utils/verification';
+import { PrivacySettings } from '@/types';
+
+// Privacy settings kept by the server for the account
+export type AccountPrivacy = Pick<PrivacySettings, 'readReceipts' | 'lastSeen' | 'profileVisibility'>;
 
 // User interface
 export interface User {
@@ -15,6 +40,8 @@ export interface User {
   email: string;
   displayName: string;
   avatar?: string;
+  publicKey?: string;
+  privacy?: AccountPrivacy;
   isVerified: boolean;
   createdAt: string;
   updatedAt: string;
@@ -34,6 +61,7 @@ interface AuthContextType {
   ) => Promise<boolean>;
   logout: () => Promise<void>;
   updateProfile: (data: Partial<User>) => Promise<boolean>;
+  updatePrivacy: (settings: Partial<AccountPrivacy>) => Promise<boolean>;
   changePassword: (
     currentPassword: string,
     newPassword: string
@@ -41,6 +69,8 @@ interface AuthContextType {
   resetPassword: (email: string) => Promise<boolean>;
   verifyEmail: (token: string) => Promise<boolean>;
   refreshToken: () => Promise<boolean>;
+  restoreKeys: (backup: string, passphrase: string) => Promise<KeyBackupSummary>;
+  linkDevice: (result: DeviceLinkResult) => Promise<boolean>;
 }
 
 // Create context
@@ -53,10 +83,15 @@ const AuthContext = createContext<AuthContextType>({
   register: async () => false,
   logout: async () => {},
   updateProfile: async () => false,
+  updatePrivacy: async () => false,
   changePassword: async () => false,
   resetPassword: async () => false,
   verifyEmail: async () => false,
   refreshToken: async () => false,
+  restoreKeys: async () => {
+    throw new Error('Not authenticated');
+  },
+  linkDevice: async () => false,
 });
 
 // Auth provider component
@@ -123,6 +158,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           StorageKeys.USER_ID,
           response.data.user.userID
         );
+        
+        // Make sure the server has our current identity public key
+        await publishIdentityKey(response.data.user.publicKey);
+        
+        // Keep prekeys available so peers can message us while offline
+        await replenishPrekeys();
+        
+        // Learn when this user usually starts a session
+        behavior.record('login')
+          .catch((error) => console.error('Record login error:', error));
       }
       
       setIsLoading(false);
@@ -140,6 +185,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
+  // Publish identity public key
+  const publishIdentityKey = async (serverPublicKey?: string) => {
+    try {
+      const keyPair = await ensureIdentityKeyPair();
+      
+      if (keyPair.publicKey !== serverPublicKey) {
+        const response = await api.auth.publishPublicKey(keyPair.publicKey);
+        
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to publish identity key');
+        }
+        
+        await auditLog.append('key', 'identity_key_published', 'Identity key published to the server', {
+          severity: 'medium',
+        });
+      }
+    } catch (error) {
+      console.error('Publish identity key error:', error);
+    }
+  };
+  
   // Login
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
@@ -147,9 +213,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setError(null);
       
       // Login with API
-      const response = await api.auth.login(email, password);
+      const response = await api.auth.login(
+        email,
+        password,
+        await devices.getDeviceId(),
+        devices.getDeviceName()
+      );
       
       if (!response.success) {
+        // Wrong credentials count towards repeated failed sign-ins
+        if (response.statusCode === 401) {
+          behavior.record('auth_failed')
+            .catch((error) => console.error('Record failed login error:', error));
+          await auditLog.append('auth', 'login_failed', 'Sign-in failed: wrong email or password', {
+            severity: 'medium',
+          });
+        }
+        
         setError(response.message || 'Login failed');
         setIsLoading(false);
         return false;
@@ -163,6 +243,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Get user data
       const success = await getCurrentUser();
       
+      if (success) {
+        await auditLog.append('auth', 'login', 'Signed in');
+      }
+      
       setIsLoading(false);
       return success;
     } catch (error) {
@@ -184,8 +268,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setIsLoading(true);
       setError(null);
       
+      // Generate identity keys before registering
+      const keyPair = await ensureIdentityKeyPair();
+      
       // Register with API
-      const response = await api.auth.register(email, password, displayName);
+      const response = await api.auth.register(
+        email,
+        password,
+        displayName,
+        keyPair.publicKey,
+        await devices.getDeviceId(),
+        devices.getDeviceName()
+      );
       
       if (!response.success) {
         setError(response.message || 'Registration failed');
@@ -201,6 +295,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Get user data
       const success = await getCurrentUser();
       
+      if (success) {
+        await auditLog.append('auth', 'register', 'Account created on this device');
+      }
+      
       setIsLoading(false);
       return success;
     } catch (error) {
@@ -218,12 +316,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setIsLoading(true);
       setError(null);
       
+      await auditLog.append('auth', 'logout', 'Signed out');
+      
       // Logout with API
       await api.auth.logout();
       
       // Clear token and user data
       await secureStorage.removeItem(StorageKeys.AUTH_TOKEN);
       await secureStorage.removeItem(StorageKeys.USER_ID);
+      clearConversationKeys();
+      ratchetSessions.clearMemorySessions();
+      senderKeys.clearMemoryGroups();
+      envelopes.clearMemoryEnvelopes();
+      devices.clearMemoryDevices();
+      attachmentManager.clearMemoryFiles();
+      outbox.clearMemoryOutbox();
+      messageStore.clearMemoryMessages();
+      disappearing.clearMemoryExpiry();
+      realtime.stop();
+      receipts.clearMemoryReceipts();
+      presence.clearMemoryPresence();
+      behavior.clearMemoryBehavior();
+      auditLog.clearMemoryAudit();
+      clearMemoryContactKeys();
       
       // Update state
       setIsAuthenticated(false);
@@ -236,6 +351,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Clear token and user data anyway
       await secureStorage.removeItem(StorageKeys.AUTH_TOKEN);
       await secureStorage.removeItem(StorageKeys.USER_ID);
+      clearConversationKeys();
+      ratchetSessions.clearMemorySessions();
+      senderKeys.clearMemoryGroups();
+      envelopes.clearMemoryEnvelopes();
+      devices.clearMemoryDevices();
+      attachmentManager.clearMemoryFiles();
+      outbox.clearMemoryOutbox();
+      messageStore.clearMemoryMessages();
+      disappearing.clearMemoryExpiry();
+      realtime.stop();
+      receipts.clearMemoryReceipts();
+      presence.clearMemoryPresence();
+      behavior.clearMemoryBehavior();
+      auditLog.clearMemoryAudit();
+      clearMemoryContactKeys();
       
       // Update state
       setIsAuthenticated(false);
@@ -278,6 +408,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
+  // Update privacy settings; they apply on every device of the account
+  const updatePrivacy = async (
+    settings: Partial<AccountPrivacy>
+  ): Promise<boolean> => {
+    try {
+      setError(null);
+      
+      const response = await api.auth.updatePrivacy(settings);
+      
+      if (!response.success) {
+        setError(response.message || 'Failed to update privacy settings');
+        return false;
+      }
+      
+      setUser((prevUser) =>
+        prevUser ? { ...prevUser, privacy: response.data.privacy } : prevUser
+      );
+      
+      return true;
+    } catch (error) {
+      console.error('Update privacy error:', error);
+      
+      setError(
+        error instanceof Error ? error.message : 'Failed to update privacy settings'
+      );
+      return false;
+    }
+  };
+  
   // Change password
   const changePassword = async (
     currentPassword: string,
@@ -299,6 +458,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return false;
       }
       
+      await auditLog.append('auth', 'password_changed', 'Account password changed', {
+        severity: 'medium',
+      });
+      
       setIsLoading(false);
       return true;
     } catch (error) {
@@ -418,6 +581,56 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
+  // Restore keys from a backup and publish them
+  const restoreKeys = async (
+    backup: string,
+    passphrase: string
+  ): Promise<KeyBackupSummary> => {
+    const summary = await restoreKeyBackup(backup, passphrase);
+    
+    // Peers must see the restored identity and prekeys signed with it
+    await publishIdentityKey(user?.publicKey);
+    await replenishPrekeys();
+    
+    if (user) {
+      setUser({
+        ...user,
+        publicKey: summary.identityKey,
+      });
+    }
+    
+    return summary;
+  };
+  
+  // Sign in on a device that was just linked to an account
+  const linkDevice = async (result: DeviceLinkResult): Promise<boolean> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      // The linked identity keys are already installed, so only the token is stored
+      await secureStorage.setItem(StorageKeys.AUTH_TOKEN, result.token);
+      
+      // Get user data and publish this device's prekeys
+      const success = await getCurrentUser();
+      
+      if (success) {
+        await auditLog.append('auth', 'device_linked', 'Signed in by linking this device', {
+          severity: 'medium',
+        });
+      }
+      
+      setIsLoading(false);
+      return success;
+    } catch (error) {
+      console.error('Link device error:', error);
+      
+      setError(error instanceof Error ? error.message : 'Device linking failed');
+      setIsLoading(false);
+      return false;
+    }
+  };
+  
   return (
     <AuthContext.Provider
       value={{
@@ -429,10 +642,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         register,
         logout,
         updateProfile,
+        updatePrivacy,
         changePassword,
         resetPassword,
         verifyEmail,
         refreshToken,
+        restoreKeys,
+        linkDevice,
       }}
     >
       {children}
@@ -6,10 +6,53 @@
  */
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { api } from '@/utils/api';
+import { api, ServerMessage, ServerReaction } from '@/utils/api';
 import { useAuth } from './AuthContext';
-import { useWebSocket } from '@/utils/websocket';
-import { encryptMessage, decryptMessage } from '@/utils/encryption';
+import { realtime, useWebSocket, ServerEvents } from '@/utils/websocket';
+import {
+  isRatchetPayload,
+  isFanoutPayload,
+  encryptForPeers,
+  decryptFromPeer,
+} from '@/utils/ratchet';
+import { senderKeys, isSenderKeyPayload } from '@/utils/senderKeys';
+import { envelopes, isEnvelope, toMessageContent, EnvelopeOrigin } from '@/utils/envelope';
+import {
+  Attachment,
+  AttachmentSource,
+  attachmentManager,
+  MessageReply,
+  MessageEdit,
+  encodeMessageBody,
+  decodeMessageBody,
+} from '@/utils/attachments';
+import { FileProgressCallback } from '@/utils/fileEncryption';
+import { outbox, OutboxEntry } from '@/utils/outbox';
+import { messageStore, SyncPosition } from '@/utils/messageStore';
+import {
+  disappearing,
+  getExpiresAt,
+  isExpired,
+  ExpiredMessage,
+  MessageTimerSettings,
+} from '@/utils/disappearing';
+import {
+  receipts,
+  addReceipt,
+  summarizeReceipts,
+  MessageReceipt,
+} from '@/utils/receipts';
+import { RichContent } from '@/utils/richMessages';
+import { behavior } from '@/utils/behavior';
+
+// Shown when a forward-secret message can no longer be decrypted on this device
+const UNAVAILABLE_MESSAGE_CONTENT = 'Message unavailable on this device';
+
+// Messages fetched per request when syncing changes
+const SYNC_PAGE_SIZE = 50;
+
+// Characters of a message quoted in a reply
+const REPLY_PREVIEW_LENGTH = 120;
 
 // Conversation interface
 export interface Conversation {
@@ -21,7 +64,8 @@ export interface Conversation {
   unreadCount: number;
   createdAt: string;
   updatedAt: string;
-  encryptionKey?: string;
+  // Disappearing message timer, shared by all participants
+  settings?: MessageTimerSettings;
 }
 
 // Participant interface
@@ -32,6 +76,8 @@ export interface Participant {
   avatar?: string;
   isActive: boolean;
   lastActive?: string;
+  publicKey?: string;
+  signingKey?: string;
 }
 
 // Message interface
@@ -45,22 +91,120 @@ export interface Message {
   };
   content: string;
   attachments?: Attachment[];
-  status: 'sent' | 'delivered' | 'read';
+  status: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+  // Set on our own messages; identifies messages still in the outbox
+  clientId?: string;
   createdAt: string;
   updatedAt: string;
+  // Set when the message disappears
+  expiresAt?: string;
+  replyTo?: MessageReply;
+  // Location pin, contact card or voice note
+  rich?: RichContent;
+  // Set when the sender edited the message; edits holds the earlier versions
+  editedAt?: string;
+  edits?: MessageEdit[];
+  reactions?: MessageReaction[];
+  // Set on messages the sender deleted for everyone
+  deletedAt?: string;
+  // Members the message reached and members who read it
+  deliveredTo?: MessageReceipt[];
+  readBy?: MessageReceipt[];
   isEncrypted: boolean;
 }
 
-// Attachment interface
-export interface Attachment {
-  _id: string;
-  name: string;
-  type: string;
-  size: number;
-  url: string;
-  thumbnailUrl?: string;
+// Emoji reaction of a conversation member
+export interface MessageReaction {
+  userId: string;
+  emoji: string;
+  updatedAt: string;
 }
 
+/**
+ * Replace a member's reaction in a list of reactions
+ */
+const replaceReaction = (
+  reactions: MessageReaction[] = [],
+  userId: string,
+  reaction: MessageReaction | null
+): MessageReaction[] => [
+  ...reactions.filter((item) => item.userId !== userId),
+  ...(reaction ? [reaction] : []),
+];
+
+/**
+ * Message as the app keeps it, from a message as the server sends it
+ *
+ * The content stays sealed until the message is opened.
+ */
+const toMessage = (message: ServerMessage, conversation?: Conversation): Message => {
+  const sender = conversation?.participants.find(
+    (participant) => participant._id === message.sender._id
+  );
+  
+  return {
+    _id: message._id,
+    conversationId: message.conversation,
+    sender: {
+      _id: message.sender._id,
+      displayName: sender?.displayName || '',
+      avatar: sender?.avatar,
+    },
+    content: message.encryptedContent?.data || '',
+    status: message.status || 'sent',
+    clientId: message.clientId,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt || message.createdAt,
+    expiresAt: message.expiresAt || undefined,
+    editedAt: message.editedAt || undefined,
+    deletedAt: message.deletedAt || undefined,
+    deliveredTo: message.deliveredTo,
+    readBy: message.readBy,
+    isEncrypted: Boolean(message.encryptedContent),
+  };
+};
+
+/**
+ * Status of a sent message from the receipts of the other members
+ */
+const withReceiptStatus = (conversation: Conversation, message: Message): Message =>
+  message.status === 'sending' || message.status === 'failed'
+    ? message
+    : {
+        ...message,
+        status: summarizeReceipts(
+          message,
+          conversation.participants.map((participant) => participant._id),
+          message.sender._id
+        ).status,
+      };
+
+/**
+ * Sync position after the latest change among fetched messages
+ *
+ * Changes at the same server time are ordered by message ID, as the server
+ * pages through them.
+ */
+const latestSyncPosition = (
+  messages: ServerMessage[],
+  from: SyncPosition | null
+): SyncPosition | null =>
+  messages.reduce((latest, message) => {
+    if (!message.updatedAt) {
+      return latest;
+    }
+    
+    const isLater =
+      !latest ||
+      message.updatedAt > latest.updatedAt ||
+      (message.updatedAt === latest.updatedAt && message._id > latest.messageId);
+    
+    return isLater ? { updatedAt: message.updatedAt, messageId: message._id } : latest;
+  }, from);
+
+// Attachments are encrypted uploads kept by the attachments service
+export type { Attachment } from '@/utils/attachments';
+
 // Conversation context interface
 interface ConversationContextType {
   conversations: Conversation[];
@@ -75,19 +219,39 @@ interface ConversationContextType {
     limit?: number,
     before?: string
   ) => Promise<void>;
+  searchMessages: (query: string, conversationId?: string) => Promise<Message[]>;
   sendMessage: (
     conversationId: string,
     content: string,
-    attachments?: any[]
+    attachments?: Attachment[],
+    replyToId?: string,
+    rich?: RichContent
   ) => Promise<void>;
+  retryMessage: (clientId: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<boolean>;
+  reactToMessage: (messageId: string, emoji: string | null) => Promise<void>;
+  uploadAttachment: (
+    conversationId: string,
+    source: AttachmentSource,
+    onProgress?: FileProgressCallback
+  ) => Promise<Attachment | null>;
   createDirectConversation: (recipientEmail: string) => Promise<Conversation | null>;
   createGroupConversation: (
     name: string,
     participantEmails: string[]
   ) => Promise<Conversation | null>;
+  addParticipants: (
+    conversationId: string,
+    participantEmails: string[]
+  ) => Promise<boolean>;
+  removeParticipant: (
+    conversationId: string,
+    participantId: string
+  ) => Promise<boolean>;
+  setMessageTimer: (conversationId: string, seconds: number) => Promise<boolean>;
   setActiveConversation: (conversation: Conversation | null) => void;
-  markAsRead: (messageId: string) => Promise<void>;
-  deleteMessage: (messageId: string) => Promise<void>;
+  markAsRead: (conversationId: string, messageIds: string[]) => void;
+  deleteMessage: (messageId: string, forEveryone?: boolean) => Promise<void>;
   deleteConversation: (conversationId: string) => Promise<void>;
   sendTypingIndicator: (conversationId: string, isTyping: boolean) => void;
 }
@@ -102,11 +266,19 @@ const ConversationContext = createContext<ConversationContextType>({
   error: null,
   loadConversations: async () => {},
   loadMessages: async () => {},
+  searchMessages: async () => [],
   sendMessage: async () => {},
+  retryMessage: async () => {},
+  editMessage: async () => false,
+  reactToMessage: async () => {},
+  uploadAttachment: async () => null,
   createDirectConversation: async () => null,
   createGroupConversation: async () => null,
+  addParticipants: async () => false,
+  removeParticipant: async () => false,
+  setMessageTimer: async () => false,
   setActiveConversation: () => {},
-  markAsRead: async () => {},
+  markAsRead: () => {},
   deleteMessage: async () => {},
   deleteConversation: async () => {},
   sendTypingIndicator: () => {},
@@ -115,7 +287,7 @@ const ConversationContext = createContext<ConversationContextType>({
 // Conversation provider component
 export function ConversationProvider({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, user } = useAuth();
-  const { socket, isConnected, sendEvent } = useWebSocket();
+  const { isConnected, sendEvent, subscribe } = useWebSocket();
   
   // Conversation state
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -132,33 +304,270 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     }
   }, [isAuthenticated]);
   
-  // Handle socket events
+  // The shared connection stays up while signed in, whichever screen is open
+  useEffect(() => {
+    if (isAuthenticated) {
+      realtime
+        .start()
+        .catch((error) => console.error('Start realtime connection error:', error));
+    }
+  }, [isAuthenticated]);
+  
+  // Handle socket events; payloads are checked against the event contract.
+  // Handlers are kept while reconnecting, so replayed events are not missed
   useEffect(() => {
-    if (isConnected && socket) {
-      // New message event
-      socket.on('new_message', handleNewMessage);
+    if (isAuthenticated) {
+      // An event whose handler throws is not acknowledged and is replayed later
+      const unsubscribers = [
+        // New message event
+        subscribe('new_message', handleNewMessage),
+        
+        // Message status update event
+        subscribe('message_status', handleMessageStatus),
+        
+        // Typing indicator event
+        subscribe('typing_indicator', handleTypingIndicator),
+        
+        // New conversation event
+        subscribe('new_conversation', handleNewConversation),
+        
+        // Conversation update event
+        subscribe('conversation_update', handleConversationUpdate),
+        
+        // Edited, reacted to and deleted message events
+        subscribe('message_updated', handleMessageUpdated),
+        subscribe('message_reaction', handleMessageReaction),
+        subscribe('message_deleted', handleMessageDeleted),
+        
+        // Missed events could not be replayed
+        subscribe('resync', handleResync),
+      ];
       
-      // Message status update event
-      socket.on('message_status', handleMessageStatus);
+      return () => {
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+      };
+    }
+  }, [isAuthenticated, subscribe, messages, conversations]);
+  
+  // Read receipts follow the privacy setting of the account
+  useEffect(() => {
+    receipts.setReadReceipts(user?.privacy?.readReceipts !== false);
+  }, [user]);
+  
+  // Messages are sent from the outbox whenever we are connected
+  useEffect(() => {
+    outbox.setOnline(isAuthenticated && isConnected);
+  }, [isAuthenticated, isConnected]);
+  
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    
+    outbox.setHandlers({
+      encrypt: encryptQueuedMessage,
+      onSent: handleMessageSent,
+    });
+  }, [isAuthenticated, conversations, user]);
+  
+  // Show messages waiting in the outbox, including those from an earlier session
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    
+    outbox
+      .getEntries()
+      .then(handleOutboxChange)
+      .catch((error) => console.error('Load outbox error:', error));
+    
+    return outbox.onChange(handleOutboxChange);
+  }, [isAuthenticated, user]);
+  
+  // Remove disappearing messages when their time is up, also after a restart
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    
+    const unsubscribe = disappearing.onExpired(handleMessagesExpired);
+    
+    disappearing
+      .start()
+      .catch((error) => console.error('Start disappearing messages error:', error));
+    
+    return unsubscribe;
+  }, [isAuthenticated, user]);
+  
+  // Encrypt message content for a conversation
+  const encryptContent = async (
+    conversation: Conversation,
+    content: string
+  ): Promise<string | null> => {
+    if (!user) {
+      return null;
+    }
+    
+    let payload: string | null;
+    
+    if (conversation.type === 'direct') {
+      // Direct conversations use forward-secret ratchet sessions with every
+      // device of the peer and our own other devices
+      const peer = conversation.participants.find(
+        (participant) => participant._id !== user.userID
+      );
       
-      // Typing indicator event
-      socket.on('typing_indicator', handleTypingIndicator);
+      if (!peer) {
+        return null;
+      }
       
-      // New conversation event
-      socket.on('new_conversation', handleNewConversation);
+      payload = await encryptForPeers(conversation.participants, content);
+    } else {
+      // Group conversations use our sender key
+      payload = await senderKeys.encrypt(
+        conversation._id,
+        user.userID,
+        conversation.participants,
+        content
+      );
+    }
+    
+    if (!payload) {
+      return null;
+    }
+    
+    // Sign the payload together with sender, conversation and time
+    return await envelopes.seal(user.userID, conversation._id, payload);
+  };
+  
+  // Decrypt an encrypted payload from a conversation member
+  const decryptPayload = async (
+    conversation: Conversation,
+    senderId: string,
+    content: string
+  ): Promise<string | null> => {
+    if (isFanoutPayload(content) || isRatchetPayload(content)) {
+      const sender = conversation.participants.find(
+        (participant) => participant._id === senderId
+      );
+      
+      return await decryptFromPeer(senderId, sender?.publicKey, content);
+    }
+    
+    if (isSenderKeyPayload(content)) {
+      return await senderKeys.decrypt(
+        conversation._id,
+        senderId,
+        conversation.participants,
+        content
+      );
+    }
+    
+    return null;
+  };
+  
+  // Decrypt content a conversation member sent; only signed envelopes are
+  // accepted, so no payload gets past the signature and replay checks
+  const decryptContent = async (
+    conversation: Conversation,
+    senderId: string,
+    content: string,
+    origin: EnvelopeOrigin
+  ): Promise<string> => {
+    if (!isEnvelope(content)) {
+      throw new Error('Message is not a signed envelope');
+    }
+    
+    const sender = conversation.participants.find(
+      (participant) => participant._id === senderId
+    );
+    
+    return await envelopes.open(
+      content,
+      {
+        ...origin,
+        conversationId: conversation._id,
+        senderId,
+        signingKey: sender?.signingKey,
+      },
+      async (data) => {
+        const plaintext = await decryptPayload(conversation, senderId, data);
+        
+        if (plaintext === null) {
+          throw new Error('Unsupported message payload');
+        }
+        
+        return plaintext;
+      }
+    );
+  };
+  
+  // Decrypt a message and add the files it carries to the file library
+  const openMessage = async (
+    conversation: Conversation,
+    message: Message,
+    fromHistory: boolean = false
+  ): Promise<Message> => {
+    const { content, attachments, replyTo, edits, rich } = decodeMessageBody(
+      await decryptContent(conversation, message.sender._id, message.content, {
+        messageId: message._id,
+        fromHistory,
+      })
+    );
+    
+    if (attachments.length > 0) {
+      const sender = conversation.participants.find(
+        (participant) => participant._id === message.sender._id
+      );
       
-      // Conversation update event
-      socket.on('conversation_update', handleConversationUpdate);
+      // The message is already decrypted, so never fail it over the library
+      try {
+        await attachmentManager.recordFiles(attachments, {
+          conversationId: conversation._id,
+          uploaderId: message.sender._id,
+          uploadedBy: sender?.displayName || message.sender.displayName || '',
+          sharedWith: conversation.participants
+            .map((participant) => participant._id)
+            .filter((id) => id !== message.sender._id),
+        });
+      } catch (error) {
+        console.error('Record files error:', error);
+      }
+    }
+    
+    return { ...message, content, attachments, replyTo, edits, rich };
+  };
+  
+  // Decrypt the reactions to a message, reusing the ones we already decrypted
+  const openReactions = async (
+    conversation: Conversation,
+    reactions: ServerReaction[] = [],
+    knownReactions: MessageReaction[] = [],
+    origin: EnvelopeOrigin = {}
+  ): Promise<MessageReaction[]> => {
+    const openedReactions: MessageReaction[] = [];
+    
+    for (const reaction of reactions) {
+      const userId = String(reaction.user);
+      const knownReaction = knownReactions.find(
+        (item) => item.userId === userId && item.updatedAt === reaction.updatedAt
+      );
       
-      return () => {
-        socket.off('new_message', handleNewMessage);
-        socket.off('message_status', handleMessageStatus);
-        socket.off('typing_indicator', handleTypingIndicator);
-        socket.off('new_conversation', handleNewConversation);
-        socket.off('conversation_update', handleConversationUpdate);
-      };
+      if (knownReaction) {
+        openedReactions.push(knownReaction);
+        continue;
+      }
+      
+      try {
+        const emoji = await decryptContent(
+          conversation,
+          userId,
+          reaction.encryptedContent,
+          origin
+        );
+        
+        openedReactions.push({ userId, emoji, updatedAt: reaction.updatedAt });
+      } catch (error) {
+        console.error('Decrypt reaction error:', error);
+      }
     }
-  }, [isConnected, socket, messages, conversations]);
+    
+    return openedReactions;
+  };
   
   // Load conversations
   const loadConversations = async (): Promise<void> => {
@@ -188,6 +597,213 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     }
   };
   
+  // Stamp messages with the time they disappear and drop the ones already gone,
+  // or past the retention period of auto-delete
+  const applyExpiry = (conversationId: string, newMessages: Message[]): Message[] => {
+    const conversation = conversations.find((c) => c._id === conversationId);
+    const stamped = newMessages.map((message) => ({
+      ...message,
+      expiresAt: getExpiresAt(message, conversation?.settings),
+    }));
+    
+    // Expired messages are tracked too, so the sweep removes their stored copies
+    disappearing
+      .track(conversationId, stamped)
+      .catch((error) => console.error('Track disappearing messages error:', error));
+    
+    return stamped.filter(
+      (message) => !isExpired(message) && !disappearing.isPastRetention(message)
+    );
+  };
+  
+  // Add messages to a conversation, replacing ones we already have
+  const mergeMessages = (conversationId: string, fetchedMessages: Message[]) => {
+    const newMessages = applyExpiry(conversationId, fetchedMessages);
+    
+    if (newMessages.length === 0) return;
+    
+    setMessages((prevMessages) => {
+      const existingMessages = prevMessages[conversationId] || [];
+      
+      // Merge messages and remove duplicates
+      const mergedMessages = [...existingMessages];
+      
+      newMessages.forEach((message) => {
+        const existingIndex = mergedMessages.findIndex(
+          (m) => m._id === message._id
+        );
+        
+        if (existingIndex >= 0) {
+          mergedMessages[existingIndex] = message;
+        } else {
+          mergedMessages.push(message);
+        }
+      });
+      
+      // Sort messages by date
+      mergedMessages.sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+      
+      return {
+        ...prevMessages,
+        [conversationId]: mergedMessages,
+      };
+    });
+  };
+  
+  // Keep decrypted messages on this device
+  const storeMessages = async (conversationId: string, newMessages: Message[]) => {
+    try {
+      await messageStore.putMessages(conversationId, newMessages);
+    } catch (error) {
+      console.error('Store messages error:', error);
+    }
+  };
+  
+  // Decrypt messages fetched from the server and store the ones we could read
+  const openFetchedMessages = async (
+    conversation: Conversation,
+    fetchedMessages: ServerMessage[]
+  ): Promise<Message[]> => {
+    const knownMessages = messages[conversation._id] || [];
+    const decryptedMessages: Message[] = [];
+    const readableMessages: Message[] = [];
+    const deletedIds: string[] = [];
+    
+    // Ratchet messages are decrypted oldest first, one at a time
+    const sortedMessages = [...fetchedMessages].sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    
+    for (const serverMessage of sortedMessages) {
+      const message = toMessage(serverMessage, conversation);
+      
+      // Messages deleted for everyone are removed from this device too
+      if (message.deletedAt) {
+        deletedIds.push(message._id);
+        continue;
+      }
+      
+      // Ratchet message keys are single-use, so keep what we already decrypted
+      const knownMessage =
+        knownMessages.find(
+          (m) =>
+            m._id === message._id &&
+            m.content !== UNAVAILABLE_MESSAGE_CONTENT &&
+            m.editedAt === message.editedAt
+        ) ||
+        (await messageStore.getMessage<Message>(conversation._id, message._id));
+      const reactions = await openReactions(
+        conversation,
+        serverMessage.reactions,
+        (knownMessage || knownMessages.find((m) => m._id === message._id))?.reactions,
+        { messageId: message._id, fromHistory: true }
+      );
+      
+      if (!message.isEncrypted) {
+        decryptedMessages.push({ ...message, reactions });
+        readableMessages.push({ ...message, reactions });
+        continue;
+      }
+      
+      // Edited messages are decrypted again
+      if (knownMessage && knownMessage.editedAt === message.editedAt) {
+        const updatedMessage = {
+          ...message,
+          content: knownMessage.content,
+          attachments: knownMessage.attachments,
+          replyTo: knownMessage.replyTo,
+          edits: knownMessage.edits,
+          rich: knownMessage.rich,
+          reactions,
+        };
+        
+        decryptedMessages.push(updatedMessage);
+        readableMessages.push(updatedMessage);
+        continue;
+      }
+      
+      try {
+        const openedMessage = {
+          ...(await openMessage(conversation, message, true)),
+          reactions,
+        };
+        
+        decryptedMessages.push(openedMessage);
+        readableMessages.push(openedMessage);
+      } catch (error) {
+        console.error('Decrypt message error:', error);
+        
+        // Messages we cannot read are shown but not stored
+        decryptedMessages.push(
+          isEnvelope(message.content) ||
+            isFanoutPayload(message.content) ||
+            isRatchetPayload(message.content) ||
+            isSenderKeyPayload(message.content)
+            ? { ...message, content: UNAVAILABLE_MESSAGE_CONTENT, reactions }
+            : { ...message, reactions }
+        );
+      }
+    }
+    
+    await storeMessages(conversation._id, readableMessages);
+    
+    if (deletedIds.length > 0) {
+      await removeMessages(conversation._id, deletedIds);
+    }
+    
+    // Let senders know their messages reached this device
+    receipts.markDelivered(
+      conversation._id,
+      decryptedMessages
+        .filter(
+          (m) =>
+            m.sender._id !== user?.userID &&
+            !m.deliveredTo?.some((receipt) => receipt.user === user?.userID)
+        )
+        .map((m) => m._id)
+    );
+    
+    return decryptedMessages.map((m) => withReceiptStatus(conversation, m));
+  };
+  
+  // Fetch the messages of a conversation that changed since the last sync
+  const syncMessages = async (
+    conversation: Conversation,
+    lastSync: SyncPosition
+  ): Promise<void> => {
+    let since = lastSync;
+    let changedMessages: ServerMessage[];
+    
+    do {
+      const response = await api.messages.getByConversation(
+        conversation._id,
+        SYNC_PAGE_SIZE,
+        undefined,
+        since
+      );
+      
+      if (!response.success) {
+        setError(response.message || 'Failed to sync messages');
+        return;
+      }
+      
+      changedMessages = response.data?.messages || [];
+      
+      mergeMessages(
+        conversation._id,
+        await openFetchedMessages(conversation, changedMessages)
+      );
+      
+      // Sync from the server's clock, not ours
+      since = latestSyncPosition(changedMessages, since)!;
+      await messageStore.setLastSync(conversation._id, since);
+    } while (changedMessages.length === SYNC_PAGE_SIZE);
+  };
+  
   // Load messages
   const loadMessages = async (
     conversationId: string,
@@ -198,82 +814,67 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
       setIsLoading(true);
       setError(null);
       
-      // Get messages from API
-      const response = await api.messages.getByConversation(
+      // Get conversation for encryption key
+      const conversation = conversations.find((c) => c._id === conversationId);
+      
+      if (!conversation) {
+        setError('Conversation not found');
+        setIsLoading(false);
+        return;
+      }
+      
+      // Show what this device already has first
+      const storedMessages = await messageStore.getMessages<Message>(
         conversationId,
         limit,
         before
       );
       
-      if (!response.success) {
-        setError(response.message || 'Failed to load messages');
+      mergeMessages(conversationId, storedMessages);
+      
+      const lastSync = await messageStore.getLastSync(conversationId);
+      
+      // Newer messages only need what changed since the last sync
+      if (!before && lastSync) {
+        await syncMessages(conversation, lastSync);
         setIsLoading(false);
         return;
       }
       
-      // Get conversation for encryption key
-      const conversation = conversations.find((c) => c._id === conversationId);
+      // Older messages are only fetched when this device does not have them
+      if (before && storedMessages.length >= limit) {
+        setIsLoading(false);
+        return;
+      }
       
-      if (!conversation) {
-        setError('Conversation not found');
+      // Get messages from API
+      const response = await api.messages.getByConversation(
+        conversationId,
+        limit,
+        before
+      );
+      
+      if (!response.success) {
+        setError(response.message || 'Failed to load messages');
         setIsLoading(false);
         return;
       }
       
-      // Decrypt messages if needed
-      const decryptedMessages = await Promise.all(
-        (response.data || []).map(async (message: Message) => {
-          if (message.isEncrypted && conversation.encryptionKey) {
-            try {
-              const decryptedContent = await decryptMessage(
-                message.content,
-                conversation.encryptionKey
-              );
-              
-              return {
-                ...message,
-                content: decryptedContent,
-              };
-            } catch (error) {
-              console.error('Decrypt message error:', error);
-              return message;
-            }
-          }
-          
-          return message;
-        })
+      const fetchedMessages = response.data?.messages || [];
+      
+      mergeMessages(
+        conversationId,
+        await openFetchedMessages(conversation, fetchedMessages)
       );
       
-      // Update messages
-      setMessages((prevMessages) => {
-        const existingMessages = prevMessages[conversationId] || [];
-        
-        // Merge messages and remove duplicates
-        const mergedMessages = [...existingMessages];
-        
-        decryptedMessages.forEach((message) => {
-          const existingIndex = mergedMessages.findIndex(
-            (m) => m._id === message._id
-          );
-          
-          if (existingIndex >= 0) {
-            mergedMessages[existingIndex] = message;
-          } else {
-            mergedMessages.push(message);
-          }
-        });
-        
-        // Sort messages by date
-        mergedMessages.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
+      // The first load of a conversation starts its sync
+      if (!before) {
+        const latest = latestSyncPosition(fetchedMessages, null);
         
-        return {
-          ...prevMessages,
-          [conversationId]: mergedMessages,
-        };
-      });
+        if (latest) {
+          await messageStore.setLastSync(conversationId, latest);
+        }
+      }
       
       setIsLoading(false);
     } catch (error) {
@@ -286,116 +887,421 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     }
   };
   
+  // Search decrypted messages on this device
+  const searchMessages = async (
+    query: string,
+    conversationId?: string
+  ): Promise<Message[]> => {
+    try {
+      const results = await messageStore.search<Message>(query, { conversationId });
+      
+      return results.filter(
+        (message) => !isExpired(message) && !disappearing.isPastRetention(message)
+      );
+    } catch (error) {
+      console.error('Search messages error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to search messages');
+      return [];
+    }
+  };
+  
   // Send message
   const sendMessage = async (
     conversationId: string,
     content: string,
-    attachments: any[] = []
+    attachments: Attachment[] = [],
+    replyToId?: string,
+    rich?: RichContent
   ): Promise<void> => {
     try {
-      // Get conversation for encryption key
-      const conversation = conversations.find((c) => c._id === conversationId);
-      
-      if (!conversation) {
+      if (!conversations.some((c) => c._id === conversationId)) {
         setError('Conversation not found');
         return;
       }
       
-      // Encrypt message if needed
-      let messageContent = content;
-      let isEncrypted = false;
+      const replyTo = replyToId ? toReply(conversationId, replyToId) : undefined;
       
-      if (conversation.encryptionKey) {
-        try {
-          messageContent = await encryptMessage(content, conversation.encryptionKey);
-          isEncrypted = true;
-        } catch (error) {
-          console.error('Encrypt message error:', error);
-        }
+      // The outbox shows the message right away and sends it once it can
+      await outbox.enqueue(conversationId, content, attachments, replyTo, rich);
+      
+      // Learn how fast this user usually sends
+      behavior.record('message_sent')
+        .catch((error) => console.error('Record message sent error:', error));
+    } catch (error) {
+      console.error('Send message error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send message');
+    }
+  };
+  
+  // Send a failed message again
+  const retryMessage = async (clientId: string): Promise<void> => {
+    try {
+      await outbox.retry(clientId);
+    } catch (error) {
+      console.error('Retry message error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to retry message');
+    }
+  };
+  
+  // Quote a message of a conversation for a reply
+  const toReply = (conversationId: string, messageId: string): MessageReply | undefined => {
+    const message = (messages[conversationId] || []).find((m) => m._id === messageId);
+    
+    if (!message) {
+      return undefined;
+    }
+    
+    return {
+      messageId,
+      senderId: message.sender._id,
+      senderName: message.sender.displayName,
+      preview: (message.content || message.attachments?.[0]?.name || '').slice(
+        0,
+        REPLY_PREVIEW_LENGTH
+      ),
+    };
+  };
+  
+  // Find a message we have in state
+  const findMessage = (
+    messageId: string
+  ): { conversationId: string; message: Message } | null => {
+    for (const conversationId of Object.keys(messages)) {
+      const message = messages[conversationId].find((m) => m._id === messageId);
+      
+      if (message) {
+        return { conversationId, message };
       }
+    }
+    
+    return null;
+  };
+  
+  // Change a message in state and on this device
+  const updateMessage = async (
+    conversationId: string,
+    messageId: string,
+    update: (message: Message) => Message
+  ): Promise<void> => {
+    const existingMessage = (messages[conversationId] || []).find((m) => m._id === messageId);
+    
+    if (existingMessage && existingMessage.content !== UNAVAILABLE_MESSAGE_CONTENT) {
+      await storeMessages(conversationId, [update(existingMessage)]);
+    }
+    
+    setMessages((prevMessages) => ({
+      ...prevMessages,
+      [conversationId]: (prevMessages[conversationId] || []).map((m) =>
+        m._id === messageId ? update(m) : m
+      ),
+    }));
+    
+    setConversations((prevConversations) =>
+      prevConversations.map((c) =>
+        c._id === conversationId && c.lastMessage?._id === messageId
+          ? { ...c, lastMessage: update(c.lastMessage) }
+          : c
+      )
+    );
+  };
+  
+  // Remove messages from state and from this device
+  const removeMessages = async (conversationId: string, messageIds: string[]) => {
+    const removedIds = new Set(messageIds);
+    
+    for (const messageId of messageIds) {
+      await messageStore.deleteMessage(conversationId, messageId);
+    }
+    
+    setMessages((prevMessages) => ({
+      ...prevMessages,
+      [conversationId]: (prevMessages[conversationId] || []).filter(
+        (m) => !removedIds.has(m._id)
+      ),
+    }));
+    
+    setConversations((prevConversations) =>
+      prevConversations.map((c) =>
+        c._id === conversationId && c.lastMessage && removedIds.has(c.lastMessage._id)
+          ? { ...c, lastMessage: undefined }
+          : c
+      )
+    );
+  };
+  
+  // Edit one of our messages for everyone; earlier versions travel encrypted with it
+  const editMessage = async (messageId: string, content: string): Promise<boolean> => {
+    try {
+      setError(null);
       
-      // Create optimistic message
-      const optimisticMessage: Message = {
-        _id: `temp-${Date.now()}`,
-        conversationId,
-        sender: {
-          _id: user?.userID || '',
-          displayName: user?.displayName || '',
-          avatar: user?.avatar,
-        },
-        content,
-        status: 'sent',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        isEncrypted,
-      };
+      const found = findMessage(messageId);
+      const conversation = found && conversations.find((c) => c._id === found.conversationId);
       
-      // Add optimistic message to state
-      setMessages((prevMessages) => {
-        const existingMessages = prevMessages[conversationId] || [];
-        
-        return {
-          ...prevMessages,
-          [conversationId]: [optimisticMessage, ...existingMessages],
-        };
-      });
+      if (!found || !conversation) {
+        setError('Message not found');
+        return false;
+      }
       
-      // Send message to API
-      const response = await api.messages.send(
-        conversationId,
-        messageContent,
-        attachments
+      const { message } = found;
+      
+      if (message.sender._id !== user?.userID || message._id === message.clientId) {
+        setError('Only messages you sent can be edited');
+        return false;
+      }
+      
+      if (message.rich) {
+        setError('Only text messages can be edited');
+        return false;
+      }
+      
+      const edits = [
+        ...(message.edits || []),
+        { content: message.content, createdAt: message.editedAt || message.createdAt },
+      ];
+      const payload = await encryptContent(
+        conversation,
+        encodeMessageBody(content, message.attachments, {
+          replyTo: message.replyTo,
+          edits,
+          rich: message.rich,
+        })
       );
       
+      if (!payload) {
+        setError('Unable to establish encryption for this conversation');
+        return false;
+      }
+      
+      const response = await api.messages.update(messageId, toMessageContent(payload));
+      
       if (!response.success) {
-        // Handle error
-        setError(response.message || 'Failed to send message');
-        
-        // Remove optimistic message
-        setMessages((prevMessages) => {
-          const existingMessages = prevMessages[conversationId] || [];
-          
-          return {
-            ...prevMessages,
-            [conversationId]: existingMessages.filter(
-              (m) => m._id !== optimisticMessage._id
-            ),
-          };
-        });
-        
+        setError(response.message || 'Failed to edit message');
+        return false;
+      }
+      
+      const editedAt = response.data?.message?.editedAt || new Date().toISOString();
+      
+      await updateMessage(found.conversationId, messageId, (m) => ({
+        ...m,
+        content,
+        edits,
+        editedAt,
+      }));
+      
+      return true;
+    } catch (error) {
+      console.error('Edit message error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to edit message');
+      return false;
+    }
+  };
+  
+  // Set our emoji reaction to a message, or remove it
+  const reactToMessage = async (messageId: string, emoji: string | null): Promise<void> => {
+    try {
+      setError(null);
+      
+      const found = findMessage(messageId);
+      const conversation = found && conversations.find((c) => c._id === found.conversationId);
+      
+      if (!found || !conversation || !user) {
+        setError('Message not found');
         return;
       }
       
-      // Update message with real ID
-      setMessages((prevMessages) => {
-        const existingMessages = prevMessages[conversationId] || [];
+      let reaction: MessageReaction | null = null;
+      
+      if (emoji) {
+        // The server only stores the encrypted emoji
+        const payload = await encryptContent(conversation, emoji);
         
-        return {
-          ...prevMessages,
-          [conversationId]: existingMessages.map((m) =>
-            m._id === optimisticMessage._id ? { ...response.data, content } : m
-          ),
+        if (!payload) {
+          setError('Unable to establish encryption for this conversation');
+          return;
+        }
+        
+        const response = await api.messages.react(messageId, payload);
+        
+        if (!response.success) {
+          setError(response.message || 'Failed to react to message');
+          return;
+        }
+        
+        reaction = {
+          userId: user.userID,
+          emoji,
+          updatedAt: response.data?.reaction?.updatedAt || new Date().toISOString(),
         };
+      } else {
+        const response = await api.messages.removeReaction(messageId);
+        
+        if (!response.success) {
+          setError(response.message || 'Failed to remove reaction');
+          return;
+        }
+      }
+      
+      await updateMessage(found.conversationId, messageId, (m) => ({
+        ...m,
+        reactions: replaceReaction(m.reactions, user.userID, reaction),
+      }));
+    } catch (error) {
+      console.error('React to message error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to react to message');
+    }
+  };
+  
+  // Encrypt a queued message, never falling back to plaintext; file keys travel inside it
+  const encryptQueuedMessage = async (entry: OutboxEntry): Promise<string | null> => {
+    const conversation = conversations.find((c) => c._id === entry.conversationId);
+    
+    if (!conversation) {
+      return null;
+    }
+    
+    return await encryptContent(
+      conversation,
+      encodeMessageBody(entry.content, entry.attachments, {
+        replyTo: entry.replyTo,
+        rich: entry.rich,
+      })
+    );
+  };
+  
+  // Message shown while it waits in the outbox
+  const toPendingMessage = (entry: OutboxEntry): Message => ({
+    _id: entry.clientId,
+    clientId: entry.clientId,
+    conversationId: entry.conversationId,
+    sender: {
+      _id: user?.userID || '',
+      displayName: user?.displayName || '',
+      avatar: user?.avatar,
+    },
+    content: entry.content,
+    attachments: entry.attachments,
+    replyTo: entry.replyTo,
+    rich: entry.rich,
+    status: entry.status,
+    createdAt: entry.createdAt,
+    updatedAt: entry.createdAt,
+    isEncrypted: true,
+  });
+  
+  // Handle a change of the messages waiting in the outbox
+  const handleOutboxChange = (entries: OutboxEntry[]) => {
+    setMessages((prevMessages) => {
+      const updatedMessages: Record<string, Message[]> = {};
+      
+      // Drop pending messages that were discarded
+      Object.keys(prevMessages).forEach((conversationId) => {
+        updatedMessages[conversationId] = prevMessages[conversationId].filter(
+          (message) =>
+            message._id !== message.clientId ||
+            entries.some((entry) => entry.clientId === message._id)
+        );
       });
       
-      // Update conversation last message
-      setConversations((prevConversations) =>
-        prevConversations.map((c) =>
-          c._id === conversationId
-            ? {
-                ...c,
-                lastMessage: {
-                  ...response.data,
-                  content,
-                },
-                updatedAt: new Date().toISOString(),
-              }
-            : c
+      entries.forEach((entry) => {
+        const conversationMessages = updatedMessages[entry.conversationId] || [];
+        const pendingMessage = toPendingMessage(entry);
+        
+        updatedMessages[entry.conversationId] = conversationMessages.some(
+          (m) => m._id === entry.clientId
         )
+          ? conversationMessages.map((m) =>
+              m._id === entry.clientId ? pendingMessage : m
+            )
+          : [pendingMessage, ...conversationMessages];
+      });
+      
+      return updatedMessages;
+    });
+  };
+  
+  // Handle a queued message the server accepted
+  const handleMessageSent = (entry: OutboxEntry, sentMessage: ServerMessage) => {
+    const conversation = conversations.find((c) => c._id === entry.conversationId);
+    const [message] = applyExpiry(entry.conversationId, [
+      {
+        ...toMessage(sentMessage, conversation),
+        clientId: entry.clientId,
+        content: entry.content,
+        attachments: entry.attachments,
+        replyTo: entry.replyTo,
+        rich: entry.rich,
+      },
+    ]);
+    
+    // Already gone, the sweep removes the pending copy
+    if (!message) {
+      setMessages((prevMessages) => ({
+        ...prevMessages,
+        [entry.conversationId]: (prevMessages[entry.conversationId] || []).filter(
+          (m) => m._id !== entry.clientId
+        ),
+      }));
+      return;
+    }
+    
+    storeMessages(entry.conversationId, [message]);
+    
+    // Replace the pending message with the stored one
+    setMessages((prevMessages) => {
+      const existingMessages = prevMessages[entry.conversationId] || [];
+      
+      return {
+        ...prevMessages,
+        [entry.conversationId]: existingMessages
+          .filter((m) => m._id !== message._id)
+          .map((m) => (m._id === entry.clientId ? message : m)),
+      };
+    });
+    
+    // Update conversation last message
+    setConversations((prevConversations) =>
+      prevConversations.map((c) =>
+        c._id === entry.conversationId
+          ? {
+              ...c,
+              lastMessage: message,
+              updatedAt: new Date().toISOString(),
+            }
+          : c
+      )
+    );
+  };
+  
+  // Encrypt and upload a file to attach to a message
+  const uploadAttachment = async (
+    conversationId: string,
+    source: AttachmentSource,
+    onProgress?: FileProgressCallback
+  ): Promise<Attachment | null> => {
+    try {
+      const conversation = conversations.find((c) => c._id === conversationId);
+      
+      if (!conversation || !user) {
+        setError('Conversation not found');
+        return null;
+      }
+      
+      return await attachmentManager.upload(
+        source,
+        {
+          conversationId,
+          uploaderId: user.userID,
+          uploadedBy: user.displayName,
+          sharedWith: conversation.participants
+            .map((participant) => participant._id)
+            .filter((id) => id !== user.userID),
+        },
+        onProgress
       );
     } catch (error) {
-      console.error('Send message error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to send message');
+      console.error('Upload attachment error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to upload file');
+      return null;
     }
   };
   
@@ -424,6 +1330,9 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
         ...prevConversations,
       ]);
       
+      behavior.record('conversation_created')
+        .catch((error) => console.error('Record conversation created error:', error));
+      
       setIsLoading(false);
       return newConversation;
     } catch (error) {
@@ -446,14 +1355,10 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
       setIsLoading(true);
       setError(null);
       
-      // Generate encryption key
-      const encryptionKey = Math.random().toString(36).substring(2, 15);
-      
-      // Create conversation with API
+      // Create conversation with API; members exchange sender keys themselves
       const response = await api.conversations.createGroup(
         name,
-        participantEmails,
-        encryptionKey
+        participantEmails
       );
       
       if (!response.success) {
@@ -470,6 +1375,9 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
         ...prevConversations,
       ]);
       
+      behavior.record('conversation_created')
+        .catch((error) => console.error('Record conversation created error:', error));
+      
       setIsLoading(false);
       return newConversation;
     } catch (error) {
@@ -483,61 +1391,204 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     }
   };
   
-  // Mark message as read
-  const markAsRead = async (messageId: string): Promise<void> => {
+  // Update a group conversation in state after a membership change
+  const replaceConversation = (updatedConversation: Conversation) => {
+    setConversations((prevConversations) =>
+      prevConversations.map((c) =>
+        c._id === updatedConversation._id ? { ...c, ...updatedConversation } : c
+      )
+    );
+    
+    if (activeConversation?._id === updatedConversation._id) {
+      setActiveConversation((prev) =>
+        prev ? { ...prev, ...updatedConversation } : null
+      );
+    }
+  };
+  
+  // Set how long new messages in a conversation are kept; 0 keeps them
+  const setMessageTimer = async (
+    conversationId: string,
+    seconds: number
+  ): Promise<boolean> => {
     try {
-      // Send read status to API
-      await api.messages.markAsRead(messageId);
+      setError(null);
       
-      // Update message status in state
-      setMessages((prevMessages) => {
-        const updatedMessages = { ...prevMessages };
-        
-        // Find message in all conversations
-        Object.keys(updatedMessages).forEach((conversationId) => {
-          updatedMessages[conversationId] = updatedMessages[conversationId].map(
-            (message) =>
-              message._id === messageId
-                ? { ...message, status: 'read' }
-                : message
-          );
-        });
-        
-        return updatedMessages;
-      });
+      const response = await api.conversations.setMessageTimer(conversationId, seconds);
+      
+      if (!response.success) {
+        setError(response.message || 'Failed to set message timer');
+        return false;
+      }
+      
+      if (response.data) {
+        replaceConversation(response.data);
+      }
+      
+      return true;
     } catch (error) {
-      console.error('Mark as read error:', error);
+      console.error('Set message timer error:', error);
+      
+      setError(
+        error instanceof Error ? error.message : 'Failed to set message timer'
+      );
+      return false;
     }
   };
   
-  // Delete message
-  const deleteMessage = async (messageId: string): Promise<void> => {
+  // Add participants to group conversation
+  const addParticipants = async (
+    conversationId: string,
+    participantEmails: string[]
+  ): Promise<boolean> => {
     try {
       setIsLoading(true);
       setError(null);
       
-      // Delete message from API
-      const response = await api.messages.delete(messageId);
+      // Add participants with API
+      const response = await api.conversations.addParticipants(
+        conversationId,
+        participantEmails
+      );
       
       if (!response.success) {
-        setError(response.message || 'Failed to delete message');
+        setError(response.message || 'Failed to add participants');
         setIsLoading(false);
+        return false;
+      }
+      
+      // New members only get keys made after they joined
+      await senderKeys.rotate(conversationId);
+      
+      if (response.data) {
+        replaceConversation(response.data);
+      }
+      
+      setIsLoading(false);
+      return true;
+    } catch (error) {
+      console.error('Add participants error:', error);
+      
+      setError(
+        error instanceof Error ? error.message : 'Failed to add participants'
+      );
+      setIsLoading(false);
+      return false;
+    }
+  };
+  
+  // Remove participant from group conversation
+  const removeParticipant = async (
+    conversationId: string,
+    participantId: string
+  ): Promise<boolean> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      // Remove participant with API
+      const response = await api.conversations.removeParticipant(
+        conversationId,
+        participantId
+      );
+      
+      if (!response.success) {
+        setError(response.message || 'Failed to remove participant');
+        setIsLoading(false);
+        return false;
+      }
+      
+      // Removed members must not be able to read later messages
+      if (participantId === user?.userID) {
+        await senderKeys.deleteGroup(conversationId);
+      } else {
+        await senderKeys.removeMember(conversationId, participantId);
+      }
+      
+      if (response.data) {
+        replaceConversation(response.data);
+      }
+      
+      setIsLoading(false);
+      return true;
+    } catch (error) {
+      console.error('Remove participant error:', error);
+      
+      setError(
+        error instanceof Error ? error.message : 'Failed to remove participant'
+      );
+      setIsLoading(false);
+      return false;
+    }
+  };
+  
+  // Mark messages of others as read once they were on screen
+  const markAsRead = (conversationId: string, messageIds: string[]): void => {
+    if (!user) return;
+    
+    const unreadIds = (messages[conversationId] || [])
+      .filter(
+        (m) =>
+          messageIds.includes(m._id) &&
+          m.sender._id !== user.userID &&
+          !m.readBy?.some((receipt) => receipt.user === user.userID)
+      )
+      .map((m) => m._id);
+    
+    if (unreadIds.length === 0) return;
+    
+    // Only goes to the senders while read receipts are on
+    receipts.markRead(conversationId, unreadIds);
+    
+    const readAt = new Date().toISOString();
+    
+    setMessages((prevMessages) => ({
+      ...prevMessages,
+      [conversationId]: (prevMessages[conversationId] || []).map((m) =>
+        unreadIds.includes(m._id) ? addReceipt(m, user.userID, 'read', readAt) : m
+      ),
+    }));
+    
+    setConversations((prevConversations) =>
+      prevConversations.map((c) =>
+        c._id === conversationId
+          ? { ...c, unreadCount: Math.max(0, c.unreadCount - unreadIds.length) }
+          : c
+      )
+    );
+  };
+  
+  // Delete message from this device, or for everyone in the conversation
+  const deleteMessage = async (
+    messageId: string,
+    forEveryone: boolean = false
+  ): Promise<void> => {
+    try {
+      // Messages still in the outbox never reached the server
+      if (await outbox.discard(messageId)) {
         return;
       }
       
-      // Remove message from state
-      setMessages((prevMessages) => {
-        const updatedMessages = { ...prevMessages };
-        
-        // Find message in all conversations
-        Object.keys(updatedMessages).forEach((conversationId) => {
-          updatedMessages[conversationId] = updatedMessages[conversationId].filter(
-            (message) => message._id !== messageId
-          );
-        });
+      setIsLoading(true);
+      setError(null);
+      
+      // Delete message from API; the other devices are told to remove it
+      if (forEveryone) {
+        const response = await api.messages.delete(messageId);
         
-        return updatedMessages;
-      });
+        if (!response.success) {
+          setError(response.message || 'Failed to delete message');
+          setIsLoading(false);
+          return;
+        }
+      }
+      
+      // Remove message from this device
+      const found = findMessage(messageId);
+      
+      if (found) {
+        await removeMessages(found.conversationId, [messageId]);
+      }
       
       setIsLoading(false);
     } catch (error) {
@@ -570,6 +1621,11 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
         prevConversations.filter((c) => c._id !== conversationId)
       );
       
+      // Remove group sender keys and replay state
+      await senderKeys.deleteGroup(conversationId);
+      await envelopes.deleteConversation(conversationId);
+      await messageStore.deleteConversation(conversationId);
+      
       // Remove messages from state
       setMessages((prevMessages) => {
         const { [conversationId]: _, ...rest } = prevMessages;
@@ -597,8 +1653,8 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     conversationId: string,
     isTyping: boolean
   ): void => {
-    if (isConnected && socket) {
-      sendEvent('typing_indicator', {
+    if (isConnected) {
+      sendEvent('typing', {
         conversationId,
         isTyping,
       });
@@ -606,9 +1662,9 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
   };
   
   // Handle new message
-  const handleNewMessage = async (data: any) => {
+  const handleNewMessage = async (data: ServerEvents['new_message']) => {
     try {
-      const { message, conversationId } = data;
+      const { conversationId } = data;
       
       // Get conversation for encryption key
       const conversation = conversations.find((c) => c._id === conversationId);
@@ -617,25 +1673,37 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
         return;
       }
       
+      const message = toMessage(data.message, conversation);
+      
       // Decrypt message if needed
       let decryptedMessage = message;
+      let isReadable = true;
       
-      if (message.isEncrypted && conversation.encryptionKey) {
+      if (message.isEncrypted) {
         try {
-          const decryptedContent = await decryptMessage(
-            message.content,
-            conversation.encryptionKey
-          );
-          
-          decryptedMessage = {
-            ...message,
-            content: decryptedContent,
-          };
+          decryptedMessage = await openMessage(conversation, message);
         } catch (error) {
           console.error('Decrypt message error:', error);
+          
+          // Drop forged, replayed or duplicate envelopes
+          if (isEnvelope(message.content)) {
+            return;
+          }
+          
+          isReadable = false;
         }
       }
       
+      [decryptedMessage] = applyExpiry(conversationId, [decryptedMessage]);
+      
+      if (!decryptedMessage) {
+        return;
+      }
+      
+      if (isReadable) {
+        await storeMessages(conversationId, [decryptedMessage]);
+      }
+      
       // Add message to state
       setMessages((prevMessages) => {
         const existingMessages = prevMessages[conversationId] || [];
@@ -672,43 +1740,51 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
         )
       );
       
-      // Mark message as delivered if from another user
-      if (
-        decryptedMessage.sender._id !== user?.userID &&
-        decryptedMessage.status !== 'read'
-      ) {
-        await markAsRead(decryptedMessage._id);
+      // Let the sender know the message reached this device; it is read once seen
+      if (decryptedMessage.sender._id !== user?.userID) {
+        receipts.markDelivered(conversationId, [decryptedMessage._id]);
       }
     } catch (error) {
       console.error('Handle new message error:', error);
+      throw error;
     }
   };
   
-  // Handle message status update
-  const handleMessageStatus = (data: any) => {
+  // Handle message status update; a member received or read one of our messages
+  const handleMessageStatus = async (data: ServerEvents['message_status']) => {
     try {
-      const { messageId, status, conversationId } = data;
+      const { messageId, status, conversationId, userId, timestamp } = data;
+      const conversation = conversations.find((c) => c._id === conversationId);
       
-      // Update message status in state
-      setMessages((prevMessages) => {
-        const conversationMessages = prevMessages[conversationId] || [];
-        
-        return {
-          ...prevMessages,
-          [conversationId]: conversationMessages.map((message) =>
-            message._id === messageId ? { ...message, status } : message
-          ),
-        };
-      });
+      if (!conversation) {
+        return;
+      }
+      
+      // Update the receipts and the status they add up to
+      await updateMessage(conversationId, messageId, (message) =>
+        withReceiptStatus(
+          conversation,
+          addReceipt(message, userId, status, new Date(timestamp).toISOString())
+        )
+      );
     } catch (error) {
       console.error('Handle message status error:', error);
+      throw error;
     }
   };
   
   // Handle typing indicator
-  const handleTypingIndicator = (data: any) => {
+  const handleTypingIndicator = (data: ServerEvents['typing_indicator']) => {
     try {
-      const { conversationId, user: typingUser, isTyping } = data;
+      const { conversationId, userId, isTyping } = data;
+      
+      const typingUser = conversations
+        .find((c) => c._id === conversationId)
+        ?.participants.find((participant) => participant._id === userId);
+      
+      if (!typingUser) {
+        return;
+      }
       
       // Update typing users
       setTypingUsers((prevTypingUsers) => {
@@ -739,10 +1815,25 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     }
   };
   
-  // Handle new conversation
-  const handleNewConversation = (data: any) => {
+  // Reload what is shown after missing events that can no longer be replayed
+  const handleResync = () => {
+    loadConversations();
+    
+    Object.keys(messages).forEach((conversationId) => {
+      loadMessages(conversationId);
+    });
+  };
+  
+  // Handle new conversation; the server has the details of its members
+  const handleNewConversation = async (data: ServerEvents['new_conversation']) => {
     try {
-      const { conversation } = data;
+      const response = await api.conversations.getById(data.conversation._id);
+      
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Failed to load conversation');
+      }
+      
+      const conversation: Conversation = response.data;
       
       // Add conversation to state if not already there
       setConversations((prevConversations) => {
@@ -758,11 +1849,12 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
       });
     } catch (error) {
       console.error('Handle new conversation error:', error);
+      throw error;
     }
   };
   
   // Handle conversation update
-  const handleConversationUpdate = (data: any) => {
+  const handleConversationUpdate = (data: ServerEvents['conversation_update']) => {
     try {
       const { conversation } = data;
       
@@ -781,9 +1873,123 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
       }
     } catch (error) {
       console.error('Handle conversation update error:', error);
+      throw error;
+    }
+  };
+  
+  // Handle a message its sender edited
+  const handleMessageUpdated = async (data: ServerEvents['message_updated']) => {
+    try {
+      const { conversationId } = data;
+      
+      const conversation = conversations.find((c) => c._id === conversationId);
+      const message = toMessage(data.message, conversation);
+      const existingMessage = (messages[conversationId] || []).find(
+        (m) => m._id === message._id
+      );
+      
+      // Messages we have not loaded get the edit when they are synced;
+      // our own edits are already applied
+      if (!conversation || !existingMessage || existingMessage.editedAt === message.editedAt) {
+        return;
+      }
+      
+      const openedMessage = await openMessage(conversation, message);
+      
+      await updateMessage(conversationId, message._id, (m) => ({
+        ...m,
+        content: openedMessage.content,
+        attachments: openedMessage.attachments,
+        replyTo: openedMessage.replyTo,
+        edits: openedMessage.edits,
+        rich: openedMessage.rich,
+        editedAt: message.editedAt,
+        updatedAt: message.updatedAt,
+      }));
+    } catch (error) {
+      console.error('Handle message update error:', error);
+      throw error;
     }
   };
   
+  // Handle a reaction set or removed by a conversation member
+  const handleMessageReaction = async (data: ServerEvents['message_reaction']) => {
+    try {
+      const { conversationId, messageId, reaction } = data;
+      const userId = String(data.userId);
+      
+      const conversation = conversations.find((c) => c._id === conversationId);
+      const existingMessage = (messages[conversationId] || []).find(
+        (m) => m._id === messageId
+      );
+      
+      if (!conversation || !existingMessage) {
+        return;
+      }
+      
+      const knownReaction = existingMessage.reactions?.find((item) => item.userId === userId);
+      
+      if (reaction && knownReaction?.updatedAt === reaction.updatedAt) {
+        return;
+      }
+      
+      const [openedReaction] = reaction
+        ? await openReactions(conversation, [reaction], [], { messageId })
+        : [];
+      
+      if (reaction && !openedReaction) {
+        return;
+      }
+      
+      await updateMessage(conversationId, messageId, (m) => ({
+        ...m,
+        reactions: replaceReaction(m.reactions, userId, openedReaction || null),
+      }));
+    } catch (error) {
+      console.error('Handle message reaction error:', error);
+      throw error;
+    }
+  };
+  
+  // Handle a message its sender deleted for everyone
+  const handleMessageDeleted = async (data: ServerEvents['message_deleted']) => {
+    try {
+      const { conversationId, messageId } = data;
+      
+      await removeMessages(conversationId, [messageId]);
+    } catch (error) {
+      console.error('Handle message deleted error:', error);
+      throw error;
+    }
+  };
+  
+  // Handle messages that disappeared
+  const handleMessagesExpired = (expired: ExpiredMessage[]) => {
+    const expiredIds = new Set(expired.map((item) => item.messageId));
+    
+    setMessages((prevMessages) => {
+      const updatedMessages = { ...prevMessages };
+      
+      expired.forEach(({ conversationId }) => {
+        if (updatedMessages[conversationId]) {
+          updatedMessages[conversationId] = updatedMessages[conversationId].filter(
+            (m) => !expiredIds.has(m._id)
+          );
+        }
+      });
+      
+      return updatedMessages;
+    });
+    
+    setConversations((prevConversations) =>
+      prevConversations.map((c) =>
+        c.lastMessage && expiredIds.has(c.lastMessage._id)
+          ? { ...c, lastMessage: undefined }
+          : c
+      )
+    );
+  };
+  
   return (
     <ConversationContext.Provider
       value={{
@@ -795,9 +2001,17 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
         error,
         loadConversations,
         loadMessages,
+        searchMessages,
         sendMessage,
+        retryMessage,
+        editMessage,
+        reactToMessage,
+        uploadAttachment,
         createDirectConversation,
         createGroupConversation,
+        addParticipants,
+        removeParticipant,
+        setMessageTimer,
         setActiveConversation,
         markAsRead,
         deleteMessage,
@@ -1,5 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { securityEngine, SecurityCheck, ThreatAnalysis } from '@/utils/security';
+import { auditLog } from '@/utils/auditLog';
+import {
+  collectAuditEvents,
+  createSecurityReport,
+  securityCheckToEvent,
+  ReportOptions,
+  SecurityReport,
+} from '@/utils/securityReport';
+import { assessCompliance, ComplianceStatus } from '@/utils/compliance';
 import { Platform } from 'react-native';
 
 interface SecurityContextType {
@@ -14,15 +23,11 @@ interface SecurityContextType {
   threatDetection: ThreatAnalysis;
   aiSecurityScan: () => Promise<void>;
   meshNetworkStatus: 'connected' | 'disconnected' | 'searching';
-  complianceStatus: {
-    hipaa: boolean;
-    gdpr: boolean;
-    ccpa: boolean;
-    soc2: boolean;
-  };
+  complianceStatus: ComplianceStatus | null;
   securityHistory: SecurityCheck[];
   threatHistory: ThreatAnalysis[];
   lastSecurityCheck: SecurityCheck | null;
+  exportReport: (options: ReportOptions) => Promise<SecurityReport>;
 }
 
 const SecurityContext = createContext<SecurityContextType>({} as SecurityContextType);
@@ -46,6 +51,7 @@ export function OptimizedSecurityProvider({ children }: { children: React.ReactN
         deviceIntegrity: 0,
         timeBasedThreats: 0,
       },
+      detections: [],
       lastScan: Date.now(),
     } as ThreatAnalysis,
     securityHistory: [] as SecurityCheck[],
@@ -53,13 +59,8 @@ export function OptimizedSecurityProvider({ children }: { children: React.ReactN
     lastSecurityCheck: null as SecurityCheck | null,
   });
 
-  // Memoized compliance status (static data)
-  const complianceStatus = useMemo(() => ({
-    hipaa: true,
-    gdpr: true,
-    ccpa: true,
-    soc2: true,
-  }), []);
+  // Compliance as shown by the device, checked again after each security check
+  const [complianceStatus, setComplianceStatus] = useState<ComplianceStatus | null>(null);
 
   // Optimized security check with debouncing
   const checkSecurityStatus = useCallback(async () => {
@@ -75,6 +76,8 @@ export function OptimizedSecurityProvider({ children }: { children: React.ReactN
                      securityCheck.score < 80 ? 'medium' : 'high',
         encryptionStatus: 'active', // Always active in Naimara
       }));
+
+      setComplianceStatus(await assessCompliance());
     } catch (error) {
       console.error('Security check failed:', error);
       setSecurityState(prev => ({
@@ -131,6 +134,17 @@ export function OptimizedSecurityProvider({ children }: { children: React.ReactN
     checkSecurityStatus();
   }, [checkSecurityStatus]);
 
+  // Signed report of the audit log and the security checks
+  const exportReport = useCallback(async (options: ReportOptions) => {
+    const integrity = await auditLog.verify();
+    const events = [
+      ...(await collectAuditEvents()),
+      ...securityState.securityHistory.map(securityCheckToEvent),
+    ];
+
+    return await createSecurityReport(events, { ...options, integrity });
+  }, [securityState.securityHistory]);
+
   // Initialize security with proper cleanup
   useEffect(() => {
     let mounted = true;
@@ -172,6 +186,7 @@ export function OptimizedSecurityProvider({ children }: { children: React.ReactN
     enableEmergencyMode,
     disableEmergencyMode,
     aiSecurityScan,
+    exportReport,
   }), [
     securityState,
     complianceStatus,
@@ -179,6 +194,7 @@ export function OptimizedSecurityProvider({ children }: { children: React.ReactN
     enableEmergencyMode,
     disableEmergencyMode,
     aiSecurityScan,
+    exportReport,
   ]);
 
   return (
@@ -5,9 +5,19 @@
  * Manages security levels, threat detection, and emergency mode.
  */
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { api } from '@/utils/api';
 import { secureStorage, StorageKeys } from '@/utils/storage';
+import { auditLog, AuditEntry, AuditVerification } from '@/utils/auditLog';
+import {
+  collectAuditEvents,
+  createSecurityReport,
+  ReportOptions,
+  SecurityReport,
+} from '@/utils/securityReport';
+import { assessCompliance, ComplianceStatus } from '@/utils/compliance';
+import { onDeviceSettingsChanged } from '@/utils/deviceSettings';
+import { securityEngine } from '@/utils/security';
 import { useAuth } from './AuthContext';
 
 // Security level enum
@@ -30,16 +40,8 @@ export interface Threat {
   resolvedAt?: string;
 }
 
-// Security log interface
-export interface SecurityLog {
-  _id: string;
-  action: string;
-  description: string;
-  timestamp: string;
-  userId?: string;
-  ipAddress?: string;
-  deviceInfo?: string;
-}
+// Security log entry, kept in the audit log on this device
+export type SecurityLog = AuditEntry;
 
 // Security context interface
 interface SecurityContextType {
@@ -48,6 +50,9 @@ interface SecurityContextType {
   emergencyModeActive: boolean;
   threats: Threat[];
   logs: SecurityLog[];
+  hasMoreLogs: boolean;
+  logIntegrity: AuditVerification | null;
+  complianceStatus: ComplianceStatus | null;
   isLoading: boolean;
   error: string | null;
   setSecurityLevel: (level: SecurityLevel) => Promise<void>;
@@ -55,6 +60,9 @@ interface SecurityContextType {
   disableEmergencyMode: () => Promise<void>;
   getThreats: (limit?: number, page?: number) => Promise<void>;
   getLogs: (limit?: number, page?: number) => Promise<void>;
+  verifyLogs: () => Promise<AuditVerification>;
+  exportReport: (options: ReportOptions) => Promise<SecurityReport>;
+  checkCompliance: () => Promise<ComplianceStatus>;
   reportThreat: (data: any) => Promise<void>;
   resolveThreat: (threatId: string) => Promise<void>;
 }
@@ -66,6 +74,9 @@ const SecurityContext = createContext<SecurityContextType>({
   emergencyModeActive: false,
   threats: [],
   logs: [],
+  hasMoreLogs: false,
+  logIntegrity: null,
+  complianceStatus: null,
   isLoading: false,
   error: null,
   setSecurityLevel: async () => {},
@@ -73,6 +84,13 @@ const SecurityContext = createContext<SecurityContextType>({
   disableEmergencyMode: async () => {},
   getThreats: async () => {},
   getLogs: async () => {},
+  verifyLogs: async () => ({ valid: true, checked: 0, brokenAt: null, verifiedAt: 0 }),
+  exportReport: async () => {
+    throw new Error('No security provider');
+  },
+  checkCompliance: async () => {
+    throw new Error('No security provider');
+  },
   reportThreat: async () => {},
   resolveThreat: async () => {},
 });
@@ -89,6 +107,11 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
   const [emergencyModeActive, setEmergencyModeActive] = useState<boolean>(false);
   const [threats, setThreats] = useState<Threat[]>([]);
   const [logs, setLogs] = useState<SecurityLog[]>([]);
+  const [hasMoreLogs, setHasMoreLogs] = useState<boolean>(false);
+  const [logIntegrity, setLogIntegrity] = useState<AuditVerification | null>(null);
+  const [complianceStatus, setComplianceStatus] = useState<ComplianceStatus | null>(null);
+  // Latest compliance check, so an earlier one finishing late does not win
+  const complianceCheck = useRef(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -99,6 +122,19 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isAuthenticated]);
   
+  // Compliance is shown before sign-in too, and checked again whenever
+  // settings change or a security scan finishes
+  useEffect(() => {
+    const recheck = () => {
+      checkCompliance().catch((error) => console.error('Check compliance error:', error));
+    };
+    const unsubscribes = [onDeviceSettingsChanged(recheck), securityEngine.onScanCompleted(recheck)];
+    
+    recheck();
+    
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [isAuthenticated]);
+  
   // Initialize security
   const initializeSecurity = async () => {
     try {
@@ -195,25 +231,19 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
-  // Get logs
+  // Get a page of logs; the first page replaces the logs, later ones add to them
   const getLogs = async (limit: number = 20, page: number = 1) => {
     try {
       setIsLoading(true);
       setError(null);
       
-      // Get logs from API
-      const response = await api.security.getLogs(limit, page);
+      // Get logs from the local audit log
+      const result = await auditLog.getPage(limit, page);
       
-      if (!response.success) {
-        setError(response.message || 'Failed to get logs');
-        setIsLoading(false);
-        return;
-      }
-      
-      // Update logs
-      if (response.data && response.data.logs) {
-        setLogs(response.data.logs);
-      }
+      setLogs((prevLogs) =>
+        page === 1 ? result.entries : [...prevLogs, ...result.entries]
+      );
+      setHasMoreLogs(result.hasMore);
       
       setIsLoading(false);
     } catch (error) {
@@ -226,6 +256,36 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
+  // Check that the audit log was not tampered with
+  const verifyLogs = async (): Promise<AuditVerification> => {
+    const result = await auditLog.verify();
+    
+    setLogIntegrity(result);
+    await checkCompliance();
+    
+    return result;
+  };
+  
+  // Export the audit log as a signed report
+  const exportReport = async (options: ReportOptions): Promise<SecurityReport> => {
+    const integrity = await verifyLogs();
+    const events = await collectAuditEvents();
+    
+    return await createSecurityReport(events, { ...options, integrity });
+  };
+  
+  // Check the compliance controls against this device
+  const checkCompliance = async (): Promise<ComplianceStatus> => {
+    const check = ++complianceCheck.current;
+    const result = await assessCompliance();
+    
+    if (check === complianceCheck.current) {
+      setComplianceStatus(result);
+    }
+    
+    return result;
+  };
+  
   // Report threat
   const reportThreat = async (data: any) => {
     try {
@@ -339,6 +399,10 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
       // Update emergency mode in state
       setEmergencyModeActive(true);
       
+      await auditLog.append('emergency', 'emergency_enabled', 'Emergency mode turned on', {
+        severity: 'high',
+      });
+      
       // Set security level to maximum
       setSecurityLevelState(SecurityLevel.MAXIMUM);
       
@@ -377,6 +441,10 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
       // Update emergency mode in state
       setEmergencyModeActive(false);
       
+      await auditLog.append('emergency', 'emergency_disabled', 'Emergency mode turned off', {
+        severity: 'medium',
+      });
+      
       setIsLoading(false);
     } catch (error) {
       console.error('Disable emergency mode error:', error);
@@ -440,6 +508,9 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
         emergencyModeActive,
         threats,
         logs,
+        hasMoreLogs,
+        logIntegrity,
+        complianceStatus,
         isLoading,
         error,
         setSecurityLevel,
@@ -447,6 +518,9 @@ export function SecurityProvider({ children }: { children: React.ReactNode }) {
         disableEmergencyMode,
         getThreats,
         getLogs,
+        verifyLogs,
+        exportReport,
+        checkCompliance,
         reportThreat,
         resolveThreat,
       }}
@@ -19,6 +19,10 @@ jest.mock('expo-crypto', () => ({
   getRandomBytesAsync: jest.fn(() => Promise.resolve(new ArrayBuffer(32))),
 }));
 
+jest.mock('expo-random', () => ({
+  getRandomBytesAsync: async (length) => require('tweetnacl').randomBytes(length),
+}));
+
 jest.mock('expo-local-authentication', () => ({
   hasHardwareAsync: jest.fn(() => Promise.resolve(true)),
   isEnrolledAsync: jest.fn(() => Promise.resolve(true)),
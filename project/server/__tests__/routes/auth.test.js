@@ -0,0 +1,108 @@
+import express from 'express';
+import request from 'supertest';
+import authRoutes from '../../routes/auth.js';
+import { Device, PrekeyBundle } from '../../models/index.js';
+import { broadcastIdentityKeyChange } from '../../websocket/messageHandler.js';
+
+// The signed-in user is whatever the test puts here
+let mockUser;
+
+jest.mock('../../middleware/auth.js', () => ({
+  authenticate: (req, res, next) => {
+    req.user = mockUser;
+    req.device = { deviceId: 'd1' };
+    next();
+  },
+  generateToken: () => 'token',
+}));
+
+jest.mock('../../websocket/messageHandler.js', () => ({
+  broadcastIdentityKeyChange: jest.fn(async () => {}),
+  broadcastUserStatus: jest.fn(async () => {}),
+  isUserOnline: jest.fn(() => false),
+}));
+
+jest.mock('../../models/index.js', () => ({
+  User: {},
+  Device: { updateMany: jest.fn(async () => ({})) },
+  PrekeyBundle: { deleteMany: jest.fn(async () => ({})) },
+}));
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRoutes);
+  return app;
+};
+
+const createUser = (publicKey) => ({
+  _id: 'u1',
+  publicKey,
+  publicKeyChangedAt: null,
+  save: jest.fn(async () => {}),
+});
+
+describe('Auth routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should publish the first identity key of an account', async () => {
+    mockUser = createUser('');
+
+    const response = await request(createApp()).put('/auth/keys').send({ publicKey: 'a2V5MQ==' });
+
+    expect(response.status).toBe(200);
+    expect(mockUser.publicKey).toBe('a2V5MQ==');
+    expect(mockUser.save).toHaveBeenCalled();
+  });
+
+  test('should refuse a key request without a public key', async () => {
+    mockUser = createUser('a2V5MQ==');
+
+    const response = await request(createApp()).put('/auth/keys').send({ secretKey: 'a2V5Mg==' });
+
+    expect(response.status).toBe(400);
+    expect(mockUser.publicKey).toBe('a2V5MQ==');
+    expect(mockUser.save).not.toHaveBeenCalled();
+  });
+
+  test('should accept the identity key the account already has', async () => {
+    mockUser = createUser('a2V5MQ==');
+
+    const response = await request(createApp()).put('/auth/keys').send({ publicKey: 'a2V5MQ==' });
+
+    expect(response.status).toBe(200);
+    expect(mockUser.publicKey).toBe('a2V5MQ==');
+  });
+
+  test('should replace the identity key of a device that lost it and tell contacts', async () => {
+    mockUser = createUser('a2V5MQ==');
+
+    const response = await request(createApp()).put('/auth/keys').send({ publicKey: 'a2V5Mg==' });
+
+    expect(response.status).toBe(200);
+    expect(mockUser.publicKey).toBe('a2V5Mg==');
+    expect(mockUser.publicKeyChangedAt).not.toBeNull();
+    expect(mockUser.save).toHaveBeenCalled();
+
+    // Other devices hold the old identity and must be linked again
+    const others = { user: 'u1', deviceId: { $ne: 'd1' } };
+    expect(Device.updateMany).toHaveBeenCalledWith(
+      { ...others, revokedAt: null },
+      { revokedAt: expect.any(Number) }
+    );
+    expect(PrekeyBundle.deleteMany).toHaveBeenCalledWith(others);
+    expect(broadcastIdentityKeyChange).toHaveBeenCalledWith(undefined, 'u1');
+  });
+
+  test('should not tell contacts when the identity key stays the same', async () => {
+    mockUser = createUser('a2V5MQ==');
+
+    await request(createApp()).put('/auth/keys').send({ publicKey: 'a2V5MQ==' });
+
+    expect(mockUser.publicKeyChangedAt).toBeNull();
+    expect(Device.updateMany).not.toHaveBeenCalled();
+    expect(broadcastIdentityKeyChange).not.toHaveBeenCalled();
+  });
+});
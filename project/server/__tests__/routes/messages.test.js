@@ -0,0 +1,221 @@
+import express from 'express';
+import request from 'supertest';
+import messageRoutes from '../../routes/messages.js';
+import { serializeServerEvent } from '../../../shared/realtimeEvents.js';
+
+// Every request comes from the first member of the conversation
+jest.mock('../../middleware/auth.js', () => ({
+  authenticate: (req, res, next) => {
+    req.user = { _id: 'u1' };
+    next();
+  },
+  authorize: () => (req, res, next) => next(),
+  securityCheck: (req, res, next) => next(),
+}));
+
+jest.mock('../../websocket/messageHandler.js', () => ({
+  sendToUser: jest.fn(async () => {}),
+  recordReceipts: jest.fn(async () => {}),
+}));
+
+jest.mock('../../models/index.js', () => {
+  const createdAt = '2026-01-02T00:00:00.000Z';
+
+  // New messages as mongoose creates them, defaults filled in
+  class Message {
+    constructor(fields) {
+      Object.assign(this, {
+        _id: 'm2',
+        ...fields,
+        readBy: fields.readBy.map((read) => ({ timestamp: createdAt, ...read })),
+        createdAt,
+      });
+    }
+
+    async save() {}
+
+    async expireAttachments() {}
+
+    async populate() {
+      this.sender = { _id: this.sender, email: 'one@example.com' };
+      return this;
+    }
+  }
+
+  Message.find = jest.fn();
+  Message.findById = jest.fn();
+  Message.findOne = jest.fn();
+
+  return {
+    Message,
+    Conversation: {
+      findById: jest.fn(),
+    },
+  };
+});
+
+const { Message, Conversation } = jest.requireMock('../../models/index.js');
+const { sendToUser } = jest.requireMock('../../websocket/messageHandler.js');
+
+const conversation = {
+  _id: 'c1',
+  participants: ['u1', 'u2'],
+  getMessageExpiry: () => null,
+  save: jest.fn(async () => {}),
+};
+
+const sealed = { data: '{"type":"envelope"}', nonce: 'bm9uY2U=', algorithm: 'sender-key' };
+
+// Stored message as the database hands it out
+const storedMessage = (fields = {}) => ({
+  _id: 'm1',
+  conversation: 'c1',
+  sender: 'u1',
+  encryptedContent: { data: 'old', nonce: 'b2xk', algorithm: 'sender-key' },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  save: jest.fn(async () => {}),
+  populate: jest.fn(async function () {
+    this.sender = { _id: 'u1', email: 'one@example.com' };
+    return this;
+  }),
+  ...fields,
+});
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.set('io', {});
+  app.use('/messages', messageRoutes);
+  return app;
+};
+
+describe('Message routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Conversation.findById.mockResolvedValue(conversation);
+  });
+
+  test('should send a new message to every member, the sender included', async () => {
+    const response = await request(createApp())
+      .post('/messages')
+      .send({ conversationId: 'c1', encryptedContent: sealed, attachments: [] });
+
+    expect(response.status).toBe(201);
+    expect(response.body.message).toMatchObject({ _id: 'm2', encryptedContent: sealed });
+    expect(conversation.lastMessage).toBe('m2');
+
+    expect(sendToUser.mock.calls.map((call) => [call[1], call[2]])).toEqual([
+      ['u1', 'new_message'],
+      ['u2', 'new_message'],
+    ]);
+
+    // Stored for replay and delivered in the shape the app expects
+    const payload = serializeServerEvent('new_message', sendToUser.mock.calls[1][3]);
+
+    expect(payload).toMatchObject({
+      conversationId: 'c1',
+      message: { _id: 'm2', conversation: 'c1', sender: { _id: 'u1' }, encryptedContent: sealed },
+    });
+  });
+
+  test('should reject messages that are not sealed content', async () => {
+    const response = await request(createApp())
+      .post('/messages')
+      .send({ conversationId: 'c1', encryptedContent: sealed.data });
+
+    expect(response.status).toBe(400);
+    expect(Conversation.findById).not.toHaveBeenCalled();
+    expect(sendToUser).not.toHaveBeenCalled();
+  });
+
+  test('should page through changes by time and message ID', async () => {
+    const cursor = {
+      sort: jest.fn(() => cursor),
+      limit: jest.fn(() => cursor),
+      populate: jest.fn(async () => [storedMessage()]),
+    };
+    Message.find.mockReturnValue(cursor);
+
+    const since = '2026-01-01T00:00:00.000Z';
+    const sinceId = 'a'.repeat(24);
+    const response = await request(createApp())
+      .get('/messages/conversation/c1')
+      .query({ since, sinceId, limit: 1 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.hasMore).toBe(true);
+    expect(cursor.sort).toHaveBeenCalledWith({ updatedAt: 1, _id: 1 });
+
+    // Messages changed at the same time as the last one synced are not skipped
+    expect(Message.find.mock.calls[0][0].$and).toEqual([
+      {
+        $or: [
+          { updatedAt: { $gt: new Date(since) } },
+          { updatedAt: new Date(since), _id: { $gt: sinceId } },
+        ],
+      },
+    ]);
+  });
+
+  test('should reject a sync position that is not a message ID', async () => {
+    const response = await request(createApp())
+      .get('/messages/conversation/c1')
+      .query({ since: '2026-01-01T00:00:00.000Z', sinceId: '{"$gt":""}' });
+
+    expect(response.status).toBe(400);
+    expect(Message.find).not.toHaveBeenCalled();
+  });
+
+  test('should not send a message again that was already stored', async () => {
+    const clientId = 'a'.repeat(32);
+    Message.findOne.mockReturnValue({
+      populate: async () => storedMessage({ clientId }),
+    });
+
+    const response = await request(createApp())
+      .post('/messages')
+      .send({ conversationId: 'c1', encryptedContent: sealed, clientId });
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toMatchObject({ _id: 'm1', clientId });
+    expect(sendToUser).not.toHaveBeenCalled();
+  });
+
+  test('should store an edit sealed like a new message and send it to every member', async () => {
+    const message = storedMessage();
+    Message.findById.mockResolvedValue(message);
+
+    const response = await request(createApp())
+      .put('/messages/m1')
+      .send({ encryptedContent: sealed });
+
+    expect(response.status).toBe(200);
+    expect(message.encryptedContent).toEqual(sealed);
+    expect(message.editedAt).toBeInstanceOf(Date);
+    expect(message.save).toHaveBeenCalled();
+
+    expect(sendToUser.mock.calls.map((call) => [call[1], call[2]])).toEqual([
+      ['u1', 'message_updated'],
+      ['u2', 'message_updated'],
+    ]);
+
+    // Receivers get a payload that follows the contract
+    const payload = serializeServerEvent('message_updated', sendToUser.mock.calls[1][3]);
+
+    expect(payload.message).toMatchObject({ _id: 'm1', encryptedContent: sealed });
+  });
+
+  test('should reject edits that are not sealed content', async () => {
+    const message = storedMessage();
+    Message.findById.mockResolvedValue(message);
+
+    const response = await request(createApp())
+      .put('/messages/m1')
+      .send({ encryptedContent: sealed.data });
+
+    expect(response.status).toBe(400);
+    expect(message.save).not.toHaveBeenCalled();
+    expect(sendToUser).not.toHaveBeenCalled();
+  });
+});
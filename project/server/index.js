@@ -8,7 +8,14 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import dotenv from 'dotenv';
 import connectDB from './config/database.js';
-import { authenticateConnection, handleConnection, handleMessage } from './websocket/messageHandler.js';
+import {
+  authenticateConnection,
+  handleConnection,
+  handleMessage,
+  replayEvents,
+  emitEvent
+} from './websocket/messageHandler.js';
+import { CLIENT_EVENT_CHANNEL } from '../shared/realtimeEvents.js';
 
 dotenv.config();
 
@@ -25,6 +32,9 @@ const io = new Server(server, {
   },
 });
 
+// Routes use this to drop connections of revoked devices
+app.set('io', io);
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -51,6 +61,8 @@ const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   message: 'Too many requests from this IP',
+  // Large attachments are sent in many parts
+  skip: (req) => /^\/upload\/[^/]+\/parts$/.test(req.path),
 });
 app.use('/api/', limiter);
 
@@ -68,6 +80,10 @@ app.use('/api/auth', (await import('./routes/auth.js')).default);
 app.use('/api/security', (await import('./routes/security.js')).default);
 app.use('/api/messages', (await import('./routes/messages.js')).default);
 app.use('/api/conversations', (await import('./routes/conversations.js')).default);
+app.use('/api/keys', (await import('./routes/keys.js')).default);
+app.use('/api/devices', (await import('./routes/devices.js')).default);
+app.use('/api/upload', (await import('./routes/upload.js')).default);
+app.use('/api/presence', (await import('./routes/presence.js')).default);
 app.use('/api', (await import('./routes/api.js')).default);
 
 // Socket.IO handling
@@ -81,7 +97,7 @@ io.on('connection', async (socket) => {
   const authResult = await authenticateConnection(token);
 
   if (!authResult.authenticated) {
-    socket.emit('error', {
+    emitEvent(socket, 'error', {
       type: 'auth_error',
       error: authResult.error,
       timestamp: Date.now()
@@ -92,15 +108,19 @@ io.on('connection', async (socket) => {
   const userId = authResult.user._id.toString();
 
   // Handle new connection
-  handleConnection(socket, userId);
+  handleConnection(io, socket, userId);
+
+  // Lets a revoked device be disconnected
+  socket.join(`device:${authResult.device.deviceId}`);
+  socket.data.device = authResult.device;
 
   // Handle messages
-  socket.on('message', async (message) => {
+  socket.on(CLIENT_EVENT_CHANNEL, async (message) => {
     try {
       await handleMessage(io, socket, userId, message);
     } catch (error) {
       console.error('Socket.IO message error:', error);
-      socket.emit('error', {
+      emitEvent(socket, 'error', {
         type: 'message_error',
         error: 'Invalid message format',
         timestamp: Date.now()
@@ -112,6 +132,15 @@ io.on('connection', async (socket) => {
     console.log('Socket.IO client disconnected');
     // Additional cleanup or state management for disconnected users can go here
   });
+
+  // Send what the device missed since it was last connected
+  const lastEventSeq = Number(socket.handshake.query.lastEventSeq);
+  await replayEvents(
+    socket,
+    userId,
+    authResult.device,
+    Number.isInteger(lastEventSeq) ? lastEventSeq : undefined
+  );
 });
 
 // Error handling
@@ -1,5 +1,30 @@
 import jwt from 'jsonwebtoken';
-import { User } from '../models/index.js';
+import { User, Device } from '../models/index.js';
+
+/**
+ * Issue an auth token bound to one of the user's devices
+ */
+export const generateToken = (user, deviceId) => {
+  return jwt.sign(
+    { userId: user._id, email: user.email, deviceId },
+    process.env.JWT_SECRET || 'dev-secret',
+    { expiresIn: '24h' }
+  );
+};
+
+/**
+ * Find the device a token was issued to, unless it has been revoked
+ */
+export const findTokenDevice = async (user, decoded) => {
+  // Tokens issued before devices existed are no longer accepted
+  if (!decoded.deviceId) {
+    return null;
+  }
+  
+  const device = await Device.findOne({ user: user._id, deviceId: decoded.deviceId });
+  
+  return device && !device.revokedAt ? device : null;
+};
 
 /**
  * Authentication middleware
@@ -24,8 +49,17 @@ export const authenticate = async (req, res, next) => {
       return res.status(401).json({ error: 'User not found' });
     }
     
-    // Attach user to request object
+    const device = await findTokenDevice(user, decoded);
+    
+    if (!device) {
+      return res.status(401).json({ error: 'Device not authorized' });
+    }
+    
+    device.touch().catch(error => console.error('Update device activity error:', error));
+    
+    // Attach user and device to request object
     req.user = user;
+    req.device = device;
     req.token = token;
     
     next();
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+
+const attachmentSchema = new mongoose.Schema({
+  uploader: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  conversation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Conversation',
+    required: true
+  },
+  // Size of the encrypted file; names and types stay inside messages
+  size: {
+    type: Number,
+    required: true
+  },
+  uploadedBytes: {
+    type: Number,
+    default: 0
+  },
+  // SHA-512 of each uploaded part, in order
+  partDigests: [{
+    type: String
+  }],
+  checksum: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['uploading', 'complete'],
+    default: 'uploading'
+  },
+  // Unfinished uploads are given up after this, and files of
+  // disappearing messages are deleted
+  expiresAt: {
+    type: Date
+  }
+}, { timestamps: true });
+
+attachmentSchema.index({ uploader: 1, createdAt: -1 });
+
+// Method to check whether an upload was abandoned or its message disappeared
+attachmentSchema.methods.isExpired = function() {
+  return Boolean(this.expiresAt && this.expiresAt.getTime() < Date.now());
+};
+
+const Attachment = mongoose.model('Attachment', attachmentSchema);
+
+export default Attachment;
@@ -61,6 +61,18 @@ const conversationSchema = new mongoose.Schema({
       type: Number, // Days to keep messages
       default: 0 // 0 means forever
     },
+    // Disappearing messages, agreed on by the participants
+    messageTimer: {
+      type: Number, // Seconds a new message is kept
+      default: 0 // 0 means forever
+    },
+    messageTimerUpdatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    messageTimerUpdatedAt: {
+      type: Date
+    },
     isEncryptionEnabled: {
       type: Boolean,
       default: true
@@ -103,6 +115,12 @@ conversationSchema.methods.updateLastMessage = function(messageId) {
   return this.save();
 };
 
+// Method to get when a message sent now disappears
+conversationSchema.methods.getMessageExpiry = function() {
+  const timer = this.settings && this.settings.messageTimer;
+  return timer ? new Date(Date.now() + timer * 1000) : undefined;
+};
+
 // Method to rotate encryption keys
 conversationSchema.methods.rotateEncryptionKey = function(newKey) {
   this.encryptionKeys.groupKey = newKey;
@@ -128,6 +146,22 @@ conversationSchema.statics.findOrCreateDirectConversation = async function(user1
   return conversation;
 };
 
+// Static method to get the users a user has direct conversations with
+conversationSchema.statics.findContactIds = async function(userId) {
+  const conversations = await this.find({ type: 'direct', participants: userId }).select('participants');
+  const contactIds = new Set();
+  
+  conversations.forEach(conversation => {
+    conversation.participants.forEach(participantId => {
+      if (participantId.toString() !== userId.toString()) {
+        contactIds.add(participantId.toString());
+      }
+    });
+  });
+  
+  return contactIds;
+};
+
 const Conversation = mongoose.model('Conversation', conversationSchema);
 
 export default Conversation;
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+
+const deviceSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Chosen by the client and bound into its auth token
+  deviceId: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    default: 'Unknown device'
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  // Last realtime event the device acknowledged; replay resumes after it
+  lastEventSeq: {
+    type: Number,
+    default: null
+  }
+}, { timestamps: true });
+
+// Each device ID is registered once per user
+deviceSchema.index({ user: 1, deviceId: 1 }, { unique: true });
+
+// Device IDs are random strings generated on the device
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// How often the last seen time is written back
+const LAST_SEEN_INTERVAL = 5 * 60 * 1000;
+
+// Method to record activity without writing on every request
+deviceSchema.methods.touch = function() {
+  if (Date.now() - this.lastSeenAt.getTime() < LAST_SEEN_INTERVAL) {
+    return Promise.resolve(this);
+  }
+  
+  this.lastSeenAt = Date.now();
+  return this.save();
+};
+
+// Method to record the last realtime event the device processed
+deviceSchema.methods.acknowledgeEvents = function(seq) {
+  this.lastEventSeq = Math.max(this.lastEventSeq ?? 0, seq);
+  
+  // Acknowledgements can arrive out of order, so never move backwards
+  return this.constructor.updateOne({ _id: this._id }, { $max: { lastEventSeq: seq } });
+};
+
+// Static method to get the devices of a user that have not been revoked
+deviceSchema.statics.findActive = function(userId) {
+  return this.find({ user: userId, revokedAt: null }).sort({ createdAt: 1 });
+};
+
+// Static method to check the format of a device ID
+deviceSchema.statics.isValidId = function(deviceId) {
+  return typeof deviceId === 'string' && DEVICE_ID_PATTERN.test(deviceId);
+};
+
+// Static method to register a device on sign-in; revoked devices stay revoked
+deviceSchema.statics.register = async function(userId, deviceId, name) {
+  const device = await this.findOne({ user: userId, deviceId });
+  
+  if (!device) {
+    return this.create({ user: userId, deviceId, name: name || undefined });
+  }
+  
+  if (device.revokedAt) {
+    return null;
+  }
+  
+  if (name) {
+    device.name = name;
+  }
+  
+  device.lastSeenAt = Date.now();
+  return device.save();
+};
+
+const Device = mongoose.model('Device', deviceSchema);
+
+export default Device;
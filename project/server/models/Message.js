@@ -1,5 +1,13 @@
 import mongoose from 'mongoose';
 
+// How long a message deleted for everyone is kept so other devices learn of it
+const TOMBSTONE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Content is only required until the message is deleted for everyone
+const requiredUntilDeleted = function() {
+  return !this.deletedAt;
+};
+
 const messageSchema = new mongoose.Schema({
   conversation: {
     type: mongoose.Schema.Types.ObjectId,
@@ -11,14 +19,18 @@ const messageSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Generated by the sending device so a message sent twice is stored once
+  clientId: {
+    type: String
+  },
   encryptedContent: {
     data: {
       type: String,
-      required: true
+      required: requiredUntilDeleted
     },
     nonce: {
       type: String,
-      required: true
+      required: requiredUntilDeleted
     },
     algorithm: {
       type: String,
@@ -26,6 +38,11 @@ const messageSchema = new mongoose.Schema({
     }
   },
   attachments: [{
+    // Encrypted upload; its key and name travel inside the message
+    attachment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Attachment'
+    },
     encryptedData: {
       type: String
     },
@@ -42,6 +59,41 @@ const messageSchema = new mongoose.Schema({
       type: Number
     }
   }],
+  // Set when the sender edits the message; earlier versions travel encrypted inside it
+  editedAt: {
+    type: Date
+  },
+  // Emoji reactions, encrypted for the conversation; one per user
+  reactions: [{
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    encryptedContent: {
+      type: String,
+      required: true
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Set when the sender deletes the message for everyone
+  deletedAt: {
+    type: Date
+  },
+  // Members whose devices received the message
+  deliveredTo: [{
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   readBy: [{
     user: {
       type: mongoose.Schema.Types.ObjectId,
@@ -71,6 +123,7 @@ const messageSchema = new mongoose.Schema({
     enum: ['sent', 'delivered', 'read', 'failed'],
     default: 'sent'
   },
+  // Disappearing messages are deleted once this passes
   expiresAt: {
     type: Date
   },
@@ -83,10 +136,38 @@ const messageSchema = new mongoose.Schema({
 // Index for faster queries
 messageSchema.index({ conversation: 1, createdAt: -1 });
 messageSchema.index({ sender: 1, createdAt: -1 });
+messageSchema.index({ conversation: 1, updatedAt: 1 });
+messageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+messageSchema.index(
+  { sender: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
+
+// Method to mark message as delivered to a user
+messageSchema.methods.markAsDeliveredTo = function(userId) {
+  if (!this.isDeliveredTo(userId)) {
+    this.deliveredTo.push({
+      user: userId,
+      timestamp: Date.now()
+    });
+    if (this.status === 'sent') {
+      this.status = 'delivered';
+    }
+    return this.save();
+  }
+  return Promise.resolve(this);
+};
 
 // Method to mark message as read by a user
 messageSchema.methods.markAsReadBy = function(userId) {
   if (!this.readBy.some(read => read.user.toString() === userId.toString())) {
+    // A message that was read was also delivered
+    if (!this.isDeliveredTo(userId)) {
+      this.deliveredTo.push({
+        user: userId,
+        timestamp: Date.now()
+      });
+    }
     this.readBy.push({
       user: userId,
       timestamp: Date.now()
@@ -97,11 +178,69 @@ messageSchema.methods.markAsReadBy = function(userId) {
   return Promise.resolve(this);
 };
 
+// Method to have the files of a disappearing message deleted along with it
+messageSchema.methods.expireAttachments = function() {
+  const attachmentIds = this.attachments.map(item => item.attachment).filter(Boolean);
+  
+  if (!this.expiresAt || attachmentIds.length === 0) {
+    return Promise.resolve();
+  }
+  
+  return mongoose.model('Attachment').updateMany(
+    { _id: { $in: attachmentIds }, uploader: this.sender },
+    { expiresAt: this.expiresAt }
+  );
+};
+
+// Method to set a user's reaction, or remove it without content
+messageSchema.methods.setReaction = function(userId, encryptedContent) {
+  this.reactions = this.reactions.filter(
+    reaction => reaction.user.toString() !== userId.toString()
+  );
+  
+  if (encryptedContent) {
+    this.reactions.push({
+      user: userId,
+      encryptedContent,
+      updatedAt: Date.now()
+    });
+  }
+  
+  return this.save();
+};
+
+// Method to delete a message for everyone, leaving a tombstone that syncs to other devices
+messageSchema.methods.deleteForEveryone = async function() {
+  const attachmentIds = this.attachments.map(item => item.attachment).filter(Boolean);
+  
+  this.deletedAt = new Date();
+  this.expiresAt = new Date(this.deletedAt.getTime() + TOMBSTONE_TTL);
+  this.encryptedContent = undefined;
+  this.attachments = [];
+  this.reactions = [];
+  await this.save();
+  
+  // The files go with the message
+  if (attachmentIds.length > 0) {
+    await mongoose.model('Attachment').updateMany(
+      { _id: { $in: attachmentIds }, uploader: this.sender },
+      { expiresAt: this.deletedAt }
+    );
+  }
+  
+  return this;
+};
+
 // Method to check if message is read by a specific user
 messageSchema.methods.isReadBy = function(userId) {
   return this.readBy.some(read => read.user.toString() === userId.toString());
 };
 
+// Method to check if message was delivered to a specific user
+messageSchema.methods.isDeliveredTo = function(userId) {
+  return this.deliveredTo.some(delivery => delivery.user.toString() === userId.toString());
+};
+
 const Message = mongoose.model('Message', messageSchema);
 
 export default Message;
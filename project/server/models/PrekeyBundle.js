@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+
+const prekeyBundleSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Every device of a user publishes its own prekeys
+  deviceId: {
+    type: String,
+    required: true
+  },
+  identityKey: {
+    type: String,
+    required: true
+  },
+  signingKey: {
+    type: String,
+    required: true
+  },
+  signedPrekey: {
+    keyId: {
+      type: Number
+    },
+    publicKey: {
+      type: String
+    },
+    signature: {
+      type: String
+    },
+    uploadedAt: {
+      type: Date
+    }
+  },
+  oneTimePrekeys: [{
+    _id: false,
+    keyId: {
+      type: Number,
+      required: true
+    },
+    publicKey: {
+      type: String,
+      required: true
+    }
+  }]
+}, { timestamps: true });
+
+// One bundle per device
+prekeyBundleSchema.index({ user: 1, deviceId: 1 }, { unique: true });
+
+// Maximum number of one-time prekeys stored per device
+const MAX_ONE_TIME_PREKEYS = 200;
+
+// Method to add one-time prekeys, keeping the newest ones
+prekeyBundleSchema.methods.addOneTimePrekeys = function(prekeys) {
+  const knownIds = new Set(this.oneTimePrekeys.map(prekey => prekey.keyId));
+  
+  prekeys
+    .filter(prekey => !knownIds.has(prekey.keyId))
+    .forEach(prekey => this.oneTimePrekeys.push(prekey));
+  
+  if (this.oneTimePrekeys.length > MAX_ONE_TIME_PREKEYS) {
+    this.oneTimePrekeys.splice(0, this.oneTimePrekeys.length - MAX_ONE_TIME_PREKEYS);
+  }
+};
+
+// Static method to fetch a device's bundle, handing out each one-time prekey only once
+prekeyBundleSchema.statics.claimBundle = async function(userId, deviceId) {
+  // Returns the document as it was before the oldest one-time prekey was removed
+  const bundle = await this.findOneAndUpdate(
+    { user: userId, deviceId },
+    { $pop: { oneTimePrekeys: -1 } },
+    { new: false }
+  );
+  
+  if (!bundle || !bundle.signedPrekey || !bundle.signedPrekey.publicKey) {
+    return null;
+  }
+  
+  return {
+    identityKey: bundle.identityKey,
+    signingKey: bundle.signingKey,
+    signedPrekey: {
+      keyId: bundle.signedPrekey.keyId,
+      publicKey: bundle.signedPrekey.publicKey,
+      signature: bundle.signedPrekey.signature
+    },
+    oneTimePrekey: bundle.oneTimePrekeys[0] || null
+  };
+};
+
+const PrekeyBundle = mongoose.model('PrekeyBundle', prekeyBundleSchema);
+
+export default PrekeyBundle;
@@ -0,0 +1,66 @@
+import mongoose from 'mongoose';
+
+const provisioningSessionSchema = new mongoose.Schema({
+  // Random ID shown in the provisioning QR code
+  provisioningId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'requested', 'approved'],
+    default: 'pending'
+  },
+  // Sent by the new device after scanning the code
+  request: {
+    deviceId: {
+      type: String
+    },
+    deviceName: {
+      type: String
+    },
+    deviceKey: {
+      type: String
+    },
+    mac: {
+      type: String
+    },
+    claimHash: {
+      type: String
+    }
+  },
+  // Identity material encrypted by the primary device for the new one
+  result: {
+    nonce: {
+      type: String
+    },
+    ciphertext: {
+      type: String
+    },
+    token: {
+      type: String
+    }
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { timestamps: true });
+
+// Drop sessions once they expire
+provisioningSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Method to check whether the session can still be used
+provisioningSessionSchema.methods.isExpired = function() {
+  return this.expiresAt.getTime() < Date.now();
+};
+
+const ProvisioningSession = mongoose.model('ProvisioningSession', provisioningSessionSchema);
+
+export default ProvisioningSession;
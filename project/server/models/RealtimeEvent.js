@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+// How long events are kept for devices that are offline, in seconds
+const REPLAY_WINDOW = 7 * 24 * 60 * 60;
+
+const realtimeEventSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Position in the user's event stream
+  seq: {
+    type: Number,
+    required: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  // Payload as it was sent
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  }
+}, { timestamps: true });
+
+// Each position is used once per user
+realtimeEventSchema.index({ user: 1, seq: 1 }, { unique: true });
+
+// Drop events once no device can still be waiting for them
+realtimeEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: REPLAY_WINDOW });
+
+// Static method to add an event to the end of a user's stream
+realtimeEventSchema.statics.append = async function(userId, event, data) {
+  const user = await mongoose.model('User').findByIdAndUpdate(
+    userId,
+    { $inc: { lastEventSeq: 1 } },
+    { new: true, select: 'lastEventSeq' }
+  );
+  
+  if (!user) {
+    return null;
+  }
+  
+  return this.create({ user: userId, seq: user.lastEventSeq, event, data });
+};
+
+// Static method to get the events after a position, oldest first
+realtimeEventSchema.statics.after = function(userId, seq, limit) {
+  return this.find({ user: userId, seq: { $gt: seq } })
+    .sort({ seq: 1 })
+    .limit(limit);
+};
+
+const RealtimeEvent = mongoose.model('RealtimeEvent', realtimeEventSchema);
+
+export default RealtimeEvent;
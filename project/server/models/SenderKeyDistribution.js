@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+
+const senderKeyDistributionSchema = new mongoose.Schema({
+  conversation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Conversation',
+    required: true
+  },
+  sender: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Sender key encrypted for the recipient's pairwise session
+  content: {
+    type: String,
+    required: true
+  },
+  // Devices of the recipient that have collected the distribution
+  deliveredTo: {
+    type: [String],
+    default: []
+  }
+}, { timestamps: true });
+
+// Index for faster queries
+senderKeyDistributionSchema.index({ recipient: 1, conversation: 1, createdAt: 1 });
+
+// Drop distributions nobody has collected after 30 days
+senderKeyDistributionSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const SenderKeyDistribution = mongoose.model('SenderKeyDistribution', senderKeyDistributionSchema);
+
+export default SenderKeyDistribution;
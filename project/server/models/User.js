@@ -21,6 +21,15 @@ const userSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  // When the published identity key was last replaced
+  publicKeyChangedAt: {
+    type: Date,
+    default: null
+  },
+  signingKey: {
+    type: String,
+    default: ''
+  },
   securityProfile: {
     trustScore: {
       type: Number,
@@ -46,6 +55,29 @@ const userSchema = new mongoose.Schema({
   lastActive: {
     type: Date,
     default: Date.now
+  },
+  privacy: {
+    // Whether other members are told when the user read their messages
+    readReceipts: {
+      type: Boolean,
+      default: true
+    },
+    // Whether others see when the user was last online
+    lastSeen: {
+      type: Boolean,
+      default: true
+    },
+    // Who sees whether the user is online
+    profileVisibility: {
+      type: String,
+      enum: ['everyone', 'contacts', 'nobody'],
+      default: 'everyone'
+    }
+  },
+  // Sequence number of the last realtime event sent to the user's devices
+  lastEventSeq: {
+    type: Number,
+    default: 0
   }
 }, { timestamps: true });
 
@@ -73,6 +105,21 @@ userSchema.methods.updateActivity = function() {
   return this.save();
 };
 
+// Method to describe the user's presence as another user is allowed to see it
+userSchema.methods.presenceFor = function(isContact, isOnline) {
+  const visibility = this.privacy?.profileVisibility || 'everyone';
+  const isVisible = visibility === 'everyone' || (visibility === 'contacts' && isContact);
+  
+  // Hidden users look offline, without a last seen time
+  return {
+    userId: this._id.toString(),
+    status: isVisible && isOnline ? 'online' : 'offline',
+    lastSeen: isVisible && this.privacy?.lastSeen !== false && this.lastActive
+      ? new Date(this.lastActive).toISOString()
+      : null
+  };
+};
+
 const User = mongoose.model('User', userSchema);
 
 export default User;
@@ -1,9 +1,21 @@
 import User from './User.js';
 import Message from './Message.js';
 import Conversation from './Conversation.js';
+import PrekeyBundle from './PrekeyBundle.js';
+import SenderKeyDistribution from './SenderKeyDistribution.js';
+import Device from './Device.js';
+import ProvisioningSession from './ProvisioningSession.js';
+import Attachment from './Attachment.js';
+import RealtimeEvent from './RealtimeEvent.js';
 
 export {
   User,
   Message,
-  Conversation
+  Conversation,
+  PrekeyBundle,
+  SenderKeyDistribution,
+  Device,
+  ProvisioningSession,
+  Attachment,
+  RealtimeEvent
 };
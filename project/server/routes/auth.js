@@ -1,7 +1,12 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { User } from '../models/index.js';
+import { User, Device, PrekeyBundle } from '../models/index.js';
+import { authenticate, generateToken } from '../middleware/auth.js';
+import {
+  broadcastIdentityKeyChange,
+  broadcastUserStatus,
+  isUserOnline
+} from '../websocket/messageHandler.js';
 
 const router = express.Router();
 
@@ -17,7 +22,11 @@ router.post('/test', (req, res) => {
 // Register endpoint
 router.post('/register', async (req, res) => {
   try {
-    const { email, password, deviceFingerprint } = req.body;
+    const { email, password, deviceFingerprint, deviceId, deviceName } = req.body;
+    
+    if (!Device.isValidId(deviceId)) {
+      return res.status(400).json({ error: 'Valid device ID is required' });
+    }
     
     // Check if user already exists
     const existingUser = await User.findOne({ email });
@@ -35,12 +44,11 @@ router.post('/register', async (req, res) => {
     
     await user.save();
     
+    // The registering device becomes the account's first device
+    await Device.register(user._id, deviceId, deviceName);
+    
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email },
-      process.env.JWT_SECRET || 'dev-secret',
-      { expiresIn: '24h' }
-    );
+    const token = generateToken(user, deviceId);
     
     res.json({
       success: true,
@@ -56,7 +64,11 @@ router.post('/register', async (req, res) => {
 // Login endpoint
 router.post('/login', async (req, res) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, deviceId, deviceName } = req.body;
+    
+    if (!Device.isValidId(deviceId)) {
+      return res.status(400).json({ error: 'Valid device ID is required' });
+    }
     
     // Find user by email
     const user = await User.findOne({ email });
@@ -66,16 +78,18 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
     
+    const device = await Device.register(user._id, deviceId, deviceName);
+    
+    if (!device) {
+      return res.status(403).json({ error: 'Device has been revoked' });
+    }
+    
     // Update last active timestamp
     user.lastActive = Date.now();
     await user.save();
     
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email },
-      process.env.JWT_SECRET || 'dev-secret',
-      { expiresIn: '24h' }
-    );
+    const token = generateToken(user, deviceId);
     
     res.json({
       success: true,
@@ -84,7 +98,8 @@ router.post('/login', async (req, res) => {
         id: user._id, 
         email,
         securityProfile: user.securityProfile,
-        permissions: user.permissions
+        permissions: user.permissions,
+        privacy: user.privacy
       }
     });
   } catch (error) {
@@ -93,4 +108,95 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Publish identity public key
+router.put('/keys', authenticate, async (req, res) => {
+  try {
+    const { publicKey } = req.body;
+    
+    if (!publicKey || typeof publicKey !== 'string') {
+      return res.status(400).json({ error: 'Public key is required' });
+    }
+    
+    // A device that lost the identity key starts over with a new one
+    const isReplaced = !!req.user.publicKey && req.user.publicKey !== publicKey;
+    
+    // Other devices hold the old identity and must be linked again
+    if (isReplaced) {
+      const others = { user: req.user._id, deviceId: { $ne: req.device.deviceId } };
+      
+      await Device.updateMany({ ...others, revokedAt: null }, { revokedAt: Date.now() });
+      await PrekeyBundle.deleteMany(others);
+      
+      req.user.publicKeyChangedAt = Date.now();
+    }
+    
+    // Only the public half is ever sent to the server
+    req.user.publicKey = publicKey;
+    await req.user.save();
+    
+    // Contacts must see that the safety number changed
+    if (isReplaced) {
+      await broadcastIdentityKeyChange(req.app.get('io'), req.user._id);
+    }
+    
+    res.json({
+      success: true,
+      message: 'Public key updated'
+    });
+  } catch (error) {
+    console.error('Publish public key error:', error);
+    res.status(500).json({ error: 'Failed to publish public key' });
+  }
+});
+
+// Update privacy settings
+router.put('/privacy', authenticate, async (req, res) => {
+  try {
+    const { readReceipts, lastSeen, profileVisibility } = req.body;
+    
+    if (readReceipts === undefined && lastSeen === undefined && profileVisibility === undefined) {
+      return res.status(400).json({ error: 'A privacy setting is required' });
+    }
+    
+    if (readReceipts !== undefined && typeof readReceipts !== 'boolean') {
+      return res.status(400).json({ error: 'Read receipts setting must be a boolean' });
+    }
+    
+    if (lastSeen !== undefined && typeof lastSeen !== 'boolean') {
+      return res.status(400).json({ error: 'Last seen setting must be a boolean' });
+    }
+    
+    if (profileVisibility !== undefined && !['everyone', 'contacts', 'nobody'].includes(profileVisibility)) {
+      return res.status(400).json({ error: 'Invalid profile visibility' });
+    }
+    
+    if (readReceipts !== undefined) {
+      req.user.privacy.readReceipts = readReceipts;
+    }
+    
+    if (lastSeen !== undefined) {
+      req.user.privacy.lastSeen = lastSeen;
+    }
+    
+    if (profileVisibility !== undefined) {
+      req.user.privacy.profileVisibility = profileVisibility;
+    }
+    
+    await req.user.save();
+    
+    // Others see the new settings straight away
+    if (lastSeen !== undefined || profileVisibility !== undefined) {
+      await broadcastUserStatus(req.app.get('io'), req.user._id, isUserOnline(req.user._id));
+    }
+    
+    res.json({
+      success: true,
+      privacy: req.user.privacy
+    });
+  } catch (error) {
+    console.error('Update privacy error:', error);
+    res.status(500).json({ error: 'Failed to update privacy settings' });
+  }
+});
+
 export default router;
@@ -1,9 +1,13 @@
 import express from 'express';
 import { authenticate, authorize, securityCheck } from '../middleware/auth.js';
 import { Conversation, User } from '../models/index.js';
+import { sendToUser } from '../websocket/messageHandler.js';
 
 const router = express.Router();
 
+// Disappearing message timers participants can choose, in seconds; 0 turns them off
+const MESSAGE_TIMERS = [0, 30, 5 * 60, 60 * 60, 8 * 60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60, 28 * 24 * 60 * 60];
+
 // Get all conversations for the authenticated user
 router.get('/', authenticate, async (req, res) => {
   try {
@@ -12,7 +16,7 @@ router.get('/', authenticate, async (req, res) => {
       participants: req.user._id
     })
       .sort({ 'metadata.isPinned': -1, updatedAt: -1 })
-      .populate('participants', 'email')
+      .populate('participants', 'email publicKey signingKey')
       .populate('lastMessage')
       .populate('admins', 'email');
     
@@ -33,7 +37,7 @@ router.get('/:conversationId', authenticate, async (req, res) => {
     
     // Find conversation
     const conversation = await Conversation.findById(conversationId)
-      .populate('participants', 'email')
+      .populate('participants', 'email publicKey signingKey')
       .populate('lastMessage')
       .populate('admins', 'email');
     
@@ -75,7 +79,7 @@ router.post('/direct', authenticate, securityCheck, async (req, res) => {
     );
     
     // Populate participants
-    await existingConversation.populate('participants', 'email');
+    await existingConversation.populate('participants', 'email publicKey signingKey');
     
     res.status(201).json({
       success: true,
@@ -140,7 +144,7 @@ router.post('/group', authenticate, securityCheck, async (req, res) => {
     await conversation.save();
     
     // Populate participants and admins
-    await conversation.populate('participants', 'email');
+    await conversation.populate('participants', 'email publicKey signingKey');
     await conversation.populate('admins', 'email');
     
     res.status(201).json({
@@ -193,7 +197,7 @@ router.patch('/:conversationId', authenticate, async (req, res) => {
     await conversation.save();
     
     // Populate participants and admins
-    await conversation.populate('participants', 'email');
+    await conversation.populate('participants', 'email publicKey signingKey');
     await conversation.populate('admins', 'email');
     
     res.json({
@@ -206,11 +210,68 @@ router.patch('/:conversationId', authenticate, async (req, res) => {
   }
 });
 
+// Set the disappearing message timer of a conversation
+router.put('/:conversationId/timer', authenticate, async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    const { seconds } = req.body;
+    
+    if (!MESSAGE_TIMERS.includes(seconds)) {
+      return res.status(400).json({ error: 'Invalid message timer' });
+    }
+    
+    // Find conversation
+    const conversation = await Conversation.findById(conversationId);
+    
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    
+    // Any participant may change the timer; the latest change applies to everyone
+    if (!conversation.participants.some(p => p.toString() === req.user._id.toString())) {
+      return res.status(403).json({ error: 'Not authorized to update this conversation' });
+    }
+    
+    conversation.settings.messageTimer = seconds;
+    conversation.settings.messageTimerUpdatedBy = req.user._id;
+    conversation.settings.messageTimerUpdatedAt = new Date();
+    await conversation.save();
+    
+    // Tell every participant's devices about the new timer
+    const update = {
+      conversation: {
+        _id: conversation._id,
+        settings: conversation.settings
+      }
+    };
+    
+    const io = req.app.get('io');
+    
+    if (io) {
+      await Promise.all(conversation.participants.map(participantId =>
+        sendToUser(io, participantId, 'conversation_update', update)
+      ));
+    }
+    
+    // Populate participants and admins
+    await conversation.populate('participants', 'email publicKey signingKey');
+    await conversation.populate('admins', 'email');
+    
+    res.json({
+      success: true,
+      conversation
+    });
+  } catch (error) {
+    console.error('Set message timer error:', error);
+    res.status(500).json({ error: 'Failed to set message timer' });
+  }
+});
+
 // Add participant to group conversation
 router.post('/:conversationId/participants', authenticate, async (req, res) => {
   try {
     const { conversationId } = req.params;
-    const { email } = req.body;
+    const participantEmails = req.body.participantEmails || [req.body.email];
     
     // Find conversation
     const conversation = await Conversation.findById(conversationId);
@@ -231,23 +292,27 @@ router.post('/:conversationId/participants', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Only admins can add participants' });
     }
     
-    // Find user to add
-    const userToAdd = await User.findOne({ email });
+    // Find users to add
+    const usersToAdd = await User.find({ email: { $in: participantEmails.filter(Boolean) } });
     
-    if (!userToAdd) {
+    if (usersToAdd.length === 0) {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    // Check if user is already a participant
-    if (conversation.participants.includes(userToAdd._id)) {
+    // Skip users who are already participants
+    const memberIds = conversation.participants.map(participant => participant.toString());
+    const newUsers = usersToAdd.filter(user => !memberIds.includes(user._id.toString()));
+    
+    if (newUsers.length === 0) {
       return res.status(400).json({ error: 'User is already a participant' });
     }
     
-    // Add participant
-    await conversation.addParticipant(userToAdd._id);
+    // Add participants
+    newUsers.forEach(user => conversation.participants.push(user._id));
+    await conversation.save();
     
     // Populate participants and admins
-    await conversation.populate('participants', 'email');
+    await conversation.populate('participants', 'email publicKey signingKey');
     await conversation.populate('admins', 'email');
     
     res.json({
@@ -301,7 +366,7 @@ router.delete('/:conversationId/participants/:userId', authenticate, async (req,
     }
     
     // Populate participants and admins
-    await conversation.populate('participants', 'email');
+    await conversation.populate('participants', 'email publicKey signingKey');
     await conversation.populate('admins', 'email');
     
     res.json({
@@ -0,0 +1,279 @@
+import express from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { authenticate, generateToken } from '../middleware/auth.js';
+import { Device, PrekeyBundle, ProvisioningSession, User } from '../models/index.js';
+
+const router = express.Router();
+
+// How long a provisioning code can be used
+const PROVISIONING_TTL = 10 * 60 * 1000;
+
+/**
+ * Find a provisioning session that has not expired
+ */
+const findSession = async (provisioningId) => {
+  if (typeof provisioningId !== 'string') {
+    return null;
+  }
+
+  const session = await ProvisioningSession.findOne({ provisioningId });
+
+  return session && !session.isExpired() ? session : null;
+};
+
+/**
+ * Hash of the secret a new device uses to collect its result (first half of SHA-512)
+ */
+const hashClaim = (claim) => {
+  return crypto.createHash('sha512').update(claim).digest().subarray(0, 32).toString('base64');
+};
+
+// List the authenticated user's devices
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const devices = await Device.findActive(req.user._id);
+
+    res.json({
+      success: true,
+      devices: devices.map(device => ({
+        deviceId: device.deviceId,
+        name: device.name,
+        createdAt: device.createdAt,
+        lastSeenAt: device.lastSeenAt,
+        current: device.deviceId === req.device.deviceId
+      }))
+    });
+  } catch (error) {
+    console.error('Get devices error:', error);
+    res.status(500).json({ error: 'Failed to get devices' });
+  }
+});
+
+// List the device IDs messages for a user must be encrypted for
+router.get('/user/:userId', authenticate, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const devices = await Device.findActive(user._id);
+
+    res.json({
+      success: true,
+      deviceIds: devices.map(device => device.deviceId)
+    });
+  } catch (error) {
+    console.error('Get user devices error:', error);
+    res.status(500).json({ error: 'Failed to get user devices' });
+  }
+});
+
+// Revoke one of the authenticated user's devices
+router.delete('/:deviceId', authenticate, async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+
+    if (deviceId === req.device.deviceId) {
+      return res.status(400).json({ error: 'Sign out to remove this device' });
+    }
+
+    const device = await Device.findOne({ user: req.user._id, deviceId, revokedAt: null });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    device.revokedAt = Date.now();
+    await device.save();
+
+    // Nobody may start a new session with the revoked device
+    await PrekeyBundle.deleteOne({ user: req.user._id, deviceId });
+
+    // Drop its live connections
+    req.app.get('io')?.in(`device:${deviceId}`).disconnectSockets(true);
+
+    res.json({
+      success: true,
+      message: 'Device revoked'
+    });
+  } catch (error) {
+    console.error('Revoke device error:', error);
+    res.status(500).json({ error: 'Failed to revoke device' });
+  }
+});
+
+// Start linking a new device; the primary device shows the returned ID in a QR code
+router.post('/provisioning', authenticate, async (req, res) => {
+  try {
+    const session = await ProvisioningSession.create({
+      provisioningId: crypto.randomBytes(16).toString('hex'),
+      user: req.user._id,
+      expiresAt: new Date(Date.now() + PROVISIONING_TTL)
+    });
+
+    res.status(201).json({
+      success: true,
+      provisioningId: session.provisioningId,
+      expiresAt: session.expiresAt
+    });
+  } catch (error) {
+    console.error('Create provisioning session error:', error);
+    res.status(500).json({ error: 'Failed to start device linking' });
+  }
+});
+
+// Sent by the new device after scanning the QR code; it has no account token yet
+router.post('/provisioning/:provisioningId/request', async (req, res) => {
+  try {
+    const { deviceId, deviceName, deviceKey, mac, claimHash } = req.body;
+
+    if (!Device.isValidId(deviceId) || !deviceKey || !mac || !claimHash) {
+      return res.status(400).json({ error: 'Invalid link request' });
+    }
+
+    const session = await findSession(req.params.provisioningId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Link code expired' });
+    }
+
+    if (session.status !== 'pending') {
+      return res.status(409).json({ error: 'Link code already used' });
+    }
+
+    session.request = {
+      deviceId,
+      deviceName: typeof deviceName === 'string' ? deviceName.slice(0, 64) : undefined,
+      deviceKey,
+      mac,
+      claimHash
+    };
+    session.status = 'requested';
+    await session.save();
+
+    res.status(202).json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Request device link error:', error);
+    res.status(500).json({ error: 'Failed to request device link' });
+  }
+});
+
+// Polled by the primary device until a new device has asked to link
+router.get('/provisioning/:provisioningId', authenticate, async (req, res) => {
+  try {
+    const session = await findSession(req.params.provisioningId);
+
+    if (!session || !session.user.equals(req.user._id)) {
+      return res.status(404).json({ error: 'Link code expired' });
+    }
+
+    res.json({
+      success: true,
+      status: session.status,
+      request: session.status === 'pending' ? null : {
+        deviceId: session.request.deviceId,
+        deviceName: session.request.deviceName,
+        deviceKey: session.request.deviceKey,
+        mac: session.request.mac
+      }
+    });
+  } catch (error) {
+    console.error('Get provisioning session error:', error);
+    res.status(500).json({ error: 'Failed to get device link' });
+  }
+});
+
+// Sent by the primary device with identity material encrypted for the new device
+router.post('/provisioning/:provisioningId/approve', authenticate, async (req, res) => {
+  try {
+    const { nonce, ciphertext } = req.body;
+
+    if (!nonce || !ciphertext) {
+      return res.status(400).json({ error: 'Encrypted identity is required' });
+    }
+
+    const session = await findSession(req.params.provisioningId);
+
+    if (!session || !session.user.equals(req.user._id)) {
+      return res.status(404).json({ error: 'Link code expired' });
+    }
+
+    if (session.status !== 'requested') {
+      return res.status(409).json({ error: 'No device is waiting to link' });
+    }
+
+    const device = await Device.register(
+      req.user._id,
+      session.request.deviceId,
+      session.request.deviceName
+    );
+
+    if (!device) {
+      return res.status(403).json({ error: 'Device has been revoked' });
+    }
+
+    session.result = {
+      nonce,
+      ciphertext,
+      token: generateToken(req.user, device.deviceId)
+    };
+    session.status = 'approved';
+    await session.save();
+
+    res.json({
+      success: true,
+      deviceId: device.deviceId
+    });
+  } catch (error) {
+    console.error('Approve device link error:', error);
+    res.status(500).json({ error: 'Failed to approve device link' });
+  }
+});
+
+// Polled by the new device until the primary device has approved it
+router.post('/provisioning/:provisioningId/result', async (req, res) => {
+  try {
+    const { claim } = req.body;
+    const session = await findSession(req.params.provisioningId);
+
+    if (!session || session.status === 'pending' || typeof claim !== 'string' ||
+      hashClaim(claim) !== session.request.claimHash) {
+      return res.status(404).json({ error: 'Link code expired' });
+    }
+
+    if (session.status !== 'approved') {
+      return res.json({
+        success: true,
+        status: session.status
+      });
+    }
+
+    // The result is handed out once
+    await session.deleteOne();
+
+    res.json({
+      success: true,
+      status: session.status,
+      userId: session.user.toString(),
+      nonce: session.result.nonce,
+      ciphertext: session.result.ciphertext,
+      token: session.result.token
+    });
+  } catch (error) {
+    console.error('Get device link result error:', error);
+    res.status(500).json({ error: 'Failed to get device link result' });
+  }
+});
+
+export default router;
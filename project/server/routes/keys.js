@@ -0,0 +1,250 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticate } from '../middleware/auth.js';
+import {
+  Conversation,
+  Device,
+  PrekeyBundle,
+  SenderKeyDistribution,
+  User
+} from '../models/index.js';
+
+const router = express.Router();
+
+/**
+ * Mark items as collected by a device, deleting those every device of the
+ * recipient has collected
+ */
+const markDelivered = async (Model, items, user, deviceId) => {
+  const ids = items.map(item => item._id);
+  
+  await Model.updateMany({ _id: { $in: ids } }, { $addToSet: { deliveredTo: deviceId } });
+  
+  const devices = await Device.findActive(user._id);
+  
+  await Model.deleteMany({
+    _id: { $in: ids },
+    deliveredTo: { $all: devices.map(device => device.deviceId) }
+  });
+};
+
+/**
+ * Items a device addresses to its own account are for the other devices only
+ */
+const sentToSelf = (req, item) => {
+  return item.recipientId === req.user._id.toString() ? [req.device.deviceId] : [];
+};
+
+// Upload signed prekey and one-time prekeys
+router.post('/prekeys', authenticate, async (req, res) => {
+  try {
+    const { identityKey, signingKey, signedPrekey, oneTimePrekeys } = req.body;
+    
+    if (!identityKey || !signingKey) {
+      return res.status(400).json({ error: 'Identity and signing keys are required' });
+    }
+    
+    if (identityKey !== req.user.publicKey) {
+      return res.status(400).json({ error: 'Identity key does not match account' });
+    }
+    
+    if (signedPrekey && (!signedPrekey.publicKey || !signedPrekey.signature ||
+      typeof signedPrekey.keyId !== 'number')) {
+      return res.status(400).json({ error: 'Invalid signed prekey' });
+    }
+    
+    if (oneTimePrekeys && (!Array.isArray(oneTimePrekeys) || oneTimePrekeys.some(
+      prekey => typeof prekey.keyId !== 'number' || !prekey.publicKey
+    ))) {
+      return res.status(400).json({ error: 'Invalid one-time prekeys' });
+    }
+    
+    let bundle = await PrekeyBundle.findOne({ user: req.user._id, deviceId: req.device.deviceId });
+    
+    // A new identity or signing key makes every stored prekey useless
+    if (bundle && (bundle.identityKey !== identityKey || bundle.signingKey !== signingKey)) {
+      await bundle.deleteOne();
+      bundle = null;
+    }
+    
+    if (!bundle) {
+      if (!signedPrekey) {
+        return res.status(400).json({ error: 'Signed prekey is required' });
+      }
+      
+      bundle = new PrekeyBundle({
+        user: req.user._id,
+        deviceId: req.device.deviceId,
+        identityKey,
+        signingKey
+      });
+    }
+    
+    if (signedPrekey) {
+      bundle.signedPrekey = {
+        keyId: signedPrekey.keyId,
+        publicKey: signedPrekey.publicKey,
+        signature: signedPrekey.signature,
+        uploadedAt: Date.now()
+      };
+    }
+    
+    if (oneTimePrekeys) {
+      bundle.addOneTimePrekeys(oneTimePrekeys.map(prekey => ({
+        keyId: prekey.keyId,
+        publicKey: prekey.publicKey
+      })));
+    }
+    
+    await bundle.save();
+    
+    // Published with the account so clients can verify message envelopes
+    if (req.user.signingKey !== signingKey) {
+      req.user.signingKey = signingKey;
+      await req.user.save();
+    }
+    
+    res.json({
+      success: true,
+      count: bundle.oneTimePrekeys.length
+    });
+  } catch (error) {
+    console.error('Upload prekeys error:', error);
+    res.status(500).json({ error: 'Failed to upload prekeys' });
+  }
+});
+
+// Get number of one-time prekeys left for the authenticated device
+router.get('/prekeys/count', authenticate, async (req, res) => {
+  try {
+    const bundle = await PrekeyBundle.findOne({ user: req.user._id, deviceId: req.device.deviceId });
+    
+    res.json({
+      success: true,
+      count: bundle ? bundle.oneTimePrekeys.length : 0
+    });
+  } catch (error) {
+    console.error('Get prekey count error:', error);
+    res.status(500).json({ error: 'Failed to get prekey count' });
+  }
+});
+
+// Get the prekey bundle of one of a user's devices
+router.get('/bundle/:userId/:deviceId', authenticate, async (req, res) => {
+  try {
+    const { userId, deviceId } = req.params;
+    
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    const user = await User.findById(userId);
+    
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    const device = await Device.findOne({ user: user._id, deviceId, revokedAt: null });
+    
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+    
+    const bundle = await PrekeyBundle.claimBundle(user._id, deviceId);
+    
+    if (!bundle) {
+      return res.status(404).json({ error: 'No prekey bundle published' });
+    }
+    
+    res.json({
+      success: true,
+      bundle
+    });
+  } catch (error) {
+    console.error('Get prekey bundle error:', error);
+    res.status(500).json({ error: 'Failed to get prekey bundle' });
+  }
+});
+
+// Send a group sender key to other members
+router.post('/sender-keys', authenticate, async (req, res) => {
+  try {
+    const { conversationId, distributions } = req.body;
+    
+    if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID' });
+    }
+    
+    if (!Array.isArray(distributions) || distributions.length === 0 || distributions.some(
+      item => !mongoose.Types.ObjectId.isValid(item.recipientId) || typeof item.content !== 'string'
+    )) {
+      return res.status(400).json({ error: 'Invalid sender key distributions' });
+    }
+    
+    const conversation = await Conversation.findById(conversationId);
+    
+    if (!conversation || conversation.type !== 'group') {
+      return res.status(404).json({ error: 'Group conversation not found' });
+    }
+    
+    // Sender and every recipient must be current members
+    const memberIds = conversation.participants.map(participant => participant.toString());
+    
+    if (!memberIds.includes(req.user._id.toString())) {
+      return res.status(403).json({ error: 'Not authorized to access this conversation' });
+    }
+    
+    if (distributions.some(item => !memberIds.includes(item.recipientId))) {
+      return res.status(400).json({ error: 'Recipient is not a group member' });
+    }
+    
+    await SenderKeyDistribution.insertMany(distributions.map(item => ({
+      conversation: conversation._id,
+      sender: req.user._id,
+      recipient: item.recipientId,
+      content: item.content,
+      deliveredTo: sentToSelf(req, item)
+    })));
+    
+    res.status(201).json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Send sender keys error:', error);
+    res.status(500).json({ error: 'Failed to send sender keys' });
+  }
+});
+
+// Collect group sender keys sent to the authenticated user
+router.get('/sender-keys/:conversationId', authenticate, async (req, res) => {
+  try {
+    const { conversationId } = req.params;
+    
+    if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID' });
+    }
+    
+    const pending = await SenderKeyDistribution.find({
+      conversation: conversationId,
+      recipient: req.user._id,
+      deliveredTo: { $ne: req.device.deviceId }
+    }).sort({ createdAt: 1 });
+    
+    // Each distribution is delivered once to every device
+    await markDelivered(SenderKeyDistribution, pending, req.user, req.device.deviceId);
+    
+    res.json({
+      success: true,
+      distributions: pending.map(item => ({
+        senderId: item.sender.toString(),
+        content: item.content,
+        createdAt: item.createdAt
+      }))
+    });
+  } catch (error) {
+    console.error('Get sender keys error:', error);
+    res.status(500).json({ error: 'Failed to get sender keys' });
+  }
+});
+
+export default router;
@@ -1,14 +1,69 @@
 import express from 'express';
 import { authenticate, authorize, securityCheck } from '../middleware/auth.js';
 import { Message, Conversation } from '../models/index.js';
+import { sendToUser, recordReceipts } from '../websocket/messageHandler.js';
 
 const router = express.Router();
 
+/**
+ * Find a message a user already sent under a client ID
+ */
+const findSentMessage = async (senderId, clientId) => {
+  return await Message.findOne({ sender: senderId, clientId }).populate('sender', 'email');
+};
+
+/**
+ * Send an event to every participant of a conversation
+ */
+const emitToParticipants = async (req, conversation, event, data) => {
+  const io = req.app.get('io');
+  
+  if (!io) {
+    return;
+  }
+  
+  await Promise.all(conversation.participants.map(participantId =>
+    sendToUser(io, participantId, event, data)
+  ));
+};
+
+/**
+ * Check that message content is sealed the way messages are stored
+ */
+const isMessageContent = (encryptedContent) => {
+  return Boolean(encryptedContent) &&
+    typeof encryptedContent.data === 'string' &&
+    typeof encryptedContent.nonce === 'string';
+};
+
+/**
+ * Find a message and its conversation for a participant
+ */
+const findParticipantMessage = async (messageId, userId) => {
+  const message = await Message.findById(messageId);
+  
+  if (!message || message.deletedAt) {
+    return { status: 404, error: 'Message not found' };
+  }
+  
+  const conversation = await Conversation.findById(message.conversation);
+  
+  if (!conversation || !conversation.participants.includes(userId)) {
+    return { status: 403, error: 'Not authorized to access this message' };
+  }
+  
+  return { message, conversation };
+};
+
 // Get all messages for a conversation
 router.get('/conversation/:conversationId', authenticate, async (req, res) => {
   try {
     const { conversationId } = req.params;
-    const { limit = 50, before } = req.query;
+    const { limit = 50, before, since, sinceId } = req.query;
+    
+    if (sinceId !== undefined && !/^[a-f0-9]{24}$/.test(sinceId)) {
+      return res.status(400).json({ error: 'Invalid sync position' });
+    }
     
     // Check if user is part of the conversation
     const conversation = await Conversation.findById(conversationId);
@@ -21,13 +76,42 @@ router.get('/conversation/:conversationId', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to access this conversation' });
     }
     
-    // Build query
-    const query = { conversation: conversationId };
+    // Build query, leaving out disappeared messages the database has not removed yet
+    const query = {
+      conversation: conversationId,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+    };
     
     if (before) {
       query.createdAt = { $lt: new Date(before) };
     }
     
+    // Changes since a client's last sync, oldest first so it can page through them;
+    // messages changed at the same time are ordered by ID so none fall between pages
+    if (since) {
+      const changedAfter = [{ updatedAt: { $gt: new Date(since) } }];
+      
+      if (sinceId) {
+        changedAfter.push({ updatedAt: new Date(since), _id: { $gt: sinceId } });
+      }
+      
+      query.$and = [{ $or: changedAfter }];
+      
+      const changes = await Message.find(query)
+        .sort({ updatedAt: 1, _id: 1 })
+        .limit(parseInt(limit))
+        .populate('sender', 'email');
+      
+      return res.json({
+        success: true,
+        messages: changes,
+        hasMore: changes.length === parseInt(limit)
+      });
+    }
+    
+    // Messages deleted for everyone are only reported to syncing clients
+    query.deletedAt = null;
+    
     // Get messages
     const messages = await Message.find(query)
       .sort({ createdAt: -1 })
@@ -48,7 +132,15 @@ router.get('/conversation/:conversationId', authenticate, async (req, res) => {
 // Send a new message
 router.post('/', authenticate, securityCheck, async (req, res) => {
   try {
-    const { conversationId, encryptedContent, attachments } = req.body;
+    const { conversationId, encryptedContent, attachments, clientId } = req.body;
+    
+    if (clientId !== undefined && (typeof clientId !== 'string' || !/^[a-f0-9]{32}$/.test(clientId))) {
+      return res.status(400).json({ error: 'Invalid client ID' });
+    }
+    
+    if (!isMessageContent(encryptedContent)) {
+      return res.status(400).json({ error: 'Message content is required' });
+    }
     
     // Check if conversation exists and user is part of it
     const conversation = await Conversation.findById(conversationId);
@@ -61,12 +153,28 @@ router.post('/', authenticate, securityCheck, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to send messages to this conversation' });
     }
     
+    // A message the client sent before, whose response it never got
+    if (clientId) {
+      const existing = await findSentMessage(req.user._id, clientId);
+      
+      if (existing) {
+        return res.json({
+          success: true,
+          message: existing
+        });
+      }
+    }
+    
     // Create new message
+    const expiresAt = conversation.getMessageExpiry();
     const message = new Message({
       conversation: conversationId,
       sender: req.user._id,
+      clientId,
       encryptedContent,
       attachments: attachments || [],
+      expiresAt,
+      isEphemeral: Boolean(expiresAt),
       readBy: [{ user: req.user._id }], // Sender has read the message
       securityMetadata: {
         integrityHash: req.body.integrityHash,
@@ -74,7 +182,21 @@ router.post('/', authenticate, securityCheck, async (req, res) => {
       }
     });
     
-    await message.save();
+    try {
+      await message.save();
+    } catch (error) {
+      // The same message arrived twice at once; answer with the stored one
+      if (clientId && error.code === 11000) {
+        return res.json({
+          success: true,
+          message: await findSentMessage(req.user._id, clientId)
+        });
+      }
+      
+      throw error;
+    }
+    
+    await message.expireAttachments();
     
     // Update conversation's last message
     conversation.lastMessage = message._id;
@@ -83,6 +205,13 @@ router.post('/', authenticate, securityCheck, async (req, res) => {
     // Populate sender info
     await message.populate('sender', 'email');
     
+    // The sender's devices get it too, so their event stream has no gaps
+    await emitToParticipants(req, conversation, 'new_message', {
+      conversationId: conversation._id,
+      message,
+      timestamp: Date.now()
+    });
+    
     res.status(201).json({
       success: true,
       message
@@ -93,6 +222,131 @@ router.post('/', authenticate, securityCheck, async (req, res) => {
   }
 });
 
+// Edit a message
+router.put('/:messageId', authenticate, securityCheck, async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { encryptedContent } = req.body;
+    
+    if (!isMessageContent(encryptedContent)) {
+      return res.status(400).json({ error: 'Message content is required' });
+    }
+    
+    const { message, conversation, status, error } = await findParticipantMessage(
+      messageId,
+      req.user._id
+    );
+    
+    if (error) {
+      return res.status(status).json({ error });
+    }
+    
+    // Check if user is the sender
+    if (message.sender.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ error: 'Not authorized to edit this message' });
+    }
+    
+    // The new content carries the earlier versions, encrypted
+    message.encryptedContent = {
+      data: encryptedContent.data,
+      nonce: encryptedContent.nonce,
+      algorithm: encryptedContent.algorithm
+    };
+    message.editedAt = new Date();
+    await message.save();
+    
+    await message.populate('sender', 'email');
+    
+    await emitToParticipants(req, conversation, 'message_updated', {
+      conversationId: conversation._id,
+      message
+    });
+    
+    res.json({
+      success: true,
+      message
+    });
+  } catch (error) {
+    console.error('Edit message error:', error);
+    res.status(500).json({ error: 'Failed to edit message' });
+  }
+});
+
+// React to a message
+router.put('/:messageId/reactions', authenticate, async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const { encryptedContent } = req.body;
+    
+    if (typeof encryptedContent !== 'string' || !encryptedContent) {
+      return res.status(400).json({ error: 'Reaction content is required' });
+    }
+    
+    const { message, conversation, status, error } = await findParticipantMessage(
+      messageId,
+      req.user._id
+    );
+    
+    if (error) {
+      return res.status(status).json({ error });
+    }
+    
+    await message.setReaction(req.user._id, encryptedContent);
+    
+    const reaction = message.reactions.find(
+      item => item.user.toString() === req.user._id.toString()
+    );
+    
+    await emitToParticipants(req, conversation, 'message_reaction', {
+      conversationId: conversation._id,
+      messageId: message._id,
+      userId: req.user._id,
+      reaction
+    });
+    
+    res.json({
+      success: true,
+      reaction
+    });
+  } catch (error) {
+    console.error('React to message error:', error);
+    res.status(500).json({ error: 'Failed to react to message' });
+  }
+});
+
+// Remove a reaction from a message
+router.delete('/:messageId/reactions', authenticate, async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    
+    const { message, conversation, status, error } = await findParticipantMessage(
+      messageId,
+      req.user._id
+    );
+    
+    if (error) {
+      return res.status(status).json({ error });
+    }
+    
+    await message.setReaction(req.user._id, null);
+    
+    await emitToParticipants(req, conversation, 'message_reaction', {
+      conversationId: conversation._id,
+      messageId: message._id,
+      userId: req.user._id,
+      reaction: null
+    });
+    
+    res.json({
+      success: true,
+      message: 'Reaction removed'
+    });
+  } catch (error) {
+    console.error('Remove reaction error:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+});
+
 // Mark message as read
 router.patch('/:messageId/read', authenticate, async (req, res) => {
   try {
@@ -112,8 +366,8 @@ router.patch('/:messageId/read', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to access this message' });
     }
     
-    // Mark as read
-    await message.markAsReadBy(req.user._id);
+    // Mark as read unless the user turned read receipts off
+    await recordReceipts(req.app.get('io'), req.user, message.conversation, [message._id], 'read');
     
     res.json({
       success: true,
@@ -133,7 +387,7 @@ router.delete('/:messageId', authenticate, async (req, res) => {
     // Find message
     const message = await Message.findById(messageId);
     
-    if (!message) {
+    if (!message || message.deletedAt) {
       return res.status(404).json({ error: 'Message not found' });
     }
     
@@ -142,21 +396,26 @@ router.delete('/:messageId', authenticate, async (req, res) => {
       return res.status(403).json({ error: 'Not authorized to delete this message' });
     }
     
-    // Delete message
-    await Message.findByIdAndDelete(messageId);
+    // Delete message for everyone
+    await message.deleteForEveryone();
     
     // Update conversation's last message if needed
     const conversation = await Conversation.findById(message.conversation);
     
     if (conversation.lastMessage && conversation.lastMessage.toString() === messageId) {
       // Find new last message
-      const lastMessage = await Message.findOne({ conversation: conversation._id })
+      const lastMessage = await Message.findOne({ conversation: conversation._id, deletedAt: null })
         .sort({ createdAt: -1 });
       
       conversation.lastMessage = lastMessage ? lastMessage._id : null;
       await conversation.save();
     }
     
+    await emitToParticipants(req, conversation, 'message_deleted', {
+      conversationId: conversation._id,
+      messageId: message._id
+    });
+    
     res.json({
       success: true,
       message: 'Message deleted'
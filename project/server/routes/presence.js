@@ -0,0 +1,50 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticate } from '../middleware/auth.js';
+import { User, Conversation } from '../models/index.js';
+import { isUserOnline } from '../websocket/messageHandler.js';
+
+const router = express.Router();
+
+// Most users a presence request can ask about
+const MAX_PRESENCE_USERS = 200;
+
+// Get the presence of users the authenticated user shares a conversation with
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const userIds = String(req.query.userIds || '')
+      .split(',')
+      .filter(userId => mongoose.Types.ObjectId.isValid(userId));
+
+    if (userIds.length === 0 || userIds.length > MAX_PRESENCE_USERS) {
+      return res.status(400).json({ error: `Between 1 and ${MAX_PRESENCE_USERS} user IDs are required` });
+    }
+
+    // Strangers learn nothing about each other
+    const conversations = await Conversation.find({
+      participants: { $all: [req.user._id], $in: userIds }
+    }).select('participants');
+    const knownIds = new Set();
+
+    conversations.forEach(conversation => {
+      conversation.participants.forEach(participantId => knownIds.add(participantId.toString()));
+    });
+
+    const contactIds = await Conversation.findContactIds(req.user._id);
+    const users = await User.find({
+      _id: { $in: userIds.filter(userId => knownIds.has(userId)) }
+    }).select('privacy lastActive');
+
+    res.json({
+      success: true,
+      presence: users.map(user =>
+        user.presenceFor(contactIds.has(user._id.toString()), isUserOnline(user._id))
+      )
+    });
+  } catch (error) {
+    console.error('Get presence error:', error);
+    res.status(500).json({ error: 'Failed to get presence' });
+  }
+});
+
+export default router;
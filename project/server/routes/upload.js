@@ -0,0 +1,303 @@
+import express from 'express';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import mongoose from 'mongoose';
+import { authenticate } from '../middleware/auth.js';
+import { Attachment, Conversation } from '../models/index.js';
+
+const router = express.Router();
+
+// Where encrypted attachments are kept
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.resolve('uploads');
+
+// Bytes per uploaded or downloaded part; must match the client
+const PART_SIZE = 1024 * 1024;
+
+// Largest attachment accepted, plus room for encryption overhead
+const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024 * 1024 + 16 * 1024 * 1024;
+
+// How long an unfinished upload can be resumed
+const UPLOAD_TTL = 24 * 60 * 60 * 1000;
+
+const filePath = (attachment) => path.join(UPLOAD_DIR, attachment._id.toString());
+
+const sha512 = (data) => crypto.createHash('sha512').update(data).digest();
+
+/**
+ * Checksum of an attachment: SHA-512 over the SHA-512 of each part
+ */
+const computeChecksum = (partDigests) => {
+  return sha512(Buffer.concat(partDigests.map(digest => Buffer.from(digest, 'hex')))).toString('hex');
+};
+
+/**
+ * Remove an attachment and its stored data
+ */
+const removeAttachment = async (attachment) => {
+  await fs.rm(filePath(attachment), { force: true });
+  await Attachment.findByIdAndDelete(attachment._id);
+};
+
+/**
+ * Find an attachment, dropping it if its upload was abandoned
+ */
+const findAttachment = async (attachmentId) => {
+  if (!mongoose.Types.ObjectId.isValid(attachmentId)) {
+    return null;
+  }
+
+  const attachment = await Attachment.findById(attachmentId);
+
+  if (attachment && attachment.isExpired()) {
+    await removeAttachment(attachment);
+    return null;
+  }
+
+  return attachment;
+};
+
+/**
+ * Check whether a user may read an attachment
+ */
+const canAccess = async (attachment, userId) => {
+  if (attachment.uploader.toString() === userId.toString()) {
+    return true;
+  }
+
+  const conversation = await Conversation.findById(attachment.conversation);
+
+  return Boolean(conversation && conversation.participants.some(
+    participant => participant.toString() === userId.toString()
+  ));
+};
+
+/**
+ * What clients are told about an upload
+ */
+const uploadState = (attachment) => ({
+  attachmentId: attachment._id,
+  size: attachment.size,
+  uploadedBytes: attachment.uploadedBytes,
+  status: attachment.status,
+  checksum: attachment.checksum,
+  partSize: PART_SIZE
+});
+
+// Start uploading an encrypted attachment
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { conversationId, size } = req.body;
+
+    if (!Number.isInteger(size) || size <= 0 || size > MAX_ATTACHMENT_SIZE) {
+      return res.status(400).json({ error: 'Invalid attachment size' });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID' });
+    }
+
+    const conversation = await Conversation.findById(conversationId);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    if (!conversation.participants.some(participant => participant.toString() === req.user._id.toString())) {
+      return res.status(403).json({ error: 'Not authorized to share files in this conversation' });
+    }
+
+    const attachment = await Attachment.create({
+      uploader: req.user._id,
+      conversation: conversation._id,
+      size,
+      expiresAt: new Date(Date.now() + UPLOAD_TTL)
+    });
+
+    await fs.mkdir(UPLOAD_DIR, { recursive: true });
+    await fs.writeFile(filePath(attachment), Buffer.alloc(0));
+
+    res.status(201).json({
+      success: true,
+      ...uploadState(attachment)
+    });
+  } catch (error) {
+    console.error('Create upload error:', error);
+    res.status(500).json({ error: 'Failed to start upload' });
+  }
+});
+
+// Get the state of an attachment, used to resume an upload
+router.get('/:attachmentId', authenticate, async (req, res) => {
+  try {
+    const attachment = await findAttachment(req.params.attachmentId);
+
+    if (!attachment || !(await canAccess(attachment, req.user._id))) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    res.json({
+      success: true,
+      ...uploadState(attachment)
+    });
+  } catch (error) {
+    console.error('Get attachment error:', error);
+    res.status(500).json({ error: 'Failed to get attachment' });
+  }
+});
+
+// Upload the next part of an attachment
+router.put('/:attachmentId/parts', authenticate, async (req, res) => {
+  try {
+    const { offset, part: encodedPart, digest } = req.body;
+    const attachment = await findAttachment(req.params.attachmentId);
+
+    if (!attachment || attachment.uploader.toString() !== req.user._id.toString()) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    if (attachment.status !== 'uploading') {
+      return res.status(409).json({ error: 'Upload already complete', ...uploadState(attachment) });
+    }
+
+    // Parts are appended in order; a client that lost track resumes from here
+    if (offset !== attachment.uploadedBytes) {
+      return res.status(409).json({ error: 'Unexpected part offset', ...uploadState(attachment) });
+    }
+
+    const part = Buffer.from(typeof encodedPart === 'string' ? encodedPart : '', 'base64');
+    const isLastPart = offset + part.length === attachment.size;
+
+    if (
+      part.length === 0 ||
+      part.length > PART_SIZE ||
+      offset + part.length > attachment.size ||
+      (!isLastPart && part.length !== PART_SIZE)
+    ) {
+      return res.status(400).json({ error: 'Invalid part size' });
+    }
+
+    const partDigest = sha512(part).toString('hex');
+
+    if (partDigest !== digest) {
+      return res.status(422).json({ error: 'Part digest mismatch' });
+    }
+
+    // Drop anything left over from an append that was never recorded
+    await fs.truncate(filePath(attachment), attachment.uploadedBytes);
+    await fs.appendFile(filePath(attachment), part);
+
+    attachment.uploadedBytes += part.length;
+    attachment.partDigests.push(partDigest);
+    await attachment.save();
+
+    res.json({
+      success: true,
+      uploadedBytes: attachment.uploadedBytes
+    });
+  } catch (error) {
+    console.error('Upload part error:', error);
+    res.status(500).json({ error: 'Failed to upload part' });
+  }
+});
+
+// Finish an upload once every part has arrived
+router.post('/:attachmentId/complete', authenticate, async (req, res) => {
+  try {
+    const { checksum } = req.body;
+    const attachment = await findAttachment(req.params.attachmentId);
+
+    if (!attachment || attachment.uploader.toString() !== req.user._id.toString()) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    if (attachment.status === 'complete') {
+      return res.json({ success: true, ...uploadState(attachment) });
+    }
+
+    if (attachment.uploadedBytes !== attachment.size) {
+      return res.status(409).json({ error: 'Upload is not finished', ...uploadState(attachment) });
+    }
+
+    // What we stored has to be what the client encrypted
+    if (computeChecksum(attachment.partDigests) !== checksum) {
+      await removeAttachment(attachment);
+      return res.status(422).json({ error: 'Checksum mismatch' });
+    }
+
+    attachment.checksum = checksum;
+    attachment.status = 'complete';
+    attachment.expiresAt = undefined;
+    await attachment.save();
+
+    res.json({
+      success: true,
+      ...uploadState(attachment)
+    });
+  } catch (error) {
+    console.error('Complete upload error:', error);
+    res.status(500).json({ error: 'Failed to complete upload' });
+  }
+});
+
+// Download one part of an attachment
+router.get('/:attachmentId/parts', authenticate, async (req, res) => {
+  try {
+    const offset = parseInt(req.query.offset, 10);
+    const attachment = await findAttachment(req.params.attachmentId);
+
+    if (!attachment || !(await canAccess(attachment, req.user._id))) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    if (attachment.status !== 'complete') {
+      return res.status(409).json({ error: 'Upload is not finished' });
+    }
+
+    if (!Number.isInteger(offset) || offset < 0 || offset >= attachment.size || offset % PART_SIZE !== 0) {
+      return res.status(400).json({ error: 'Invalid part offset' });
+    }
+
+    const length = Math.min(PART_SIZE, attachment.size - offset);
+    const part = Buffer.alloc(length);
+    const file = await fs.open(filePath(attachment), 'r');
+
+    try {
+      await file.read(part, 0, length, offset);
+    } finally {
+      await file.close();
+    }
+
+    res.json({
+      success: true,
+      offset,
+      part: part.toString('base64')
+    });
+  } catch (error) {
+    console.error('Download part error:', error);
+    res.status(500).json({ error: 'Failed to download part' });
+  }
+});
+
+// Delete an attachment
+router.delete('/:attachmentId', authenticate, async (req, res) => {
+  try {
+    const attachment = await findAttachment(req.params.attachmentId);
+
+    if (!attachment || attachment.uploader.toString() !== req.user._id.toString()) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    await removeAttachment(attachment);
+
+    res.json({
+      success: true,
+      message: 'Attachment deleted'
+    });
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    res.status(500).json({ error: 'Failed to delete attachment' });
+  }
+});
+
+export default router;
@@ -1,9 +1,19 @@
-import { User, Message, Conversation } from '../models/index.js';
+import { User, Message, Conversation, RealtimeEvent } from '../models/index.js';
 import jwt from 'jsonwebtoken';
+import { findTokenDevice } from '../middleware/auth.js';
+import {
+  REPLAYED_EVENTS,
+  clientEventSchemas,
+  parseEvent,
+  serializeServerEvent
+} from '../../shared/realtimeEvents.js';
 
 // Map to store userId to socket.id for direct messaging
 const userSocketMap = new Map();
 
+// Most events replayed after a reconnect; devices further behind reload instead
+const MAX_REPLAY_EVENTS = 500;
+
 /**
  * Authenticate Socket.IO connection
  */
@@ -23,7 +33,13 @@ export const authenticateConnection = async (token) => {
       return { authenticated: false, error: 'User not found' };
     }
 
-    return { authenticated: true, user };
+    const device = await findTokenDevice(user, decoded);
+
+    if (!device) {
+      return { authenticated: false, error: 'Device not authorized' };
+    }
+
+    return { authenticated: true, user, device };
   } catch (error) {
     console.error('Socket.IO authentication error:', error);
     return { authenticated: false, error: 'Authentication failed' };
@@ -40,7 +56,7 @@ export const handleConnection = (io, socket, userId) => {
   socket.join(userId); // Join a room named after the userId for easy broadcasting
 
   // Send connection confirmation
-  socket.emit('connection', {
+  emitEvent(socket, 'connection', {
     status: 'connected',
     timestamp: Date.now()
   });
@@ -59,6 +75,13 @@ export const handleConnection = (io, socket, userId) => {
   });
 };
 
+/**
+ * Check whether a user has a connected device
+ */
+export const isUserOnline = (userId) => {
+  return Array.from(userSocketMap.values()).includes(userId.toString());
+};
+
 /**
  * Update user's online status
  */
@@ -70,7 +93,7 @@ const updateUserStatus = async (io, userId, isOnline) => {
     });
 
     // Broadcast status change to relevant users
-    broadcastUserStatus(io, userId, isOnline);
+    await broadcastUserStatus(io, userId, isOnline);
   } catch (error) {
     console.error('Update user status error:', error);
   }
@@ -78,13 +101,23 @@ const updateUserStatus = async (io, userId, isOnline) => {
 
 /**
  * Broadcast user status change to relevant users
+ *
+ * Each user gets the status the user's privacy settings let them see, so a
+ * change of settings reaches everyone too.
  */
-const broadcastUserStatus = async (io, userId, isOnline) => {
+export const broadcastUserStatus = async (io, userId, isOnline) => {
   try {
+    const user = await User.findById(userId).select('privacy lastActive');
+
+    if (!user) {
+      return;
+    }
+
     // Find all conversations where the user is a participant
     const conversations = await Conversation.find({
       participants: userId
     });
+    const contactIds = await Conversation.findContactIds(userId);
 
     // Get all participants from these conversations
     const participantIds = new Set();
@@ -97,34 +130,66 @@ const broadcastUserStatus = async (io, userId, isOnline) => {
       });
     });
 
-    // Broadcast status change to all participants
-    const statusMessage = {
-      type: 'user_status',
-      userId,
-      status: isOnline ? 'online' : 'offline',
-      timestamp: Date.now()
-    };
-
     participantIds.forEach(participantId => {
-      // Use io.to(roomName).emit() to send to all sockets in a user's room
-      io.to(participantId.toString()).emit('user_status', statusMessage);
+      // Send to all sockets in a user's room
+      sendToUser(io, participantId, 'user_status', {
+        ...user.presenceFor(contactIds.has(participantId), isOnline),
+        timestamp: Date.now()
+      });
     });
   } catch (error) {
     console.error('Broadcast user status error:', error);
   }
 };
 
+/**
+ * Tell the user's contacts that the user's identity key changed
+ *
+ * Each conversation is sent again with the new key, so contacts see that
+ * the safety number changed even if they were offline at the time.
+ */
+export const broadcastIdentityKeyChange = async (io, userId) => {
+  try {
+    const conversations = await Conversation.find({
+      participants: userId
+    }).populate('participants', 'email publicKey signingKey');
+
+    for (const conversation of conversations) {
+      for (const participant of conversation.participants) {
+        if (participant._id.toString() !== userId.toString()) {
+          await sendToUser(io, participant._id, 'conversation_update', { conversation });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Broadcast identity key change error:', error);
+  }
+};
+
 /**
  * Handle incoming message
  */
 export const handleMessage = async (io, socket, userId, data) => {
   try {
-    const { type, payload } = data;
+    // Reject events outside the contract before handling them
+    const event = parseEvent(clientEventSchemas, data?.type, data?.payload);
+
+    if (!event.success) {
+      console.error('Rejected socket event:', event.error);
+      return emitEvent(socket, 'error', {
+        type: 'invalid_event',
+        error: event.error,
+        timestamp: Date.now()
+      });
+    }
+
+    const { type } = data;
+    const payload = event.data;
 
     switch (type) {
       case 'ping':
         // Respond to ping
-        socket.emit('pong', {
+        emitEvent(socket, 'pong', {
           timestamp: Date.now()
         });
         break;
@@ -139,14 +204,20 @@ export const handleMessage = async (io, socket, userId, data) => {
         await handleTypingIndicator(io, userId, payload);
         break;
 
+      case 'delivered':
       case 'read':
-        // Handle read receipt
-        await handleReadReceipt(io, userId, payload);
+        // Handle delivered and read receipts
+        await handleReceipts(io, userId, payload, type);
+        break;
+
+      case 'ack':
+        // Remember how far the device got, so it resumes from there
+        await socket.data.device?.acknowledgeEvents(payload.seq);
         break;
 
       default:
         // Unknown message type
-        socket.emit('error', {
+        emitEvent(socket, 'error', {
           type: 'unknown_message_type',
           error: 'Unknown message type',
           timestamp: Date.now()
@@ -154,7 +225,7 @@ export const handleMessage = async (io, socket, userId, data) => {
     }
   } catch (error) {
     console.error('Handle message error:', error);
-    socket.emit('error', {
+    emitEvent(socket, 'error', {
       type: 'message_processing_error',
       error: 'Failed to process message',
       timestamp: Date.now()
@@ -173,7 +244,7 @@ const handleNewMessage = async (io, socket, userId, payload) => {
     const conversation = await Conversation.findById(conversationId);
 
     if (!conversation) {
-      return socket.emit('error', {
+      return emitEvent(socket, 'error', {
         type: 'conversation_not_found',
         error: 'Conversation not found',
         timestamp: Date.now()
@@ -181,7 +252,7 @@ const handleNewMessage = async (io, socket, userId, payload) => {
     }
 
     if (!conversation.participants.includes(userId)) {
-      return socket.emit('error', {
+      return emitEvent(socket, 'error', {
         type: 'unauthorized',
         error: 'Not authorized to send messages to this conversation',
         timestamp: Date.now()
@@ -189,11 +260,14 @@ const handleNewMessage = async (io, socket, userId, payload) => {
     }
 
     // Create new message
+    const expiresAt = conversation.getMessageExpiry();
     const message = new Message({
       conversation: conversationId,
       sender: userId,
       encryptedContent,
       attachments: attachments || [],
+      expiresAt,
+      isEphemeral: Boolean(expiresAt),
       readBy: [{ user: userId }], // Sender has read the message
       securityMetadata: {
         integrityHash: payload.integrityHash,
@@ -202,6 +276,7 @@ const handleNewMessage = async (io, socket, userId, payload) => {
     });
 
     await message.save();
+    await message.expireAttachments();
 
     // Update conversation's last message
     conversation.lastMessage = message._id;
@@ -211,14 +286,14 @@ const handleNewMessage = async (io, socket, userId, payload) => {
     await message.populate('sender', 'email');
 
     // Send confirmation to sender
-    socket.emit('message_sent', {
+    emitEvent(socket, 'message_sent', {
       messageId: message._id,
       timestamp: Date.now()
     });
 
     // Broadcast message to other participants
     const messageData = {
-      type: 'new_message',
+      conversationId,
       message: {
         _id: message._id,
         conversation: message.conversation,
@@ -226,19 +301,19 @@ const handleNewMessage = async (io, socket, userId, payload) => {
         encryptedContent: message.encryptedContent,
         attachments: message.attachments,
         securityMetadata: message.securityMetadata,
+        expiresAt: message.expiresAt,
         createdAt: message.createdAt
       },
       timestamp: Date.now()
     };
 
-    conversation.participants.forEach(participantId => {
-      if (participantId.toString() !== userId.toString()) {
-        io.to(participantId.toString()).emit('new_message', messageData);
-      }
-    });
+    // The sender's devices get it too, so their event stream has no gaps
+    await Promise.all(conversation.participants.map(participantId =>
+      sendToUser(io, participantId, 'new_message', messageData)
+    ));
   } catch (error) {
     console.error('Handle new message error:', error);
-    socket.emit('error', {
+    emitEvent(socket, 'error', {
       type: 'send_message_failed',
       error: 'Failed to send message',
       timestamp: Date.now()
@@ -262,7 +337,6 @@ const handleTypingIndicator = async (io, userId, payload) => {
 
     // Broadcast typing indicator to other participants
     const typingData = {
-      type: 'typing',
       conversationId,
       userId,
       isTyping,
@@ -271,7 +345,7 @@ const handleTypingIndicator = async (io, userId, payload) => {
 
     conversation.participants.forEach(participantId => {
       if (participantId.toString() !== userId.toString()) {
-        io.to(participantId.toString()).emit('typing', typingData);
+        sendToUser(io, participantId, 'typing_indicator', typingData);
       }
     });
   } catch (error) {
@@ -280,60 +354,154 @@ const handleTypingIndicator = async (io, userId, payload) => {
 };
 
 /**
- * Handle read receipt
+ * Handle delivered and read receipts
  */
-const handleReadReceipt = async (io, userId, payload) => {
+const handleReceipts = async (io, userId, payload, status) => {
   try {
-    const { messageId } = payload;
+    const { conversationId, messageIds } = payload;
 
-    // Find message
-    const message = await Message.findById(messageId);
+    // Check if conversation exists and user is part of it
+    const conversation = await Conversation.findById(conversationId);
 
-    if (!message) {
+    if (!conversation || !conversation.participants.includes(userId)) {
       return;
     }
 
-    // Check if user is part of the conversation
-    const conversation = await Conversation.findById(message.conversation);
+    const user = await User.findById(userId).select('privacy');
 
-    if (!conversation || !conversation.participants.includes(userId)) {
-      return;
+    if (user) {
+      await recordReceipts(io, user, conversationId, messageIds, status);
+    }
+  } catch (error) {
+    console.error('Handle receipts error:', error);
+  }
+};
+
+/**
+ * Record that a member received or read messages and tell their senders
+ *
+ * Read receipts of members who turned them off are not recorded.
+ */
+export const recordReceipts = async (io, user, conversationId, messageIds, status) => {
+  if (status === 'read' && user.privacy?.readReceipts === false) {
+    return;
+  }
+
+  // Members only send receipts for messages of others
+  const messages = await Message.find({
+    _id: { $in: messageIds },
+    conversation: conversationId,
+    sender: { $ne: user._id },
+    deletedAt: null
+  });
+
+  for (const message of messages) {
+    const isNew = status === 'read' ? !message.isReadBy(user._id) : !message.isDeliveredTo(user._id);
+
+    if (!isNew) {
+      continue;
     }
 
-    // Mark as read
-    await message.markAsReadBy(userId);
+    if (status === 'read') {
+      await message.markAsReadBy(user._id);
+    } else {
+      await message.markAsDeliveredTo(user._id);
+    }
 
-    // Broadcast read receipt to other participants
-    const readData = {
-      type: 'read_receipt',
-      messageId,
-      userId,
-      conversationId: message.conversation,
-      timestamp: Date.now()
-    };
+    // Only the sender follows what happened to their message
+    if (io) {
+      await sendToUser(io, message.sender, 'message_status', {
+        conversationId,
+        messageId: message._id,
+        userId: user._id,
+        status,
+        timestamp: Date.now()
+      });
+    }
+  }
+};
 
-    conversation.participants.forEach(participantId => {
-      if (participantId.toString() !== userId.toString()) {
-        io.to(participantId.toString()).emit('read_receipt', readData);
-      }
-    });
+/**
+ * Emit an event to a socket or room, checked against the event contract
+ */
+export const emitEvent = (target, event, data) => {
+  target.emit(event, serializeServerEvent(event, data));
+};
+
+/**
+ * Send message to specific user (all their connected sockets)
+ *
+ * Events that change what the app shows are numbered and kept, so devices
+ * that are offline get them when they reconnect.
+ */
+export const sendToUser = async (io, userId, event, data) => {
+  const target = io.to(userId.toString());
+
+  if (!REPLAYED_EVENTS.includes(event)) {
+    return emitEvent(target, event, data);
+  }
+
+  const payload = serializeServerEvent(event, data);
+  let stored = null;
+
+  try {
+    stored = await RealtimeEvent.append(userId, event, payload);
   } catch (error) {
-    console.error('Handle read receipt error:', error);
+    // Still delivered to connected devices, just not replayed
+    console.error('Store realtime event error:', error);
   }
+
+  emitEvent(target, event, stored ? { ...payload, seq: stored.seq } : payload);
 };
 
 /**
- * Send message to specific user (all their connected sockets)
+ * Replay the events a device missed while it was disconnected
+ *
+ * Resumes after the last event the device acknowledged, or the position the
+ * app reports if that is further along. Devices without a position, or too
+ * far behind to replay, are told to resync from the latest event.
  */
-export const sendToUser = (io, userId, event, data) => {
-  io.to(userId).emit(event, data);
+export const replayEvents = async (socket, userId, device, resumeFrom) => {
+  try {
+    const user = await User.findById(userId).select('lastEventSeq');
+    const latest = user?.lastEventSeq || 0;
+    const positions = [device.lastEventSeq, resumeFrom].filter(Number.isInteger);
+    const from = positions.length > 0 ? Math.max(...positions) : null;
+
+    if (from !== null && from <= latest && latest - from <= MAX_REPLAY_EVENTS) {
+      const events = await RealtimeEvent.after(userId, from, MAX_REPLAY_EVENTS);
+      const missed = events.filter(event => event.seq <= latest);
+
+      // Events that expired or were never stored leave gaps
+      if (missed.length === latest - from) {
+        emitEvent(socket, 'resume', {
+          seq: from,
+          timestamp: Date.now()
+        });
+
+        events.forEach(event => {
+          emitEvent(socket, event.event, { ...event.data, seq: event.seq });
+        });
+        return;
+      }
+    }
+
+    await device.acknowledgeEvents(latest);
+
+    emitEvent(socket, 'resync', {
+      seq: latest,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Replay events error:', error);
+  }
 };
 
 /**
  * Broadcast message to all connected users (all sockets)
  */
 export const broadcastToAll = (io, event, data) => {
-  io.emit(event, data);
+  emitEvent(io, event, data);
 };
 
 /**
@@ -0,0 +1,262 @@
+/**
+ * SecuriComm Realtime Events
+ *
+ * The contract for events exchanged over Socket.IO, shared by the app and
+ * the server. Every event has a zod schema for its payload; both sides
+ * validate what they send and receive against it, and unknown or malformed
+ * events are rejected and logged instead of being silently ignored.
+ *
+ * The app sends its events on a single channel as `{ type, payload }`;
+ * the server emits each event under its own name.
+ *
+ * Events that change what the app shows are numbered per user. The app
+ * acknowledges the numbers it has processed, and after reconnecting the
+ * server replays everything it missed.
+ */
+
+import { z } from 'zod';
+
+// Socket.IO event that carries the app's events
+export const CLIENT_EVENT_CHANNEL = 'message';
+
+const id = z.string().min(1);
+
+const timestamp = z.number();
+
+// Server documents carry more fields than the app relies on; those pass through
+const document = z.object({ _id: id }).passthrough();
+
+// Message content as the server stores it; the app puts a sealed envelope in data
+const messageContent = z.object({
+  data: z.string(),
+  nonce: z.string(),
+  algorithm: z.string().optional(),
+});
+
+// Emoji reaction of a conversation member, encrypted for the conversation
+const reaction = z.object({
+  user: id,
+  encryptedContent: z.string(),
+  updatedAt: z.string(),
+});
+
+// Member a message reached or who read it
+const receipt = z.object({
+  user: id,
+  timestamp: z.string(),
+});
+
+// Time a message was changed in some way, if it was
+const date = z.string().nullable().optional();
+
+// Message as the server sends it; content is gone once it is deleted for everyone
+export const messageSchema = document.extend({
+  conversation: id,
+  sender: document,
+  clientId: z.string().optional(),
+  encryptedContent: messageContent.optional(),
+  attachments: z.array(z.object({}).passthrough()).optional(),
+  reactions: z.array(reaction).optional(),
+  deliveredTo: z.array(receipt).optional(),
+  readBy: z.array(receipt).optional(),
+  status: z.enum(['sent', 'delivered', 'read', 'failed']).optional(),
+  editedAt: date,
+  deletedAt: date,
+  expiresAt: date,
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+});
+
+// Receipts are sent for up to this many messages at a time
+export const MAX_RECEIPT_BATCH = 100;
+
+// Position of an event in the user's stream
+const seq = z.number().int().nonnegative();
+
+// Events the server keeps and replays to devices that missed them
+export const REPLAYED_EVENTS = [
+  'new_message',
+  'message_status',
+  'message_updated',
+  'message_reaction',
+  'message_deleted',
+  'new_conversation',
+  'conversation_update',
+];
+
+// Replayed events carry their position once they have been stored
+const position = {
+  seq: seq.positive().optional(),
+};
+
+// Events the app sends to the server
+export const clientEventSchemas = {
+  ping: z.object({}).optional(),
+
+  message: z.object({
+    conversationId: id,
+    encryptedContent: messageContent,
+    attachments: z.array(z.object({ attachment: id }).passthrough()).optional(),
+    integrityHash: z.string().optional(),
+  }),
+
+  typing: z.object({
+    conversationId: id,
+    isTyping: z.boolean(),
+  }),
+
+  delivered: z.object({
+    conversationId: id,
+    messageIds: z.array(id).min(1).max(MAX_RECEIPT_BATCH),
+  }),
+
+  read: z.object({
+    conversationId: id,
+    messageIds: z.array(id).min(1).max(MAX_RECEIPT_BATCH),
+  }),
+
+  ack: z.object({
+    seq,
+  }),
+};
+
+// Events the server sends to the app
+export const serverEventSchemas = {
+  connection: z.object({
+    status: z.literal('connected'),
+    timestamp,
+  }),
+
+  pong: z.object({
+    timestamp,
+  }),
+
+  error: z.object({
+    type: z.string(),
+    error: z.string(),
+    timestamp,
+  }),
+
+  // Missed events after this position follow
+  resume: z.object({
+    seq,
+    timestamp,
+  }),
+
+  // Events were missed that can no longer be replayed; reload instead
+  resync: z.object({
+    seq,
+    timestamp,
+  }),
+
+  new_message: z
+    .object({
+      conversationId: id,
+      message: messageSchema,
+      timestamp,
+    })
+    .extend(position),
+
+  message_sent: z.object({
+    messageId: id,
+    timestamp,
+  }),
+
+  message_status: z
+    .object({
+      conversationId: id,
+      messageId: id,
+      userId: id,
+      status: z.enum(['delivered', 'read']),
+      timestamp,
+    })
+    .extend(position),
+
+  message_updated: z
+    .object({
+      conversationId: id,
+      message: messageSchema,
+    })
+    .extend(position),
+
+  message_reaction: z
+    .object({
+      conversationId: id,
+      messageId: id,
+      userId: id,
+      reaction: reaction.nullable(),
+    })
+    .extend(position),
+
+  message_deleted: z
+    .object({
+      conversationId: id,
+      messageId: id,
+    })
+    .extend(position),
+
+  typing_indicator: z.object({
+    conversationId: id,
+    userId: id,
+    isTyping: z.boolean(),
+    timestamp,
+  }),
+
+  user_status: z.object({
+    userId: id,
+    status: z.enum(['online', 'offline']),
+    // Left out when the user hides it
+    lastSeen: z.string().nullable().optional(),
+    timestamp,
+  }),
+
+  new_conversation: z
+    .object({
+      conversation: document,
+    })
+    .extend(position),
+
+  conversation_update: z
+    .object({
+      conversation: document,
+    })
+    .extend(position),
+};
+
+/**
+ * Check an event against a set of schemas
+ *
+ * Returns the parsed payload, or why the event was rejected.
+ */
+export const parseEvent = (schemas, event, data) => {
+  if (typeof event !== 'string' || !Object.prototype.hasOwnProperty.call(schemas, event)) {
+    return { success: false, error: `Unknown event: ${String(event)}` };
+  }
+
+  const result = schemas[event].safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'payload'}: ${issue.message}`)
+      .join(', ');
+
+    return { success: false, error: `Malformed ${event} event: ${issues}` };
+  }
+
+  return { success: true, data: result.data };
+};
+
+/**
+ * Payload of a server event as it goes over the wire
+ *
+ * Documents are converted to plain JSON first, the way Socket.IO sends them.
+ */
+export const serializeServerEvent = (event, data) => {
+  const result = parseEvent(serverEventSchemas, event, JSON.parse(JSON.stringify(data)));
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  return result.data;
+};
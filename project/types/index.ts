@@ -115,6 +115,17 @@ export interface EncryptedContent {
   checksum: string;
 }
 
+// Signed wrapper around encrypted message content
+export interface MessageEnvelope {
+  type: 'envelope';
+  version: number;
+  senderId: string;
+  conversationId: string;
+  timestamp: number;
+  content: EncryptedContent;
+  signature: string;
+}
+
 export interface MessageMetadata {
   size?: number;
   duration?: number; // for audio/video
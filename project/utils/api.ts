@@ -9,10 +9,13 @@
  * Handles authentication, request/response formatting, and error handling.
  */
 
+import { z } from 'zod';
 import { secureStorage, StorageKeys } from './storage';
+import { messageSchema } from '../shared/realtimeEvents';
+import { SyncPosition } from './messageStore';
 
 // API base URL
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://api.securicomm.app';
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://api.securicomm.app';
 
 // API response interface
 export interface ApiResponse<T = any> {
@@ -23,6 +26,15 @@ export interface ApiResponse<T = any> {
   statusCode?: number;
 }
 
+// Message as the server stores and sends it
+export type ServerMessage = z.infer<typeof messageSchema>;
+
+// Encrypted content of a message; data holds its sealed envelope
+export type MessageContent = NonNullable<ServerMessage['encryptedContent']>;
+
+// Reaction as the server stores it, encrypted for the conversation
+export type ServerReaction = NonNullable<ServerMessage['reactions']>[number];
+
 // API options interface
 export interface ApiOptions {
   headers?: Record<string, string>;
@@ -177,14 +189,17 @@ class ApiService {
       }
       
       // Make request with timeout
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
       const timeoutPromise = new Promise<Response>((_, reject) => {
-        setTimeout(() => {
+        timeoutId = setTimeout(() => {
           reject(new Error('Request timeout'));
         }, options.timeout || 30000);
       });
       
       const fetchPromise = fetch(url, config);
-      const response = await Promise.race([fetchPromise, timeoutPromise]);
+      const response = await Promise.race([fetchPromise, timeoutPromise]).finally(
+        () => clearTimeout(timeoutId)
+      );
       
       return await this.handleResponse<T>(response);
     } catch (error) {
@@ -257,22 +272,35 @@ const auth = {
   async register(
     email: string,
     password: string,
-    displayName: string
+    displayName: string,
+    publicKey: string | undefined,
+    deviceId: string,
+    deviceName: string
   ): Promise<ApiResponse> {
     return await apiService.post('/auth/register', {
       email,
       password,
       displayName,
+      publicKey,
+      deviceId,
+      deviceName,
     });
   },
   
   /**
    * Login user
    */
-  async login(email: string, password: string): Promise<ApiResponse> {
+  async login(
+    email: string,
+    password: string,
+    deviceId: string,
+    deviceName: string
+  ): Promise<ApiResponse> {
     return await apiService.post('/auth/login', {
       email,
       password,
+      deviceId,
+      deviceName,
     });
   },
   
@@ -304,6 +332,26 @@ const auth = {
     return await apiService.put('/auth/profile', data);
   },
   
+  /**
+   * Update privacy settings
+   */
+  async updatePrivacy(settings: {
+    readReceipts?: boolean;
+    lastSeen?: boolean;
+    profileVisibility?: 'everyone' | 'contacts' | 'nobody';
+  }): Promise<ApiResponse> {
+    return await apiService.put('/auth/privacy', settings);
+  },
+  
+  /**
+   * Publish identity public key
+   */
+  async publishPublicKey(publicKey: string): Promise<ApiResponse> {
+    return await apiService.put('/auth/keys', {
+      publicKey,
+    });
+  },
+  
   /**
    * Change password
    */
@@ -433,51 +481,92 @@ const conversations = {
   async markAsRead(id: string): Promise<ApiResponse> {
     return await apiService.post(`/conversations/${id}/read`);
   },
+  
+  /**
+   * Set the disappearing message timer, in seconds (0 turns it off)
+   */
+  async setMessageTimer(id: string, seconds: number): Promise<ApiResponse> {
+    return await apiService.put(`/conversations/${id}/timer`, {
+      seconds,
+    });
+  },
 };
 
 // Messages API
 const messages = {
   /**
    * Get messages by conversation ID
+   *
+   * With `since`, returns messages changed after that sync position, oldest first.
    */
   async getByConversation(
     conversationId: string,
     limit: number = 20,
-    before?: string
-  ): Promise<ApiResponse> {
-    let endpoint = `/messages?conversationId=${conversationId}&limit=${limit}`;
+    before?: string,
+    since?: SyncPosition
+  ): Promise<ApiResponse<{ messages: ServerMessage[]; hasMore: boolean }>> {
+    let endpoint = `/messages/conversation/${conversationId}?limit=${limit}`;
     
     if (before) {
       endpoint += `&before=${before}`;
     }
     
+    if (since) {
+      endpoint += `&since=${encodeURIComponent(since.updatedAt)}&sinceId=${since.messageId}`;
+    }
+    
     return await apiService.get(endpoint);
   },
   
   /**
    * Send message
+   *
+   * The server drops a message whose client ID it has already stored.
    */
   async send(
     conversationId: string,
-    content: string,
-    attachments: any[] = []
-  ): Promise<ApiResponse> {
+    encryptedContent: MessageContent,
+    attachments: any[] = [],
+    clientId?: string
+  ): Promise<ApiResponse<{ message: ServerMessage }>> {
     return await apiService.post('/messages', {
       conversationId,
-      content,
+      encryptedContent,
       attachments,
+      clientId,
     });
   },
   
   /**
    * Update message
+   *
+   * The encrypted content replaces the old content for everyone.
    */
-  async update(id: string, content: string): Promise<ApiResponse> {
+  async update(
+    id: string,
+    encryptedContent: MessageContent
+  ): Promise<ApiResponse<{ message: ServerMessage }>> {
     return await apiService.put(`/messages/${id}`, {
-      content,
+      encryptedContent,
     });
   },
   
+  /**
+   * Set our encrypted reaction to a message
+   */
+  async react(id: string, content: string): Promise<ApiResponse> {
+    return await apiService.put(`/messages/${id}/reactions`, {
+      encryptedContent: content,
+    });
+  },
+  
+  /**
+   * Remove our reaction from a message
+   */
+  async removeReaction(id: string): Promise<ApiResponse> {
+    return await apiService.delete(`/messages/${id}/reactions`);
+  },
+  
   /**
    * Delete message
    */
@@ -565,15 +654,6 @@ const security = {
     });
   },
   
-  /**
-   * Get security logs
-   */
-  async getLogs(limit: number = 20, page: number = 1): Promise<ApiResponse> {
-    return await apiService.get(
-      `/security/logs?limit=${limit}&page=${page}`
-    );
-  },
-  
   /**
    * Report security threat
    */
@@ -605,6 +685,224 @@ const security = {
   },
 };
 
+// Keys API
+const keys = {
+  /**
+   * Upload signed prekey and one-time prekeys
+   */
+  async uploadPrekeys(data: {
+    identityKey: string;
+    signingKey: string;
+    signedPrekey?: {
+      keyId: number;
+      publicKey: string;
+      signature: string;
+    };
+    oneTimePrekeys?: Array<{
+      keyId: number;
+      publicKey: string;
+    }>;
+  }): Promise<ApiResponse> {
+    return await apiService.post('/keys/prekeys', data);
+  },
+  
+  /**
+   * Get number of one-time prekeys left on the server
+   */
+  async getPrekeyCount(): Promise<ApiResponse> {
+    return await apiService.get('/keys/prekeys/count');
+  },
+  
+  /**
+   * Get the prekey bundle of one of a user's devices (claims one one-time prekey)
+   */
+  async getBundle(userId: string, deviceId: string): Promise<ApiResponse> {
+    return await apiService.get(`/keys/bundle/${userId}/${deviceId}`);
+  },
+  
+  /**
+   * Send our group sender key to other members, each encrypted for them
+   */
+  async sendSenderKeys(
+    conversationId: string,
+    distributions: Array<{
+      recipientId: string;
+      content: string;
+    }>
+  ): Promise<ApiResponse> {
+    return await apiService.post('/keys/sender-keys', {
+      conversationId,
+      distributions,
+    });
+  },
+  
+  /**
+   * Get sender keys other members have sent us for a group
+   */
+  async getSenderKeys(conversationId: string): Promise<ApiResponse> {
+    return await apiService.get(`/keys/sender-keys/${conversationId}`);
+  },
+};
+
+// Devices API
+const devices = {
+  /**
+   * Get the devices linked to this account
+   */
+  async list(): Promise<ApiResponse> {
+    return await apiService.get('/devices');
+  },
+  
+  /**
+   * Get the IDs of a user's active devices
+   */
+  async getUserDevices(userId: string): Promise<ApiResponse> {
+    return await apiService.get(`/devices/user/${userId}`);
+  },
+  
+  /**
+   * Revoke a linked device
+   */
+  async revoke(deviceId: string): Promise<ApiResponse> {
+    return await apiService.delete(`/devices/${deviceId}`);
+  },
+  
+  /**
+   * Start linking a new device
+   */
+  async createProvisioning(): Promise<ApiResponse> {
+    return await apiService.post('/devices/provisioning');
+  },
+  
+  /**
+   * Check whether a new device has asked to link
+   */
+  async getProvisioning(provisioningId: string): Promise<ApiResponse> {
+    return await apiService.get(`/devices/provisioning/${provisioningId}`);
+  },
+  
+  /**
+   * Ask to link this device to an account (sent by the new device)
+   */
+  async requestProvisioning(
+    provisioningId: string,
+    data: {
+      deviceId: string;
+      deviceName: string;
+      deviceKey: string;
+      mac: string;
+      claimHash: string;
+    }
+  ): Promise<ApiResponse> {
+    return await apiService.post(`/devices/provisioning/${provisioningId}/request`, data, {
+      requiresAuth: false,
+    });
+  },
+  
+  /**
+   * Approve a new device with identity material encrypted for it
+   */
+  async approveProvisioning(
+    provisioningId: string,
+    nonce: string,
+    ciphertext: string
+  ): Promise<ApiResponse> {
+    return await apiService.post(`/devices/provisioning/${provisioningId}/approve`, {
+      nonce,
+      ciphertext,
+    });
+  },
+  
+  /**
+   * Collect the result of a link request (sent by the new device)
+   */
+  async getProvisioningResult(
+    provisioningId: string,
+    claim: string
+  ): Promise<ApiResponse> {
+    return await apiService.post(
+      `/devices/provisioning/${provisioningId}/result`,
+      { claim },
+      { requiresAuth: false }
+    );
+  },
+};
+
+// Attachments API
+const attachments = {
+  /**
+   * Start uploading an encrypted attachment
+   */
+  async create(conversationId: string, size: number): Promise<ApiResponse> {
+    return await apiService.post('/upload', {
+      conversationId,
+      size,
+    });
+  },
+  
+  /**
+   * Get the state of an attachment upload
+   */
+  async get(attachmentId: string): Promise<ApiResponse> {
+    return await apiService.get(`/upload/${attachmentId}`);
+  },
+  
+  /**
+   * Upload the next part of an attachment
+   */
+  async uploadPart(
+    attachmentId: string,
+    offset: number,
+    part: string,
+    digest: string
+  ): Promise<ApiResponse> {
+    return await apiService.put(
+      `/upload/${attachmentId}/parts`,
+      {
+        offset,
+        part,
+        digest,
+      },
+      { timeout: 120000 }
+    );
+  },
+  
+  /**
+   * Finish an upload
+   */
+  async complete(attachmentId: string, checksum: string): Promise<ApiResponse> {
+    return await apiService.post(`/upload/${attachmentId}/complete`, {
+      checksum,
+    });
+  },
+  
+  /**
+   * Download one part of an attachment
+   */
+  async downloadPart(attachmentId: string, offset: number): Promise<ApiResponse> {
+    return await apiService.get(`/upload/${attachmentId}/parts?offset=${offset}`, {
+      timeout: 120000,
+    });
+  },
+  
+  /**
+   * Delete an attachment
+   */
+  async delete(attachmentId: string): Promise<ApiResponse> {
+    return await apiService.delete(`/upload/${attachmentId}`);
+  },
+};
+
+// Presence API
+const presence = {
+  /**
+   * Get whether users are online and when they were last seen
+   */
+  async get(userIds: string[]): Promise<ApiResponse> {
+    return await apiService.get(`/presence?userIds=${userIds.map(encodeURIComponent).join(',')}`);
+  },
+};
+
 // Export API service
 export const api = {
   service: apiService,
@@ -613,4 +911,8 @@ export const api = {
   messages,
   contacts,
   security,
+  keys,
+  devices,
+  attachments,
+  presence,
 };
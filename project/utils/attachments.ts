@@ -0,0 +1,636 @@
+/**
+ * SecuriComm Attachments Service
+ *
+ * Shares files in conversations without the server seeing their contents.
+ * Each file is encrypted on this device under its own key, uploaded in
+ * parts that are retried and resumed where the server left off, and checked
+ * against its checksum when downloaded. The key, name and type of a file
+ * only travel inside end-to-end encrypted messages; the server stores an
+ * opaque blob per attachment.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { Buffer } from 'buffer';
+import * as FileSystem from 'expo-file-system';
+import { api } from './api';
+import { secureStorage, StorageKeys } from './storage';
+import { SealedRecords } from './sealedRecords';
+import { generateRandomBytes } from './encryption';
+import {
+  FileDecryptor,
+  FileProgressCallback,
+  encryptedFileSize,
+  encryptFileStream,
+} from './fileEncryption';
+import { RichContent, isRichContent, isRecord } from './richMessages';
+import { SecureFile, FileType } from '../types';
+
+// Bytes per uploaded or downloaded part; must match the server
+export const ATTACHMENT_PART_SIZE = 1024 * 1024;
+
+// How often a failed part is sent again before the transfer fails
+const MAX_PART_ATTEMPTS = 5;
+
+// Delay before the first retry of a part, doubled on each attempt
+const PART_RETRY_DELAY = 500;
+
+// Files shown in the file library, a list that outgrows secure storage
+const fileRecords = new SealedRecords({
+  name: 'secure_files',
+  context: 'SecuriComm/secure-files',
+  label: 'File library',
+});
+
+// Encrypted file shared in a conversation, as carried inside a message
+export interface Attachment {
+  _id: string;
+  name: string;
+  type: string;
+  size: number;
+  key: string;
+  checksum: string;
+}
+
+// File that can be read piece by piece
+export interface AttachmentSource {
+  name: string;
+  mimeType: string;
+  size: number;
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+// Receives plaintext as a download is decrypted
+export type AttachmentSink = (chunk: Uint8Array) => Promise<void> | void;
+
+// Where a file came from
+export interface FileOrigin {
+  conversationId: string;
+  uploaderId: string;
+  uploadedBy: string;
+  sharedWith: string[];
+}
+
+// File kept in the library
+interface StoredFile extends FileOrigin {
+  attachment: Attachment;
+  uploadedAt: number;
+  downloadCount: number;
+}
+
+// Message a reply quotes, as carried inside the reply
+export interface MessageReply {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  preview: string;
+}
+
+// Earlier version of an edited message and when it was written
+export interface MessageEdit {
+  content: string;
+  createdAt: string;
+}
+
+// Parts of a message besides its text and files
+export interface MessageExtras {
+  replyTo?: MessageReply;
+  edits?: MessageEdit[];
+  rich?: RichContent;
+}
+
+// Message content that carries attachments, a quoted message, edit history or a
+// rich message; older clients read the text and attachments and ignore the rest
+interface AttachmentMessageBody extends MessageExtras {
+  type: 'attachments';
+  version: 1;
+  text: string;
+  attachments: Attachment[];
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+/**
+ * Checksum of an encrypted file: SHA-512 over the SHA-512 of each part
+ */
+const computeChecksum = (partDigests: Uint8Array[]): string => {
+  const digests = new Uint8Array(partDigests.length * nacl.hash.hashLength);
+
+  partDigests.forEach((digest, i) => digests.set(digest, i * nacl.hash.hashLength));
+
+  return toHex(nacl.hash(digests));
+};
+
+const isReply = (value: unknown): value is MessageReply => {
+  return (
+    isRecord(value) &&
+    typeof value.messageId === 'string' &&
+    typeof value.senderId === 'string' &&
+    typeof value.senderName === 'string' &&
+    typeof value.preview === 'string'
+  );
+};
+
+const isEdit = (value: unknown): value is MessageEdit => {
+  return isRecord(value) && typeof value.content === 'string' && typeof value.createdAt === 'string';
+};
+
+const isAttachment = (value: unknown): value is Attachment => {
+  return (
+    isRecord(value) &&
+    typeof value._id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.type === 'string' &&
+    typeof value.size === 'number' &&
+    typeof value.key === 'string' &&
+    typeof value.checksum === 'string'
+  );
+};
+
+/**
+ * Kind of file shown in the file library
+ */
+export const getFileType = (mimeType: string): FileType => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+
+  if (/(zip|tar|gzip|rar|7z)/.test(mimeType)) {
+    return 'archive';
+  }
+
+  if (
+    mimeType.startsWith('text/') ||
+    /(pdf|msword|officedocument|rtf|opendocument)/.test(mimeType)
+  ) {
+    return 'document';
+  }
+
+  return 'other';
+};
+
+/**
+ * Message content with attachments and extras; plain text is sent as is
+ */
+export const encodeMessageBody = (
+  text: string,
+  attachments: Attachment[] = [],
+  extras: MessageExtras = {}
+): string => {
+  const edits = extras.edits?.length ? extras.edits : undefined;
+
+  if (attachments.length === 0 && !extras.replyTo && !edits && !extras.rich) {
+    return text;
+  }
+
+  const body: AttachmentMessageBody = {
+    type: 'attachments',
+    version: 1,
+    text,
+    attachments,
+    replyTo: extras.replyTo,
+    edits,
+    rich: extras.rich,
+  };
+
+  return JSON.stringify(body);
+};
+
+/**
+ * Split decrypted message content into its text, attachments and extras
+ */
+export const decodeMessageBody = (
+  plaintext: string
+): { content: string; attachments: Attachment[] } & MessageExtras => {
+  try {
+    const body: unknown = JSON.parse(plaintext);
+
+    if (
+      isRecord(body) &&
+      body.type === 'attachments' &&
+      body.version === 1 &&
+      typeof body.text === 'string' &&
+      Array.isArray(body.attachments)
+    ) {
+      return {
+        content: body.text,
+        attachments: body.attachments.filter(isAttachment),
+        replyTo: isReply(body.replyTo) ? body.replyTo : undefined,
+        edits: Array.isArray(body.edits) ? body.edits.filter(isEdit) : undefined,
+        rich: isRichContent(body.rich) ? body.rich : undefined,
+      };
+    }
+  } catch {
+    // Plain text
+  }
+
+  return { content: plaintext, attachments: [] };
+};
+
+/**
+ * Source for a file already in memory
+ */
+export const bytesSource = (
+  data: Uint8Array,
+  name: string,
+  mimeType: string
+): AttachmentSource => ({
+  name,
+  mimeType,
+  size: data.length,
+  read: async (offset, length) => data.subarray(offset, offset + length),
+});
+
+/**
+ * Source for a file on the device, read a part at a time
+ */
+export const fileSource = async (
+  uri: string,
+  name: string,
+  mimeType: string
+): Promise<AttachmentSource> => {
+  const info = await FileSystem.getInfoAsync(uri);
+
+  if (!info.exists || info.isDirectory) {
+    throw new Error('File not found');
+  }
+
+  return {
+    name,
+    mimeType,
+    size: info.size,
+    read: async (offset, length) =>
+      util.decodeBase64(
+        await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position: offset,
+          length,
+        })
+      ),
+  };
+};
+
+export class AttachmentManager {
+  private static instance: AttachmentManager;
+  private files: Record<string, StoredFile> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AttachmentManager {
+    if (!AttachmentManager.instance) {
+      AttachmentManager.instance = new AttachmentManager();
+    }
+    return AttachmentManager.instance;
+  }
+
+  /**
+   * Encrypt and upload a file to share in a conversation
+   *
+   * Progress counts encrypted bytes the server has stored.
+   */
+  public async upload(
+    source: AttachmentSource,
+    origin: FileOrigin,
+    onProgress?: FileProgressCallback
+  ): Promise<Attachment> {
+    const key = util.encodeBase64(await generateRandomBytes(nacl.secretbox.keyLength));
+    const totalBytes = encryptedFileSize(source.size);
+    const created = await api.attachments.create(origin.conversationId, totalBytes);
+
+    if (!created.success || !created.data?.attachmentId) {
+      throw new Error(created.error || 'Failed to start upload');
+    }
+
+    const attachmentId: string = String(created.data.attachmentId);
+    const partDigests: Uint8Array[] = [];
+    let part = new Uint8Array(0);
+    let offset = 0;
+    let checksum: string;
+
+    const sendPart = async (data: Uint8Array) => {
+      const digest = nacl.hash(data);
+
+      await this.sendPart(attachmentId, offset, data, digest);
+      partDigests.push(digest);
+      offset += data.length;
+      onProgress?.({ processedBytes: offset, totalBytes });
+    };
+
+    try {
+      for await (const piece of encryptFileStream(this.readSource(source), source.size, key)) {
+        const joined = new Uint8Array(part.length + piece.length);
+        joined.set(part);
+        joined.set(piece, part.length);
+        part = joined;
+
+        while (part.length >= ATTACHMENT_PART_SIZE) {
+          await sendPart(part.slice(0, ATTACHMENT_PART_SIZE));
+          part = part.slice(ATTACHMENT_PART_SIZE);
+        }
+      }
+
+      if (part.length > 0) {
+        await sendPart(part);
+      }
+
+      checksum = computeChecksum(partDigests);
+      const completed = await api.attachments.complete(attachmentId, checksum);
+
+      if (!completed.success) {
+        throw new Error(completed.error || 'Failed to complete upload');
+      }
+    } catch (error) {
+      console.error('Upload attachment error:', error);
+
+      // Nothing else can finish this upload
+      await api.attachments.delete(attachmentId);
+      throw error;
+    }
+
+    const attachment: Attachment = {
+      _id: attachmentId,
+      name: source.name,
+      type: source.mimeType,
+      size: source.size,
+      key,
+      checksum,
+    };
+
+    await this.recordFiles([attachment], origin);
+
+    return attachment;
+  }
+
+  /**
+   * Download, verify and decrypt an attachment
+   *
+   * Plaintext is passed to the sink as soon as each chunk authenticates. If
+   * this throws, whatever the sink received must be discarded.
+   */
+  public async download(
+    attachment: Attachment,
+    sink: AttachmentSink,
+    onProgress?: FileProgressCallback
+  ): Promise<void> {
+    const state = await api.attachments.get(attachment._id);
+
+    if (!state.success || state.data?.status !== 'complete') {
+      throw new Error(state.error || 'Attachment is not available');
+    }
+
+    const totalBytes: number = state.data.size;
+    const decryptor = new FileDecryptor(attachment.key);
+    const partDigests: Uint8Array[] = [];
+
+    for (let offset = 0; offset < totalBytes; offset += ATTACHMENT_PART_SIZE) {
+      const part = await this.fetchPart(attachment._id, offset);
+
+      if (part.length !== Math.min(ATTACHMENT_PART_SIZE, totalBytes - offset)) {
+        throw new Error('Attachment part has the wrong size');
+      }
+
+      partDigests.push(nacl.hash(part));
+
+      for (const chunk of decryptor.push(part)) {
+        await sink(chunk);
+      }
+
+      onProgress?.({ processedBytes: offset + part.length, totalBytes });
+    }
+
+    if (computeChecksum(partDigests) !== attachment.checksum) {
+      throw new Error('Attachment checksum mismatch');
+    }
+
+    await sink(decryptor.finish());
+    await this.updateFile(attachment._id, (file) => {
+      file.downloadCount++;
+    });
+  }
+
+  /**
+   * Download and decrypt an attachment into memory
+   */
+  public async downloadData(
+    attachment: Attachment,
+    onProgress?: FileProgressCallback
+  ): Promise<Uint8Array> {
+    const data = new Uint8Array(attachment.size);
+    let offset = 0;
+
+    await this.download(
+      attachment,
+      (chunk) => {
+        if (offset + chunk.length > data.length) {
+          throw new Error('Attachment is larger than announced');
+        }
+
+        data.set(chunk, offset);
+        offset += chunk.length;
+      },
+      onProgress
+    );
+
+    if (offset !== data.length) {
+      throw new Error('Attachment is smaller than announced');
+    }
+
+    return data;
+  }
+
+  /**
+   * Add attachments sent or received in a conversation to the file library
+   */
+  public async recordFiles(attachments: Attachment[], origin: FileOrigin): Promise<void> {
+    const files = await this.loadFiles();
+    const newAttachments = attachments.filter((attachment) => !files[attachment._id]);
+
+    if (newAttachments.length === 0) {
+      return;
+    }
+
+    newAttachments.forEach((attachment) => {
+      files[attachment._id] = {
+        ...origin,
+        attachment,
+        uploadedAt: Date.now(),
+        downloadCount: 0,
+      };
+    });
+
+    await fileRecords.write('library', files);
+  }
+
+  /**
+   * Files in the library, newest first
+   */
+  public async getFiles(): Promise<SecureFile[]> {
+    const files = await this.loadFiles();
+    const userId = await secureStorage.getItem(StorageKeys.USER_ID);
+
+    return Object.values(files)
+      .sort((a, b) => b.uploadedAt - a.uploadedAt)
+      .map((file) => ({
+        id: file.attachment._id,
+        name: file.attachment.name,
+        type: getFileType(file.attachment.type),
+        size: file.attachment.size,
+        mimeType: file.attachment.type,
+        uploadedAt: file.uploadedAt,
+        uploadedBy: file.uploadedBy,
+        encryptionLevel: 'military',
+        accessLevel: file.sharedWith.length > 1 ? 'group' : 'private',
+        downloadCount: file.downloadCount,
+        isEncrypted: true,
+        checksum: file.attachment.checksum,
+        permissions: {
+          canDownload: true,
+          canShare: true,
+          canDelete: file.uploaderId === userId,
+          canView: true,
+          canEdit: false,
+        },
+        sharedWith: file.sharedWith,
+        tags: [],
+        metadata: {},
+      }));
+  }
+
+  /**
+   * Get the attachment behind a file in the library
+   */
+  public async getAttachment(fileId: string): Promise<Attachment | null> {
+    const files = await this.loadFiles();
+    return files[fileId]?.attachment || null;
+  }
+
+  /**
+   * Remove a file from the library, deleting it from the server if we sent it
+   */
+  public async deleteFile(fileId: string): Promise<void> {
+    const files = await this.loadFiles();
+    const file = files[fileId];
+
+    if (!file) {
+      return;
+    }
+
+    if (file.uploaderId === (await secureStorage.getItem(StorageKeys.USER_ID))) {
+      const response = await api.attachments.delete(fileId);
+
+      if (!response.success && response.statusCode !== 404) {
+        throw new Error(response.error || 'Failed to delete file');
+      }
+    }
+
+    delete files[fileId];
+    await fileRecords.write('library', files);
+  }
+
+  /**
+   * Remove files from the library without deleting their uploads
+   */
+  public async removeFiles(fileIds: string[]): Promise<void> {
+    const files = await this.loadFiles();
+
+    if (!fileIds.some((fileId) => files[fileId])) {
+      return;
+    }
+
+    fileIds.forEach((fileId) => {
+      delete files[fileId];
+    });
+    await fileRecords.write('library', files);
+  }
+
+  /**
+   * Forget the file library kept in memory (e.g. on logout)
+   */
+  public clearMemoryFiles(): void {
+    this.files = null;
+    fileRecords.clearMemoryKey();
+  }
+
+  private async *readSource(source: AttachmentSource): AsyncGenerator<Uint8Array> {
+    for (let offset = 0; offset < source.size; offset += ATTACHMENT_PART_SIZE) {
+      yield await source.read(offset, Math.min(ATTACHMENT_PART_SIZE, source.size - offset));
+    }
+  }
+
+  /**
+   * Upload one part, retrying until the server has stored it
+   */
+  private async sendPart(
+    attachmentId: string,
+    offset: number,
+    data: Uint8Array,
+    digest: Uint8Array
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const response = await api.attachments.uploadPart(
+        attachmentId,
+        offset,
+        util.encodeBase64(data),
+        toHex(digest)
+      );
+
+      if (response.success) {
+        return;
+      }
+
+      // The part may have been stored even though the response was lost
+      const state = await api.attachments.get(attachmentId);
+      const uploadedBytes = state.success ? state.data?.uploadedBytes : undefined;
+
+      if (uploadedBytes === offset + data.length) {
+        return;
+      }
+
+      if (attempt >= MAX_PART_ATTEMPTS || (uploadedBytes !== undefined && uploadedBytes !== offset)) {
+        throw new Error(response.error || 'Failed to upload attachment');
+      }
+
+      await wait(PART_RETRY_DELAY * 2 ** (attempt - 1));
+    }
+  }
+
+  /**
+   * Download one part, retrying failed requests
+   */
+  private async fetchPart(attachmentId: string, offset: number): Promise<Uint8Array> {
+    for (let attempt = 1; ; attempt++) {
+      const response = await api.attachments.downloadPart(attachmentId, offset);
+
+      if (response.success && typeof response.data?.part === 'string') {
+        return util.decodeBase64(response.data.part);
+      }
+
+      if (attempt >= MAX_PART_ATTEMPTS) {
+        throw new Error(response.error || 'Failed to download attachment');
+      }
+
+      await wait(PART_RETRY_DELAY * 2 ** (attempt - 1));
+    }
+  }
+
+  private async updateFile(fileId: string, update: (file: StoredFile) => void): Promise<void> {
+    const files = await this.loadFiles();
+
+    if (files[fileId]) {
+      update(files[fileId]);
+      await fileRecords.write('library', files);
+    }
+  }
+
+  private async loadFiles(): Promise<Record<string, StoredFile>> {
+    if (!this.files) {
+      this.files = (await fileRecords.read<Record<string, StoredFile>>('library')) || {};
+    }
+
+    return this.files;
+  }
+}
+
+export const attachmentManager = AttachmentManager.getInstance();
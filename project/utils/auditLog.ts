@@ -0,0 +1,306 @@
+/**
+ * SecuriComm Security Audit Log
+ *
+ * Append-only record of what happened to this device's security: sign-ins,
+ * key operations, emergency mode and threat detections. Every entry holds
+ * the hash of the entry before it, so changing, removing or reordering an
+ * entry breaks the chain from that point on. The number of entries and the
+ * hash of the newest one are kept apart from the entries, so cutting off
+ * the end of the log is noticed too. The head is kept in secure storage and
+ * the entries in sealed pages; neither ever leaves the device.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { Buffer } from 'buffer';
+import { secureStorage } from './storage';
+import { SealedRecords } from './sealedRecords';
+
+// Entries kept in one stored page
+const AUDIT_PAGE_SIZE = 50;
+
+// Hash the first entry chains to
+const GENESIS_HASH = '0'.repeat(nacl.hash.hashLength * 2);
+
+// Storage key for the newest entry
+const HEAD_STORAGE_KEY = 'audit_log_head';
+
+// Pages of entries, each more than secure storage holds
+const pageRecords = new SealedRecords({
+  name: 'audit_log',
+  context: 'SecuriComm/audit-log',
+  label: 'Audit log',
+});
+
+export type AuditCategory = 'auth' | 'key' | 'emergency' | 'threat';
+
+export type AuditSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type AuditDetails = Record<string, string | number | boolean | null>;
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: number;
+  category: AuditCategory;
+  action: string;
+  severity: AuditSeverity;
+  description: string;
+  details?: AuditDetails;
+  prevHash: string;
+  hash: string;
+}
+
+// Entries of one page of the log, newest first
+export interface AuditPage {
+  entries: AuditEntry[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+}
+
+// Result of checking the chain
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // Sequence number of the first entry that does not fit the chain
+  brokenAt: number | null;
+  reason?: string;
+  verifiedAt: number;
+}
+
+interface AuditHead {
+  count: number;
+  hash: string;
+}
+
+export interface AuditOptions {
+  severity?: AuditSeverity;
+  details?: AuditDetails;
+}
+
+const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+/**
+ * Hash of an entry over every field but the hash itself
+ */
+export const hashAuditEntry = (entry: Omit<AuditEntry, 'hash'>): string => {
+  const details = entry.details
+    ? Object.keys(entry.details).sort().map((key) => [key, entry.details![key]])
+    : null;
+
+  const canonical = JSON.stringify([
+    entry.seq,
+    entry.timestamp,
+    entry.category,
+    entry.action,
+    entry.severity,
+    entry.description,
+    details,
+    entry.prevHash,
+  ]);
+
+  return toHex(nacl.hash(util.decodeUTF8(canonical)));
+};
+
+/**
+ * Audit severity of a 0-10 threat score
+ */
+export const toAuditSeverity = (score: number): AuditSeverity => {
+  if (score >= 9) return 'critical';
+  if (score >= 6) return 'high';
+  if (score >= 3) return 'medium';
+  return 'low';
+};
+
+export class AuditLog {
+  private static instance: AuditLog;
+  private head: AuditHead | null = null;
+  private pages = new Map<number, AuditEntry[]>();
+  private pending: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  /**
+   * Add an entry to the end of the log
+   *
+   * Failing to write the log never fails what is being logged, so errors
+   * are reported and null is returned.
+   */
+  public async append(
+    category: AuditCategory,
+    action: string,
+    description: string,
+    options: AuditOptions = {}
+  ): Promise<AuditEntry | null> {
+    try {
+      return await this.exclusive(async () => {
+        const head = await this.loadHead();
+        const pageId = Math.floor(head.count / AUDIT_PAGE_SIZE);
+        const page = await this.loadPage(pageId);
+
+        const unsigned: Omit<AuditEntry, 'hash'> = {
+          seq: head.count,
+          timestamp: Date.now(),
+          category,
+          action,
+          severity: options.severity || 'low',
+          description,
+          ...(options.details && { details: options.details }),
+          prevHash: head.hash,
+        };
+        const entry: AuditEntry = { ...unsigned, hash: hashAuditEntry(unsigned) };
+
+        // Anything past the head was never committed
+        const entries = [...page.slice(0, head.count % AUDIT_PAGE_SIZE), entry];
+
+        await pageRecords.write(`page.${pageId}`, entries);
+        this.pages.set(pageId, entries);
+
+        this.head = { count: head.count + 1, hash: entry.hash };
+        await secureStorage.setObject(HEAD_STORAGE_KEY, this.head);
+
+        return entry;
+      });
+    } catch (error) {
+      console.error('Append audit log error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a page of entries, newest first; pages start at 1
+   */
+  public async getPage(limit: number = 20, page: number = 1): Promise<AuditPage> {
+    return await this.exclusive(async () => {
+      const head = await this.loadHead();
+      const newest = head.count - 1 - (page - 1) * limit;
+      const oldest = Math.max(0, newest - limit + 1);
+      const entries: AuditEntry[] = [];
+
+      for (let seq = newest; seq >= oldest; seq--) {
+        const stored = await this.loadPage(Math.floor(seq / AUDIT_PAGE_SIZE));
+        const entry = stored[seq % AUDIT_PAGE_SIZE];
+
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+
+      return {
+        entries,
+        page,
+        total: head.count,
+        hasMore: oldest > 0,
+      };
+    });
+  }
+
+  /**
+   * Check that no entry was changed, removed, reordered or cut off
+   */
+  public async verify(): Promise<AuditVerification> {
+    return await this.exclusive(async () => {
+      // Read what is stored, not what this session remembers
+      this.head = null;
+      this.pages.clear();
+
+      const head = await this.loadHead();
+      let prevHash = GENESIS_HASH;
+
+      const result = (brokenAt: number | null, reason?: string): AuditVerification => ({
+        valid: brokenAt === null,
+        checked: brokenAt === null ? head.count : brokenAt,
+        brokenAt,
+        reason,
+        verifiedAt: Date.now(),
+      });
+
+      for (let seq = 0; seq < head.count; seq++) {
+        let entry: AuditEntry | undefined;
+
+        try {
+          entry = (await this.loadPage(Math.floor(seq / AUDIT_PAGE_SIZE)))[seq % AUDIT_PAGE_SIZE];
+        } catch {
+          return result(seq, 'Page failed authentication');
+        }
+
+        if (!entry) {
+          return result(seq, 'Entry is missing');
+        }
+
+        if (entry.seq !== seq || entry.prevHash !== prevHash) {
+          return result(seq, 'Entry does not follow the one before it');
+        }
+
+        const { hash, ...unsigned } = entry;
+
+        if (hashAuditEntry(unsigned) !== hash) {
+          return result(seq, 'Entry was changed');
+        }
+
+        prevHash = hash;
+      }
+
+      // A log whose head was removed looks empty
+      if (head.count === 0 && (await this.loadPage(0)).length > 0) {
+        return result(0, 'Log head is missing');
+      }
+
+      if (prevHash !== head.hash) {
+        return result(head.count, 'Log head does not match the newest entry');
+      }
+
+      return result(null);
+    });
+  }
+
+  /**
+   * Forget entries kept in memory (e.g. on logout); the log itself stays
+   */
+  public clearMemoryAudit(): void {
+    this.head = null;
+    this.pages.clear();
+    pageRecords.clearMemoryKey();
+  }
+
+  /**
+   * Run log operations one at a time
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task, task);
+
+    this.pending = result.catch(() => undefined);
+
+    return result;
+  }
+
+  private async loadHead(): Promise<AuditHead> {
+    if (!this.head) {
+      this.head =
+        (await secureStorage.getObject<AuditHead>(HEAD_STORAGE_KEY)) ||
+        { count: 0, hash: GENESIS_HASH };
+    }
+
+    return this.head;
+  }
+
+  private async loadPage(pageId: number): Promise<AuditEntry[]> {
+    let page = this.pages.get(pageId);
+
+    if (!page) {
+      page = (await pageRecords.read<AuditEntry[]>(`page.${pageId}`)) || [];
+      this.pages.set(pageId, page);
+    }
+
+    return page;
+  }
+}
+
+export const auditLog = AuditLog.getInstance();
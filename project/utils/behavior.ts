@@ -0,0 +1,474 @@
+/**
+ * SecuriComm Behaviour Monitor
+ *
+ * Learns how the signed-in user normally uses the app from events the app
+ * already sees: when they sign in, how fast they send messages, how many
+ * conversations they start, which devices their account has and how often
+ * signing in fails. The model stays on the device in secure storage. Each
+ * assessment scores how far the latest activity is from that baseline and
+ * says why, so the threat detectors can explain what they report.
+ */
+
+import { secureStorage, StorageKeys } from './storage';
+import { devices } from './devices';
+import { ThreatFactors } from '../types';
+
+// Sign-ins learned before a sign-in time is judged
+const MIN_LOGIN_SAMPLES = 10;
+
+// Share of past sign-ins below which a sign-in hour is unusual
+const UNUSUAL_LOGIN_SHARE = 0.05;
+
+// Weight kept by older sign-ins each time a new one is learned
+const LOGIN_DECAY = 0.98;
+
+// Active periods needed before a rate is judged
+const MIN_RATE_SAMPLES = 20;
+
+// Periods a rate baseline averages over; older ones fade out
+const MAX_RATE_SAMPLES = 500;
+
+// Standard deviations above normal at which a rate is unusual
+const RATE_DEVIATION_LIMIT = 3;
+
+// Period over which messages sent are counted
+const SEND_RATE_PERIOD = 60 * 1000;
+
+// Fewest messages in a period that can count as unusual
+const MIN_SEND_BURST = 5;
+
+// Period over which new conversations are counted
+const CONVERSATION_RATE_PERIOD = 10 * 60 * 1000;
+
+// Fewest conversations in a period that can count as unusual
+const MIN_CONVERSATION_BURST = 3;
+
+// Conversations in a period that are too many while there is no baseline
+const MAX_CONVERSATION_BURST = 10;
+
+// Period over which failed sign-ins are counted
+const FAILED_AUTH_WINDOW = 15 * 60 * 1000;
+
+// Failed sign-ins in the window that are still ordinary typos
+const FAILED_AUTH_LIMIT = 2;
+
+// How long new devices and failed sign-ins are remembered
+const EVENT_RETENTION = 24 * 60 * 60 * 1000;
+
+// How often the account's devices are checked for new ones
+const DEVICE_CHECK_INTERVAL = 10 * 60 * 1000;
+
+// Storage key prefix for a user's behaviour profile
+const PROFILE_STORAGE_PREFIX = 'behavior_profile_';
+
+// Storage key for failed sign-ins on this device, whoever tried
+const FAILED_AUTH_STORAGE_KEY = 'behavior_failed_auth';
+
+export type BehaviorEventType = 'login' | 'message_sent' | 'conversation_created' | 'auth_failed';
+
+// One explainable part of an assessment; score is 0-10
+export interface BehaviorFactor {
+  id: 'login_time' | 'send_rate' | 'conversation_burst' | 'new_device' | 'failed_auth';
+  factor: keyof ThreatFactors;
+  score: number;
+  explanation: string;
+  observed: number;
+  expected: number | null;
+}
+
+export interface BehaviorAssessment {
+  // Still too little history to judge everything
+  learning: boolean;
+  factors: BehaviorFactor[];
+}
+
+// Running mean and variance of a count per period
+interface RateBaseline {
+  samples: number;
+  mean: number;
+  variance: number;
+  periodStart: number;
+  periodCount: number;
+}
+
+interface NewDevice {
+  deviceId: string;
+  name: string;
+  seenAt: number;
+}
+
+interface BehaviorProfile {
+  loginHours: number[];
+  logins: number;
+  lastLogin: { at: number; share: number } | null;
+  sendRate: RateBaseline;
+  conversationRate: RateBaseline;
+  knownDevices: string[] | null;
+  newDevices: NewDevice[];
+  lastDeviceCheck: number;
+}
+
+const createBaseline = (): RateBaseline => ({
+  samples: 0,
+  mean: 0,
+  variance: 0,
+  periodStart: 0,
+  periodCount: 0,
+});
+
+const createProfile = (): BehaviorProfile => ({
+  loginHours: new Array(24).fill(0),
+  logins: 0,
+  lastLogin: null,
+  sendRate: createBaseline(),
+  conversationRate: createBaseline(),
+  knownDevices: null,
+  newDevices: [],
+  lastDeviceCheck: 0,
+});
+
+/**
+ * Count an event in its period, learning from the period it closes
+ *
+ * Only periods with activity are learned, so the baseline is the rate while
+ * the user is active rather than diluted by the hours they are away.
+ */
+const observeRate = (baseline: RateBaseline, at: number, period: number): void => {
+  const periodStart = at - (at % period);
+
+  if (periodStart !== baseline.periodStart) {
+    if (baseline.periodCount > 0) {
+      const samples = Math.min(baseline.samples + 1, MAX_RATE_SAMPLES);
+      const delta = baseline.periodCount - baseline.mean;
+
+      baseline.mean += delta / samples;
+      baseline.variance = (1 - 1 / samples) * (baseline.variance + (delta * delta) / samples);
+      baseline.samples = samples;
+    }
+
+    baseline.periodStart = periodStart;
+    baseline.periodCount = 0;
+  }
+
+  baseline.periodCount += 1;
+};
+
+const currentRate = (baseline: RateBaseline, now: number, period: number): number => {
+  return baseline.periodStart === now - (now % period) ? baseline.periodCount : 0;
+};
+
+const rateDeviation = (observed: number, baseline: RateBaseline): number => {
+  return (observed - baseline.mean) / Math.max(Math.sqrt(baseline.variance), 1);
+};
+
+const formatHour = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Share of past sign-ins within an hour of the given one
+ */
+const loginShare = (loginHours: number[], hour: number): number => {
+  const total = loginHours.reduce((sum, count) => sum + count, 0);
+
+  if (total === 0) {
+    return 0;
+  }
+
+  const around = [hour + 23, hour, hour + 1].reduce(
+    (sum, h) => sum + loginHours[h % 24],
+    0
+  );
+
+  return around / total;
+};
+
+export class BehaviorMonitor {
+  private static instance: BehaviorMonitor;
+  private userId: string | null = null;
+  private profile: BehaviorProfile | null = null;
+  private failedAuth: number[] | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): BehaviorMonitor {
+    if (!BehaviorMonitor.instance) {
+      BehaviorMonitor.instance = new BehaviorMonitor();
+    }
+    return BehaviorMonitor.instance;
+  }
+
+  /**
+   * Learn from something the user did
+   *
+   * Failed sign-ins are kept for the device, since nobody is signed in when
+   * they happen. Everything else belongs to the signed-in user.
+   */
+  public async record(type: BehaviorEventType, at: number = Date.now()): Promise<void> {
+    if (type === 'auth_failed') {
+      const failedAuth = await this.loadFailedAuth();
+
+      failedAuth.push(at);
+      this.failedAuth = failedAuth.filter((time) => time > at - EVENT_RETENTION);
+      await secureStorage.setObject(FAILED_AUTH_STORAGE_KEY, this.failedAuth);
+      return;
+    }
+
+    const profile = await this.load();
+
+    if (!profile) {
+      return;
+    }
+
+    switch (type) {
+      case 'login': {
+        const hour = new Date(at).getHours();
+
+        // Judged against the sign-ins before it
+        profile.lastLogin = { at, share: loginShare(profile.loginHours, hour) };
+        profile.loginHours = profile.loginHours.map((count) => count * LOGIN_DECAY);
+        profile.loginHours[hour] += 1;
+        profile.logins += 1;
+        break;
+      }
+      case 'message_sent':
+        observeRate(profile.sendRate, at, SEND_RATE_PERIOD);
+        break;
+      case 'conversation_created':
+        observeRate(profile.conversationRate, at, CONVERSATION_RATE_PERIOD);
+        break;
+    }
+
+    await this.save();
+
+    if (type === 'login') {
+      await this.checkDevices(at);
+    }
+  }
+
+  /**
+   * Score the latest activity against what is normal for the user
+   */
+  public async assess(now: number = Date.now()): Promise<BehaviorAssessment> {
+    const profile = await this.load();
+    const factors: BehaviorFactor[] = [this.assessFailedAuth(await this.loadFailedAuth(), now)];
+
+    if (!profile) {
+      return { learning: true, factors };
+    }
+
+    if (now - profile.lastDeviceCheck >= DEVICE_CHECK_INTERVAL) {
+      await this.checkDevices(now);
+    }
+
+    factors.push(
+      this.assessLoginTime(profile),
+      this.assessSendRate(profile, now),
+      this.assessConversationBurst(profile, now),
+      this.assessNewDevices(profile, now)
+    );
+
+    return {
+      learning: profile.logins <= MIN_LOGIN_SAMPLES || profile.sendRate.samples < MIN_RATE_SAMPLES,
+      factors,
+    };
+  }
+
+  /**
+   * Forget the profile kept in memory (e.g. on logout)
+   */
+  public clearMemoryBehavior(): void {
+    this.userId = null;
+    this.profile = null;
+    this.failedAuth = null;
+  }
+
+  private assessLoginTime(profile: BehaviorProfile): BehaviorFactor {
+    const lastLogin = profile.lastLogin;
+    const usualHour = profile.loginHours.indexOf(Math.max(...profile.loginHours));
+
+    if (!lastLogin || profile.logins <= MIN_LOGIN_SAMPLES) {
+      return {
+        id: 'login_time',
+        factor: 'timeBasedThreats',
+        score: 0,
+        explanation: `Learning usual sign-in times (${profile.logins} sign-ins so far)`,
+        observed: lastLogin ? new Date(lastLogin.at).getHours() : 0,
+        expected: null,
+      };
+    }
+
+    const hour = new Date(lastLogin.at).getHours();
+    const percent = Math.round(lastLogin.share * 100);
+    const isUnusual = lastLogin.share < UNUSUAL_LOGIN_SHARE;
+
+    return {
+      id: 'login_time',
+      factor: 'timeBasedThreats',
+      score: isUnusual ? Math.max(1, Math.round(6 * (1 - lastLogin.share / UNUSUAL_LOGIN_SHARE))) : 0,
+      explanation: isUnusual
+        ? `Signed in around ${formatHour(hour)}, when only ${percent}% of past sign-ins happened`
+        : `Signed in around ${formatHour(hour)}, a usual time (${percent}% of past sign-ins)`,
+      observed: hour,
+      expected: usualHour,
+    };
+  }
+
+  private assessSendRate(profile: BehaviorProfile, now: number): BehaviorFactor {
+    const baseline = profile.sendRate;
+    const observed = currentRate(baseline, now, SEND_RATE_PERIOD);
+    const expected = Math.round(baseline.mean * 10) / 10;
+
+    if (baseline.samples < MIN_RATE_SAMPLES) {
+      return {
+        id: 'send_rate',
+        factor: 'behaviorPattern',
+        score: 0,
+        explanation: `Learning usual sending rate (${baseline.samples} of ${MIN_RATE_SAMPLES} active minutes)`,
+        observed,
+        expected: null,
+      };
+    }
+
+    const deviation = rateDeviation(observed, baseline);
+    const isUnusual = observed >= MIN_SEND_BURST && deviation >= RATE_DEVIATION_LIMIT;
+
+    return {
+      id: 'send_rate',
+      factor: 'behaviorPattern',
+      score: isUnusual ? Math.min(10, Math.round(deviation)) : 0,
+      explanation: isUnusual
+        ? `${observed} messages sent this minute, far above the usual ${expected}`
+        : `${observed} messages sent this minute, usually ${expected}`,
+      observed,
+      expected,
+    };
+  }
+
+  private assessConversationBurst(profile: BehaviorProfile, now: number): BehaviorFactor {
+    const baseline = profile.conversationRate;
+    const observed = currentRate(baseline, now, CONVERSATION_RATE_PERIOD);
+    const hasBaseline = baseline.samples >= MIN_RATE_SAMPLES;
+    const expected = hasBaseline ? Math.round(baseline.mean * 10) / 10 : null;
+    let score = 0;
+
+    if (hasBaseline) {
+      const deviation = rateDeviation(observed, baseline);
+
+      if (observed >= MIN_CONVERSATION_BURST && deviation >= RATE_DEVIATION_LIMIT) {
+        score = Math.min(10, Math.round(deviation));
+      }
+    } else if (observed >= MAX_CONVERSATION_BURST) {
+      // Without a baseline only an outright burst counts
+      score = 5;
+    }
+
+    return {
+      id: 'conversation_burst',
+      factor: 'behaviorPattern',
+      score,
+      explanation: score > 0
+        ? `${observed} conversations started in 10 minutes, more than usual`
+        : `${observed} conversations started in the last 10 minutes`,
+      observed,
+      expected,
+    };
+  }
+
+  private assessNewDevices(profile: BehaviorProfile, now: number): BehaviorFactor {
+    const recent = profile.newDevices.filter((device) => device.seenAt > now - EVENT_RETENTION);
+
+    return {
+      id: 'new_device',
+      factor: 'behaviorPattern',
+      score: recent.length > 0 ? Math.min(10, 3 + 2 * recent.length) : 0,
+      explanation: recent.length > 0
+        ? `New devices signed in within a day: ${recent.map((device) => device.name).join(', ')}`
+        : 'No new devices signed in within a day',
+      observed: recent.length,
+      expected: 0,
+    };
+  }
+
+  private assessFailedAuth(failedAuth: number[], now: number): BehaviorFactor {
+    const observed = failedAuth.filter((time) => time > now - FAILED_AUTH_WINDOW).length;
+
+    return {
+      id: 'failed_auth',
+      factor: 'behaviorPattern',
+      score: observed > FAILED_AUTH_LIMIT ? Math.min(10, 2 * observed) : 0,
+      explanation: `${observed} failed sign-ins on this device in 15 minutes`,
+      observed,
+      expected: FAILED_AUTH_LIMIT,
+    };
+  }
+
+  /**
+   * Notice devices that joined the account since the last check
+   */
+  private async checkDevices(now: number): Promise<void> {
+    const profile = this.profile;
+
+    if (!profile) {
+      return;
+    }
+
+    profile.lastDeviceCheck = now;
+
+    try {
+      const linked = await devices.getLinkedDevices();
+      const known = profile.knownDevices;
+
+      // The first check only learns which devices there are
+      if (known) {
+        linked
+          .filter((device) => !device.current && !known.includes(device.deviceId))
+          .forEach((device) => {
+            profile.newDevices.push({ deviceId: device.deviceId, name: device.name, seenAt: now });
+          });
+      }
+
+      profile.knownDevices = linked.map((device) => device.deviceId);
+      profile.newDevices = profile.newDevices.filter(
+        (device) => device.seenAt > now - EVENT_RETENTION
+      );
+    } catch (error) {
+      console.error('Check devices error:', error);
+    }
+
+    await this.save();
+  }
+
+  private async load(): Promise<BehaviorProfile | null> {
+    const userId = await secureStorage.getItem(StorageKeys.USER_ID);
+
+    if (!userId) {
+      return null;
+    }
+
+    if (this.userId !== userId || !this.profile) {
+      const stored = await secureStorage.getObject<BehaviorProfile>(
+        `${PROFILE_STORAGE_PREFIX}${userId}`
+      );
+
+      this.userId = userId;
+      this.profile = stored ? { ...createProfile(), ...stored } : createProfile();
+    }
+
+    return this.profile;
+  }
+
+  private async save(): Promise<void> {
+    if (this.userId && this.profile) {
+      await secureStorage.setObject(`${PROFILE_STORAGE_PREFIX}${this.userId}`, this.profile);
+    }
+  }
+
+  private async loadFailedAuth(): Promise<number[]> {
+    if (!this.failedAuth) {
+      this.failedAuth = (await secureStorage.getObject<number[]>(FAILED_AUTH_STORAGE_KEY)) || [];
+    }
+
+    return this.failedAuth;
+  }
+}
+
+export const behavior = BehaviorMonitor.getInstance();
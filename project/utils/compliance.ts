@@ -0,0 +1,214 @@
+/**
+ * SecuriComm Compliance Rules
+ *
+ * Judges the app against the controls each regulatory framework asks for,
+ * using what the device can actually show: whether its keys exist and are
+ * rotated, whether old messages are being removed, whether the audit log is
+ * intact, which protections are in force and when it was last scanned. A framework is only reported as met
+ * when every one of its controls passes; otherwise the controls that fail
+ * say what to change.
+ */
+
+import { getKeyPair } from './encryption';
+import { isSignedPrekeyCurrent } from './prekeys';
+import { auditLog, AuditVerification } from './auditLog';
+import { securityEngine } from './security';
+import { disappearing } from './disappearing';
+import { deviceProtection } from './deviceProtection';
+
+// How long a security scan counts as monitoring for threats
+const SCAN_MAX_AGE = 24 * 60 * 60 * 1000;
+
+export type ComplianceFramework = 'hipaa' | 'gdpr' | 'ccpa' | 'soc2';
+
+export type ComplianceControlId =
+  | 'encryption'
+  | 'key_rotation'
+  | 'data_retention'
+  | 'audit_log'
+  | 'screen_security'
+  | 'biometric_auth'
+  | 'device_integrity'
+  | 'threat_monitoring';
+
+// What the controls are checked against
+export interface ComplianceState {
+  // Every message is sealed with ratchet sessions or sender keys, which need these
+  identityKeys: boolean;
+  // Whether the published signed prekey was rotated on schedule
+  signedPrekeyCurrent: boolean;
+  // Days auto-delete keeps messages for, null while nothing removes them
+  retentionDays: number | null;
+  auditLog: AuditVerification | null;
+  screenCaptureBlocked: boolean;
+  biometricLock: boolean;
+  // Outcome of the last device security check, if there was one
+  deviceSecure: boolean | null;
+  // When the last security check or threat analysis finished, null if none has
+  lastScanAt: number | null;
+}
+
+interface ComplianceControl {
+  title: string;
+  remediation: string;
+  check: (state: ComplianceState) => boolean;
+}
+
+export interface ControlResult {
+  id: ComplianceControlId;
+  title: string;
+  passed: boolean;
+  // What to change, for controls that fail
+  remediation?: string;
+}
+
+export interface FrameworkResult {
+  name: string;
+  status: 'compliant' | 'partial' | 'non_compliant';
+  passed: number;
+  total: number;
+  controls: ControlResult[];
+}
+
+export type ComplianceStatus = Record<ComplianceFramework, FrameworkResult>;
+
+const CONTROLS: Record<ComplianceControlId, ComplianceControl> = {
+  encryption: {
+    title: 'End-to-end encryption',
+    remediation: 'Sign in so identity keys are created',
+    check: (state) => state.identityKeys,
+  },
+  key_rotation: {
+    title: 'Key rotation',
+    remediation: 'Go online so this device can replace and publish its signed prekey',
+    check: (state) => state.signedPrekeyCurrent,
+  },
+  data_retention: {
+    title: 'Data retention',
+    remediation: 'Turn on Auto-Delete Messages so old messages are not kept forever',
+    check: (state) => state.retentionDays !== null,
+  },
+  audit_log: {
+    title: 'Audit log integrity',
+    remediation: 'The security audit log was changed; export it as evidence and review the device',
+    check: (state) => state.auditLog !== null && state.auditLog.valid,
+  },
+  screen_security: {
+    title: 'Screen security',
+    remediation: 'Turn on Screen Security to block screenshots and recording; not every platform supports it',
+    check: (state) => state.screenCaptureBlocked,
+  },
+  biometric_auth: {
+    title: 'Biometric authentication',
+    remediation: 'Enroll a fingerprint or face on this device and turn on Biometric Authentication',
+    check: (state) => state.biometricLock,
+  },
+  device_integrity: {
+    title: 'Device integrity',
+    remediation: 'Run a security scan and fix the issues it finds',
+    check: (state) => state.deviceSecure === true,
+  },
+  threat_monitoring: {
+    title: 'Threat monitoring',
+    remediation: 'Run a security scan; scans count for a day',
+    check: (state) => state.lastScanAt !== null && Date.now() - state.lastScanAt <= SCAN_MAX_AGE,
+  },
+};
+
+// Controls each framework needs
+const FRAMEWORKS: Record<ComplianceFramework, { name: string; controls: ComplianceControlId[] }> = {
+  hipaa: {
+    name: 'HIPAA',
+    controls: [
+      'encryption',
+      'key_rotation',
+      'audit_log',
+      'biometric_auth',
+      'screen_security',
+      'device_integrity',
+    ],
+  },
+  gdpr: {
+    name: 'GDPR',
+    controls: ['encryption', 'data_retention', 'audit_log', 'screen_security'],
+  },
+  ccpa: {
+    name: 'CCPA',
+    controls: ['encryption', 'data_retention', 'audit_log'],
+  },
+  soc2: {
+    name: 'SOC 2',
+    controls: [
+      'encryption',
+      'key_rotation',
+      'audit_log',
+      'biometric_auth',
+      'device_integrity',
+      'threat_monitoring',
+    ],
+  },
+};
+
+/**
+ * Check every framework's controls against the given state
+ */
+export const evaluateCompliance = (state: ComplianceState): ComplianceStatus => {
+  const evaluate = (framework: ComplianceFramework): FrameworkResult => {
+    const controls = FRAMEWORKS[framework].controls.map((id): ControlResult => {
+      const control = CONTROLS[id];
+      const passed = control.check(state);
+
+      return {
+        id,
+        title: control.title,
+        passed,
+        ...(!passed && { remediation: control.remediation }),
+      };
+    });
+    const passed = controls.filter((control) => control.passed).length;
+
+    return {
+      name: FRAMEWORKS[framework].name,
+      status: passed === controls.length ? 'compliant' : passed > 0 ? 'partial' : 'non_compliant',
+      passed,
+      total: controls.length,
+      controls,
+    };
+  };
+
+  return {
+    hipaa: evaluate('hipaa'),
+    gdpr: evaluate('gdpr'),
+    ccpa: evaluate('ccpa'),
+    soc2: evaluate('soc2'),
+  };
+};
+
+/**
+ * Read the state the controls are checked against from this device
+ */
+export const getComplianceState = async (): Promise<ComplianceState> => {
+  const lastCheck = securityEngine.getSecurityHistory().slice(-1)[0];
+  const lastAnalysis = securityEngine.getThreatHistory().slice(-1)[0];
+  const scans = [lastCheck?.checkedAt, lastAnalysis?.lastScan].filter(
+    (time): time is number => time !== undefined
+  );
+  const protection = deviceProtection.getState();
+
+  return {
+    identityKeys: (await getKeyPair()) !== null,
+    signedPrekeyCurrent: await isSignedPrekeyCurrent(),
+    retentionDays: disappearing.getRetentionDays(),
+    auditLog: await auditLog.verify(),
+    screenCaptureBlocked: protection.screenCaptureBlocked,
+    biometricLock: protection.biometricLock,
+    deviceSecure: lastCheck ? lastCheck.isSecure : null,
+    lastScanAt: scans.length > 0 ? Math.max(...scans) : null,
+  };
+};
+
+/**
+ * Compliance of this device as it is now
+ */
+export const assessCompliance = async (): Promise<ComplianceStatus> =>
+  evaluateCompliance(await getComplianceState());
@@ -0,0 +1,166 @@
+/**
+ * SecuriComm Device Protection
+ *
+ * Puts the Screen Security and Biometric Authentication settings of this
+ * device into force: screen capture is blocked while Screen Security is on,
+ * and the app stays locked until the user unlocks it with the biometrics
+ * enrolled on the device. Only what is actually in force is reported, so a
+ * switch the device cannot honour does not count for the compliance rules.
+ */
+
+import * as ScreenCapture from 'expo-screen-capture';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { DeviceSettings } from './deviceSettings';
+import { auditLog } from './auditLog';
+
+// Tag under which screen capture is blocked, so other code can block it too
+const SCREEN_CAPTURE_TAG = 'securicomm-screen-security';
+
+// Protections in force on this device
+export interface ProtectionState {
+  // Screenshots and screen recording are blocked
+  screenCaptureBlocked: boolean;
+  // Opening the app takes enrolled biometrics
+  biometricLock: boolean;
+  // The app is waiting to be unlocked
+  isLocked: boolean;
+}
+
+type ProtectionListener = (state: ProtectionState) => void;
+
+export class DeviceProtection {
+  private static instance: DeviceProtection;
+  private state: ProtectionState = {
+    screenCaptureBlocked: false,
+    biometricLock: false,
+    isLocked: false,
+  };
+  private listeners = new Set<ProtectionListener>();
+
+  private constructor() {}
+
+  public static getInstance(): DeviceProtection {
+    if (!DeviceProtection.instance) {
+      DeviceProtection.instance = new DeviceProtection();
+    }
+    return DeviceProtection.instance;
+  }
+
+  /**
+   * Put the protections the settings ask for into force
+   *
+   * Turning the biometric lock on does not lock the app in use; it locks
+   * the next time the app is opened or comes back to the foreground.
+   */
+  public async apply(
+    settings: Pick<DeviceSettings, 'screenSecurity' | 'biometricAuth'>
+  ): Promise<ProtectionState> {
+    const screenCaptureBlocked = await this.applyScreenSecurity(settings.screenSecurity);
+    const biometricLock = settings.biometricAuth && (await this.canUseBiometrics());
+
+    this.update({
+      screenCaptureBlocked,
+      biometricLock,
+      isLocked: biometricLock && this.state.isLocked,
+    });
+
+    return this.getState();
+  }
+
+  /**
+   * Lock the app if the biometric lock is on
+   */
+  public lock(): void {
+    if (this.state.biometricLock && !this.state.isLocked) {
+      this.update({ ...this.state, isLocked: true });
+    }
+  }
+
+  /**
+   * Ask for biometrics and unlock the app if they match
+   */
+  public async unlock(): Promise<boolean> {
+    if (!this.state.isLocked) {
+      return true;
+    }
+
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: 'Unlock SecuriComm',
+      disableDeviceFallback: true,
+    });
+
+    if (!result.success) {
+      await auditLog.append('auth', 'biometric_unlock_failed', 'Biometric unlock failed', {
+        severity: 'medium',
+        details: { error: result.error },
+      });
+      return false;
+    }
+
+    this.update({ ...this.state, isLocked: false });
+
+    return true;
+  }
+
+  /**
+   * Protections in force right now
+   */
+  public getState(): ProtectionState {
+    return { ...this.state };
+  }
+
+  /**
+   * Subscribe to changes of the protections in force
+   */
+  public onChange(listener: ProtectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Block or allow screen capture; returns whether it is blocked
+   */
+  private async applyScreenSecurity(enabled: boolean): Promise<boolean> {
+    try {
+      // Platforms without screen capture control cannot block it
+      if (!(await ScreenCapture.isAvailableAsync())) {
+        return false;
+      }
+
+      if (enabled) {
+        await ScreenCapture.preventScreenCaptureAsync(SCREEN_CAPTURE_TAG);
+      } else {
+        await ScreenCapture.allowScreenCaptureAsync(SCREEN_CAPTURE_TAG);
+      }
+
+      return enabled;
+    } catch (error) {
+      console.error('Apply screen security error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether the device has biometric hardware with biometrics enrolled
+   */
+  private async canUseBiometrics(): Promise<boolean> {
+    try {
+      return (
+        (await LocalAuthentication.hasHardwareAsync()) &&
+        (await LocalAuthentication.isEnrolledAsync())
+      );
+    } catch (error) {
+      console.error('Check biometrics error:', error);
+      return false;
+    }
+  }
+
+  private update(state: ProtectionState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener(this.getState()));
+  }
+}
+
+export const deviceProtection = DeviceProtection.getInstance();
@@ -0,0 +1,78 @@
+/**
+ * SecuriComm Device Settings
+ *
+ * Security and privacy switches that apply to this device only, kept in
+ * secure storage so they survive a restart and can be checked by the
+ * compliance rules. Account-wide privacy settings live on the server.
+ */
+
+import { secureStorage, StorageKeys } from './storage';
+import { PrivacySettings } from '../types';
+
+export interface DeviceSettings {
+  biometricAuth: boolean;
+  // Whether messages are removed from this device once they are older than dataRetention
+  autoDelete: boolean;
+  dataRetention: PrivacySettings['dataRetention'];
+  darkMode: boolean;
+  notifications: boolean;
+  metadataProtection: boolean;
+  meshNetworking: boolean;
+  screenSecurity: boolean;
+  voiceEncryption: boolean;
+}
+
+type SettingsListener = (settings: DeviceSettings) => void;
+
+const listeners = new Set<SettingsListener>();
+
+// Settings of a device that never changed them
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  biometricAuth: true,
+  autoDelete: false,
+  dataRetention: 30,
+  darkMode: true,
+  notifications: true,
+  metadataProtection: true,
+  meshNetworking: false,
+  screenSecurity: true,
+  voiceEncryption: true,
+};
+
+/**
+ * Get the settings of this device
+ */
+export const getDeviceSettings = async (): Promise<DeviceSettings> => {
+  try {
+    const stored = await secureStorage.getObject<Partial<DeviceSettings>>(StorageKeys.SETTINGS);
+
+    return { ...DEFAULT_DEVICE_SETTINGS, ...stored };
+  } catch (error) {
+    console.error('Get device settings error:', error);
+    return { ...DEFAULT_DEVICE_SETTINGS };
+  }
+};
+
+/**
+ * Change some of the settings of this device
+ */
+export const updateDeviceSettings = async (
+  changes: Partial<DeviceSettings>
+): Promise<DeviceSettings> => {
+  const settings = { ...(await getDeviceSettings()), ...changes };
+
+  await secureStorage.setObject(StorageKeys.SETTINGS, settings);
+  listeners.forEach((listener) => listener(settings));
+
+  return settings;
+};
+
+/**
+ * Subscribe to changes of the settings of this device
+ */
+export const onDeviceSettingsChanged = (listener: SettingsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
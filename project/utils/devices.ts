@@ -0,0 +1,168 @@
+/**
+ * SecuriComm Device Service
+ *
+ * Keeps track of this device's ID and the devices linked to each account.
+ * Direct messages are encrypted separately for every device of every
+ * recipient, so each device holds its own ratchet sessions, addressed as
+ * `userId.deviceId`.
+ */
+
+import { Platform } from 'react-native';
+import { api } from './api';
+import { secureStorage, StorageKeys } from './storage';
+import { generateRandomBytes } from './encryption';
+import { auditLog } from './auditLog';
+
+// How long a user's device list is trusted before it is fetched again
+const DEVICE_LIST_TTL = 5 * 60 * 1000;
+
+// Device linked to the current account
+export interface LinkedDevice {
+  deviceId: string;
+  name: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Cached device list of a user
+interface DeviceListEntry {
+  deviceIds: string[];
+  fetchedAt: number;
+}
+
+/**
+ * Session address of one device of a user
+ */
+export const deviceAddress = (userId: string, deviceId: string): string => {
+  return `${userId}.${deviceId}`;
+};
+
+export class DeviceManager {
+  private static instance: DeviceManager;
+  private deviceId: string | null = null;
+  private deviceLists = new Map<string, DeviceListEntry>();
+
+  private constructor() {}
+
+  public static getInstance(): DeviceManager {
+    if (!DeviceManager.instance) {
+      DeviceManager.instance = new DeviceManager();
+    }
+    return DeviceManager.instance;
+  }
+
+  /**
+   * Get this device's ID, creating it on first use
+   */
+  public async getDeviceId(): Promise<string> {
+    if (this.deviceId) {
+      return this.deviceId;
+    }
+
+    let deviceId = await secureStorage.getItem(StorageKeys.DEVICE_ID);
+
+    if (!deviceId) {
+      const bytes = await generateRandomBytes(16);
+      deviceId = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+      await secureStorage.setItem(StorageKeys.DEVICE_ID, deviceId);
+    }
+
+    this.deviceId = deviceId;
+    return deviceId;
+  }
+
+  /**
+   * Name shown for this device in the linked devices list
+   */
+  public getDeviceName(): string {
+    switch (Platform.OS) {
+      case 'ios':
+        return 'iPhone';
+      case 'android':
+        return 'Android';
+      case 'web':
+        return 'Web browser';
+      default:
+        return 'Unknown device';
+    }
+  }
+
+  /**
+   * Session address of this device
+   */
+  public async getOwnAddress(): Promise<string> {
+    const userId = await secureStorage.getItem(StorageKeys.USER_ID);
+
+    if (!userId) {
+      throw new Error('Not authenticated');
+    }
+
+    return deviceAddress(userId, await this.getDeviceId());
+  }
+
+  /**
+   * Get the IDs of a user's active devices
+   */
+  public async getDeviceIds(userId: string, refresh = false): Promise<string[]> {
+    const cached = this.deviceLists.get(userId);
+
+    if (!refresh && cached && Date.now() - cached.fetchedAt < DEVICE_LIST_TTL) {
+      return cached.deviceIds;
+    }
+
+    const response = await api.devices.getUserDevices(userId);
+
+    if (!response.success || !Array.isArray(response.data?.deviceIds)) {
+      throw new Error(response.error || 'Failed to get devices');
+    }
+
+    this.deviceLists.set(userId, {
+      deviceIds: response.data.deviceIds,
+      fetchedAt: Date.now(),
+    });
+
+    return response.data.deviceIds;
+  }
+
+  /**
+   * Get the devices linked to the current account
+   */
+  public async getLinkedDevices(): Promise<LinkedDevice[]> {
+    const response = await api.devices.list();
+
+    if (!response.success || !Array.isArray(response.data?.devices)) {
+      throw new Error(response.error || 'Failed to get devices');
+    }
+
+    return response.data.devices;
+  }
+
+  /**
+   * Revoke one of the current account's other devices
+   */
+  public async revokeDevice(deviceId: string): Promise<void> {
+    const response = await api.devices.revoke(deviceId);
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to revoke device');
+    }
+
+    // Our own device list changed
+    this.deviceLists.clear();
+
+    await auditLog.append('auth', 'device_revoked', 'Linked device revoked', {
+      severity: 'medium',
+      details: { deviceId },
+    });
+  }
+
+  /**
+   * Forget cached device lists
+   */
+  public clearMemoryDevices(): void {
+    this.deviceLists.clear();
+  }
+}
+
+export const devices = DeviceManager.getInstance();
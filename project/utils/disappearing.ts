@@ -0,0 +1,345 @@
+/**
+ * SecuriComm Disappearing Messages
+ *
+ * Removes messages once the timer of their conversation runs out. The
+ * server stamps every message sent under a timer with the time it expires;
+ * those times are remembered in sealed records, so messages that expire
+ * while the app is closed are removed at the next start. Expired messages
+ * are deleted from the message store together with the files they carried,
+ * and listeners are told so they can drop them from view.
+ *
+ * When auto-delete is on in the device settings, every sweep also removes
+ * messages older than the chosen retention period.
+ */
+
+import { SealedRecords } from './sealedRecords';
+import { messageStore, StoredMessage } from './messageStore';
+import { attachmentManager } from './attachments';
+import { getDeviceSettings } from './deviceSettings';
+
+// Timers a conversation can use, in seconds; 0 turns disappearing messages off
+export const MESSAGE_TIMER_OPTIONS = [
+  0,
+  30,
+  5 * 60,
+  60 * 60,
+  8 * 60 * 60,
+  24 * 60 * 60,
+  7 * 24 * 60 * 60,
+  28 * 24 * 60 * 60,
+];
+
+// Days auto-delete can keep messages for
+export const DATA_RETENTION_OPTIONS = [1, 7, 30, 90, 365];
+
+// Longest wait between two sweeps; longer delays overflow setTimeout
+const MAX_SWEEP_DELAY = 24 * 60 * 60 * 1000;
+
+// Wait before removing a message again after it could not be removed
+const SWEEP_RETRY_DELAY = 60 * 1000;
+
+// Wait between sweeps while auto-delete is on
+const RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Expiry times of stored messages, one for every message under a timer
+const expiryRecords = new SealedRecords({
+  name: 'message_expiry',
+  context: 'SecuriComm/message-expiry',
+  label: 'Message expiry',
+});
+
+// Disappearing message timer of a conversation
+export interface MessageTimerSettings {
+  messageTimer?: number;
+  messageTimerUpdatedBy?: string;
+  messageTimerUpdatedAt?: string;
+}
+
+// Message that may disappear
+export interface ExpiringMessage {
+  _id: string;
+  createdAt: string;
+  expiresAt?: string;
+  attachments?: { _id: string }[];
+}
+
+// Message that was removed because it expired
+export interface ExpiredMessage {
+  conversationId: string;
+  messageId: string;
+}
+
+interface ExpiryEntry {
+  conversationId: string;
+  expiresAt: number;
+  attachmentIds: string[];
+}
+
+type ExpiryListener = (expired: ExpiredMessage[]) => void;
+
+/**
+ * Short label for a timer, e.g. "5m" or "1w"
+ */
+export const formatMessageTimer = (seconds?: number): string => {
+  if (!seconds) {
+    return 'Off';
+  }
+
+  const units: [number, string][] = [
+    [7 * 24 * 60 * 60, 'w'],
+    [24 * 60 * 60, 'd'],
+    [60 * 60, 'h'],
+    [60, 'm'],
+  ];
+  const unit = units.find(([size]) => seconds % size === 0);
+
+  return unit ? `${seconds / unit[0]}${unit[1]}` : `${seconds}s`;
+};
+
+/**
+ * Label for a retention period, e.g. "30 days" or "1 year"
+ */
+export const formatDataRetention = (days: number): string => {
+  if (days % 365 === 0) {
+    return days === 365 ? '1 year' : `${days / 365} years`;
+  }
+
+  return days === 1 ? '1 day' : `${days} days`;
+};
+
+/**
+ * When a message disappears
+ *
+ * The server's expiry is used when it has one. Messages sent after the
+ * timer was set but without an expiry still disappear on time.
+ */
+export const getExpiresAt = (
+  message: ExpiringMessage,
+  settings?: MessageTimerSettings
+): string | undefined => {
+  if (message.expiresAt) {
+    return message.expiresAt;
+  }
+
+  const timer = settings?.messageTimer || 0;
+  const timerSetAt = settings?.messageTimerUpdatedAt
+    ? new Date(settings.messageTimerUpdatedAt).getTime()
+    : Infinity;
+  const createdAt = new Date(message.createdAt).getTime();
+
+  return timer && createdAt >= timerSetAt
+    ? new Date(createdAt + timer * 1000).toISOString()
+    : undefined;
+};
+
+/**
+ * Whether a message has disappeared
+ */
+export const isExpired = (message: { expiresAt?: string }): boolean => {
+  return Boolean(message.expiresAt && new Date(message.expiresAt).getTime() <= Date.now());
+};
+
+export class DisappearingMessages {
+  private static instance: DisappearingMessages;
+  private entries: Record<string, ExpiryEntry> | null = null;
+  private listeners = new Set<ExpiryListener>();
+  private sweepTimer: ReturnType<typeof setTimeout> | null = null;
+  // Days messages are kept, as enforced by the last sweep; null while auto-delete is off
+  private retentionDays: number | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): DisappearingMessages {
+    if (!DisappearingMessages.instance) {
+      DisappearingMessages.instance = new DisappearingMessages();
+    }
+    return DisappearingMessages.instance;
+  }
+
+  /**
+   * Remove messages that expired while the app was closed and schedule the rest
+   */
+  public async start(): Promise<void> {
+    await this.sweep();
+  }
+
+  /**
+   * Remember when messages of a conversation disappear
+   */
+  public async track(conversationId: string, messages: ExpiringMessage[]): Promise<void> {
+    const expiring = messages.filter((message) => message.expiresAt);
+
+    if (expiring.length === 0) {
+      return;
+    }
+
+    const entries = await this.load();
+
+    expiring.forEach((message) => {
+      entries[message._id] = {
+        conversationId,
+        expiresAt: new Date(message.expiresAt!).getTime(),
+        attachmentIds: (message.attachments || []).map((attachment) => attachment._id),
+      };
+    });
+
+    await expiryRecords.write('entries', entries);
+    await this.sweep();
+  }
+
+  /**
+   * Remove every message whose time is up
+   */
+  public async sweep(): Promise<ExpiredMessage[]> {
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const entries = await this.load();
+    const now = Date.now();
+    const expired: ExpiredMessage[] = [];
+
+    for (const [messageId, entry] of Object.entries(entries)) {
+      if (entry.expiresAt > now) {
+        continue;
+      }
+
+      // The server deletes the message and its files itself
+      try {
+        await messageStore.deleteMessage(entry.conversationId, messageId);
+        await attachmentManager.removeFiles(entry.attachmentIds);
+      } catch (error) {
+        // Tried again on the next sweep
+        console.error('Remove expired message error:', error);
+        continue;
+      }
+
+      delete entries[messageId];
+      expired.push({ conversationId: entry.conversationId, messageId });
+    }
+
+    expired.push(...(await this.removeRetained(entries)));
+
+    if (expired.length > 0) {
+      await expiryRecords.write('entries', entries);
+      this.listeners.forEach((listener) => listener(expired));
+    }
+
+    this.schedule();
+
+    return expired;
+  }
+
+  /**
+   * Whether auto-delete removes a message because it is past retention
+   */
+  public isPastRetention(message: { createdAt: string }): boolean {
+    const cutoff = this.getRetentionCutoff();
+
+    return cutoff !== null && new Date(message.createdAt).getTime() < cutoff;
+  }
+
+  /**
+   * Days messages are kept on this device, or null while nothing removes them
+   */
+  public getRetentionDays(): number | null {
+    return this.retentionDays;
+  }
+
+  /**
+   * Subscribe to expired messages
+   */
+  public onExpired(listener: ExpiryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget expiry times kept in memory and stop sweeping (e.g. on logout)
+   */
+  public clearMemoryExpiry(): void {
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    this.entries = null;
+    this.retentionDays = null;
+    expiryRecords.clearMemoryKey();
+  }
+
+  /**
+   * Remove stored messages older than the retention period of auto-delete
+   */
+  private async removeRetained(entries: Record<string, ExpiryEntry>): Promise<ExpiredMessage[]> {
+    const settings = await getDeviceSettings();
+
+    this.retentionDays = settings.autoDelete ? settings.dataRetention : null;
+
+    const cutoff = this.getRetentionCutoff();
+
+    if (cutoff === null) {
+      return [];
+    }
+
+    let removed: (StoredMessage & ExpiringMessage)[];
+
+    try {
+      removed = await messageStore.deleteMessagesBefore(new Date(cutoff).toISOString());
+      await attachmentManager.removeFiles(
+        removed.flatMap((message) => (message.attachments || []).map((attachment) => attachment._id))
+      );
+    } catch (error) {
+      // Tried again on the next sweep
+      console.error('Remove retained messages error:', error);
+      return [];
+    }
+
+    return removed.map((message) => {
+      delete entries[message._id];
+      return { conversationId: message.conversationId, messageId: message._id };
+    });
+  }
+
+  private getRetentionCutoff(): number | null {
+    return this.retentionDays !== null
+      ? Date.now() - this.retentionDays * 24 * 60 * 60 * 1000
+      : null;
+  }
+
+  private async load(): Promise<Record<string, ExpiryEntry>> {
+    if (!this.entries) {
+      this.entries = (await expiryRecords.read<Record<string, ExpiryEntry>>('entries')) || {};
+    }
+
+    return this.entries;
+  }
+
+  private schedule(): void {
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const next = Math.min(
+      ...Object.values(this.entries || {}).map((entry) => entry.expiresAt),
+      this.retentionDays !== null ? Date.now() + RETENTION_SWEEP_INTERVAL : Infinity
+    );
+
+    if (next === Infinity) {
+      return;
+    }
+
+    const delay = next > Date.now() ? next - Date.now() : SWEEP_RETRY_DELAY;
+
+    this.sweepTimer = setTimeout(() => {
+      this.sweepTimer = null;
+      this.sweep().catch((error) => console.error('Sweep expired messages error:', error));
+    }, Math.min(delay, MAX_SWEEP_DELAY));
+  }
+}
+
+export const disappearing = DisappearingMessages.getInstance();
@@ -100,6 +100,104 @@ export const getKeyPair = async (): Promise<KeyPair | null> => {
   }
 };
 
+/**
+ * Generate signing key pair (Ed25519)
+ */
+export const generateSigningKeyPair = async (): Promise<KeyPair> => {
+  try {
+    const publicKey = await secureStorage.getItem(StorageKeys.SIGNING_PUBLIC_KEY);
+    const privateKey = await secureStorage.getItem(StorageKeys.SIGNING_PRIVATE_KEY);
+    
+    if (publicKey && privateKey) {
+      return {
+        publicKey,
+        privateKey,
+      };
+    }
+    
+    // Generate new signing key pair
+    const keyPair = nacl.sign.keyPair();
+    
+    return {
+      publicKey: util.encodeBase64(keyPair.publicKey),
+      privateKey: util.encodeBase64(keyPair.secretKey),
+    };
+  } catch (error) {
+    console.error('Generate signing key pair error:', error);
+    throw new Error('Failed to generate signing key pair');
+  }
+};
+
+/**
+ * Store signing key pair
+ */
+export const storeSigningKeyPair = async (keyPair: KeyPair): Promise<void> => {
+  try {
+    await secureStorage.setItem(StorageKeys.SIGNING_PUBLIC_KEY, keyPair.publicKey);
+    await secureStorage.setItem(StorageKeys.SIGNING_PRIVATE_KEY, keyPair.privateKey);
+  } catch (error) {
+    console.error('Store signing key pair error:', error);
+    throw new Error('Failed to store signing key pair');
+  }
+};
+
+/**
+ * Get signing key pair
+ */
+export const getSigningKeyPair = async (): Promise<KeyPair | null> => {
+  try {
+    const publicKey = await secureStorage.getItem(StorageKeys.SIGNING_PUBLIC_KEY);
+    const privateKey = await secureStorage.getItem(StorageKeys.SIGNING_PRIVATE_KEY);
+    
+    if (!publicKey || !privateKey) {
+      return null;
+    }
+    
+    return {
+      publicKey,
+      privateKey,
+    };
+  } catch (error) {
+    console.error('Get signing key pair error:', error);
+    return null;
+  }
+};
+
+/**
+ * Sign data with the signing key
+ */
+export const signData = async (data: Uint8Array): Promise<string> => {
+  const keyPair = await getSigningKeyPair();
+  
+  if (!keyPair) {
+    throw new Error('Signing key pair not found');
+  }
+  
+  const signature = nacl.sign.detached(data, util.decodeBase64(keyPair.privateKey));
+  
+  return util.encodeBase64(signature);
+};
+
+/**
+ * Verify a detached signature
+ */
+export const verifySignature = (
+  data: Uint8Array,
+  signature: string,
+  signingPublicKey: string
+): boolean => {
+  try {
+    return nacl.sign.detached.verify(
+      data,
+      util.decodeBase64(signature),
+      util.decodeBase64(signingPublicKey)
+    );
+  } catch (error) {
+    console.error('Verify signature error:', error);
+    return false;
+  }
+};
+
 /**
  * Generate shared key
  */
@@ -126,6 +224,16 @@ export const generateSharedKey = async (
   }
 };
 
+/**
+ * Raw X25519 exchange between a private key and a public key
+ */
+export const computeDH = (privateKey: string, publicKey: string): Uint8Array => {
+  return nacl.scalarMult(
+    util.decodeBase64(privateKey),
+    util.decodeBase64(publicKey)
+  );
+};
+
 /**
  * Encrypt message
  */
@@ -263,75 +371,67 @@ export const generateSecureRandomString = async (length: number): Promise<string
 };
 
 /**
- * Encrypt file
+ * HMAC-SHA512
  */
-export const encryptFile = async (
-  fileData: Uint8Array,
-  key: string
-): Promise<Uint8Array> => {
-  try {
-    // Convert key from base64 or hex
-    let keyBytes: Uint8Array;
-    
-    if (key.length === 64) {
-      // Hex key
-      keyBytes = Buffer.from(key, 'hex');
-    } else {
-      // Base64 key
-      keyBytes = util.decodeBase64(key);
-    }
-    
-    // Generate nonce
-    const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
-    
-    // Encrypt file
-    const encryptedBytes = nacl.secretbox(fileData, nonce, keyBytes);
-    
-    // Combine nonce and encrypted file
-    const fullMessage = new Uint8Array(nonce.length + encryptedBytes.length);
-    fullMessage.set(nonce);
-    fullMessage.set(encryptedBytes, nonce.length);
-    
-    return fullMessage;
-  } catch (error) {
-    console.error('Encrypt file error:', error);
-    throw new Error('Failed to encrypt file');
+export const hmacSha512 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const blockSize = 128;
+  
+  // Keys longer than the block size are hashed first
+  const keyBlock = key.length > blockSize ? nacl.hash(key) : key;
+  const paddedKey = new Uint8Array(blockSize);
+  paddedKey.set(keyBlock);
+  
+  const innerPad = new Uint8Array(blockSize + data.length);
+  const outerPad = new Uint8Array(blockSize + nacl.hash.hashLength);
+  
+  for (let i = 0; i < blockSize; i++) {
+    innerPad[i] = paddedKey[i] ^ 0x36;
+    outerPad[i] = paddedKey[i] ^ 0x5c;
   }
+  
+  innerPad.set(data, blockSize);
+  outerPad.set(nacl.hash(innerPad), blockSize);
+  
+  return nacl.hash(outerPad);
 };
 
 /**
- * Decrypt file
+ * Derive key material with HKDF (RFC 5869) over HMAC-SHA512
  */
-export const decryptFile = async (
-  encryptedData: Uint8Array,
-  key: string
-): Promise<Uint8Array> => {
-  try {
-    // Convert key from base64 or hex
-    let keyBytes: Uint8Array;
-    
-    if (key.length === 64) {
-      // Hex key
-      keyBytes = Buffer.from(key, 'hex');
-    } else {
-      // Base64 key
-      keyBytes = util.decodeBase64(key);
-    }
-    
-    // Extract nonce and file
-    const nonce = encryptedData.slice(0, nacl.secretbox.nonceLength);
-    const data = encryptedData.slice(nacl.secretbox.nonceLength);
-    
-    // Decrypt file
-    const decryptedBytes = nacl.secretbox.open(data, nonce, keyBytes);
-    
-    if (!decryptedBytes) {
-      throw new Error('Failed to decrypt file');
-    }
-    
-    return decryptedBytes;
-  } catch (error) {
-    console.error('Decrypt file error:', error);
-    throw new Error('Failed to decrypt file');
+export const hkdf = (
+  inputKeyMaterial: Uint8Array,
+  salt: Uint8Array,
+  info: string,
+  length: number = 32
+): Uint8Array => {
+  const hashLength = nacl.hash.hashLength;
+  
+  if (length > 255 * hashLength) {
+    throw new Error('HKDF output length too large');
+  }
+  
+  // Extract
+  const pseudoRandomKey = hmacSha512(
+    salt.length > 0 ? salt : new Uint8Array(hashLength),
+    inputKeyMaterial
+  );
+  
+  // Expand
+  const infoBytes = util.decodeUTF8(info);
+  const output = new Uint8Array(length);
+  let previous = new Uint8Array(0);
+  let offset = 0;
+  
+  for (let counter = 1; offset < length; counter++) {
+    const block = new Uint8Array(previous.length + infoBytes.length + 1);
+    block.set(previous);
+    block.set(infoBytes, previous.length);
+    block[block.length - 1] = counter;
+    
+    previous = hmacSha512(pseudoRandomKey, block);
+    output.set(previous.slice(0, Math.min(hashLength, length - offset)), offset);
+    offset += hashLength;
   }
+  
+  return output;
 };
@@ -0,0 +1,300 @@
+/**
+ * SecuriComm Message Envelope Service
+ *
+ * Wraps encrypted message payloads in a versioned envelope signed with
+ * the sender's Ed25519 key. The signature covers the sender, the
+ * conversation and the timestamp, so an envelope cannot be moved to
+ * another conversation or attributed to someone else. Every envelope has
+ * a unique nonce, and envelopes that were already opened are rejected.
+ * Envelopes delivered live must also be recent; envelopes loaded from
+ * history may be of any age and open again only for the same message.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { EncryptedContent, MessageEnvelope } from '../types';
+import { MessageContent } from './api';
+import { SealedRecords } from './sealedRecords';
+import { generateRandomBytes, signData, verifySignature } from './encryption';
+import { isRatchetPayload, isFanoutPayload } from './ratchet';
+import { isSenderKeyPayload } from './senderKeys';
+
+// Current envelope format version
+const ENVELOPE_VERSION = 1;
+
+// How far an envelope timestamp may be ahead of our clock
+const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+// How long opened envelopes are remembered; older live envelopes are rejected
+const REPLAY_WINDOW = 30 * 24 * 60 * 60 * 1000;
+
+// Opened envelope nonces, a month of which is more than secure storage holds
+const seenRecords = new SealedRecords({
+  name: 'seen_envelopes',
+  context: 'SecuriComm/seen-envelopes',
+  label: 'Opened envelope',
+});
+
+// Where an envelope came from
+export interface EnvelopeOrigin {
+  // Server ID of the message that carried it
+  messageId?: string;
+  // Loaded from history or a backup rather than delivered just now
+  fromHistory?: boolean;
+}
+
+// What the receiver expects an envelope to be bound to
+export interface EnvelopeContext extends EnvelopeOrigin {
+  conversationId: string;
+  senderId: string;
+  signingKey?: string;
+}
+
+// Opened envelope: the message that carried it and when it is remembered from
+interface SeenEnvelope {
+  messageId?: string;
+  timestamp: number;
+}
+
+// Opened envelopes by nonce
+type SeenEnvelopes = Record<string, SeenEnvelope>;
+
+/**
+ * Checksum of the encrypted data
+ */
+const computeChecksum = (data: string): string => {
+  return util.encodeBase64(nacl.hash(util.decodeUTF8(data)).slice(0, 32));
+};
+
+/**
+ * Bytes covered by an envelope signature
+ */
+const signedBytes = (envelope: Omit<MessageEnvelope, 'signature'>): Uint8Array => {
+  const { content } = envelope;
+
+  return util.decodeUTF8(
+    JSON.stringify([
+      'SecuriComm/envelope',
+      envelope.version,
+      envelope.senderId,
+      envelope.conversationId,
+      envelope.timestamp,
+      content.algorithm,
+      content.keyId,
+      content.nonce,
+      content.checksum,
+      content.data,
+    ])
+  );
+};
+
+/**
+ * Work out the algorithm and key of an encrypted payload
+ */
+const describePayload = (data: string): Pick<EncryptedContent, 'algorithm' | 'keyId'> => {
+  if (isRatchetPayload(data)) {
+    return { algorithm: 'double-ratchet', keyId: JSON.parse(data).header.dh };
+  }
+
+  if (isFanoutPayload(data)) {
+    return { algorithm: 'double-ratchet', keyId: JSON.parse(data).senderDevice };
+  }
+
+  if (isSenderKeyPayload(data)) {
+    return { algorithm: 'sender-key', keyId: JSON.parse(data).keyId };
+  }
+
+  throw new Error('Unsupported message payload');
+};
+
+/**
+ * Check whether message content is an envelope
+ */
+export const isEnvelope = (content: string): boolean => {
+  try {
+    return JSON.parse(content)?.type === 'envelope';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Describe a sealed envelope the way the server stores message content
+ */
+export const toMessageContent = (sealed: string): MessageContent => {
+  const { content }: MessageEnvelope = JSON.parse(sealed);
+
+  return { data: sealed, nonce: content.nonce, algorithm: content.algorithm };
+};
+
+export class EnvelopeManager {
+  private static instance: EnvelopeManager;
+  private seen = new Map<string, Promise<SeenEnvelopes>>();
+  private pending = new Set<string>();
+
+  private constructor() {}
+
+  public static getInstance(): EnvelopeManager {
+    if (!EnvelopeManager.instance) {
+      EnvelopeManager.instance = new EnvelopeManager();
+    }
+    return EnvelopeManager.instance;
+  }
+
+  /**
+   * Wrap an encrypted payload in a signed envelope
+   */
+  public async seal(senderId: string, conversationId: string, data: string): Promise<string> {
+    const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
+
+    const unsigned = {
+      type: 'envelope' as const,
+      version: ENVELOPE_VERSION,
+      senderId,
+      conversationId,
+      timestamp: Date.now(),
+      content: {
+        ...describePayload(data),
+        data,
+        nonce: util.encodeBase64(nonce),
+        checksum: computeChecksum(data),
+      },
+    };
+
+    const envelope: MessageEnvelope = {
+      ...unsigned,
+      signature: await signData(signedBytes(unsigned)),
+    };
+
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Verify an envelope and decrypt its payload
+   *
+   * The envelope only counts as opened once decryption succeeds, so a
+   * payload that cannot be decrypted yet can be retried later.
+   */
+  public async open(
+    content: string,
+    context: EnvelopeContext,
+    decrypt: (data: string) => Promise<string>
+  ): Promise<string> {
+    const envelope: MessageEnvelope = JSON.parse(content);
+
+    if (envelope.version !== ENVELOPE_VERSION) {
+      throw new Error('Unsupported envelope version');
+    }
+
+    if (envelope.conversationId !== context.conversationId) {
+      throw new Error('Envelope conversation mismatch');
+    }
+
+    if (envelope.senderId !== context.senderId) {
+      throw new Error('Envelope sender mismatch');
+    }
+
+    if (computeChecksum(envelope.content.data) !== envelope.content.checksum) {
+      throw new Error('Envelope checksum mismatch');
+    }
+
+    if (!context.signingKey) {
+      throw new Error('Sender signing key not available');
+    }
+
+    const { signature, ...unsigned } = envelope;
+
+    if (!verifySignature(signedBytes(unsigned), signature, context.signingKey)) {
+      throw new Error('Invalid envelope signature');
+    }
+
+    const now = Date.now();
+
+    if (envelope.timestamp > now + MAX_CLOCK_SKEW) {
+      throw new Error('Envelope timestamp is in the future');
+    }
+
+    // We can no longer tell whether live envelopes this old were already opened
+    if (!context.fromHistory && envelope.timestamp < now - REPLAY_WINDOW) {
+      throw new Error('Envelope has expired');
+    }
+
+    const seenKey = `${envelope.conversationId}:${envelope.content.nonce}`;
+    const seen = await this.loadSeen(envelope.conversationId);
+    const opened = seen[envelope.content.nonce];
+
+    // History holds the messages we already opened; they may be loaded again
+    const isReload =
+      opened !== undefined &&
+      context.fromHistory === true &&
+      context.messageId !== undefined &&
+      opened.messageId === context.messageId;
+
+    if ((opened && !isReload) || this.pending.has(seenKey)) {
+      throw new Error('Envelope already received');
+    }
+
+    this.pending.add(seenKey);
+
+    try {
+      const plaintext = await decrypt(envelope.content.data);
+
+      seen[envelope.content.nonce] = {
+        messageId: context.messageId,
+        timestamp: Math.max(envelope.timestamp, now),
+      };
+      await this.saveSeen(envelope.conversationId, seen);
+
+      return plaintext;
+    } finally {
+      this.pending.delete(seenKey);
+    }
+  }
+
+  /**
+   * Forget opened envelopes of a conversation
+   */
+  public async deleteConversation(conversationId: string): Promise<void> {
+    this.seen.delete(conversationId);
+    await seenRecords.remove(conversationId);
+  }
+
+  /**
+   * Clear cached envelope state from memory
+   */
+  public clearMemoryEnvelopes(): void {
+    this.seen.clear();
+    this.pending.clear();
+    seenRecords.clearMemoryKey();
+  }
+
+  /**
+   * Load opened envelope nonces from memory or their sealed record
+   */
+  private loadSeen(conversationId: string): Promise<SeenEnvelopes> {
+    let seen = this.seen.get(conversationId);
+
+    // Share one load between concurrent callers so no update is lost
+    if (!seen) {
+      seen = seenRecords.read<SeenEnvelopes>(conversationId).then((stored) => stored || {});
+      this.seen.set(conversationId, seen);
+    }
+
+    return seen;
+  }
+
+  /**
+   * Persist opened envelope nonces, dropping those outside the replay window
+   */
+  private async saveSeen(conversationId: string, seen: SeenEnvelopes): Promise<void> {
+    const cutoff = Date.now() - REPLAY_WINDOW;
+
+    Object.keys(seen)
+      .filter((nonce) => seen[nonce].timestamp < cutoff)
+      .forEach((nonce) => delete seen[nonce]);
+
+    await seenRecords.write(conversationId, seen);
+  }
+}
+
+export const envelopes = EnvelopeManager.getInstance();
@@ -0,0 +1,426 @@
+/**
+ * SecuriComm File Encryption Service
+ *
+ * Encrypts attachments as a stream of fixed-size chunks so large files never
+ * have to be held in memory at once. The stream starts with a header naming
+ * the format, chunk size and a random nonce prefix; every chunk is sealed
+ * with a nonce built from that prefix, its index and whether it is the last
+ * chunk. Reordered, dropped or appended chunks fail to authenticate, and a
+ * stream that ends without its final chunk is rejected as truncated.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { Buffer } from 'buffer';
+import { generateRandomBytes, hkdf } from './encryption';
+
+// Marks an encrypted file stream ("SCFS")
+const FILE_STREAM_MAGIC = [0x53, 0x43, 0x46, 0x53];
+
+// Current stream format version
+const FILE_STREAM_VERSION = 1;
+
+// Random part of every chunk nonce
+const NONCE_PREFIX_LENGTH = 16;
+
+// Magic, version, chunk size and nonce prefix
+export const FILE_HEADER_LENGTH = FILE_STREAM_MAGIC.length + 1 + 4 + NONCE_PREFIX_LENGTH;
+
+// Default plaintext bytes per chunk
+export const FILE_CHUNK_SIZE = 64 * 1024;
+
+// Largest chunk size a header may declare
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// HKDF info for the per-file key; the header is the salt
+const FILE_KEY_INFO = 'SecuriComm/file-stream';
+
+// Progress of an encryption or decryption
+export interface FileProgress {
+  processedBytes: number;
+  totalBytes: number;
+}
+
+export type FileProgressCallback = (progress: FileProgress) => void;
+
+/**
+ * Decode a file key given as hex or base64
+ */
+const decodeFileKey = (key: string): Uint8Array => {
+  const keyBytes = key.length === 64
+    ? new Uint8Array(Buffer.from(key, 'hex'))
+    : util.decodeBase64(key);
+
+  if (keyBytes.length !== nacl.secretbox.keyLength) {
+    throw new Error('Invalid file key');
+  }
+
+  return keyBytes;
+};
+
+/**
+ * Key bound to one stream's header, so the header cannot be swapped
+ */
+const deriveStreamKey = (key: string, header: Uint8Array): Uint8Array => {
+  const keyBytes = decodeFileKey(key);
+  const streamKey = hkdf(keyBytes, header, FILE_KEY_INFO, nacl.secretbox.keyLength);
+
+  keyBytes.fill(0);
+
+  return streamKey;
+};
+
+/**
+ * Nonce for a chunk: prefix, big-endian index, then the final-chunk flag
+ */
+const chunkNonce = (prefix: Uint8Array, index: number, isFinal: boolean): Uint8Array => {
+  const nonce = new Uint8Array(nacl.secretbox.nonceLength);
+
+  nonce.set(prefix);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  nonce[nonce.length - 1] = isFinal ? 1 : 0;
+
+  return nonce;
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const result = new Uint8Array(a.length + b.length);
+
+  result.set(a);
+  result.set(b, a.length);
+
+  return result;
+};
+
+/**
+ * Size of the encrypted stream for a file of the given size
+ */
+export const encryptedFileSize = (
+  fileSize: number,
+  chunkSize: number = FILE_CHUNK_SIZE
+): number => {
+  // An empty file is still sent as one empty final chunk
+  const chunkCount = Math.max(1, Math.ceil(fileSize / chunkSize));
+
+  return FILE_HEADER_LENGTH + fileSize + chunkCount * nacl.secretbox.overheadLength;
+};
+
+/**
+ * Check whether data starts with an encrypted file stream header
+ */
+export const isEncryptedFileStream = (data: Uint8Array): boolean => {
+  return (
+    data.length >= FILE_HEADER_LENGTH &&
+    FILE_STREAM_MAGIC.every((byte, i) => data[i] === byte) &&
+    data[FILE_STREAM_MAGIC.length] === FILE_STREAM_VERSION
+  );
+};
+
+/**
+ * Encrypts one file chunk by chunk
+ *
+ * Send `header` first, then the result of every `encryptChunk` call in
+ * order. All chunks but the last must be exactly `chunkSize` bytes.
+ */
+export class FileEncryptor {
+  private index = 0;
+  private isFinished = false;
+
+  private constructor(
+    readonly header: Uint8Array,
+    readonly chunkSize: number,
+    private noncePrefix: Uint8Array,
+    private streamKey: Uint8Array
+  ) {}
+
+  static async create(key: string, chunkSize: number = FILE_CHUNK_SIZE): Promise<FileEncryptor> {
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new Error('Invalid file chunk size');
+    }
+
+    const noncePrefix = await generateRandomBytes(NONCE_PREFIX_LENGTH);
+    const header = new Uint8Array(FILE_HEADER_LENGTH);
+    const view = new DataView(header.buffer);
+
+    header.set(FILE_STREAM_MAGIC);
+    header[FILE_STREAM_MAGIC.length] = FILE_STREAM_VERSION;
+    view.setUint32(FILE_STREAM_MAGIC.length + 1, chunkSize);
+    header.set(noncePrefix, FILE_STREAM_MAGIC.length + 5);
+
+    return new FileEncryptor(header, chunkSize, noncePrefix, deriveStreamKey(key, header));
+  }
+
+  encryptChunk(chunk: Uint8Array, isFinal: boolean): Uint8Array {
+    if (this.isFinished) {
+      throw new Error('File stream already finished');
+    }
+
+    if (chunk.length > this.chunkSize || (!isFinal && chunk.length !== this.chunkSize)) {
+      throw new Error('Only the final file chunk may be shorter than the chunk size');
+    }
+
+    const sealed = nacl.secretbox(
+      chunk,
+      chunkNonce(this.noncePrefix, this.index, isFinal),
+      this.streamKey
+    );
+
+    this.index++;
+
+    if (isFinal) {
+      this.isFinished = true;
+      this.streamKey.fill(0);
+    }
+
+    return sealed;
+  }
+}
+
+/**
+ * Decrypts a file stream as its bytes arrive
+ *
+ * Feed the stream to `push` in pieces of any size and call `finish` once it
+ * has ended. Each call returns the plaintext that could be authenticated so
+ * far; nothing is returned for a chunk that fails.
+ */
+export class FileDecryptor {
+  private buffer = new Uint8Array(0);
+  private chunkSize = 0;
+  private noncePrefix: Uint8Array | null = null;
+  private streamKey: Uint8Array | null = null;
+  private index = 0;
+  private isFinished = false;
+
+  constructor(private key: string) {}
+
+  push(data: Uint8Array): Uint8Array[] {
+    if (this.isFinished) {
+      if (data.length > 0) {
+        throw new Error('Unexpected data after the final file chunk');
+      }
+
+      return [];
+    }
+
+    this.buffer = concatBytes(this.buffer, data);
+
+    if (!this.streamKey) {
+      if (this.buffer.length < FILE_HEADER_LENGTH) {
+        return [];
+      }
+
+      this.readHeader(this.buffer.subarray(0, FILE_HEADER_LENGTH));
+      this.buffer = this.buffer.slice(FILE_HEADER_LENGTH);
+    }
+
+    const sealedChunkSize = this.chunkSize + nacl.secretbox.overheadLength;
+    const chunks: Uint8Array[] = [];
+
+    // A full chunk may still be the last one, so try both flags
+    while (!this.isFinished && this.buffer.length >= sealedChunkSize) {
+      chunks.push(this.openChunk(this.buffer.subarray(0, sealedChunkSize), true));
+      this.buffer = this.buffer.slice(sealedChunkSize);
+    }
+
+    if (this.isFinished && this.buffer.length > 0) {
+      throw new Error('Unexpected data after the final file chunk');
+    }
+
+    return chunks;
+  }
+
+  finish(): Uint8Array {
+    if (this.isFinished) {
+      return new Uint8Array(0);
+    }
+
+    if (!this.streamKey || this.buffer.length < nacl.secretbox.overheadLength) {
+      throw new Error('Encrypted file is truncated');
+    }
+
+    // Whatever is left has to be the final chunk
+    const chunk = this.openChunk(this.buffer, false);
+    this.buffer = new Uint8Array(0);
+
+    return chunk;
+  }
+
+  private readHeader(header: Uint8Array): void {
+    if (!isEncryptedFileStream(header)) {
+      throw new Error('Not an encrypted file stream');
+    }
+
+    this.chunkSize = new DataView(
+      header.buffer,
+      header.byteOffset,
+      header.byteLength
+    ).getUint32(FILE_STREAM_MAGIC.length + 1);
+
+    if (this.chunkSize < 1 || this.chunkSize > MAX_CHUNK_SIZE) {
+      throw new Error('Invalid file chunk size');
+    }
+
+    this.noncePrefix = header.slice(FILE_STREAM_MAGIC.length + 5);
+    this.streamKey = deriveStreamKey(this.key, header);
+  }
+
+  private openChunk(sealed: Uint8Array, mayContinue: boolean): Uint8Array {
+    const prefix = this.noncePrefix!;
+    const streamKey = this.streamKey!;
+
+    if (mayContinue) {
+      const chunk = nacl.secretbox.open(sealed, chunkNonce(prefix, this.index, false), streamKey);
+
+      if (chunk) {
+        this.index++;
+        return chunk;
+      }
+    }
+
+    const finalChunk = nacl.secretbox.open(sealed, chunkNonce(prefix, this.index, true), streamKey);
+
+    if (!finalChunk) {
+      throw new Error(
+        mayContinue
+          ? 'File chunk failed authentication'
+          : 'Encrypted file is truncated or corrupted'
+      );
+    }
+
+    this.index++;
+    this.isFinished = true;
+    streamKey.fill(0);
+
+    return finalChunk;
+  }
+}
+
+/**
+ * Encrypt a file read piece by piece
+ *
+ * Yields the header and then each sealed chunk, ready to be uploaded as
+ * they are produced. Progress counts plaintext bytes.
+ */
+export const encryptFileStream = async function* (
+  source: AsyncIterable<Uint8Array>,
+  totalBytes: number,
+  key: string,
+  onProgress?: FileProgressCallback,
+  chunkSize: number = FILE_CHUNK_SIZE
+): AsyncGenerator<Uint8Array> {
+  const encryptor = await FileEncryptor.create(key, chunkSize);
+  let pending = new Uint8Array(0);
+  let processedBytes = 0;
+
+  yield encryptor.header;
+
+  for await (const piece of source) {
+    pending = concatBytes(pending, piece);
+
+    // Hold back a full chunk until we know whether it is the last one
+    while (pending.length > chunkSize) {
+      yield encryptor.encryptChunk(pending.subarray(0, chunkSize), false);
+      pending = pending.slice(chunkSize);
+      processedBytes += chunkSize;
+      onProgress?.({ processedBytes, totalBytes });
+    }
+  }
+
+  yield encryptor.encryptChunk(pending, true);
+  processedBytes += pending.length;
+  onProgress?.({ processedBytes, totalBytes });
+};
+
+/**
+ * Decrypt an encrypted file stream read piece by piece
+ *
+ * Yields plaintext as soon as each chunk authenticates and throws if the
+ * stream is tampered with or ends early. Progress counts encrypted bytes.
+ */
+export const decryptFileStream = async function* (
+  source: AsyncIterable<Uint8Array>,
+  totalBytes: number,
+  key: string,
+  onProgress?: FileProgressCallback
+): AsyncGenerator<Uint8Array> {
+  const decryptor = new FileDecryptor(key);
+  let processedBytes = 0;
+
+  for await (const piece of source) {
+    for (const chunk of decryptor.push(piece)) {
+      yield chunk;
+    }
+
+    processedBytes += piece.length;
+    onProgress?.({ processedBytes, totalBytes });
+  }
+
+  yield decryptor.finish();
+};
+
+/**
+ * Split data into pieces for the stream functions
+ */
+const toPieces = async function* (
+  data: Uint8Array,
+  pieceSize: number
+): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += pieceSize) {
+    yield data.subarray(offset, offset + pieceSize);
+  }
+};
+
+const collect = async (stream: AsyncIterable<Uint8Array>, size: number): Promise<Uint8Array> => {
+  const result = new Uint8Array(size);
+  let offset = 0;
+
+  for await (const piece of stream) {
+    result.set(piece, offset);
+    offset += piece.length;
+  }
+
+  return result.slice(0, offset);
+};
+
+/**
+ * Encrypt a file held in memory
+ */
+export const encryptFile = async (
+  fileData: Uint8Array,
+  key: string,
+  onProgress?: FileProgressCallback
+): Promise<Uint8Array> => {
+  try {
+    return await collect(
+      encryptFileStream(toPieces(fileData, FILE_CHUNK_SIZE), fileData.length, key, onProgress),
+      encryptedFileSize(fileData.length)
+    );
+  } catch (error) {
+    console.error('Encrypt file error:', error);
+    throw new Error('Failed to encrypt file');
+  }
+};
+
+/**
+ * Decrypt a file held in memory
+ */
+export const decryptFile = async (
+  encryptedData: Uint8Array,
+  key: string,
+  onProgress?: FileProgressCallback
+): Promise<Uint8Array> => {
+  try {
+    return await collect(
+      decryptFileStream(
+        toPieces(encryptedData, FILE_CHUNK_SIZE),
+        encryptedData.length,
+        key,
+        onProgress
+      ),
+      encryptedData.length
+    );
+  } catch (error) {
+    console.error('Decrypt file error:', error);
+    throw new Error('Failed to decrypt file');
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * SecuriComm Key Agreement Service
+ * 
+ * Derives conversation keys on the client from X25519 identity keys.
+ * The server only ever sees public keys and ciphertext.
+ */
+
+import util from 'tweetnacl-util';
+import {
+  KeyPair,
+  generateKeyPair,
+  storeKeyPair,
+  generateSigningKeyPair,
+  storeSigningKeyPair,
+  generateSharedKey,
+  hkdf,
+} from './encryption';
+
+// Context string for conversation key derivation
+const CONVERSATION_KEY_INFO = 'SecuriComm/conversation-key/v1';
+
+// Derived keys, keyed by conversation ID and peer public key
+const conversationKeyCache = new Map<string, string>();
+
+/**
+ * Ensure the local identity key pair exists and is persisted
+ */
+export const ensureIdentityKeyPair = async (): Promise<KeyPair> => {
+  try {
+    // Returns the stored key pair when one exists
+    const keyPair = await generateKeyPair();
+    
+    await storeKeyPair(keyPair);
+    
+    return keyPair;
+  } catch (error) {
+    console.error('Ensure identity key pair error:', error);
+    throw new Error('Failed to initialize identity keys');
+  }
+};
+
+/**
+ * Ensure the local signing key pair exists and is persisted
+ */
+export const ensureSigningKeyPair = async (): Promise<KeyPair> => {
+  try {
+    // Returns the stored key pair when one exists
+    const keyPair = await generateSigningKeyPair();
+    
+    await storeSigningKeyPair(keyPair);
+    
+    return keyPair;
+  } catch (error) {
+    console.error('Ensure signing key pair error:', error);
+    throw new Error('Failed to initialize signing keys');
+  }
+};
+
+/**
+ * Derive the symmetric key for a direct conversation
+ * 
+ * Both participants compute the same key from their own private key and
+ * the other party's public key. The conversation ID is mixed in so that
+ * every conversation between the same two users gets a distinct key.
+ */
+export const deriveConversationKey = async (
+  conversationId: string,
+  theirPublicKey: string
+): Promise<string> => {
+  const cacheKey = `${conversationId}:${theirPublicKey}`;
+  const cachedKey = conversationKeyCache.get(cacheKey);
+  
+  if (cachedKey) {
+    return cachedKey;
+  }
+  
+  try {
+    const sharedKey = await generateSharedKey(theirPublicKey);
+    
+    const conversationKey = hkdf(
+      sharedKey,
+      util.decodeUTF8(conversationId),
+      CONVERSATION_KEY_INFO,
+      32
+    );
+    
+    // Zero out intermediate secret
+    sharedKey.fill(0);
+    
+    const conversationKeyBase64 = util.encodeBase64(conversationKey);
+    conversationKeyCache.set(cacheKey, conversationKeyBase64);
+    
+    return conversationKeyBase64;
+  } catch (error) {
+    console.error('Derive conversation key error:', error);
+    throw new Error('Failed to derive conversation key');
+  }
+};
+
+/**
+ * Clear derived conversation keys from memory
+ */
+export const clearConversationKeys = (): void => {
+  conversationKeyCache.clear();
+};
@@ -0,0 +1,251 @@
+/**
+ * SecuriComm Key Backup Service
+ *
+ * Exports the identity keys and verified contacts into a bundle sealed with a passphrase, and restores that bundle on a
+ * new install. The passphrase is stretched with scrypt so that guessing
+ * it offline is expensive. Direct conversation keys are derived from the
+ * identity key and come back with it; ratchet sessions are left out so a
+ * leaked backup cannot decrypt past messages.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { scrypt } from 'scrypt-js';
+import {
+  KeyPair,
+  generateRandomBytes,
+  getKeyPair,
+  getSigningKeyPair,
+  storeKeyPair,
+  storeSigningKeyPair,
+} from './encryption';
+import { clearConversationKeys } from './keyAgreement';
+import { clearPrekeyStore } from './prekeys';
+import { VerifiedContact, getVerifiedContacts, mergeVerifiedContacts } from './verification';
+import { auditLog } from './auditLog';
+
+// Current backup format version
+const BACKUP_VERSION = 1;
+
+// scrypt cost parameters for new backups
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+// Upper bound on the cost a backup may ask for, so a crafted file cannot exhaust memory
+const MAX_SCRYPT_N = 1048576;
+
+// Passphrases shorter than this are refused
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+// Sealed backup as written to a file or shared
+export interface KeyBackup {
+  type: 'key_backup';
+  version: number;
+  kdf: {
+    algorithm: 'scrypt';
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+  };
+  nonce: string;
+  ciphertext: string;
+  createdAt: number;
+}
+
+// Keys held inside a backup or handed to a linked device
+export interface KeyMaterial {
+  identityKeyPair: KeyPair;
+  signingKeyPair: KeyPair;
+  verifiedContacts: Record<string, VerifiedContact>;
+}
+
+// What a restore brought back
+export interface KeyBackupSummary {
+  identityKey: string;
+  signingKey: string;
+  contactCount: number;
+  createdAt: number;
+}
+
+/**
+ * Stretch a passphrase into a secretbox key
+ */
+const deriveBackupKey = async (
+  passphrase: string,
+  kdf: KeyBackup['kdf']
+): Promise<Uint8Array> => {
+  const password = util.decodeUTF8(passphrase.normalize('NFKD'));
+
+  return scrypt(
+    password,
+    util.decodeBase64(kdf.salt),
+    kdf.N,
+    kdf.r,
+    kdf.p,
+    nacl.secretbox.keyLength
+  );
+};
+
+/**
+ * Check that a passphrase is long enough to protect a backup
+ */
+export const validatePassphrase = (passphrase: string): void => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+};
+
+/**
+ * Check whether a string is a key backup
+ */
+export const isKeyBackup = (content: string): boolean => {
+  try {
+    return JSON.parse(content)?.type === 'key_backup';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Collect this device's identity and verified contacts
+ */
+export const collectKeyMaterial = async (): Promise<KeyMaterial> => {
+  const identityKeyPair = await getKeyPair();
+  const signingKeyPair = await getSigningKeyPair();
+
+  if (!identityKeyPair || !signingKeyPair) {
+    throw new Error('Key pair not found');
+  }
+
+  return {
+    identityKeyPair,
+    signingKeyPair,
+    verifiedContacts: await getVerifiedContacts(),
+  };
+};
+
+/**
+ * Install key material on this device
+ *
+ * The identity and signing keys replace the ones on this device. Verified
+ * contacts are merged with the ones already here.
+ */
+export const installKeyMaterial = async (material: KeyMaterial): Promise<void> => {
+  await storeKeyPair(material.identityKeyPair);
+  await storeSigningKeyPair(material.signingKeyPair);
+
+  // Prekeys were signed with the replaced signing key
+  await clearPrekeyStore();
+  clearConversationKeys();
+
+  await mergeVerifiedContacts(material.verifiedContacts);
+};
+
+/**
+ * Create a passphrase-protected backup of this device's keys
+ */
+export const createKeyBackup = async (passphrase: string): Promise<string> => {
+  validatePassphrase(passphrase);
+
+  const contents = await collectKeyMaterial();
+
+  const kdf: KeyBackup['kdf'] = {
+    algorithm: 'scrypt',
+    salt: util.encodeBase64(await generateRandomBytes(32)),
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+  };
+
+  const key = await deriveBackupKey(passphrase, kdf);
+  const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
+  const plaintext = util.decodeUTF8(JSON.stringify(contents));
+
+  const backup: KeyBackup = {
+    type: 'key_backup',
+    version: BACKUP_VERSION,
+    kdf,
+    nonce: util.encodeBase64(nonce),
+    ciphertext: util.encodeBase64(nacl.secretbox(plaintext, nonce, key)),
+    createdAt: Date.now(),
+  };
+
+  // Zero out secrets
+  key.fill(0);
+  plaintext.fill(0);
+
+  await auditLog.append('key', 'backup_created', 'Key backup created', {
+    severity: 'medium',
+    details: { contactCount: Object.keys(contents.verifiedContacts).length },
+  });
+
+  return JSON.stringify(backup);
+};
+
+/**
+ * Restore keys from a passphrase-protected backup
+ *
+ * The caller must publish the restored identity and new prekeys.
+ */
+export const restoreKeyBackup = async (
+  content: string,
+  passphrase: string
+): Promise<KeyBackupSummary> => {
+  if (!isKeyBackup(content)) {
+    throw new Error('Not a key backup');
+  }
+
+  const backup: KeyBackup = JSON.parse(content);
+
+  if (backup.version !== BACKUP_VERSION) {
+    throw new Error('Unsupported key backup version');
+  }
+
+  const { kdf } = backup;
+
+  if (
+    kdf?.algorithm !== 'scrypt' ||
+    !Number.isInteger(kdf.N) ||
+    kdf.N < SCRYPT_N ||
+    kdf.N > MAX_SCRYPT_N ||
+    kdf.r !== SCRYPT_R ||
+    kdf.p !== SCRYPT_P
+  ) {
+    throw new Error('Unsupported key backup parameters');
+  }
+
+  const key = await deriveBackupKey(passphrase, kdf);
+  const plaintext = nacl.secretbox.open(
+    util.decodeBase64(backup.ciphertext),
+    util.decodeBase64(backup.nonce),
+    key
+  );
+
+  key.fill(0);
+
+  // A wrong passphrase and a modified backup look the same
+  if (!plaintext) {
+    throw new Error('Wrong passphrase or damaged backup');
+  }
+
+  const contents: KeyMaterial = JSON.parse(util.encodeUTF8(plaintext));
+  plaintext.fill(0);
+
+  const contactCount = Object.keys(contents.verifiedContacts).length;
+
+  await installKeyMaterial(contents);
+
+  await auditLog.append('key', 'backup_restored', 'Keys restored from a backup', {
+    severity: 'high',
+    details: { contactCount, backupCreatedAt: backup.createdAt },
+  });
+
+  return {
+    identityKey: contents.identityKeyPair.publicKey,
+    signingKey: contents.signingKeyPair.publicKey,
+    contactCount,
+    createdAt: backup.createdAt,
+  };
+};
@@ -0,0 +1,552 @@
+/**
+ * SecuriComm Message Store
+ *
+ * Keeps decrypted messages on this device so conversations open without
+ * refetching them, and so forward-secret messages stay readable after their
+ * keys are gone. Messages are stored per conversation in pages ordered by
+ * time, and a search index maps the words of every message to where it is
+ * kept, and the manifest also records how far each conversation has been
+ * synced. Pages, index shards and the manifest are each sealed under a key
+ * derived for that record from a database key in secure storage, so records
+ * cannot be read or swapped. Searches never leave the device.
+ */
+
+import { SealedRecords } from './sealedRecords';
+
+// Most messages kept in one page
+const PAGE_SIZE = 100;
+
+// Number of shards the search index is split into
+const SEARCH_SHARDS = 16;
+
+// Shortest word added to the search index
+const MIN_TOKEN_LENGTH = 2;
+
+// Where pages, index shards and the manifest are kept
+const records = new SealedRecords({
+  name: 'message_db',
+  context: 'SecuriComm/message-db',
+  label: 'Message store',
+});
+
+// Decrypted message as kept on this device
+export interface StoredMessage {
+  _id: string;
+  conversationId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Last message change a conversation has been synced up to; changes at
+// the same server time are ordered by message ID
+export interface SyncPosition {
+  updatedAt: string;
+  messageId: string;
+}
+
+// Options for searching messages
+export interface SearchOptions {
+  conversationId?: string;
+  limit?: number;
+}
+
+// Range of messages kept in one page
+interface PageInfo {
+  id: number;
+  oldest: string;
+  newest: string;
+  count: number;
+}
+
+interface Manifest {
+  nextPageId: number;
+  conversations: Record<string, PageInfo[]>;
+  lastSync: Record<string, SyncPosition>;
+}
+
+// Where an indexed message is kept: conversation, message and time
+type Posting = [string, string, string];
+
+// Search index shard, mapping words to the messages that contain them
+type SearchShard = Record<string, Posting[]>;
+
+/**
+ * Split text into the words kept in the search index
+ */
+export const tokenize = (text: string): string[] => {
+  const words = text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  return [...new Set(words.filter((word) => word.length >= MIN_TOKEN_LENGTH))];
+};
+
+const shardOf = (token: string): number => token.charCodeAt(0) % SEARCH_SHARDS;
+
+const byTime = (a: StoredMessage, b: StoredMessage): number =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+export class MessageStore {
+  private static instance: MessageStore;
+  private manifest: Manifest | null = null;
+  private pages = new Map<number, StoredMessage[]>();
+  private shards = new Map<number, SearchShard>();
+  private pending: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): MessageStore {
+    if (!MessageStore.instance) {
+      MessageStore.instance = new MessageStore();
+    }
+    return MessageStore.instance;
+  }
+
+  /**
+   * Get stored messages of a conversation, newest first
+   */
+  public async getMessages<T extends StoredMessage>(
+    conversationId: string,
+    limit: number = 20,
+    before?: string
+  ): Promise<T[]> {
+    return await this.exclusive(async () => {
+      const pages = (await this.loadManifest()).conversations[conversationId] || [];
+      const cutoff = before ? new Date(before).getTime() : Infinity;
+      const result: StoredMessage[] = [];
+
+      for (let i = pages.length - 1; i >= 0 && result.length < limit; i--) {
+        if (new Date(pages[i].oldest).getTime() >= cutoff) {
+          continue;
+        }
+
+        const messages = await this.loadPage(pages[i].id);
+
+        for (let j = messages.length - 1; j >= 0 && result.length < limit; j--) {
+          if (new Date(messages[j].createdAt).getTime() < cutoff) {
+            result.push(messages[j]);
+          }
+        }
+      }
+
+      return result as T[];
+    });
+  }
+
+  /**
+   * Get a stored message
+   */
+  public async getMessage<T extends StoredMessage>(
+    conversationId: string,
+    messageId: string
+  ): Promise<T | null> {
+    return await this.exclusive(async () => {
+      const pages = (await this.loadManifest()).conversations[conversationId] || [];
+
+      for (const page of pages) {
+        const message = (await this.loadPage(page.id)).find((m) => m._id === messageId);
+
+        if (message) {
+          return message as T;
+        }
+      }
+
+      return null;
+    });
+  }
+
+  /**
+   * Add or replace decrypted messages of a conversation
+   */
+  public async putMessages(conversationId: string, messages: StoredMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    await this.exclusive(async () => {
+      try {
+        const manifest = await this.loadManifest();
+        const pages = manifest.conversations[conversationId] || [];
+        const changedPages = new Set<number>();
+        const changedShards = new Set<number>();
+
+        for (const message of [...messages].sort(byTime)) {
+          const time = new Date(message.createdAt).getTime();
+
+          // The page holding this time, or a new one for the first message
+          let index = pages.length - 1;
+
+          while (index > 0 && new Date(pages[index].oldest).getTime() > time) {
+            index--;
+          }
+
+          if (index < 0) {
+            pages.push({ id: manifest.nextPageId++, oldest: '', newest: '', count: 0 });
+            this.pages.set(pages[0].id, []);
+            index = 0;
+          }
+
+          // Messages sent at the same time can straddle a page boundary
+          if (index > 0 && pages[index].oldest === message.createdAt) {
+            const previousPage = await this.loadPage(pages[index - 1].id);
+
+            if (previousPage.some((m) => m._id === message._id)) {
+              index--;
+            }
+          }
+
+          const pageMessages = await this.loadPage(pages[index].id);
+          const existingIndex = pageMessages.findIndex((m) => m._id === message._id);
+          const stored = { ...message, conversationId };
+
+          if (existingIndex >= 0) {
+            const previous = pageMessages[existingIndex];
+
+            if (previous.content !== message.content) {
+              await this.unindex(previous, changedShards);
+              await this.index(stored, changedShards);
+            }
+
+            pageMessages[existingIndex] = stored;
+          } else {
+            pageMessages.push(stored);
+            pageMessages.sort(byTime);
+            await this.index(stored, changedShards);
+          }
+
+          changedPages.add(pages[index].id);
+
+          // Split full pages in half
+          if (pageMessages.length > PAGE_SIZE) {
+            const newPage: PageInfo = {
+              id: manifest.nextPageId++,
+              oldest: '',
+              newest: '',
+              count: 0,
+            };
+
+            this.pages.set(newPage.id, pageMessages.splice(PAGE_SIZE / 2));
+            pages.splice(index + 1, 0, newPage);
+            changedPages.add(newPage.id);
+            this.describePage(newPage);
+          }
+
+          this.describePage(pages[index]);
+        }
+
+        manifest.conversations[conversationId] = pages;
+
+        for (const id of changedPages) {
+          await records.write(`page.${id}`, this.pages.get(id));
+        }
+
+        for (const shard of changedShards) {
+          await records.write(`search.${shard}`, this.shards.get(shard));
+        }
+
+        await records.write('manifest', manifest);
+      } catch (error) {
+        console.error('Store messages error:', error);
+        throw new Error('Failed to store messages');
+      }
+    });
+  }
+
+  /**
+   * Remove a message
+   */
+  public async deleteMessage(conversationId: string, messageId: string): Promise<void> {
+    await this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+      const pages = manifest.conversations[conversationId] || [];
+
+      for (const page of pages) {
+        const pageMessages = await this.loadPage(page.id);
+        const index = pageMessages.findIndex((m) => m._id === messageId);
+
+        if (index < 0) {
+          continue;
+        }
+
+        const changedShards = new Set<number>();
+
+        await this.unindex(pageMessages[index], changedShards);
+        pageMessages.splice(index, 1);
+
+        if (pageMessages.length === 0) {
+          pages.splice(pages.indexOf(page), 1);
+          this.pages.delete(page.id);
+          await records.remove(`page.${page.id}`);
+        } else {
+          this.describePage(page);
+          await records.write(`page.${page.id}`, pageMessages);
+        }
+
+        for (const shard of changedShards) {
+          await records.write(`search.${shard}`, this.shards.get(shard));
+        }
+
+        await records.write('manifest', manifest);
+        return;
+      }
+    });
+  }
+
+  /**
+   * Remove every stored message sent before a time, in all conversations
+   *
+   * Returns the removed messages, so the files they carried can go too.
+   */
+  public async deleteMessagesBefore<T extends StoredMessage>(time: string): Promise<T[]> {
+    return await this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+      const cutoff = new Date(time).getTime();
+      const removed: StoredMessage[] = [];
+      const changedShards = new Set<number>();
+
+      for (const pages of Object.values(manifest.conversations)) {
+        for (const page of [...pages]) {
+          if (new Date(page.oldest).getTime() >= cutoff) {
+            continue;
+          }
+
+          const pageMessages = await this.loadPage(page.id);
+          const kept = pageMessages.filter((m) => new Date(m.createdAt).getTime() >= cutoff);
+
+          for (const message of pageMessages) {
+            if (!kept.includes(message)) {
+              await this.unindex(message, changedShards);
+              removed.push(message);
+            }
+          }
+
+          if (kept.length === 0) {
+            pages.splice(pages.indexOf(page), 1);
+            this.pages.delete(page.id);
+            await records.remove(`page.${page.id}`);
+          } else {
+            this.pages.set(page.id, kept);
+            this.describePage(page);
+            await records.write(`page.${page.id}`, kept);
+          }
+        }
+      }
+
+      if (removed.length === 0) {
+        return [];
+      }
+
+      for (const shard of changedShards) {
+        await records.write(`search.${shard}`, this.shards.get(shard));
+      }
+
+      await records.write('manifest', manifest);
+
+      return removed as T[];
+    });
+  }
+
+  /**
+   * Remove every stored message of a conversation
+   */
+  public async deleteConversation(conversationId: string): Promise<void> {
+    await this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+      const pages = manifest.conversations[conversationId] || [];
+      const changedShards = new Set<number>();
+
+      for (const page of pages) {
+        for (const message of await this.loadPage(page.id)) {
+          await this.unindex(message, changedShards);
+        }
+
+        this.pages.delete(page.id);
+        await records.remove(`page.${page.id}`);
+      }
+
+      for (const shard of changedShards) {
+        await records.write(`search.${shard}`, this.shards.get(shard));
+      }
+
+      delete manifest.conversations[conversationId];
+      delete manifest.lastSync[conversationId];
+      await records.write('manifest', manifest);
+    });
+  }
+
+  /**
+   * Search stored messages, newest first
+   *
+   * Every word of the query has to start a word of the message.
+   */
+  public async search<T extends StoredMessage>(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<T[]> {
+    const terms = tokenize(query);
+    const limit = options.limit || 50;
+
+    if (terms.length === 0) {
+      return [];
+    }
+
+    return await this.exclusive(async () => {
+      const termMatches: Map<string, Posting>[] = [];
+
+      for (const term of terms) {
+        const shard = await this.loadShard(shardOf(term));
+        const matches = new Map<string, Posting>();
+
+        Object.keys(shard)
+          .filter((token) => token.startsWith(term))
+          .forEach((token) =>
+            shard[token].forEach((posting) => {
+              if (!options.conversationId || posting[0] === options.conversationId) {
+                matches.set(`${posting[0]}/${posting[1]}`, posting);
+              }
+            })
+          );
+
+        termMatches.push(matches);
+      }
+
+      // Messages matching every word of the query
+      const [first, ...rest] = termMatches;
+      const postings = [...first.values()]
+        .filter((posting) => rest.every((matches) => matches.has(`${posting[0]}/${posting[1]}`)))
+        .sort((a, b) => new Date(b[2]).getTime() - new Date(a[2]).getTime())
+        .slice(0, limit);
+      const result: StoredMessage[] = [];
+
+      for (const [conversationId, messageId, createdAt] of postings) {
+        const message = (await this.loadPageAt(conversationId, createdAt)).find(
+          (m) => m._id === messageId
+        );
+
+        if (message) {
+          result.push(message);
+        }
+      }
+
+      return result as T[];
+    });
+  }
+
+  /**
+   * Position up to which a conversation has been synced
+   */
+  public async getLastSync(conversationId: string): Promise<SyncPosition | null> {
+    return await this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+
+      return manifest.lastSync[conversationId] || null;
+    });
+  }
+
+  /**
+   * Record the position up to which a conversation has been synced
+   */
+  public async setLastSync(conversationId: string, position: SyncPosition): Promise<void> {
+    await this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+
+      manifest.lastSync[conversationId] = position;
+      await records.write('manifest', manifest);
+    });
+  }
+
+  /**
+   * Forget decrypted messages and the database key kept in memory (e.g. on logout)
+   */
+  public clearMemoryMessages(): void {
+    records.clearMemoryKey();
+    this.manifest = null;
+    this.pages.clear();
+    this.shards.clear();
+  }
+
+  /**
+   * Run store operations one at a time
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task, task);
+
+    this.pending = result.catch(() => undefined);
+
+    return result;
+  }
+
+  private describePage(page: PageInfo): void {
+    const messages = this.pages.get(page.id) || [];
+
+    page.count = messages.length;
+    page.oldest = messages[0]?.createdAt || '';
+    page.newest = messages[messages.length - 1]?.createdAt || '';
+  }
+
+  private async index(message: StoredMessage, changedShards: Set<number>): Promise<void> {
+    const posting: Posting = [message.conversationId, message._id, message.createdAt];
+
+    for (const token of tokenize(message.content)) {
+      const shard = await this.loadShard(shardOf(token));
+
+      shard[token] = [...(shard[token] || []), posting];
+      changedShards.add(shardOf(token));
+    }
+  }
+
+  private async unindex(message: StoredMessage, changedShards: Set<number>): Promise<void> {
+    for (const token of tokenize(message.content)) {
+      const shard = await this.loadShard(shardOf(token));
+      const postings = (shard[token] || []).filter(
+        (posting) => posting[0] !== message.conversationId || posting[1] !== message._id
+      );
+
+      if (postings.length > 0) {
+        shard[token] = postings;
+      } else {
+        delete shard[token];
+      }
+
+      changedShards.add(shardOf(token));
+    }
+  }
+
+  private async loadManifest(): Promise<Manifest> {
+    if (!this.manifest) {
+      this.manifest = {
+        nextPageId: 0,
+        conversations: {},
+        lastSync: {},
+        ...(await records.read<Manifest>('manifest')),
+      };
+    }
+
+    return this.manifest;
+  }
+
+  private async loadPage(id: number): Promise<StoredMessage[]> {
+    if (!this.pages.has(id)) {
+      this.pages.set(id, (await records.read<StoredMessage[]>(`page.${id}`)) || []);
+    }
+
+    return this.pages.get(id)!;
+  }
+
+  private async loadPageAt(conversationId: string, createdAt: string): Promise<StoredMessage[]> {
+    const pages = (await this.loadManifest()).conversations[conversationId] || [];
+    const time = new Date(createdAt).getTime();
+    const page = [...pages].reverse().find((p) => new Date(p.oldest).getTime() <= time) || pages[0];
+
+    return page ? await this.loadPage(page.id) : [];
+  }
+
+  private async loadShard(shard: number): Promise<SearchShard> {
+    if (!this.shards.has(shard)) {
+      this.shards.set(shard, (await records.read<SearchShard>(`search.${shard}`)) || {});
+    }
+
+    return this.shards.get(shard)!;
+  }
+}
+
+export const messageStore = MessageStore.getInstance();
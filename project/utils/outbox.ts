@@ -0,0 +1,399 @@
+/**
+ * SecuriComm Message Outbox
+ *
+ * Keeps outgoing messages in encrypted storage until the server has
+ * accepted them, so nothing written offline or during an outage is lost.
+ * Messages of a conversation are sent one at a time in the order they
+ * were written; a message that cannot be sent holds back the ones after
+ * it. Every message carries an ID generated here that the server uses to
+ * drop duplicates, which makes sending again after a lost response safe.
+ * Messages that keep failing are marked failed until they are retried.
+ */
+
+import { Buffer } from 'buffer';
+import { api, ServerMessage } from './api';
+import { SealedRecords } from './sealedRecords';
+import { generateRandomBytes } from './encryption';
+import { toMessageContent } from './envelope';
+import { Attachment, MessageReply } from './attachments';
+import { RichContent } from './richMessages';
+
+// Attempts before a message is marked failed
+const MAX_SEND_ATTEMPTS = 5;
+
+// Delay before the first retry of a message, doubled on each attempt
+const RETRY_DELAY = 2000;
+
+// Longest wait between two attempts
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// Sealed payloads older than this are sealed again, well inside the
+// receivers' replay window
+const PAYLOAD_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Messages waiting to be sent, more than secure storage holds while offline for long
+const outboxRecords = new SealedRecords({
+  name: 'message_outbox',
+  context: 'SecuriComm/message-outbox',
+  label: 'Outbox',
+});
+
+export type OutboxStatus = 'sending' | 'failed';
+
+// Message waiting to be accepted by the server
+export interface OutboxEntry {
+  clientId: string;
+  conversationId: string;
+  content: string;
+  attachments: Attachment[];
+  replyTo?: MessageReply;
+  rich?: RichContent;
+  // Sealed content, reused by every attempt so a duplicate is the same message
+  payload?: string;
+  sealedAt?: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+  error?: string;
+}
+
+// How the outbox encrypts messages and reports the ones that were sent
+export interface OutboxHandlers {
+  encrypt: (entry: OutboxEntry) => Promise<string | null>;
+  onSent: (entry: OutboxEntry, message: ServerMessage) => void;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+/**
+ * Whether a failed request would fail the same way if sent again
+ */
+const isPermanentFailure = (statusCode?: number): boolean => {
+  return (
+    statusCode !== undefined &&
+    statusCode >= 400 &&
+    statusCode < 500 &&
+    ![401, 408, 429].includes(statusCode)
+  );
+};
+
+export class MessageOutbox {
+  private static instance: MessageOutbox;
+  private entries: OutboxEntry[] | null = null;
+  private handlers: OutboxHandlers | null = null;
+  private listeners = new Set<OutboxListener>();
+  private isOnline = false;
+  private flushing: Promise<void> | null = null;
+  private flushRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): MessageOutbox {
+    if (!MessageOutbox.instance) {
+      MessageOutbox.instance = new MessageOutbox();
+    }
+    return MessageOutbox.instance;
+  }
+
+  /**
+   * Set how messages are encrypted and where sent messages are reported
+   */
+  public setHandlers(handlers: OutboxHandlers | null): void {
+    this.handlers = handlers;
+
+    if (handlers) {
+      this.requestFlush();
+    }
+  }
+
+  /**
+   * Report whether we are connected
+   *
+   * Messages wait while offline. When the connection comes back, waiting
+   * messages are sent right away instead of after their backoff.
+   */
+  public setOnline(isOnline: boolean): void {
+    const cameOnline = isOnline && !this.isOnline;
+
+    this.isOnline = isOnline;
+
+    if (cameOnline) {
+      this.entries?.forEach((entry) => {
+        if (entry.status === 'sending') {
+          entry.nextAttemptAt = 0;
+        }
+      });
+      this.requestFlush();
+    }
+  }
+
+  /**
+   * Queue a message for sending
+   */
+  public async enqueue(
+    conversationId: string,
+    content: string,
+    attachments: Attachment[] = [],
+    replyTo?: MessageReply,
+    rich?: RichContent
+  ): Promise<OutboxEntry> {
+    const entries = await this.load();
+    const entry: OutboxEntry = {
+      clientId: Buffer.from(await generateRandomBytes(16)).toString('hex'),
+      conversationId,
+      content,
+      attachments,
+      replyTo,
+      rich,
+      status: 'sending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    entries.push(entry);
+    await this.save();
+    this.notify();
+    this.requestFlush();
+
+    return entry;
+  }
+
+  /**
+   * Get the messages waiting to be sent, oldest first
+   */
+  public async getEntries(conversationId?: string): Promise<OutboxEntry[]> {
+    const entries = await this.load();
+
+    return entries
+      .filter((entry) => !conversationId || entry.conversationId === conversationId)
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Send a failed message again
+   */
+  public async retry(clientId: string): Promise<boolean> {
+    const entry = (await this.load()).find((e) => e.clientId === clientId);
+
+    if (!entry) {
+      return false;
+    }
+
+    entry.status = 'sending';
+    entry.attempts = 0;
+    entry.nextAttemptAt = 0;
+    entry.error = undefined;
+
+    await this.save();
+    this.notify();
+    this.requestFlush();
+
+    return true;
+  }
+
+  /**
+   * Give up on a message that has not been sent
+   */
+  public async discard(clientId: string): Promise<boolean> {
+    const entries = await this.load();
+    const index = entries.findIndex((entry) => entry.clientId === clientId);
+
+    if (index < 0) {
+      return false;
+    }
+
+    entries.splice(index, 1);
+    await this.save();
+    this.notify();
+
+    // The next message of the conversation is no longer held back
+    this.requestFlush();
+
+    return true;
+  }
+
+  /**
+   * Send every message that is due, in order per conversation
+   */
+  public async flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushRequested = true;
+      return await this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushRequested = false;
+          await this.sendDue();
+        } while (this.flushRequested);
+      } finally {
+        this.flushing = null;
+      }
+    })();
+
+    await this.flushing;
+  }
+
+  /**
+   * Subscribe to changes of the waiting messages
+   */
+  public onChange(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget the outbox kept in memory (e.g. on logout)
+   *
+   * Stored messages are sent after the next login.
+   */
+  public clearMemoryOutbox(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.entries = null;
+    this.handlers = null;
+    this.isOnline = false;
+    outboxRecords.clearMemoryKey();
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    if (!this.entries) {
+      this.entries = (await outboxRecords.read<OutboxEntry[]>('entries')) || [];
+    }
+
+    return this.entries;
+  }
+
+  private async save(): Promise<void> {
+    // Nothing to write once the outbox was cleared from memory
+    if (this.entries) {
+      await outboxRecords.write('entries', this.entries);
+    }
+  }
+
+  private notify(): void {
+    const entries = (this.entries || []).map((entry) => ({ ...entry }));
+
+    this.listeners.forEach((listener) => listener(entries));
+  }
+
+  private requestFlush(): void {
+    this.flush().catch((error) => console.error('Flush outbox error:', error));
+  }
+
+  private async sendDue(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const handlers = this.handlers;
+
+    if (!this.isOnline || !handlers) {
+      return;
+    }
+
+    const entries = await this.load();
+    const conversationIds = [...new Set(entries.map((entry) => entry.conversationId))];
+    let nextAttemptAt = Infinity;
+
+    for (const conversationId of conversationIds) {
+      // Only the oldest message of a conversation may be sent
+      let head = entries.find((entry) => entry.conversationId === conversationId);
+
+      while (head && head.status === 'sending' && head.nextAttemptAt <= Date.now()) {
+        if (!this.isOnline || !(await this.send(head, handlers))) {
+          break;
+        }
+
+        head = entries.find((entry) => entry.conversationId === conversationId);
+      }
+
+      if (head && head.status === 'sending') {
+        nextAttemptAt = Math.min(nextAttemptAt, head.nextAttemptAt);
+      }
+    }
+
+    if (nextAttemptAt < Infinity && this.isOnline) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.requestFlush();
+      }, Math.max(0, nextAttemptAt - Date.now()));
+    }
+  }
+
+  /**
+   * Make one attempt at sending a message
+   */
+  private async send(entry: OutboxEntry, handlers: OutboxHandlers): Promise<boolean> {
+    let isPermanent = false;
+
+    try {
+      if (!entry.payload || Date.now() - (entry.sealedAt || 0) > PAYLOAD_MAX_AGE) {
+        const payload = await handlers.encrypt(entry);
+
+        if (!payload) {
+          throw new Error('Unable to establish encryption for this conversation');
+        }
+
+        entry.payload = payload;
+        entry.sealedAt = Date.now();
+        await this.save();
+      }
+
+      // The server only learns which uploads the message refers to
+      const response = await api.messages.send(
+        entry.conversationId,
+        toMessageContent(entry.payload),
+        entry.attachments.map((attachment) => ({ attachment: attachment._id })),
+        entry.clientId
+      );
+
+      if (!response.success || !response.data) {
+        isPermanent = isPermanentFailure(response.statusCode);
+        throw new Error(response.error || 'Failed to send message');
+      }
+
+      const entries = this.entries || [];
+      const index = entries.indexOf(entry);
+
+      if (index >= 0) {
+        entries.splice(index, 1);
+        await this.save();
+      }
+
+      handlers.onSent(entry, response.data.message);
+      this.notify();
+
+      return true;
+    } catch (error) {
+      console.error('Send queued message error:', error);
+
+      entry.attempts += 1;
+      entry.error = error instanceof Error ? error.message : 'Failed to send message';
+
+      if (isPermanent || entry.attempts >= MAX_SEND_ATTEMPTS) {
+        entry.status = 'failed';
+      } else {
+        entry.nextAttemptAt =
+          Date.now() + Math.min(RETRY_DELAY * 2 ** (entry.attempts - 1), MAX_RETRY_DELAY);
+      }
+
+      await this.save();
+      this.notify();
+
+      return false;
+    }
+  }
+}
+
+export const outbox = MessageOutbox.getInstance();
@@ -0,0 +1,370 @@
+/**
+ * SecuriComm Prekey Service
+ *
+ * Publishes signed prekey and one-time prekey bundles so peers can start
+ * an encrypted session while this device is offline, and performs the
+ * X3DH key agreement for both sides of a new session.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { api } from './api';
+import { SealedRecords } from './sealedRecords';
+import {
+  KeyPair,
+  getKeyPair,
+  hkdf,
+  computeDH,
+  signData,
+  verifySignature,
+} from './encryption';
+import { ensureIdentityKeyPair, ensureSigningKeyPair } from './keyAgreement';
+
+// How long a signed prekey is used before it is replaced
+const SIGNED_PREKEY_ROTATION_INTERVAL = 7 * 24 * 60 * 60 * 1000;
+
+// Number of replaced signed prekeys kept for messages still in flight
+const PREVIOUS_SIGNED_PREKEYS_KEPT = 2;
+
+// Number of one-time prekeys uploaded per batch
+const ONE_TIME_PREKEY_BATCH_SIZE = 50;
+
+// Private prekeys, too many for secure storage
+const prekeyRecords = new SealedRecords({
+  name: 'prekeys',
+  context: 'SecuriComm/prekeys',
+  label: 'Prekey store',
+});
+
+// Upload a new batch when the server has fewer than this many left
+const ONE_TIME_PREKEY_MIN_COUNT = 10;
+
+// Maximum number of unused one-time prekeys kept on this device
+const MAX_LOCAL_ONE_TIME_PREKEYS = 200;
+
+// Signed prekey as published to the server
+export interface SignedPrekey {
+  keyId: number;
+  publicKey: string;
+  signature: string;
+}
+
+// One-time prekey as published to the server
+export interface OneTimePrekey {
+  keyId: number;
+  publicKey: string;
+}
+
+// Prekey bundle fetched for a peer
+export interface PrekeyBundle {
+  identityKey: string;
+  signingKey: string;
+  signedPrekey: SignedPrekey;
+  oneTimePrekey?: OneTimePrekey | null;
+}
+
+// Values the initiator sends so the responder can repeat the agreement
+export interface X3DHInit {
+  identityKey: string;
+  ephemeralKey: string;
+  signedPrekeyId: number;
+  oneTimePrekeyId?: number;
+}
+
+// Locally stored prekey private keys
+interface PrekeyStore {
+  nextKeyId: number;
+  signedPrekeys: Array<{
+    keyId: number;
+    keyPair: KeyPair;
+    signature: string;
+    createdAt: number;
+    published: boolean;
+  }>;
+  oneTimePrekeys: Record<string, KeyPair>;
+}
+
+/**
+ * Generate a fresh X25519 key pair
+ */
+const generatePrekeyPair = (): KeyPair => {
+  const keyPair = nacl.box.keyPair();
+
+  return {
+    publicKey: util.encodeBase64(keyPair.publicKey),
+    privateKey: util.encodeBase64(keyPair.secretKey),
+  };
+};
+
+/**
+ * Combine the X3DH exchanges into the initial session secret
+ */
+const deriveX3DHSecret = (exchanges: Uint8Array[]): Uint8Array => {
+  // 32 0xFF bytes separate the input from any other X25519 use
+  const prefix = new Uint8Array(32).fill(0xff);
+  const input = new Uint8Array(
+    prefix.length + exchanges.reduce((total, dh) => total + dh.length, 0)
+  );
+
+  input.set(prefix);
+
+  let offset = prefix.length;
+
+  for (const dh of exchanges) {
+    input.set(dh, offset);
+    offset += dh.length;
+  }
+
+  return hkdf(input, new Uint8Array(32), 'SecuriComm/x3dh', 32);
+};
+
+/**
+ * Load the local prekey store
+ */
+const loadPrekeyStore = async (): Promise<PrekeyStore> => {
+  const store = await prekeyRecords.read<PrekeyStore>('store');
+
+  return store || { nextKeyId: 1, signedPrekeys: [], oneTimePrekeys: {} };
+};
+
+/**
+ * Save the local prekey store
+ */
+const savePrekeyStore = async (store: PrekeyStore): Promise<void> => {
+  await prekeyRecords.write('store', store);
+};
+
+/**
+ * Forget the local prekeys, e.g. when the keys they were signed with are replaced
+ */
+export const clearPrekeyStore = async (): Promise<void> => {
+  await prekeyRecords.remove('store');
+};
+
+/**
+ * Whether the server holds a signed prekey that is not yet due for rotation
+ */
+export const isSignedPrekeyCurrent = async (): Promise<boolean> => {
+  const store = await loadPrekeyStore();
+  const current = store.signedPrekeys[store.signedPrekeys.length - 1];
+
+  return (
+    !!current &&
+    current.published &&
+    Date.now() - current.createdAt <= SIGNED_PREKEY_ROTATION_INTERVAL
+  );
+};
+
+/**
+ * Make sure the server holds a current signed prekey and enough one-time prekeys
+ */
+export const replenishPrekeys = async (): Promise<boolean> => {
+  try {
+    const identity = await ensureIdentityKeyPair();
+    const signing = await ensureSigningKeyPair();
+    const store = await loadPrekeyStore();
+
+    const upload: Parameters<typeof api.keys.uploadPrekeys>[0] = {
+      identityKey: identity.publicKey,
+      signingKey: signing.publicKey,
+    };
+
+    // Rotate the signed prekey when it is missing or too old
+    let current = store.signedPrekeys[store.signedPrekeys.length - 1];
+
+    if (!current || Date.now() - current.createdAt > SIGNED_PREKEY_ROTATION_INTERVAL) {
+      const keyPair = generatePrekeyPair();
+
+      current = {
+        keyId: store.nextKeyId++,
+        keyPair,
+        signature: await signData(util.decodeBase64(keyPair.publicKey)),
+        createdAt: Date.now(),
+        published: false,
+      };
+
+      store.signedPrekeys.push(current);
+      store.signedPrekeys = store.signedPrekeys.slice(-(PREVIOUS_SIGNED_PREKEYS_KEPT + 1));
+    }
+
+    // Retry a signed prekey whose earlier upload failed
+    if (!current.published) {
+      upload.signedPrekey = {
+        keyId: current.keyId,
+        publicKey: current.keyPair.publicKey,
+        signature: current.signature,
+      };
+    }
+
+    // Top up one-time prekeys when the server is running low
+    const countResponse = await api.keys.getPrekeyCount();
+    const remaining = countResponse.success ? countResponse.data?.count ?? 0 : 0;
+
+    if (!countResponse.success || remaining < ONE_TIME_PREKEY_MIN_COUNT) {
+      upload.oneTimePrekeys = [];
+
+      for (let i = 0; i < ONE_TIME_PREKEY_BATCH_SIZE; i++) {
+        const keyPair = generatePrekeyPair();
+        const keyId = store.nextKeyId++;
+
+        store.oneTimePrekeys[keyId] = keyPair;
+        upload.oneTimePrekeys.push({ keyId, publicKey: keyPair.publicKey });
+      }
+
+      // Forget the oldest unused prekeys
+      const keyIds = Object.keys(store.oneTimePrekeys)
+        .map(Number)
+        .sort((a, b) => a - b);
+
+      keyIds
+        .slice(0, Math.max(0, keyIds.length - MAX_LOCAL_ONE_TIME_PREKEYS))
+        .forEach((keyId) => delete store.oneTimePrekeys[keyId]);
+    }
+
+    if (!upload.signedPrekey && !upload.oneTimePrekeys) {
+      return true;
+    }
+
+    // Keep the private keys before the public halves can be handed out
+    await savePrekeyStore(store);
+
+    const response = await api.keys.uploadPrekeys(upload);
+
+    if (response.success && !current.published) {
+      current.published = true;
+      await savePrekeyStore(store);
+    }
+
+    return response.success;
+  } catch (error) {
+    console.error('Replenish prekeys error:', error);
+    return false;
+  }
+};
+
+/**
+ * Fetch the prekey bundle of one of a peer's devices
+ */
+export const fetchPrekeyBundle = async (
+  userId: string,
+  deviceId: string
+): Promise<PrekeyBundle | null> => {
+  try {
+    const response = await api.keys.getBundle(userId, deviceId);
+
+    if (!response.success || !response.data?.bundle) {
+      return null;
+    }
+
+    return response.data.bundle as PrekeyBundle;
+  } catch (error) {
+    console.error('Fetch prekey bundle error:', error);
+    return null;
+  }
+};
+
+/**
+ * Check that a bundle's signed prekey was signed by its owner
+ */
+export const verifyPrekeyBundle = (bundle: PrekeyBundle): boolean => {
+  return verifySignature(
+    util.decodeBase64(bundle.signedPrekey.publicKey),
+    bundle.signedPrekey.signature,
+    bundle.signingKey
+  );
+};
+
+/**
+ * Run X3DH as the initiator against a peer's bundle
+ */
+export const initiateX3DH = async (
+  bundle: PrekeyBundle
+): Promise<{ sharedSecret: Uint8Array; init: X3DHInit }> => {
+  if (!verifyPrekeyBundle(bundle)) {
+    throw new Error('Invalid signed prekey signature');
+  }
+
+  const identity = await getKeyPair();
+
+  if (!identity) {
+    throw new Error('Key pair not found');
+  }
+
+  const ephemeral = generatePrekeyPair();
+  const exchanges = [
+    computeDH(identity.privateKey, bundle.signedPrekey.publicKey),
+    computeDH(ephemeral.privateKey, bundle.identityKey),
+    computeDH(ephemeral.privateKey, bundle.signedPrekey.publicKey),
+  ];
+
+  if (bundle.oneTimePrekey) {
+    exchanges.push(computeDH(ephemeral.privateKey, bundle.oneTimePrekey.publicKey));
+  }
+
+  const init: X3DHInit = {
+    identityKey: identity.publicKey,
+    ephemeralKey: ephemeral.publicKey,
+    signedPrekeyId: bundle.signedPrekey.keyId,
+  };
+
+  if (bundle.oneTimePrekey) {
+    init.oneTimePrekeyId = bundle.oneTimePrekey.keyId;
+  }
+
+  return { sharedSecret: deriveX3DHSecret(exchanges), init };
+};
+
+/**
+ * Run X3DH as the responder; also returns the signed prekey pair used
+ */
+export const respondX3DH = async (
+  init: X3DHInit
+): Promise<{ sharedSecret: Uint8Array; signedPrekey: KeyPair }> => {
+  const identity = await getKeyPair();
+
+  if (!identity) {
+    throw new Error('Key pair not found');
+  }
+
+  const store = await loadPrekeyStore();
+  const signedPrekey = store.signedPrekeys.find(
+    (prekey) => prekey.keyId === init.signedPrekeyId
+  );
+
+  if (!signedPrekey) {
+    throw new Error('Signed prekey not found');
+  }
+
+  const exchanges = [
+    computeDH(signedPrekey.keyPair.privateKey, init.identityKey),
+    computeDH(identity.privateKey, init.ephemeralKey),
+    computeDH(signedPrekey.keyPair.privateKey, init.ephemeralKey),
+  ];
+
+  if (init.oneTimePrekeyId !== undefined) {
+    const oneTimePrekey = store.oneTimePrekeys[init.oneTimePrekeyId];
+
+    if (!oneTimePrekey) {
+      throw new Error('One-time prekey not found');
+    }
+
+    exchanges.push(computeDH(oneTimePrekey.privateKey, init.ephemeralKey));
+  }
+
+  return {
+    sharedSecret: deriveX3DHSecret(exchanges),
+    signedPrekey: signedPrekey.keyPair,
+  };
+};
+
+/**
+ * Delete a one-time prekey once a session has been built from it
+ */
+export const consumeOneTimePrekey = async (keyId: number): Promise<void> => {
+  const store = await loadPrekeyStore();
+
+  if (store.oneTimePrekeys[keyId]) {
+    delete store.oneTimePrekeys[keyId];
+    await savePrekeyStore(store);
+  }
+};
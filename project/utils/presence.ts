@@ -0,0 +1,197 @@
+/**
+ * SecuriComm Presence
+ *
+ * Keeps whether other users are online and when they were last seen. The
+ * server only tells what each user's privacy settings allow: a user hiding
+ * their profile always looks offline, and one hiding their last seen time
+ * has none. Presence is fetched for the users the app shows, then kept up
+ * to date from status events, and fetched again after reconnecting since
+ * changes are not replayed.
+ */
+
+import { useEffect, useState } from 'react';
+import { api } from './api';
+import { realtime } from './websocket';
+
+// Most users the server describes per request
+const MAX_PRESENCE_BATCH = 200;
+
+export interface Presence {
+  userId: string;
+  status: 'online' | 'offline';
+  lastSeen: string | null;
+}
+
+type PresenceListener = (changed: Presence[]) => void;
+
+/**
+ * Describe when a user was last around, or null when they hide it
+ */
+export const formatLastSeen = (presence: Presence | undefined, now: number = Date.now()): string | null => {
+  if (!presence) {
+    return null;
+  }
+
+  if (presence.status === 'online') {
+    return 'Online';
+  }
+
+  if (!presence.lastSeen) {
+    return null;
+  }
+
+  const lastSeen = new Date(presence.lastSeen);
+  const diff = now - lastSeen.getTime();
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (days > 6) return `Last seen ${lastSeen.toLocaleDateString()}`;
+  if (days > 0) return `Last seen ${days}d ago`;
+  if (hours > 0) return `Last seen ${hours}h ago`;
+  if (minutes > 0) return `Last seen ${minutes}m ago`;
+  return 'Last seen just now';
+};
+
+export class PresenceService {
+  private static instance: PresenceService;
+  private presence = new Map<string, Presence>();
+  // Users shown somewhere in the app
+  private tracked = new Set<string>();
+  private listeners = new Set<PresenceListener>();
+
+  private constructor() {
+    realtime.subscribe('user_status', (data) => {
+      this.update([
+        {
+          userId: data.userId,
+          status: data.status,
+          lastSeen: data.lastSeen ?? null,
+        },
+      ]);
+    });
+
+    // Status changes while disconnected are lost
+    realtime.onStateChange((state) => {
+      if (state.isConnected && this.tracked.size > 0) {
+        this.refresh(Array.from(this.tracked));
+      }
+    });
+  }
+
+  public static getInstance(): PresenceService {
+    if (!PresenceService.instance) {
+      PresenceService.instance = new PresenceService();
+    }
+    return PresenceService.instance;
+  }
+
+  /**
+   * Keep the presence of users up to date, fetching any not known yet
+   */
+  public track(userIds: string[]): void {
+    const unknown = userIds.filter((userId) => !this.tracked.has(userId));
+
+    unknown.forEach((userId) => this.tracked.add(userId));
+
+    if (unknown.length > 0) {
+      this.refresh(unknown);
+    }
+  }
+
+  /**
+   * Fetch the presence of users from the server
+   */
+  public async refresh(userIds: string[]): Promise<void> {
+    try {
+      for (let i = 0; i < userIds.length; i += MAX_PRESENCE_BATCH) {
+        const response = await api.presence.get(userIds.slice(i, i + MAX_PRESENCE_BATCH));
+
+        if (!response.success) {
+          return;
+        }
+
+        this.update(response.data.presence);
+      }
+    } catch (error) {
+      console.error('Refresh presence error:', error);
+    }
+  }
+
+  public get(userId: string): Presence | undefined {
+    return this.presence.get(userId);
+  }
+
+  /**
+   * Listen to presence changes
+   */
+  public onChange(listener: PresenceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget presence kept in memory (e.g. on logout)
+   */
+  public clearMemoryPresence(): void {
+    this.presence.clear();
+    this.tracked.clear();
+  }
+
+  private update(presence: Presence[]): void {
+    const changed = presence.filter((entry) => {
+      const current = this.presence.get(entry.userId);
+
+      return !current || current.status !== entry.status || current.lastSeen !== entry.lastSeen;
+    });
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    changed.forEach((entry) => this.presence.set(entry.userId, entry));
+    this.listeners.forEach((listener) => listener(changed));
+  }
+}
+
+export const presence = PresenceService.getInstance();
+
+/**
+ * Presence hook
+ *
+ * Gives the presence of users by ID and keeps it up to date.
+ */
+export const usePresence = (userIds: string[]): Record<string, Presence> => {
+  const key = userIds.join(',');
+  const [state, setState] = useState<Record<string, Presence>>({});
+
+  useEffect(() => {
+    const ids = key ? key.split(',') : [];
+    const read = () => {
+      const current: Record<string, Presence> = {};
+
+      ids.forEach((userId) => {
+        const entry = presence.get(userId);
+
+        if (entry) {
+          current[userId] = entry;
+        }
+      });
+
+      setState(current);
+    };
+
+    read();
+    presence.track(ids);
+
+    return presence.onChange((changed) => {
+      if (changed.some((entry) => ids.includes(entry.userId))) {
+        read();
+      }
+    });
+  }, [key]);
+
+  return state;
+};
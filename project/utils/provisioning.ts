@@ -0,0 +1,338 @@
+/**
+ * SecuriComm Device Provisioning Service
+ *
+ * Links a new device to an account by scanning a QR code on a device that
+ * is already signed in. The QR code carries a one-time secret and an
+ * ephemeral key; the new device answers with its own ephemeral key and
+ * proves it saw the code. The identity keys are then sent encrypted to a
+ * key only the two devices can derive, so the server relaying the
+ * exchange never sees them.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { api } from './api';
+import { KeyPair, generateRandomBytes, computeDH, hkdf, hmacSha512 } from './encryption';
+import { devices } from './devices';
+import { KeyMaterial, collectKeyMaterial, installKeyMaterial } from './keyBackup';
+
+// Prefix of the QR provisioning payload
+const PROVISIONING_PAYLOAD_PREFIX = 'securicomm://link?';
+
+// Current QR payload version
+const PROVISIONING_PAYLOAD_VERSION = 1;
+
+// HKDF info for the key that encrypts the identity material
+const PROVISIONING_KEY_INFO = 'SecuriComm/provisioning';
+
+// Contents of a scanned provisioning code
+export interface ProvisioningPayload {
+  provisioningId: string;
+  publicKey: string;
+  secret: string;
+}
+
+// Provisioning code shown on the signed-in device
+export interface ProvisioningOffer extends ProvisioningPayload {
+  privateKey: string;
+  qrData: string;
+  expiresAt: string;
+}
+
+// Link request received from a new device
+export interface LinkRequest {
+  deviceId: string;
+  deviceName: string;
+  deviceKey: string;
+}
+
+// State the new device keeps while waiting for approval
+export interface PendingDeviceLink {
+  provisioningId: string;
+  primaryKey: string;
+  secret: string;
+  deviceKeyPair: KeyPair;
+  claim: string;
+}
+
+// Account the new device was linked to
+export interface DeviceLinkResult {
+  userId: string;
+  token: string;
+}
+
+// Encrypted contents handed to the new device
+interface ProvisioningMessage {
+  provisioningId: string;
+  material: KeyMaterial;
+}
+
+/**
+ * MAC proving a link request came from a device that scanned the code
+ */
+const computeRequestMac = (
+  secret: string,
+  provisioningId: string,
+  request: LinkRequest
+): Uint8Array => {
+  const data = JSON.stringify([
+    provisioningId,
+    request.deviceId,
+    request.deviceName,
+    request.deviceKey,
+  ]);
+
+  return hmacSha512(util.decodeBase64(secret), util.decodeUTF8(data));
+};
+
+/**
+ * Key shared by both devices for the identity material
+ */
+const deriveProvisioningKey = (
+  privateKey: string,
+  publicKey: string,
+  secret: string
+): Uint8Array => {
+  return hkdf(
+    computeDH(privateKey, publicKey),
+    util.decodeBase64(secret),
+    PROVISIONING_KEY_INFO,
+    nacl.secretbox.keyLength
+  );
+};
+
+/**
+ * Parse a scanned QR payload
+ */
+export const parseProvisioningPayload = (data: string): ProvisioningPayload | null => {
+  if (!data.startsWith(PROVISIONING_PAYLOAD_PREFIX)) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  data
+    .slice(PROVISIONING_PAYLOAD_PREFIX.length)
+    .split('&')
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      params[key] = decodeURIComponent(value);
+    });
+
+  if (
+    Number(params.v) !== PROVISIONING_PAYLOAD_VERSION ||
+    !/^[0-9a-f]{32}$/.test(params.i || '') ||
+    !params.k ||
+    !params.s
+  ) {
+    return null;
+  }
+
+  try {
+    if (
+      util.decodeBase64(params.k).length !== nacl.box.publicKeyLength ||
+      util.decodeBase64(params.s).length !== 32
+    ) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  return {
+    provisioningId: params.i,
+    publicKey: params.k,
+    secret: params.s,
+  };
+};
+
+/**
+ * Start linking a new device and build the QR code to show it
+ */
+export const createProvisioningOffer = async (): Promise<ProvisioningOffer> => {
+  const response = await api.devices.createProvisioning();
+
+  if (!response.success || !response.data?.provisioningId) {
+    throw new Error(response.error || 'Failed to start device linking');
+  }
+
+  const keyPair = nacl.box.keyPair();
+  const provisioningId: string = response.data.provisioningId;
+  const publicKey = util.encodeBase64(keyPair.publicKey);
+  const secret = util.encodeBase64(await generateRandomBytes(32));
+
+  return {
+    provisioningId,
+    publicKey,
+    privateKey: util.encodeBase64(keyPair.secretKey),
+    secret,
+    qrData:
+      PROVISIONING_PAYLOAD_PREFIX +
+      [
+        `v=${PROVISIONING_PAYLOAD_VERSION}`,
+        `i=${provisioningId}`,
+        `k=${encodeURIComponent(publicKey)}`,
+        `s=${encodeURIComponent(secret)}`,
+      ].join('&'),
+    expiresAt: response.data.expiresAt,
+  };
+};
+
+/**
+ * Check whether a new device has asked to link, on the signed-in device
+ *
+ * Returns null while nobody has scanned the code. A request that does not
+ * prove knowledge of the code's secret is refused.
+ */
+export const checkLinkRequest = async (
+  offer: ProvisioningOffer
+): Promise<LinkRequest | null> => {
+  const response = await api.devices.getProvisioning(offer.provisioningId);
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to check device link');
+  }
+
+  if (response.data?.status !== 'requested' || !response.data.request) {
+    return null;
+  }
+
+  const { deviceId, deviceName, deviceKey, mac } = response.data.request;
+  const request: LinkRequest = { deviceId, deviceName: deviceName || '', deviceKey };
+
+  const isValid = nacl.verify(
+    computeRequestMac(offer.secret, offer.provisioningId, request),
+    util.decodeBase64(mac)
+  );
+
+  if (!isValid) {
+    throw new Error('Link request did not come from the scanning device');
+  }
+
+  return request;
+};
+
+/**
+ * Send this device's keys to a new device the user has approved
+ */
+export const approveLinkRequest = async (
+  offer: ProvisioningOffer,
+  request: LinkRequest
+): Promise<void> => {
+  const message: ProvisioningMessage = {
+    provisioningId: offer.provisioningId,
+    material: await collectKeyMaterial(),
+  };
+
+  const key = deriveProvisioningKey(offer.privateKey, request.deviceKey, offer.secret);
+  const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
+  const plaintext = util.decodeUTF8(JSON.stringify(message));
+  const ciphertext = nacl.secretbox(plaintext, nonce, key);
+
+  // Zero out secrets
+  key.fill(0);
+  plaintext.fill(0);
+
+  const response = await api.devices.approveProvisioning(
+    offer.provisioningId,
+    util.encodeBase64(nonce),
+    util.encodeBase64(ciphertext)
+  );
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to approve device link');
+  }
+};
+
+/**
+ * Ask to link this device to the account that showed a provisioning code
+ */
+export const requestDeviceLink = async (qrData: string): Promise<PendingDeviceLink> => {
+  const payload = parseProvisioningPayload(qrData);
+
+  if (!payload) {
+    throw new Error('Not a device link code');
+  }
+
+  const keyPair = nacl.box.keyPair();
+  const claim = util.encodeBase64(await generateRandomBytes(32));
+  const request: LinkRequest = {
+    deviceId: await devices.getDeviceId(),
+    deviceName: devices.getDeviceName(),
+    deviceKey: util.encodeBase64(keyPair.publicKey),
+  };
+
+  const response = await api.devices.requestProvisioning(payload.provisioningId, {
+    ...request,
+    mac: util.encodeBase64(computeRequestMac(payload.secret, payload.provisioningId, request)),
+    // Only this device can collect the result
+    claimHash: util.encodeBase64(nacl.hash(util.decodeUTF8(claim)).slice(0, 32)),
+  });
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to request device link');
+  }
+
+  return {
+    provisioningId: payload.provisioningId,
+    primaryKey: payload.publicKey,
+    secret: payload.secret,
+    deviceKeyPair: {
+      publicKey: request.deviceKey,
+      privateKey: util.encodeBase64(keyPair.secretKey),
+    },
+    claim,
+  };
+};
+
+/**
+ * Check whether the signed-in device has approved this one
+ *
+ * Returns null while approval is pending. Once approved, the received keys
+ * are installed and the account's token is returned; the caller must sign
+ * in with it and publish this device's prekeys.
+ */
+export const checkDeviceLink = async (
+  link: PendingDeviceLink
+): Promise<DeviceLinkResult | null> => {
+  const response = await api.devices.getProvisioningResult(link.provisioningId, link.claim);
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to check device link');
+  }
+
+  if (response.data?.status !== 'approved') {
+    return null;
+  }
+
+  const key = deriveProvisioningKey(
+    link.deviceKeyPair.privateKey,
+    link.primaryKey,
+    link.secret
+  );
+  const plaintext = nacl.secretbox.open(
+    util.decodeBase64(response.data.ciphertext),
+    util.decodeBase64(response.data.nonce),
+    key
+  );
+
+  key.fill(0);
+
+  if (!plaintext) {
+    throw new Error('Failed to decrypt linked identity');
+  }
+
+  const message: ProvisioningMessage = JSON.parse(util.encodeUTF8(plaintext));
+  plaintext.fill(0);
+
+  if (message.provisioningId !== link.provisioningId) {
+    throw new Error('Linked identity is for another request');
+  }
+
+  await installKeyMaterial(message.material);
+
+  return {
+    userId: response.data.userId,
+    token: response.data.token,
+  };
+};
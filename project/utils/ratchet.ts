@@ -0,0 +1,794 @@
+/**
+ * SecuriComm Double Ratchet Service
+ *
+ * Provides forward-secret sessions for direct conversations.
+ * Every message is encrypted with a fresh key derived from a symmetric
+ * chain, and the chains are re-seeded with a new X25519 exchange each
+ * time the conversation changes direction. Sessions can be opened from a
+ * peer's prekey bundle (X3DH) so the first message does not need the
+ * recipient to be online. Each device of an account has its own session,
+ * and a message is fanned out to every device of its recipients.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { SealedRecords } from './sealedRecords';
+import {
+  KeyPair,
+  getKeyPair,
+  generateRandomBytes,
+  hmacSha512,
+  hkdf,
+  computeDH,
+} from './encryption';
+import {
+  PrekeyBundle,
+  X3DHInit,
+  initiateX3DH,
+  respondX3DH,
+  consumeOneTimePrekey,
+  fetchPrekeyBundle,
+  verifyPrekeyBundle,
+} from './prekeys';
+import { devices, deviceAddress } from './devices';
+
+// Maximum number of message keys to skip in a single chain
+const MAX_SKIP = 500;
+
+// Maximum number of skipped message keys kept per session
+const MAX_STORED_SKIPPED_KEYS = 1000;
+
+// Session state, which grows with skipped message keys past what secure storage holds
+const sessionRecords = new SealedRecords({
+  name: 'ratchet_sessions',
+  context: 'SecuriComm/ratchet-sessions',
+  label: 'Ratchet session',
+});
+
+// Ratchet message header
+export interface RatchetHeader {
+  dh: string;
+  pn: number;
+  n: number;
+  init?: {
+    identityKey: string;
+    ephemeralKey?: string;
+    signedPrekeyId?: number;
+    oneTimePrekeyId?: number;
+  };
+}
+
+// Serialized ratchet message
+export interface RatchetPayload {
+  type: 'ratchet';
+  version: 1;
+  header: RatchetHeader;
+  nonce: string;
+  ciphertext: string;
+}
+
+// Message encrypted separately for each recipient device, keyed by device address
+export interface FanoutPayload {
+  type: 'fanout';
+  version: 1;
+  senderDevice: string;
+  ciphertexts: Record<string, string>;
+}
+
+// Recipient of a fanned-out message
+export interface FanoutRecipient {
+  _id: string;
+  publicKey?: string;
+}
+
+// Persisted session state
+interface SessionState {
+  rootKey: string;
+  dhSelf: KeyPair;
+  dhRemote: string | null;
+  sendChainKey: string | null;
+  recvChainKey: string | null;
+  sendCount: number;
+  recvCount: number;
+  previousSendCount: number;
+  skippedKeys: Record<string, string>;
+  isInitiator: boolean;
+  hasReceived: boolean;
+  baseKey: string;
+  peerBaseKey: string | null;
+  foreignBaseKeys: string[];
+  initHeader?: X3DHInit;
+  createdAt: number;
+}
+
+/**
+ * Root key KDF: returns [new root key, chain key]
+ */
+const kdfRootKey = (
+  rootKey: Uint8Array,
+  dhOutput: Uint8Array
+): [Uint8Array, Uint8Array] => {
+  const output = hkdf(dhOutput, rootKey, 'SecuriComm/ratchet/root', 64);
+  return [output.slice(0, 32), output.slice(32, 64)];
+};
+
+/**
+ * Chain key KDF: returns [next chain key, message key]
+ */
+export const kdfChainKey = (chainKey: Uint8Array): [Uint8Array, Uint8Array] => {
+  const nextChainKey = hmacSha512(chainKey, new Uint8Array([0x02])).slice(0, 32);
+  const messageKey = hmacSha512(chainKey, new Uint8Array([0x01])).slice(0, 32);
+  return [nextChainKey, messageKey];
+};
+
+/**
+ * Generate a fresh ratchet key pair
+ */
+const generateRatchetKeyPair = (): KeyPair => {
+  const keyPair = nacl.box.keyPair();
+
+  return {
+    publicKey: util.encodeBase64(keyPair.publicKey),
+    privateKey: util.encodeBase64(keyPair.secretKey),
+  };
+};
+
+/**
+ * Bind the message key to the header so the header cannot be altered
+ */
+const bindHeader = (messageKey: Uint8Array, header: RatchetHeader): Uint8Array => {
+  const headerBytes = util.decodeUTF8(JSON.stringify(header));
+  const input = new Uint8Array(messageKey.length + headerBytes.length);
+  input.set(messageKey);
+  input.set(headerBytes, messageKey.length);
+  return nacl.hash(input).slice(0, nacl.secretbox.keyLength);
+};
+
+/**
+ * Check whether message content is a ratchet payload
+ */
+export const isRatchetPayload = (content: string): boolean => {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed?.type === 'ratchet' && parsed?.version === 1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check whether message content is a fanned-out payload
+ */
+export const isFanoutPayload = (content: string): boolean => {
+  try {
+    const parsed = JSON.parse(content);
+    return (
+      parsed?.type === 'fanout' &&
+      parsed?.version === 1 &&
+      typeof parsed?.senderDevice === 'string'
+    );
+  } catch {
+    return false;
+  }
+};
+
+export class RatchetSessionManager {
+  private static instance: RatchetSessionManager;
+  private sessions = new Map<string, SessionState>();
+  private locks = new Map<string, Promise<unknown>>();
+
+  private constructor() {}
+
+  public static getInstance(): RatchetSessionManager {
+    if (!RatchetSessionManager.instance) {
+      RatchetSessionManager.instance = new RatchetSessionManager();
+    }
+    return RatchetSessionManager.instance;
+  }
+
+  /**
+   * Start a session with a peer from their prekey bundle
+   */
+  public async startSession(peerId: string, bundle: PrekeyBundle): Promise<void> {
+    return this.withLock(peerId, async () => {
+      if (await this.loadSession(peerId)) {
+        return;
+      }
+
+      const { sharedSecret, init } = await initiateX3DH(bundle);
+      const state = this.initializeInitiator(
+        sharedSecret,
+        bundle.signedPrekey.publicKey
+      );
+
+      state.initHeader = init;
+
+      await this.saveSession(peerId, state);
+    });
+  }
+
+  /**
+   * Encrypt a message for a peer, starting a session if needed
+   */
+  public async encrypt(
+    peerId: string,
+    peerIdentityKey: string | undefined,
+    plaintext: string
+  ): Promise<string> {
+    return this.withLock(peerId, async () => {
+      let state = await this.loadSession(peerId);
+
+      if (!state) {
+        if (!peerIdentityKey) {
+          throw new Error('Peer identity key not available');
+        }
+
+        const sharedSecret = await this.deriveInitialSecret(peerIdentityKey);
+        state = this.initializeInitiator(sharedSecret, peerIdentityKey);
+      }
+
+      const nextState = this.cloneState(state);
+
+      if (!nextState.sendChainKey) {
+        throw new Error('Session has no sending chain');
+      }
+
+      const [nextChainKey, messageKey] = kdfChainKey(
+        util.decodeBase64(nextState.sendChainKey)
+      );
+
+      const header: RatchetHeader = {
+        dh: nextState.dhSelf.publicKey,
+        pn: nextState.previousSendCount,
+        n: nextState.sendCount,
+      };
+
+      // Keep announcing the session until the peer has answered
+      if (nextState.isInitiator && !nextState.hasReceived) {
+        if (nextState.initHeader) {
+          header.init = { ...nextState.initHeader };
+        } else {
+          const identity = await getKeyPair();
+
+          if (!identity) {
+            throw new Error('Key pair not found');
+          }
+
+          header.init = { identityKey: identity.publicKey };
+        }
+      }
+
+      const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
+      const ciphertext = nacl.secretbox(
+        util.decodeUTF8(plaintext),
+        nonce,
+        bindHeader(messageKey, header)
+      );
+
+      nextState.sendChainKey = util.encodeBase64(nextChainKey);
+      nextState.sendCount += 1;
+
+      await this.saveSession(peerId, nextState);
+
+      const payload: RatchetPayload = {
+        type: 'ratchet',
+        version: 1,
+        header,
+        nonce: util.encodeBase64(nonce),
+        ciphertext: util.encodeBase64(ciphertext),
+      };
+
+      return JSON.stringify(payload);
+    });
+  }
+
+  /**
+   * Decrypt a message from a peer
+   *
+   * A session is only opened for the identity key the server reports for
+   * the peer; the key in the message header is never trusted on its own.
+   */
+  public async decrypt(
+    peerId: string,
+    peerIdentityKey: string | undefined,
+    content: string
+  ): Promise<string> {
+    return this.withLock(peerId, async () => {
+      const payload = JSON.parse(content) as RatchetPayload;
+      const { header } = payload;
+
+      let state = await this.loadSession(peerId);
+      let adoptedInit: RatchetHeader['init'];
+
+      if (header.init && !this.belongsToSession(state, header)) {
+        if (!peerIdentityKey) {
+          throw new Error('Peer identity key not available');
+        }
+
+        if (peerIdentityKey !== header.init.identityKey) {
+          throw new Error('Peer identity key mismatch');
+        }
+
+        const identity = await getKeyPair();
+
+        if (!identity) {
+          throw new Error('Key pair not found');
+        }
+
+        const responder = await this.createResponder(header.init, identity);
+        const isForeign = !!state && state.foreignBaseKeys.includes(header.dh);
+
+        // Both sides started a session at once: the lower identity key wins,
+        // and between our own devices the lower base key
+        if (
+          state &&
+          (isForeign ||
+            (state.isInitiator &&
+              !state.hasReceived &&
+              (identity.publicKey < peerIdentityKey ||
+                (identity.publicKey === peerIdentityKey && state.baseKey < header.dh))))
+        ) {
+          // Keep our session and read the message with a throwaway one
+          const { plaintext } = this.decryptWithState(responder, payload);
+
+          if (!isForeign) {
+            const nextState = this.cloneState(state);
+            nextState.foreignBaseKeys.push(header.dh);
+            await this.saveSession(peerId, nextState);
+          }
+
+          return plaintext;
+        }
+
+        state = responder;
+        adoptedInit = header.init;
+      }
+
+      if (!state) {
+        throw new Error('No session for peer');
+      }
+
+      const { plaintext, nextState } = this.decryptWithState(state, payload);
+
+      await this.saveSession(peerId, nextState);
+
+      // The one-time prekey must never be used for another session
+      if (adoptedInit?.oneTimePrekeyId !== undefined) {
+        await consumeOneTimePrekey(adoptedInit.oneTimePrekeyId);
+      }
+
+      return plaintext;
+    });
+  }
+
+  /**
+   * Check if a session exists for a peer
+   */
+  public async hasSession(peerId: string): Promise<boolean> {
+    return (await this.loadSession(peerId)) !== null;
+  }
+
+  /**
+   * Delete the session for a peer
+   */
+  public async deleteSession(peerId: string): Promise<void> {
+    this.sessions.delete(peerId);
+    await sessionRecords.remove(peerId);
+  }
+
+  /**
+   * Clear cached sessions from memory
+   */
+  public clearMemorySessions(): void {
+    this.sessions.clear();
+    sessionRecords.clearMemoryKey();
+  }
+
+  /**
+   * Run session operations for a peer one at a time
+   */
+  private async withLock<T>(peerId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(peerId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+
+    this.locks.set(peerId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(peerId) === current) {
+        this.locks.delete(peerId);
+      }
+    }
+  }
+
+  /**
+   * Derive the initial shared secret from both identity keys
+   */
+  private async deriveInitialSecret(peerIdentityKey: string): Promise<Uint8Array> {
+    const identity = await getKeyPair();
+
+    if (!identity) {
+      throw new Error('Key pair not found');
+    }
+
+    // Salt is order-independent so both sides derive the same secret
+    const salt = util.decodeUTF8(
+      [identity.publicKey, peerIdentityKey].sort().join(':')
+    );
+
+    return hkdf(
+      computeDH(identity.privateKey, peerIdentityKey),
+      salt,
+      'SecuriComm/ratchet/init',
+      32
+    );
+  }
+
+  /**
+   * Build the responder side of a session from a session-opening header
+   */
+  private async createResponder(
+    init: NonNullable<RatchetHeader['init']>,
+    identity: KeyPair
+  ): Promise<SessionState> {
+    // Opened from our prekey bundle
+    if (init.ephemeralKey && init.signedPrekeyId !== undefined) {
+      const { sharedSecret, signedPrekey } = await respondX3DH({
+        identityKey: init.identityKey,
+        ephemeralKey: init.ephemeralKey,
+        signedPrekeyId: init.signedPrekeyId,
+        oneTimePrekeyId: init.oneTimePrekeyId,
+      });
+
+      return this.initializeResponder(sharedSecret, signedPrekey);
+    }
+
+    // Opened from our identity key alone
+    const sharedSecret = await this.deriveInitialSecret(init.identityKey);
+
+    return this.initializeResponder(sharedSecret, identity);
+  }
+
+  /**
+   * Start a session as the sender of the first message
+   */
+  private initializeInitiator(
+    sharedSecret: Uint8Array,
+    peerRatchetKey: string
+  ): SessionState {
+    const dhSelf = generateRatchetKeyPair();
+    const [rootKey, sendChainKey] = kdfRootKey(
+      sharedSecret,
+      computeDH(dhSelf.privateKey, peerRatchetKey)
+    );
+
+    return {
+      rootKey: util.encodeBase64(rootKey),
+      dhSelf,
+      dhRemote: peerRatchetKey,
+      sendChainKey: util.encodeBase64(sendChainKey),
+      recvChainKey: null,
+      sendCount: 0,
+      recvCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      isInitiator: true,
+      hasReceived: false,
+      baseKey: dhSelf.publicKey,
+      peerBaseKey: null,
+      foreignBaseKeys: [],
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Start a session as the receiver of the first message
+   */
+  private initializeResponder(
+    sharedSecret: Uint8Array,
+    ratchetKeyPair: KeyPair
+  ): SessionState {
+    return {
+      rootKey: util.encodeBase64(sharedSecret),
+      dhSelf: ratchetKeyPair,
+      dhRemote: null,
+      sendChainKey: null,
+      recvChainKey: null,
+      sendCount: 0,
+      recvCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      isInitiator: false,
+      hasReceived: false,
+      baseKey: ratchetKeyPair.publicKey,
+      peerBaseKey: null,
+      foreignBaseKeys: [],
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Check whether a session-opening message belongs to the current session
+   */
+  private belongsToSession(
+    state: SessionState | null,
+    header: RatchetHeader
+  ): boolean {
+    if (!state) {
+      return false;
+    }
+
+    return (
+      state.peerBaseKey === header.dh ||
+      state.dhRemote === header.dh ||
+      `${header.dh}:${header.n}` in state.skippedKeys
+    );
+  }
+
+  /**
+   * Decrypt against a session state without mutating it
+   */
+  private decryptWithState(
+    state: SessionState,
+    payload: RatchetPayload
+  ): { plaintext: string; nextState: SessionState } {
+    const { header } = payload;
+    const nextState = this.cloneState(state);
+
+    let messageKey: Uint8Array;
+    const skippedKeyId = `${header.dh}:${header.n}`;
+    const skippedKey = nextState.skippedKeys[skippedKeyId];
+
+    if (skippedKey) {
+      // Out-of-order message from an earlier position in a chain
+      messageKey = util.decodeBase64(skippedKey);
+      delete nextState.skippedKeys[skippedKeyId];
+    } else {
+      if (header.dh !== nextState.dhRemote) {
+        this.skipMessageKeys(nextState, header.pn);
+        this.ratchetStep(nextState, header.dh);
+      }
+
+      this.skipMessageKeys(nextState, header.n);
+
+      if (!nextState.recvChainKey) {
+        throw new Error('Session has no receiving chain');
+      }
+
+      const [nextChainKey, derivedKey] = kdfChainKey(
+        util.decodeBase64(nextState.recvChainKey)
+      );
+
+      nextState.recvChainKey = util.encodeBase64(nextChainKey);
+      nextState.recvCount += 1;
+      messageKey = derivedKey;
+    }
+
+    const decryptedBytes = nacl.secretbox.open(
+      util.decodeBase64(payload.ciphertext),
+      util.decodeBase64(payload.nonce),
+      bindHeader(messageKey, header)
+    );
+
+    if (!decryptedBytes) {
+      throw new Error('Failed to decrypt message');
+    }
+
+    if (header.init && !nextState.peerBaseKey && !nextState.isInitiator) {
+      nextState.peerBaseKey = header.dh;
+    }
+
+    nextState.hasReceived = true;
+
+    return {
+      plaintext: util.encodeUTF8(decryptedBytes),
+      nextState,
+    };
+  }
+
+  /**
+   * Store keys for messages that have not arrived yet
+   */
+  private skipMessageKeys(state: SessionState, until: number): void {
+    if (!state.recvChainKey || !state.dhRemote) {
+      return;
+    }
+
+    if (until - state.recvCount > MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chainKey = util.decodeBase64(state.recvChainKey);
+
+    while (state.recvCount < until) {
+      const [nextChainKey, messageKey] = kdfChainKey(chainKey);
+      state.skippedKeys[`${state.dhRemote}:${state.recvCount}`] =
+        util.encodeBase64(messageKey);
+      chainKey = nextChainKey;
+      state.recvCount += 1;
+    }
+
+    state.recvChainKey = util.encodeBase64(chainKey);
+
+    // Drop the oldest skipped keys once the limit is reached
+    const skippedKeyIds = Object.keys(state.skippedKeys);
+
+    if (skippedKeyIds.length > MAX_STORED_SKIPPED_KEYS) {
+      skippedKeyIds
+        .slice(0, skippedKeyIds.length - MAX_STORED_SKIPPED_KEYS)
+        .forEach((keyId) => delete state.skippedKeys[keyId]);
+    }
+  }
+
+  /**
+   * Perform a DH ratchet step on receiving a new ratchet key
+   */
+  private ratchetStep(state: SessionState, remoteKey: string): void {
+    state.previousSendCount = state.sendCount;
+    state.sendCount = 0;
+    state.recvCount = 0;
+    state.dhRemote = remoteKey;
+
+    const [rootKey, recvChainKey] = kdfRootKey(
+      util.decodeBase64(state.rootKey),
+      computeDH(state.dhSelf.privateKey, remoteKey)
+    );
+
+    state.dhSelf = generateRatchetKeyPair();
+
+    const [nextRootKey, sendChainKey] = kdfRootKey(
+      rootKey,
+      computeDH(state.dhSelf.privateKey, remoteKey)
+    );
+
+    state.rootKey = util.encodeBase64(nextRootKey);
+    state.recvChainKey = util.encodeBase64(recvChainKey);
+    state.sendChainKey = util.encodeBase64(sendChainKey);
+  }
+
+  /**
+   * Load session state from memory or its sealed record
+   */
+  private async loadSession(peerId: string): Promise<SessionState | null> {
+    const cached = this.sessions.get(peerId);
+
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await sessionRecords.read<SessionState>(peerId);
+
+    if (stored) {
+      this.sessions.set(peerId, stored);
+    }
+
+    return stored;
+  }
+
+  /**
+   * Persist session state
+   */
+  private async saveSession(peerId: string, state: SessionState): Promise<void> {
+    await sessionRecords.write(peerId, state);
+    this.sessions.set(peerId, state);
+  }
+
+  private cloneState(state: SessionState): SessionState {
+    return {
+      ...state,
+      dhSelf: { ...state.dhSelf },
+      skippedKeys: { ...state.skippedKeys },
+      foreignBaseKeys: [...state.foreignBaseKeys],
+    };
+  }
+}
+
+export const ratchetSessions = RatchetSessionManager.getInstance();
+
+/**
+ * Encrypt for one device, opening the session from its prekey bundle if needed
+ */
+const encryptForDevice = async (
+  userId: string,
+  deviceId: string,
+  identityKey: string | undefined,
+  plaintext: string
+): Promise<string | null> => {
+  const address = deviceAddress(userId, deviceId);
+
+  if (!(await ratchetSessions.hasSession(address))) {
+    // A bundle lets the session start while the device is offline
+    const bundle = await fetchPrekeyBundle(userId, deviceId);
+
+    if (
+      bundle &&
+      verifyPrekeyBundle(bundle) &&
+      (!identityKey || bundle.identityKey === identityKey)
+    ) {
+      await ratchetSessions.startSession(address, bundle);
+    } else if (!identityKey) {
+      return null;
+    }
+  }
+
+  return await ratchetSessions.encrypt(address, identityKey, plaintext);
+};
+
+/**
+ * Encrypt for every device of the given users except this one
+ */
+export const encryptForPeers = async (
+  peers: FanoutRecipient[],
+  plaintext: string
+): Promise<string | null> => {
+  const ownAddress = await devices.getOwnAddress();
+  const ciphertexts: Record<string, string> = {};
+
+  for (const peer of peers) {
+    for (const deviceId of await devices.getDeviceIds(peer._id)) {
+      const address = deviceAddress(peer._id, deviceId);
+
+      if (address === ownAddress) {
+        continue;
+      }
+
+      const ciphertext = await encryptForDevice(peer._id, deviceId, peer.publicKey, plaintext);
+
+      if (ciphertext) {
+        ciphertexts[address] = ciphertext;
+      }
+    }
+  }
+
+  if (Object.keys(ciphertexts).length === 0) {
+    return null;
+  }
+
+  const payload: FanoutPayload = {
+    type: 'fanout',
+    version: 1,
+    senderDevice: await devices.getDeviceId(),
+    ciphertexts,
+  };
+
+  return JSON.stringify(payload);
+};
+
+/**
+ * Encrypt for every device of a peer
+ */
+export const encryptForPeer = async (
+  peerId: string,
+  peerIdentityKey: string | undefined,
+  plaintext: string
+): Promise<string | null> => {
+  return await encryptForPeers([{ _id: peerId, publicKey: peerIdentityKey }], plaintext);
+};
+
+/**
+ * Decrypt a message from one of a peer's devices
+ */
+export const decryptFromPeer = async (
+  peerId: string,
+  peerIdentityKey: string | undefined,
+  content: string
+): Promise<string> => {
+  // Sent before multi-device support, over a session with the whole account
+  if (!isFanoutPayload(content)) {
+    return await ratchetSessions.decrypt(peerId, peerIdentityKey, content);
+  }
+
+  const payload = JSON.parse(content) as FanoutPayload;
+  const ciphertext = payload.ciphertexts?.[await devices.getOwnAddress()];
+
+  if (typeof ciphertext !== 'string') {
+    throw new Error('Message was not encrypted for this device');
+  }
+
+  return await ratchetSessions.decrypt(
+    deviceAddress(peerId, payload.senderDevice),
+    peerIdentityKey,
+    ciphertext
+  );
+};
@@ -0,0 +1,235 @@
+/**
+ * SecuriComm Receipts
+ *
+ * Tells senders when their messages reach this device and when they are
+ * read. Receipts are collected per conversation and sent in batches, once
+ * per message, and wait while the connection is down. Read receipts are
+ * only sent while the read receipts privacy setting is on; the server
+ * enforces the same setting.
+ */
+
+import { realtime } from './websocket';
+import { MAX_RECEIPT_BATCH } from '../shared/realtimeEvents';
+
+// Wait before sending, so receipts for messages arriving together share a batch
+const RECEIPT_BATCH_DELAY = 500;
+
+export type ReceiptStatus = 'delivered' | 'read';
+
+// Receipt of a member as the server keeps it on a message
+export interface MessageReceipt {
+  user: string;
+  timestamp: string;
+}
+
+// Message with the receipts of other members
+export interface ReceiptedMessage {
+  deliveredTo?: MessageReceipt[];
+  readBy?: MessageReceipt[];
+}
+
+// Receipt state of a message across the members it was sent to
+export interface ReceiptSummary {
+  status: 'sent' | ReceiptStatus;
+  delivered: string[];
+  read: string[];
+  pending: string[];
+}
+
+/**
+ * Receipts of a message after a member received or read it
+ */
+export const addReceipt = <T extends ReceiptedMessage>(
+  message: T,
+  userId: string,
+  status: ReceiptStatus,
+  timestamp: string
+): T => {
+  const add = (receipts: MessageReceipt[] = []) =>
+    receipts.some((receipt) => receipt.user === userId)
+      ? receipts
+      : [...receipts, { user: userId, timestamp }];
+
+  // A message that was read was also delivered
+  return {
+    ...message,
+    deliveredTo: add(message.deliveredTo),
+    readBy: status === 'read' ? add(message.readBy) : message.readBy,
+  };
+};
+
+/**
+ * How far a message got with each member other than its sender
+ *
+ * The status only moves on once every member got there.
+ */
+export const summarizeReceipts = (
+  message: ReceiptedMessage,
+  memberIds: string[],
+  senderId: string
+): ReceiptSummary => {
+  const has = (receipts: MessageReceipt[] = [], memberId: string) =>
+    receipts.some((receipt) => receipt.user === memberId);
+  const members = memberIds.filter((memberId) => memberId !== senderId);
+  const read = members.filter((memberId) => has(message.readBy, memberId));
+  const delivered = members.filter(
+    (memberId) => !read.includes(memberId) && has(message.deliveredTo, memberId)
+  );
+  const pending = members.filter(
+    (memberId) => !read.includes(memberId) && !delivered.includes(memberId)
+  );
+
+  let status: ReceiptSummary['status'] = 'sent';
+
+  if (members.length > 0 && read.length === members.length) {
+    status = 'read';
+  } else if (members.length > 0 && pending.length === 0) {
+    status = 'delivered';
+  }
+
+  return { status, delivered, read, pending };
+};
+
+export class Receipts {
+  private static instance: Receipts;
+  private readReceipts = true;
+  // Messages already acknowledged from this device
+  private sent: Record<ReceiptStatus, Set<string>> = {
+    delivered: new Set(),
+    read: new Set(),
+  };
+  // Messages waiting to be acknowledged, by conversation
+  private queued: Record<ReceiptStatus, Map<string, Set<string>>> = {
+    delivered: new Map(),
+    read: new Map(),
+  };
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    // Receipts held while offline go out once connected again
+    realtime.onStateChange((state) => {
+      if (state.isConnected) {
+        this.schedule();
+      }
+    });
+  }
+
+  public static getInstance(): Receipts {
+    if (!Receipts.instance) {
+      Receipts.instance = new Receipts();
+    }
+    return Receipts.instance;
+  }
+
+  /**
+   * Turn read receipts on or off; delivery receipts are always sent
+   */
+  public setReadReceipts(enabled: boolean): void {
+    this.readReceipts = enabled;
+
+    if (!enabled) {
+      this.queued.read.clear();
+    }
+  }
+
+  /**
+   * Tell the senders that messages reached this device
+   */
+  public markDelivered(conversationId: string, messageIds: string[]): void {
+    this.queue('delivered', conversationId, messageIds);
+  }
+
+  /**
+   * Tell the senders that messages were seen
+   */
+  public markRead(conversationId: string, messageIds: string[]): void {
+    // Read receipts also count as delivered
+    messageIds.forEach((messageId) => this.sent.delivered.add(messageId));
+
+    if (this.readReceipts) {
+      this.queue('read', conversationId, messageIds);
+    } else {
+      messageIds.forEach((messageId) => this.sent.read.add(messageId));
+    }
+  }
+
+  /**
+   * Send the receipts waiting to go out
+   */
+  public flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // Sent once connected again
+    if (!realtime.getState().isConnected) {
+      return;
+    }
+
+    (['delivered', 'read'] as ReceiptStatus[]).forEach((status) => {
+      this.queued[status].forEach((ids, conversationId) => {
+        const messageIds = Array.from(ids);
+
+        for (let i = 0; i < messageIds.length; i += MAX_RECEIPT_BATCH) {
+          const batch = messageIds.slice(i, i + MAX_RECEIPT_BATCH);
+
+          // Kept for the next connection
+          if (!realtime.send(status, { conversationId, messageIds: batch })) {
+            return;
+          }
+
+          batch.forEach((messageId) => ids.delete(messageId));
+        }
+
+        this.queued[status].delete(conversationId);
+      });
+    });
+  }
+
+  /**
+   * Forget receipts kept in memory (e.g. on logout)
+   */
+  public clearMemoryReceipts(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.sent.delivered.clear();
+    this.sent.read.clear();
+    this.queued.delivered.clear();
+    this.queued.read.clear();
+    this.readReceipts = true;
+  }
+
+  private queue(status: ReceiptStatus, conversationId: string, messageIds: string[]): void {
+    const newIds = messageIds.filter((messageId) => !this.sent[status].has(messageId));
+
+    if (newIds.length === 0) {
+      return;
+    }
+
+    const ids = this.queued[status].get(conversationId) || new Set<string>();
+
+    newIds.forEach((messageId) => {
+      ids.add(messageId);
+      this.sent[status].add(messageId);
+    });
+    this.queued[status].set(conversationId, ids);
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.flushTimer || (this.queued.delivered.size === 0 && this.queued.read.size === 0)) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, RECEIPT_BATCH_DELAY);
+  }
+}
+
+export const receipts = Receipts.getInstance();
@@ -0,0 +1,257 @@
+/**
+ * SecuriComm Rich Messages
+ *
+ * Payload formats for messages that are more than text: a location pin, a
+ * contact card and a voice note. They travel inside the end-to-end
+ * encrypted message body, so the server cannot tell them from text. A
+ * contact card carries the contact's identity key with its fingerprint, so
+ * the receiver can compare it with the safety number they verified. The
+ * audio of a voice note is an encrypted attachment of the same message;
+ * the payload holds its length and a waveform for the preview.
+ */
+
+import { computeFingerprint, formatSafetyNumber } from './verification';
+import { MessageMetadata, MessageType } from '../types';
+
+// Bars in a voice note waveform
+export const WAVEFORM_BARS = 40;
+
+// Longest voice note that can be recorded, in seconds
+export const MAX_VOICE_NOTE_DURATION = 15 * 60;
+
+// Quietest recording level, in dBFS; anything below is silence
+const MIN_AUDIO_LEVEL = -60;
+
+// Longest label of a location pin
+const MAX_LOCATION_LABEL_LENGTH = 200;
+
+// Location pin dropped in a conversation
+export interface LocationContent {
+  type: Extract<MessageType, 'location'>;
+  location: NonNullable<MessageMetadata['location']>;
+  label?: string;
+}
+
+// Contact card with the identity key the sender knows for the contact
+export interface ContactContent {
+  type: Extract<MessageType, 'contact'>;
+  contact: {
+    userId: string;
+    name: string;
+    email?: string;
+    publicKey: string;
+    fingerprint: string;
+  };
+}
+
+// Voice note; the audio is the message's attachment
+export interface AudioContent {
+  type: Extract<MessageType, 'audio'>;
+  duration: number;
+  waveform: number[];
+}
+
+export type RichContent = LocationContent | ContactContent | AudioContent;
+
+/**
+ * Whether a decrypted value is an object whose fields can be checked
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isCoordinate = (value: unknown, limit: number): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+};
+
+const isLocation = (value: Record<string, unknown>): boolean => {
+  const { location, label } = value;
+
+  return (
+    isRecord(location) &&
+    isCoordinate(location.latitude, 90) &&
+    isCoordinate(location.longitude, 180) &&
+    typeof location.accuracy === 'number' &&
+    location.accuracy >= 0 &&
+    (label === undefined ||
+      (typeof label === 'string' && label.length <= MAX_LOCATION_LABEL_LENGTH))
+  );
+};
+
+const isContact = (value: Record<string, unknown>): boolean => {
+  const { contact } = value;
+
+  return (
+    isRecord(contact) &&
+    typeof contact.userId === 'string' &&
+    typeof contact.name === 'string' &&
+    (contact.email === undefined || typeof contact.email === 'string') &&
+    typeof contact.publicKey === 'string' &&
+    typeof contact.fingerprint === 'string'
+  );
+};
+
+const isAudio = (value: Record<string, unknown>): boolean => {
+  const { duration, waveform } = value;
+
+  return (
+    typeof duration === 'number' &&
+    duration >= 0 &&
+    duration <= MAX_VOICE_NOTE_DURATION &&
+    Array.isArray(waveform) &&
+    waveform.length <= WAVEFORM_BARS &&
+    waveform.every((level: unknown) => typeof level === 'number' && level >= 0 && level <= 1)
+  );
+};
+
+/**
+ * Whether a decrypted payload is a rich message we can show
+ */
+export const isRichContent = (value: unknown): value is RichContent => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  switch (value.type) {
+    case 'location': return isLocation(value);
+    case 'contact': return isContact(value);
+    case 'audio': return isAudio(value);
+    default: return false;
+  }
+};
+
+/**
+ * Location pin for a position from the device's location services
+ */
+export const createLocationContent = (
+  coords: { latitude: number; longitude: number; accuracy: number | null },
+  label?: string
+): LocationContent => ({
+  type: 'location',
+  location: {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracy: coords.accuracy ?? 0,
+  },
+  label: label?.trim().slice(0, MAX_LOCATION_LABEL_LENGTH) || undefined,
+});
+
+/**
+ * Contact card for a user whose identity key we know
+ */
+export const createContactContent = (contact: {
+  _id: string;
+  displayName?: string;
+  email?: string;
+  publicKey: string;
+}): ContactContent => ({
+  type: 'contact',
+  contact: {
+    userId: contact._id,
+    name: contact.displayName || contact.email || '',
+    email: contact.email,
+    publicKey: contact.publicKey,
+    fingerprint: computeFingerprint(contact._id, contact.publicKey),
+  },
+});
+
+/**
+ * Whether the fingerprint on a contact card belongs to the key it carries
+ */
+export const checkContactFingerprint = (content: ContactContent): boolean => {
+  try {
+    return (
+      computeFingerprint(content.contact.userId, content.contact.publicKey) ===
+      content.contact.fingerprint
+    );
+  } catch {
+    // Not a valid key
+    return false;
+  }
+};
+
+/**
+ * Fingerprint of a contact card in groups of five digits
+ */
+export const formatFingerprint = (fingerprint: string): string => {
+  return formatSafetyNumber(fingerprint).join(' ');
+};
+
+/**
+ * Waveform of a recording from the levels metered while it was recorded
+ *
+ * Levels are in dBFS; each bar is the loudest level of its stretch,
+ * scaled from silence (0) to full scale (1).
+ */
+export const buildWaveform = (levels: number[], bars: number = WAVEFORM_BARS): number[] => {
+  if (levels.length === 0) {
+    return [];
+  }
+
+  const count = Math.min(bars, levels.length);
+  const waveform: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const stretch = levels.slice(
+      Math.floor((i * levels.length) / count),
+      Math.floor(((i + 1) * levels.length) / count)
+    );
+    const loudest = Math.max(...stretch);
+    const level = (Math.min(Math.max(loudest, MIN_AUDIO_LEVEL), 0) - MIN_AUDIO_LEVEL) / -MIN_AUDIO_LEVEL;
+
+    waveform.push(Math.round(level * 100) / 100);
+  }
+
+  return waveform;
+};
+
+/**
+ * Voice note payload for a finished recording
+ */
+export const createAudioContent = (durationMillis: number, levels: number[]): AudioContent => ({
+  type: 'audio',
+  duration: Math.min(Math.round(durationMillis / 1000), MAX_VOICE_NOTE_DURATION),
+  waveform: buildWaveform(levels),
+});
+
+/**
+ * Length of a voice note, e.g. "1:05"
+ */
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
+
+/**
+ * Text sent along with a rich message, shown in replies, search and by
+ * clients that cannot show the message itself
+ */
+export const getRichPreview = (content: RichContent): string => {
+  switch (content.type) {
+    case 'location':
+      return `📍 ${content.label || 'Location'}`;
+    case 'contact':
+      return `👤 ${content.contact.name}`;
+    case 'audio':
+      return `🎤 Voice note (${formatDuration(content.duration)})`;
+  }
+};
+
+/**
+ * Link that opens a location pin in the device's maps app
+ */
+export const getMapUrl = (content: LocationContent, platform: string): string => {
+  const { latitude, longitude } = content.location;
+  const label = encodeURIComponent(content.label || 'Shared location');
+
+  if (platform === 'ios') {
+    return `maps:?ll=${latitude},${longitude}&q=${label}`;
+  }
+
+  if (platform === 'android') {
+    return `geo:${latitude},${longitude}?q=${latitude},${longitude}(${label})`;
+  }
+
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+};
@@ -0,0 +1,151 @@
+/**
+ * SecuriComm Sealed Records
+ *
+ * Keeps state that can outgrow secure storage, which only holds small values
+ * (SecureStore rejects values over 2048 bytes). Only the store key lives in
+ * secure storage; each record is sealed under a key derived for that record
+ * from it, so records cannot be read or swapped, and is written to a file
+ * on devices or to local storage on the web.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { secureStorage, storage } from './storage';
+import { generateRandomBytes, hkdf } from './encryption';
+
+export interface SealedRecordsOptions {
+  // Names the store key, the record directory and the local storage prefix
+  name: string;
+  // Context the record keys are derived under
+  context: string;
+  // What the records belong to, for errors
+  label: string;
+}
+
+export class SealedRecords {
+  private storeKey: Promise<Uint8Array> | null = null;
+
+  constructor(private readonly options: SealedRecordsOptions) {}
+
+  /**
+   * Read and open a record, or null if it was never written
+   */
+  public async read<T>(record: string): Promise<T | null> {
+    const stored = await this.readRaw(record);
+
+    if (!stored) {
+      return null;
+    }
+
+    const sealed = util.decodeBase64(stored);
+    const plaintext = nacl.secretbox.open(
+      sealed.subarray(nacl.secretbox.nonceLength),
+      sealed.subarray(0, nacl.secretbox.nonceLength),
+      await this.recordKey(record)
+    );
+
+    if (!plaintext) {
+      throw new Error(`${this.options.label} record failed authentication`);
+    }
+
+    return JSON.parse(util.encodeUTF8(plaintext)) as T;
+  }
+
+  /**
+   * Seal and write a record
+   */
+  public async write(record: string, value: unknown): Promise<void> {
+    const key = await this.recordKey(record);
+    const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
+    const box = nacl.secretbox(util.decodeUTF8(JSON.stringify(value)), nonce, key);
+    const sealed = new Uint8Array(nonce.length + box.length);
+
+    sealed.set(nonce);
+    sealed.set(box, nonce.length);
+
+    await this.writeRaw(record, util.encodeBase64(sealed));
+  }
+
+  /**
+   * Remove a record
+   */
+  public async remove(record: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      await storage.removeItem(`${this.options.name}.${record}`);
+      return;
+    }
+
+    await FileSystem.deleteAsync(this.recordUri(record), { idempotent: true });
+  }
+
+  /**
+   * Forget the store key kept in memory (e.g. on logout)
+   */
+  public clearMemoryKey(): void {
+    this.storeKey = null;
+  }
+
+  private recordUri(record: string): string {
+    return `${FileSystem.documentDirectory}${this.options.name}/${record}`;
+  }
+
+  private async readRaw(record: string): Promise<string | null> {
+    if (Platform.OS === 'web') {
+      return await storage.getItem(`${this.options.name}.${record}`);
+    }
+
+    const uri = this.recordUri(record);
+    const info = await FileSystem.getInfoAsync(uri);
+
+    return info.exists ? await FileSystem.readAsStringAsync(uri) : null;
+  }
+
+  private async writeRaw(record: string, value: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      await storage.setItem(`${this.options.name}.${record}`, value);
+      return;
+    }
+
+    await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}${this.options.name}/`, {
+      intermediates: true,
+    });
+    await FileSystem.writeAsStringAsync(this.recordUri(record), value);
+  }
+
+  /**
+   * Store key, created once even when records are first used concurrently
+   */
+  private getStoreKey(): Promise<Uint8Array> {
+    if (!this.storeKey) {
+      this.storeKey = this.loadStoreKey().catch((error) => {
+        this.storeKey = null;
+        throw error;
+      });
+    }
+
+    return this.storeKey;
+  }
+
+  private async loadStoreKey(): Promise<Uint8Array> {
+    const storageKey = `${this.options.name}_key`;
+    const stored = await secureStorage.getItem(storageKey);
+
+    if (stored) {
+      return util.decodeBase64(stored);
+    }
+
+    const storeKey = await generateRandomBytes(32);
+    await secureStorage.setItem(storageKey, util.encodeBase64(storeKey));
+
+    return storeKey;
+  }
+
+  /**
+   * Key a record is sealed under, bound to its name
+   */
+  private async recordKey(record: string): Promise<Uint8Array> {
+    return hkdf(await this.getStoreKey(), new Uint8Array(0), `${this.options.context}/${record}`, 32);
+  }
+}
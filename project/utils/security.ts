@@ -1,12 +1,20 @@
 import { Platform } from 'react-native';
-import * as Crypto from 'expo-crypto';
-import { encryption } from './encryption';
+import {
+  DEFAULT_DETECTORS,
+  DEMO_DETECTORS,
+  DetectionRecord,
+  ThreatDetector,
+  runDetector,
+} from './threatDetectors';
+import { auditLog, toAuditSeverity } from './auditLog';
 
 export interface SecurityCheck {
   isSecure: boolean;
   score: number;
   issues: string[];
   recommendations: string[];
+  detections: DetectionRecord[];
+  checkedAt: number;
 }
 
 export interface ThreatAnalysis {
@@ -20,15 +28,31 @@ export interface ThreatAnalysis {
     deviceIntegrity: number;
     timeBasedThreats: number;
   };
+  detections: DetectionRecord[];
   lastScan: number;
 }
 
+type ScanListener = () => void;
+
+const isText = (value: string | undefined): value is string => !!value;
+
 export class SecurityEngine {
   private static instance: SecurityEngine;
   private securityHistory: SecurityCheck[] = [];
   private threatHistory: ThreatAnalysis[] = [];
+  private detectors = new Map<string, ThreatDetector>();
+  private weights = new Map<string, number>();
+  private lastDetections: DetectionRecord[] = [];
+  private activeDetections = new Set<string>();
+  private listeners = new Set<ScanListener>();
+
+  private constructor() {
+    DEFAULT_DETECTORS.forEach(detector => this.registerDetector(detector));
 
-  private constructor() {}
+    if (process.env.EXPO_PUBLIC_DEMO_DETECTORS === 'true') {
+      this.setDemoDetectors(true);
+    }
+  }
 
   public static getInstance(): SecurityEngine {
     if (!SecurityEngine.instance) {
@@ -39,347 +63,190 @@ export class SecurityEngine {
 
   /**
    * Comprehensive device security assessment
+   *
+   * Every detector that finds something takes its weight, scaled by how
+   * severe the finding is, off a perfect score of 100.
    */
   public async performSecurityCheck(): Promise<SecurityCheck> {
-    const checks = await Promise.all([
-      this.checkDeviceIntegrity(),
-      this.checkNetworkSecurity(),
-      this.checkApplicationSecurity(),
-      this.checkEnvironmentSecurity(),
-    ]);
-
-    const issues: string[] = [];
-    const recommendations: string[] = [];
-    let totalScore = 0;
-
-    checks.forEach(check => {
-      totalScore += check.score;
-      issues.push(...check.issues);
-      recommendations.push(...check.recommendations);
-    });
+    const detections = await this.runDetectors();
+    const found = detections.filter(record => record.status === 'detected');
 
-    const averageScore = totalScore / checks.length;
-    const isSecure = averageScore >= 80;
+    const penalty = found.reduce(
+      (total, record) => total + (record.weight * record.severity) / 10,
+      0
+    );
+    const score = Math.max(0, Math.round(100 - penalty));
 
     const result: SecurityCheck = {
-      isSecure,
-      score: averageScore,
-      issues: [...new Set(issues)], // Remove duplicates
-      recommendations: [...new Set(recommendations)],
+      isSecure: score >= 80,
+      score,
+      issues: [...new Set(found.map(record => record.issue).filter(isText))],
+      recommendations: [...new Set(found.map(record => record.recommendation).filter(isText))],
+      detections,
+      checkedAt: Date.now(),
     };
 
     this.securityHistory.push(result);
+    this.listeners.forEach(listener => listener());
     return result;
   }
 
   /**
-   * AI-powered threat detection
+   * Threat analysis across the detector factors
+   *
+   * A factor is as high as its most severe finding. Confidence is the
+   * weighted mean of the detectors' confidence; detectors that timed out or
+   * failed count as knowing nothing.
    */
   public async performThreatAnalysis(): Promise<ThreatAnalysis> {
-    const analyses = await Promise.all([
-      this.analyzeNetworkTraffic(),
-      this.analyzeBehaviorPatterns(),
-      this.analyzeSystemAnomalies(),
-      this.analyzeTimeBasedThreats(),
-    ]);
-
-    const threats: string[] = [];
-    const mitigations: string[] = [];
-    let totalLevel = 0;
-    let totalConfidence = 0;
-
-    // Extract individual factor scores
-    const networkAnomaly = analyses[0].level;
-    const behaviorPattern = analyses[1].level;
-    const deviceIntegrity = analyses[2].level;
-    const timeBasedThreats = analyses[3].level;
-
-    analyses.forEach(analysis => {
-      totalLevel += analysis.level;
-      totalConfidence += analysis.confidence;
-      threats.push(...analysis.threats);
-      mitigations.push(...analysis.mitigations);
+    const detections = await this.runDetectors();
+    const found = detections.filter(record => record.status === 'detected');
+
+    const factors: ThreatAnalysis['factors'] = {
+      networkAnomaly: 0,
+      behaviorPattern: 0,
+      deviceIntegrity: 0,
+      timeBasedThreats: 0,
+    };
+
+    found.forEach(record => {
+      factors[record.factor] = Math.max(factors[record.factor], record.severity);
     });
 
+    const totalWeight = detections.reduce((total, record) => total + record.weight, 0);
+    const weightedConfidence = detections.reduce(
+      (total, record) => total + record.weight * record.confidence,
+      0
+    );
+
     const result: ThreatAnalysis = {
-      level: Math.min(10, Math.round(totalLevel / analyses.length)),
-      confidence: Math.round(totalConfidence / analyses.length),
-      threats: [...new Set(threats)],
-      mitigations: [...new Set(mitigations)],
-      factors: {
-        networkAnomaly,
-        behaviorPattern,
-        deviceIntegrity,
-        timeBasedThreats,
-      },
+      level: Math.max(...Object.values(factors)),
+      confidence: totalWeight > 0 ? Math.round(weightedConfidence / totalWeight) : 0,
+      threats: [...new Set(found.map(record => record.issue).filter(isText))],
+      mitigations: [...new Set(found.map(record => record.recommendation).filter(isText))],
+      factors,
+      detections,
       lastScan: Date.now(),
     };
 
     this.threatHistory.push(result);
+    this.listeners.forEach(listener => listener());
     return result;
   }
 
   /**
-   * Device integrity checks
+   * Subscribe to finished security checks and threat analyses
    */
-  private async checkDeviceIntegrity(): Promise<SecurityCheck> {
-    const issues: string[] = [];
-    const recommendations: string[] = [];
-    let score = 100;
-
-    // Check for rooting/jailbreaking indicators
-    if (Platform.OS !== 'web') {
-      const isRooted = await this.detectRootAccess();
-      if (isRooted) {
-        issues.push('Device appears to be rooted/jailbroken');
-        recommendations.push('Use a non-rooted device for maximum security');
-        score -= 30;
-      }
-    }
-
-    // Check for debugging
-    const hasDebugger = this.detectDebugger();
-    if (hasDebugger) {
-      issues.push('Debugging tools detected');
-      recommendations.push('Disable developer tools and debugging');
-      score -= 20;
-    }
-
-    // Check for emulator
-    const isEmulator = this.detectEmulator();
-    if (isEmulator) {
-      issues.push('Running on emulator/simulator');
-      recommendations.push('Use physical device for production');
-      score -= 15;
-    }
-
-    return {
-      isSecure: score >= 80,
-      score: Math.max(0, score),
-      issues,
-      recommendations,
+  public onScanCompleted(listener: ScanListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
     };
   }
 
   /**
-   * Network security assessment
+   * Add a detector, replacing any with the same id
    */
-  private async checkNetworkSecurity(): Promise<SecurityCheck> {
-    const issues: string[] = [];
-    const recommendations: string[] = [];
-    let score = 100;
-
-    // Check connection security
-    if (Platform.OS === 'web') {
-      if (!window.isSecureContext) {
-        issues.push('Insecure connection detected');
-        recommendations.push('Use HTTPS for all communications');
-        score -= 40;
-      }
-    }
-
-    // Check for VPN (can be good or bad depending on context)
-    const hasVPN = await this.detectVPN();
-    if (hasVPN) {
-      // VPN detected - neutral for now
-      score -= 5;
-    }
-
-    // Check for suspicious network activity
-    const suspiciousActivity = await this.detectSuspiciousNetworkActivity();
-    if (suspiciousActivity) {
-      issues.push('Suspicious network activity detected');
-      recommendations.push('Monitor network connections');
-      score -= 25;
-    }
-
-    return {
-      isSecure: score >= 80,
-      score: Math.max(0, score),
-      issues,
-      recommendations,
-    };
+  public registerDetector(detector: ThreatDetector): void {
+    this.detectors.set(detector.id, detector);
   }
 
   /**
-   * Application security checks
+   * Remove a detector
    */
-  private async checkApplicationSecurity(): Promise<SecurityCheck> {
-    const issues: string[] = [];
-    const recommendations: string[] = [];
-    let score = 100;
-
-    // Check code integrity
-    const codeIntegrity = await this.verifyCodeIntegrity();
-    if (!codeIntegrity) {
-      issues.push('Code integrity verification failed');
-      recommendations.push('Reinstall application from trusted source');
-      score -= 35;
-    }
-
-    // Check for tampering
-    const isTampered = await this.detectTampering();
-    if (isTampered) {
-      issues.push('Application tampering detected');
-      recommendations.push('Use official app distribution channels');
-      score -= 30;
-    }
-
-    return {
-      isSecure: score >= 80,
-      score: Math.max(0, score),
-      issues,
-      recommendations,
-    };
+  public unregisterDetector(id: string): void {
+    this.detectors.delete(id);
+    this.weights.delete(id);
+    this.activeDetections.delete(id);
   }
 
   /**
-   * Environment security assessment
+   * Change how much a detector counts; null restores its own weight
    */
-  private async checkEnvironmentSecurity(): Promise<SecurityCheck> {
-    const issues: string[] = [];
-    const recommendations: string[] = [];
-    let score = 100;
-
-    // Check for screen recording
-    const screenRecording = this.detectScreenRecording();
-    if (screenRecording) {
-      issues.push('Screen recording detected');
-      recommendations.push('Disable screen recording for security');
-      score -= 20;
+  public setDetectorWeight(id: string, weight: number | null): void {
+    if (weight === null) {
+      this.weights.delete(id);
+    } else {
+      this.weights.set(id, Math.max(0, weight));
     }
+  }
 
-    // Check for accessibility services (Android)
-    if (Platform.OS === 'android') {
-      const accessibilityServices = await this.detectAccessibilityServices();
-      if (accessibilityServices) {
-        issues.push('Suspicious accessibility services detected');
-        recommendations.push('Review and disable unnecessary accessibility services');
-        score -= 15;
+  /**
+   * Turn the random demo detectors on or off
+   */
+  public setDemoDetectors(enabled: boolean): void {
+    DEMO_DETECTORS.forEach(detector => {
+      if (enabled) {
+        this.registerDetector(detector);
+      } else {
+        this.unregisterDetector(detector.id);
       }
-    }
-
-    return {
-      isSecure: score >= 80,
-      score: Math.max(0, score),
-      issues,
-      recommendations,
-    };
+    });
   }
 
-  // Detection methods
-  private async detectRootAccess(): Promise<boolean> {
-    // Simulate root detection
-    return Math.random() < 0.05; // 5% chance for demo
+  /**
+   * Registered detectors with the weight each one counts with
+   */
+  public getDetectors(): ThreatDetector[] {
+    return [...this.detectors.values()].map(detector => ({
+      ...detector,
+      weight: this.getWeight(detector),
+    }));
   }
 
-  private detectDebugger(): boolean {
-    if (Platform.OS === 'web') {
-      return window.outerHeight - window.innerHeight > 200 ||
-             window.outerWidth - window.innerWidth > 200;
-    }
-    return Math.random() < 0.02; // 2% chance for demo
+  /**
+   * Evidence from the latest scan
+   */
+  public getLastDetections(): DetectionRecord[] {
+    return this.lastDetections;
   }
 
-  private detectEmulator(): boolean {
-    if (Platform.OS === 'web') return false;
-    return Math.random() < 0.03; // 3% chance for demo
+  private getWeight(detector: ThreatDetector): number {
+    return this.weights.get(detector.id) ?? detector.weight;
   }
 
-  private async detectVPN(): Promise<boolean> {
-    return Math.random() < 0.15; // 15% chance for demo
-  }
+  private async runDetectors(): Promise<DetectionRecord[]> {
+    const detectors = [...this.detectors.values()].filter(
+      detector => !detector.platforms || detector.platforms.includes(Platform.OS)
+    );
 
-  private async detectSuspiciousNetworkActivity(): Promise<boolean> {
-    return Math.random() < 0.08; // 8% chance for demo
-  }
+    const detections = await Promise.all(
+      detectors.map(detector => runDetector(detector, this.getWeight(detector)))
+    );
 
-  private async verifyCodeIntegrity(): Promise<boolean> {
-    return Math.random() > 0.02; // 98% chance for demo
-  }
+    this.lastDetections = detections;
+    await this.logDetectionChanges(detections);
 
-  private async detectTampering(): Promise<boolean> {
-    return Math.random() < 0.03; // 3% chance for demo
+    return detections;
   }
 
-  private detectScreenRecording(): boolean {
-    if (Platform.OS === 'web') {
-      return navigator.mediaDevices && 'getDisplayMedia' in navigator.mediaDevices;
+  /**
+   * Add threats that appeared or went away to the audit log
+   *
+   * Detectors that timed out or failed say nothing about whether a threat
+   * is still there, so they leave it as it was.
+   */
+  private async logDetectionChanges(detections: DetectionRecord[]): Promise<void> {
+    for (const record of detections) {
+      const wasActive = this.activeDetections.has(record.detectorId);
+
+      if (record.status === 'detected' && !wasActive) {
+        this.activeDetections.add(record.detectorId);
+        await auditLog.append('threat', 'threat_detected', record.issue || record.name, {
+          severity: toAuditSeverity(record.severity),
+          details: {
+            detectorId: record.detectorId,
+            severity: record.severity,
+            confidence: record.confidence,
+          },
+        });
+      } else if (record.status === 'clear' && wasActive) {
+        this.activeDetections.delete(record.detectorId);
+        await auditLog.append('threat', 'threat_cleared', `${record.name} no longer detected`, {
+          details: { detectorId: record.detectorId },
+        });
+      }
     }
-    return Math.random() < 0.05; // 5% chance for demo
-  }
-
-  private async detectAccessibilityServices(): Promise<boolean> {
-    return Math.random() < 0.10; // 10% chance for demo
-  }
-
-  // Analysis methods for threat detection
-  private async analyzeNetworkTraffic(): Promise<ThreatAnalysis> {
-    const anomalyScore = Math.random() * 3;
-    return {
-      level: Math.round(anomalyScore),
-      confidence: 85 + Math.random() * 10,
-      threats: anomalyScore > 2 ? ['Unusual network patterns'] : [],
-      mitigations: anomalyScore > 2 ? ['Monitor network activity'] : [],
-      factors: {
-        networkAnomaly: Math.round(anomalyScore),
-        behaviorPattern: 0,
-        deviceIntegrity: 0,
-        timeBasedThreats: 0,
-      },
-      lastScan: Date.now(),
-    };
-  }
-
-  private async analyzeBehaviorPatterns(): Promise<ThreatAnalysis> {
-    const behaviorScore = Math.random() * 2;
-    return {
-      level: Math.round(behaviorScore),
-      confidence: 80 + Math.random() * 15,
-      threats: behaviorScore > 1.5 ? ['Unusual user behavior'] : [],
-      mitigations: behaviorScore > 1.5 ? ['Verify user identity'] : [],
-      factors: {
-        networkAnomaly: 0,
-        behaviorPattern: Math.round(behaviorScore),
-        deviceIntegrity: 0,
-        timeBasedThreats: 0,
-      },
-      lastScan: Date.now(),
-    };
-  }
-
-  private async analyzeSystemAnomalies(): Promise<ThreatAnalysis> {
-    const systemScore = Math.random() * 2;
-    return {
-      level: Math.round(systemScore),
-      confidence: 90 + Math.random() * 8,
-      threats: systemScore > 1.5 ? ['System anomalies detected'] : [],
-      mitigations: systemScore > 1.5 ? ['Perform system scan'] : [],
-      factors: {
-        networkAnomaly: 0,
-        behaviorPattern: 0,
-        deviceIntegrity: Math.round(systemScore),
-        timeBasedThreats: 0,
-      },
-      lastScan: Date.now(),
-    };
-  }
-
-  private async analyzeTimeBasedThreats(): Promise<ThreatAnalysis> {
-    const timeScore = Math.random() * 1;
-    return {
-      level: Math.round(timeScore),
-      confidence: 75 + Math.random() * 20,
-      threats: timeScore > 0.8 ? ['Unusual access time'] : [],
-      mitigations: timeScore > 0.8 ? ['Verify access legitimacy'] : [],
-      factors: {
-        networkAnomaly: 0,
-        behaviorPattern: 0,
-        deviceIntegrity: 0,
-        timeBasedThreats: Math.round(timeScore),
-      },
-      lastScan: Date.now(),
-    };
   }
 
   /**
@@ -402,6 +269,8 @@ export class SecurityEngine {
   public clearHistory(): void {
     this.securityHistory = [];
     this.threatHistory = [];
+    this.lastDetections = [];
+    this.activeDetections.clear();
   }
 }
 
@@ -0,0 +1,452 @@
+/**
+ * SecuriComm Security Reports
+ *
+ * Turns the audit log and security check history into reports that can be
+ * handed over as evidence: JSON for tools, CSV for spreadsheets and an HTML
+ * page that prints cleanly to PDF. Every report comes with a detached
+ * signature made with the device signing key, so anyone holding the
+ * device's public signing key can later check that the report is unchanged.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { Buffer } from 'buffer';
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { ensureSigningKeyPair } from './keyAgreement';
+import { verifySignature } from './encryption';
+import { auditLog, AuditEntry, AuditVerification } from './auditLog';
+import { SecurityCheck } from './security';
+
+// Current report signature format version
+const SIGNATURE_VERSION = 1;
+
+// Audit log entries read at a time while collecting a report
+const COLLECT_PAGE_SIZE = 100;
+
+// Directory reports are saved in, under the app's documents
+const REPORT_DIRECTORY = 'reports/';
+
+export interface SecurityEvent {
+  id: string;
+  type: 'scan' | 'threat' | 'encryption' | 'access' | 'network' | 'ai' | 'compliance' | 'emergency';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  description: string;
+  timestamp: number;
+  details?: {
+    source?: string;
+    action?: string;
+    result?: string;
+    metadata?: Record<string, any>;
+  };
+  resolved?: boolean;
+}
+
+export type ReportFormat = 'json' | 'csv' | 'html';
+
+// Events a report covers; missing fields do not filter
+export interface ReportFilter {
+  from?: number;
+  to?: number;
+  types?: SecurityEvent['type'][];
+  severities?: SecurityEvent['severity'][];
+}
+
+// Detached signature kept next to a report
+export interface ReportSignature {
+  type: 'security_report_signature';
+  version: number;
+  algorithm: 'ed25519';
+  file: string;
+  sha512: string;
+  signingKey: string;
+  signature: string;
+  signedAt: number;
+}
+
+export interface SecurityReport {
+  format: ReportFormat;
+  filename: string;
+  mimeType: string;
+  content: string;
+  signature: ReportSignature;
+  eventCount: number;
+}
+
+export interface ReportOptions {
+  format: ReportFormat;
+  filter?: ReportFilter;
+  // Result of checking the audit log, printed in the report
+  integrity?: AuditVerification | null;
+}
+
+// Where a saved report and its signature were written
+export interface SavedReport {
+  reportUri: string;
+  signatureUri: string;
+}
+
+interface ReportHeader {
+  title: string;
+  generatedAt: number;
+  filter: ReportFilter;
+  integrity: AuditVerification | null;
+}
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  html: 'text/html',
+};
+
+// Timeline event types of the audit log categories
+const AUDIT_EVENT_TYPES: Record<AuditEntry['category'], SecurityEvent['type']> = {
+  auth: 'access',
+  key: 'encryption',
+  emergency: 'emergency',
+  threat: 'threat',
+};
+
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'type',
+  'severity',
+  'title',
+  'description',
+  'source',
+  'action',
+  'result',
+  'resolved',
+  'metadata',
+] as const;
+
+const toHex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+const sha512 = (content: string): string => toHex(nacl.hash(util.decodeUTF8(content)));
+
+/**
+ * Timeline event for an audit log entry
+ */
+export const auditEntryToEvent = (entry: AuditEntry): SecurityEvent => ({
+  id: String(entry.seq),
+  type: AUDIT_EVENT_TYPES[entry.category],
+  severity: entry.severity,
+  title: entry.action
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' '),
+  description: entry.description,
+  timestamp: entry.timestamp,
+  details: {
+    source: 'Audit Log',
+    action: `#${entry.seq}`,
+    metadata: entry.details,
+  },
+  resolved: entry.category === 'threat' ? entry.action === 'threat_cleared' : undefined,
+});
+
+/**
+ * Timeline event for a device security check
+ */
+export const securityCheckToEvent = (check: SecurityCheck): SecurityEvent => ({
+  id: `check-${check.checkedAt}`,
+  type: 'scan',
+  severity:
+    check.score >= 80 ? 'low' : check.score >= 60 ? 'medium' : check.score >= 40 ? 'high' : 'critical',
+  title: 'Security Check',
+  description: check.issues.length > 0 ? check.issues.join('; ') : 'No issues found',
+  timestamp: check.checkedAt,
+  details: {
+    source: 'Security Engine',
+    result: `Score ${check.score}/100`,
+    metadata: { score: check.score, issues: check.issues.length },
+  },
+  resolved: check.isSecure,
+});
+
+/**
+ * Events matching a filter, newest first
+ */
+export const filterSecurityEvents = (
+  events: SecurityEvent[],
+  filter: ReportFilter = {}
+): SecurityEvent[] =>
+  events
+    .filter(
+      (event) =>
+        (filter.from === undefined || event.timestamp >= filter.from) &&
+        (filter.to === undefined || event.timestamp <= filter.to) &&
+        (!filter.types || filter.types.includes(event.type)) &&
+        (!filter.severities || filter.severities.includes(event.severity))
+    )
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+/**
+ * Every audit log entry as a timeline event, newest first
+ */
+export const collectAuditEvents = async (): Promise<SecurityEvent[]> => {
+  const events: SecurityEvent[] = [];
+
+  for (let page = 1; ; page++) {
+    const result = await auditLog.getPage(COLLECT_PAGE_SIZE, page);
+
+    events.push(...result.entries.map(auditEntryToEvent));
+
+    if (!result.hasMore) {
+      return events;
+    }
+  }
+};
+
+const describeFilter = (filter: ReportFilter): string[] => [
+  `From: ${filter.from !== undefined ? new Date(filter.from).toISOString() : 'beginning'}`,
+  `To: ${filter.to !== undefined ? new Date(filter.to).toISOString() : 'now'}`,
+  `Types: ${filter.types ? filter.types.join(', ') : 'all'}`,
+  `Severities: ${filter.severities ? filter.severities.join(', ') : 'all'}`,
+];
+
+const describeIntegrity = (integrity: AuditVerification | null): string => {
+  if (!integrity) {
+    return 'Not checked';
+  }
+
+  return integrity.valid
+    ? `Intact (${integrity.checked} entries checked)`
+    : `Broken at entry #${integrity.brokenAt}: ${integrity.reason}`;
+};
+
+const renderJson = (header: ReportHeader, events: SecurityEvent[]): string =>
+  JSON.stringify(
+    {
+      type: 'security_report',
+      title: header.title,
+      generatedAt: new Date(header.generatedAt).toISOString(),
+      filter: header.filter,
+      integrity: header.integrity,
+      eventCount: events.length,
+      events: events.map((event) => ({
+        ...event,
+        timestamp: new Date(event.timestamp).toISOString(),
+      })),
+    },
+    null,
+    2
+  );
+
+/**
+ * Quote a CSV field; fields that a spreadsheet would run as a formula are
+ * prefixed so they stay text
+ */
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const renderCsv = (header: ReportHeader, events: SecurityEvent[]): string => {
+  const rows = events.map((event) =>
+    [
+      event.id,
+      new Date(event.timestamp).toISOString(),
+      event.type,
+      event.severity,
+      event.title,
+      event.description,
+      event.details?.source,
+      event.details?.action,
+      event.details?.result,
+      event.resolved,
+      event.details?.metadata,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+
+  // Report details go in comment lines above the table
+  const preamble = [
+    header.title,
+    `Generated: ${new Date(header.generatedAt).toISOString()}`,
+    ...describeFilter(header.filter),
+    `Audit log: ${describeIntegrity(header.integrity)}`,
+  ].map((line) => `# ${line}`);
+
+  return [...preamble, CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderHtml = (header: ReportHeader, events: SecurityEvent[]): string => {
+  const rows = events
+    .map(
+      (event) => `      <tr class="${event.severity}">
+        <td>${escapeHtml(new Date(event.timestamp).toISOString())}</td>
+        <td>${escapeHtml(event.type)}</td>
+        <td>${escapeHtml(event.severity.toUpperCase())}</td>
+        <td><strong>${escapeHtml(event.title)}</strong><br>${escapeHtml(event.description)}</td>
+        <td>${escapeHtml(event.details?.source)}</td>
+        <td>${escapeHtml(
+          event.resolved === undefined ? '' : event.resolved ? 'Resolved' : 'Active'
+        )}</td>
+      </tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(header.title)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; margin: 24px; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    .meta { font-size: 12px; color: #444; margin: 0 0 16px; padding: 0; list-style: none; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+    tr { page-break-inside: avoid; }
+    tr.high td:nth-child(3) { color: #c2410c; }
+    tr.critical td:nth-child(3) { color: #b91c1c; font-weight: bold; }
+    @page { size: A4; margin: 16mm; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(header.title)}</h1>
+  <ul class="meta">
+    <li>Generated: ${escapeHtml(new Date(header.generatedAt).toISOString())}</li>
+${describeFilter(header.filter)
+  .map((line) => `    <li>${escapeHtml(line)}</li>`)
+  .join('\n')}
+    <li>Audit log: ${escapeHtml(describeIntegrity(header.integrity))}</li>
+    <li>Events: ${events.length}</li>
+  </ul>
+  <table>
+    <thead>
+      <tr><th>Time</th><th>Type</th><th>Severity</th><th>Event</th><th>Source</th><th>Status</th></tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
+
+const RENDERERS: Record<ReportFormat, (header: ReportHeader, events: SecurityEvent[]) => string> = {
+  json: renderJson,
+  csv: renderCsv,
+  html: renderHtml,
+};
+
+/**
+ * Build a report of the matching events and sign it with the device signing key
+ */
+export const createSecurityReport = async (
+  events: SecurityEvent[],
+  options: ReportOptions
+): Promise<SecurityReport> => {
+  const filter = options.filter || {};
+  const selected = filterSecurityEvents(events, filter);
+  const generatedAt = Date.now();
+
+  const content = RENDERERS[options.format](
+    {
+      title: 'SecuriComm Security Report',
+      generatedAt,
+      filter,
+      integrity: options.integrity ?? null,
+    },
+    selected
+  );
+
+  const filename = `securicomm-report-${new Date(generatedAt)
+    .toISOString()
+    .replace(/[:.]/g, '-')}.${options.format}`;
+
+  const signingKeyPair = await ensureSigningKeyPair();
+  const signature = nacl.sign.detached(
+    util.decodeUTF8(content),
+    util.decodeBase64(signingKeyPair.privateKey)
+  );
+
+  return {
+    format: options.format,
+    filename,
+    mimeType: MIME_TYPES[options.format],
+    content,
+    signature: {
+      type: 'security_report_signature',
+      version: SIGNATURE_VERSION,
+      algorithm: 'ed25519',
+      file: filename,
+      sha512: sha512(content),
+      signingKey: signingKeyPair.publicKey,
+      signature: util.encodeBase64(signature),
+      signedAt: generatedAt,
+    },
+    eventCount: selected.length,
+  };
+};
+
+/**
+ * Check a report against its detached signature
+ *
+ * The signing key in the signature only says who claims to have signed;
+ * pass the key you trust for the device to also check that it signed.
+ */
+export const verifySecurityReport = (
+  content: string,
+  signature: ReportSignature,
+  trustedSigningKey?: string
+): boolean => {
+  if (
+    signature.type !== 'security_report_signature' ||
+    signature.algorithm !== 'ed25519' ||
+    (trustedSigningKey !== undefined && signature.signingKey !== trustedSigningKey)
+  ) {
+    return false;
+  }
+
+  if (sha512(content) !== signature.sha512) {
+    return false;
+  }
+
+  return verifySignature(util.decodeUTF8(content), signature.signature, signature.signingKey);
+};
+
+/**
+ * Write a report and its signature to the app's documents
+ */
+export const saveSecurityReport = async (report: SecurityReport): Promise<SavedReport | null> => {
+  // The web has no documents directory to keep them in
+  if (Platform.OS === 'web') {
+    return null;
+  }
+
+  const directory = `${FileSystem.documentDirectory}${REPORT_DIRECTORY}`;
+  const reportUri = `${directory}${report.filename}`;
+  const signatureUri = `${reportUri}.sig`;
+
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  await FileSystem.writeAsStringAsync(reportUri, report.content);
+  await FileSystem.writeAsStringAsync(signatureUri, JSON.stringify(report.signature, null, 2));
+
+  return { reportUri, signatureUri };
+};
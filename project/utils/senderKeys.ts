@@ -0,0 +1,613 @@
+/**
+ * SecuriComm Sender Key Service
+ *
+ * Provides group encryption with sender keys. Each member encrypts with
+ * its own hash chain and hands the chain key to every other member device
+ * over their pairwise ratchet sessions. A member's key is replaced whenever
+ * the group membership changes, so removed members cannot read later
+ * messages and new members cannot read earlier ones.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { api } from './api';
+import { SealedRecords } from './sealedRecords';
+import { KeyPair, generateRandomBytes } from './encryption';
+import { encryptForPeer, decryptFromPeer, kdfChainKey } from './ratchet';
+import { devices, deviceAddress } from './devices';
+
+// Maximum number of message keys to skip in a single chain
+const MAX_SKIP = 2000;
+
+// Maximum number of skipped message keys kept per sender key
+const MAX_STORED_SKIPPED_KEYS = 1000;
+
+// Number of keys kept per sender for messages sent before a rotation
+const MAX_KEYS_PER_SENDER = 3;
+
+// Group state, which grows with members and skipped message keys past what secure storage holds
+const groupRecords = new SealedRecords({
+  name: 'sender_keys',
+  context: 'SecuriComm/sender-keys',
+  label: 'Sender key group',
+});
+
+// Group member as needed for key distribution
+export interface SenderKeyMember {
+  _id: string;
+  publicKey?: string;
+}
+
+// Serialized group message
+export interface SenderKeyPayload {
+  type: 'sender_key';
+  version: 1;
+  keyId: string;
+  iteration: number;
+  nonce: string;
+  ciphertext: string;
+  signature: string;
+}
+
+// Sender key handed to another member over a pairwise session
+interface SenderKeyDistribution {
+  type: 'sender_key_distribution';
+  version: 1;
+  conversationId: string;
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  signingKey: string;
+}
+
+// Our own sender key for a group
+interface OwnSenderKey {
+  keyId: string;
+  initialChainKey: string;
+  chainKey: string;
+  iteration: number;
+  signingKeyPair: KeyPair;
+  members: string[];
+  distributedTo: string[];
+  createdAt: number;
+}
+
+// A sender key received from another member
+interface PeerSenderKey {
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  signingKey: string;
+  skippedKeys: Record<string, string>;
+}
+
+// Persisted group state
+interface GroupState {
+  own: OwnSenderKey | null;
+  peers: Record<string, PeerSenderKey[]>;
+}
+
+/**
+ * Bytes covered by a group message signature
+ */
+const signedBytes = (
+  conversationId: string,
+  payload: Omit<SenderKeyPayload, 'signature'>
+): Uint8Array => {
+  return util.decodeUTF8(
+    [
+      conversationId,
+      payload.keyId,
+      payload.iteration,
+      payload.nonce,
+      payload.ciphertext,
+    ].join(':')
+  );
+};
+
+/**
+ * Check whether message content is a sender key payload
+ */
+export const isSenderKeyPayload = (content: string): boolean => {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed?.type === 'sender_key' && parsed?.version === 1;
+  } catch {
+    return false;
+  }
+};
+
+export class SenderKeyManager {
+  private static instance: SenderKeyManager;
+  private groups = new Map<string, GroupState>();
+  private locks = new Map<string, Promise<unknown>>();
+
+  private constructor() {}
+
+  public static getInstance(): SenderKeyManager {
+    if (!SenderKeyManager.instance) {
+      SenderKeyManager.instance = new SenderKeyManager();
+    }
+    return SenderKeyManager.instance;
+  }
+
+  /**
+   * Encrypt a message for a group, rotating and distributing our key as needed
+   */
+  public async encrypt(
+    conversationId: string,
+    selfId: string,
+    members: SenderKeyMember[],
+    plaintext: string
+  ): Promise<string> {
+    return this.withLock(conversationId, async () => {
+      const state = await this.loadGroup(conversationId);
+      const memberIds = members.map((member) => member._id).sort();
+
+      if (!memberIds.includes(selfId)) {
+        throw new Error('Not a group member');
+      }
+
+      // Membership changed since our key was made: start a new one
+      if (!state.own || state.own.members.join(',') !== memberIds.join(',')) {
+        state.own = await this.createOwnKey(memberIds);
+        await this.saveGroup(conversationId, state);
+      }
+
+      // Forget keys of anyone who has left the group
+      Object.keys(state.peers)
+        .filter((senderId) => !memberIds.includes(senderId))
+        .forEach((senderId) => delete state.peers[senderId]);
+
+      await this.distribute(conversationId, members, state.own);
+
+      const own = state.own;
+      const [nextChainKey, messageKey] = kdfChainKey(util.decodeBase64(own.chainKey));
+      const nonce = await generateRandomBytes(nacl.secretbox.nonceLength);
+      const ciphertext = nacl.secretbox(util.decodeUTF8(plaintext), nonce, messageKey);
+
+      const unsigned = {
+        type: 'sender_key' as const,
+        version: 1 as const,
+        keyId: own.keyId,
+        iteration: own.iteration,
+        nonce: util.encodeBase64(nonce),
+        ciphertext: util.encodeBase64(ciphertext),
+      };
+
+      const signature = nacl.sign.detached(
+        signedBytes(conversationId, unsigned),
+        util.decodeBase64(own.signingKeyPair.privateKey)
+      );
+
+      own.chainKey = util.encodeBase64(nextChainKey);
+      own.iteration += 1;
+
+      await this.saveGroup(conversationId, state);
+
+      const payload: SenderKeyPayload = {
+        ...unsigned,
+        signature: util.encodeBase64(signature),
+      };
+
+      return JSON.stringify(payload);
+    });
+  }
+
+  /**
+   * Decrypt a group message
+   */
+  public async decrypt(
+    conversationId: string,
+    senderId: string,
+    members: SenderKeyMember[],
+    content: string
+  ): Promise<string> {
+    return this.withLock(conversationId, async () => {
+      const payload = JSON.parse(content) as SenderKeyPayload;
+
+      if (!members.some((member) => member._id === senderId)) {
+        throw new Error('Sender is not a group member');
+      }
+
+      let state = await this.loadGroup(conversationId);
+
+      // Our own messages can be re-read from the start of our chain
+      if (state.own && state.own.keyId === payload.keyId) {
+        return this.decryptOwnMessage(conversationId, state.own, payload);
+      }
+
+      // Fetch distributions we have not seen yet
+      if (!this.findPeerKey(state, senderId, payload.keyId)) {
+        await this.receiveDistributions(conversationId, members, state);
+        state = await this.loadGroup(conversationId);
+      }
+
+      const peerKey = this.findPeerKey(state, senderId, payload.keyId);
+
+      if (!peerKey) {
+        throw new Error('Sender key not available');
+      }
+
+      const isValid = nacl.sign.detached.verify(
+        signedBytes(conversationId, payload),
+        util.decodeBase64(payload.signature),
+        util.decodeBase64(peerKey.signingKey)
+      );
+
+      if (!isValid) {
+        throw new Error('Invalid group message signature');
+      }
+
+      // Work on a copy so a failed decryption leaves the state untouched
+      const nextKey: PeerSenderKey = {
+        ...peerKey,
+        skippedKeys: { ...peerKey.skippedKeys },
+      };
+      const messageKey = this.takeMessageKey(nextKey, payload.iteration);
+
+      const decryptedBytes = nacl.secretbox.open(
+        util.decodeBase64(payload.ciphertext),
+        util.decodeBase64(payload.nonce),
+        messageKey
+      );
+
+      if (!decryptedBytes) {
+        throw new Error('Failed to decrypt message');
+      }
+
+      state.peers[senderId] = state.peers[senderId].map((key) =>
+        key.keyId === nextKey.keyId ? nextKey : key
+      );
+
+      await this.saveGroup(conversationId, state);
+
+      return util.encodeUTF8(decryptedBytes);
+    });
+  }
+
+  /**
+   * Replace our sender key before the next message
+   */
+  public async rotate(conversationId: string): Promise<void> {
+    return this.withLock(conversationId, async () => {
+      const state = await this.loadGroup(conversationId);
+
+      state.own = null;
+
+      await this.saveGroup(conversationId, state);
+    });
+  }
+
+  /**
+   * Drop a member's sender keys and rotate our own
+   */
+  public async removeMember(conversationId: string, memberId: string): Promise<void> {
+    return this.withLock(conversationId, async () => {
+      const state = await this.loadGroup(conversationId);
+
+      delete state.peers[memberId];
+      state.own = null;
+
+      await this.saveGroup(conversationId, state);
+    });
+  }
+
+  /**
+   * Delete all sender keys for a group
+   */
+  public async deleteGroup(conversationId: string): Promise<void> {
+    this.groups.delete(conversationId);
+    await groupRecords.remove(conversationId);
+  }
+
+  /**
+   * Clear cached group state from memory
+   */
+  public clearMemoryGroups(): void {
+    this.groups.clear();
+    groupRecords.clearMemoryKey();
+  }
+
+  /**
+   * Run group operations for a conversation one at a time
+   */
+  private async withLock<T>(
+    conversationId: string,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.locks.get(conversationId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+
+    this.locks.set(conversationId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(conversationId) === current) {
+        this.locks.delete(conversationId);
+      }
+    }
+  }
+
+  /**
+   * Create a new sender key for the current members
+   */
+  private async createOwnKey(memberIds: string[]): Promise<OwnSenderKey> {
+    const chainKey = util.encodeBase64(await generateRandomBytes(32));
+    const signingKeyPair = nacl.sign.keyPair();
+
+    return {
+      keyId: util.encodeBase64(await generateRandomBytes(16)),
+      initialChainKey: chainKey,
+      chainKey,
+      iteration: 0,
+      signingKeyPair: {
+        publicKey: util.encodeBase64(signingKeyPair.publicKey),
+        privateKey: util.encodeBase64(signingKeyPair.secretKey),
+      },
+      members: memberIds,
+      distributedTo: [],
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Send our sender key to member devices that do not have it yet
+   *
+   * Our own other devices are included so they can read what we send.
+   */
+  private async distribute(
+    conversationId: string,
+    members: SenderKeyMember[],
+    own: OwnSenderKey
+  ): Promise<void> {
+    const ownAddress = await devices.getOwnAddress();
+    const recipients: Array<{ member: SenderKeyMember; addresses: string[] }> = [];
+
+    for (const member of members) {
+      try {
+        const addresses = (await devices.getDeviceIds(member._id))
+          .map((deviceId) => deviceAddress(member._id, deviceId))
+          .filter((address) => address !== ownAddress);
+
+        if (addresses.some((address) => !own.distributedTo.includes(address))) {
+          recipients.push({ member, addresses });
+        }
+      } catch (error) {
+        // Retried with the next message
+        console.error('Get member devices error:', error);
+      }
+    }
+
+    if (recipients.length === 0) {
+      return;
+    }
+
+    // Members of the same key generation may read it from the start
+    const distribution: SenderKeyDistribution = {
+      type: 'sender_key_distribution',
+      version: 1,
+      conversationId,
+      keyId: own.keyId,
+      chainKey: own.initialChainKey,
+      iteration: 0,
+      signingKey: own.signingKeyPair.publicKey,
+    };
+
+    const distributions: Array<{ recipientId: string; content: string }> = [];
+    const delivered: string[] = [];
+
+    for (const { member, addresses } of recipients) {
+      try {
+        const content = await encryptForPeer(
+          member._id,
+          member.publicKey,
+          JSON.stringify(distribution)
+        );
+
+        if (content) {
+          distributions.push({ recipientId: member._id, content });
+          delivered.push(...addresses);
+        }
+      } catch (error) {
+        // Retried with the next message
+        console.error('Encrypt sender key error:', error);
+      }
+    }
+
+    if (distributions.length === 0) {
+      return;
+    }
+
+    const response = await api.keys.sendSenderKeys(conversationId, distributions);
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to distribute sender key');
+    }
+
+    own.distributedTo.push(...delivered.filter((address) => !own.distributedTo.includes(address)));
+  }
+
+  /**
+   * Fetch and store sender keys other members have sent us
+   */
+  private async receiveDistributions(
+    conversationId: string,
+    members: SenderKeyMember[],
+    state: GroupState
+  ): Promise<void> {
+    const response = await api.keys.getSenderKeys(conversationId);
+
+    if (!response.success || !Array.isArray(response.data?.distributions)) {
+      return;
+    }
+
+    for (const item of response.data.distributions) {
+      const sender = members.find((member) => member._id === item.senderId);
+
+      if (!sender) {
+        continue;
+      }
+
+      try {
+        const distribution = JSON.parse(
+          await decryptFromPeer(sender._id, sender.publicKey, item.content)
+        ) as SenderKeyDistribution;
+
+        if (
+          distribution.type !== 'sender_key_distribution' ||
+          distribution.conversationId !== conversationId
+        ) {
+          continue;
+        }
+
+        // A key sent again to another of our devices keeps its chain position
+        if (this.findPeerKey(state, sender._id, distribution.keyId)) {
+          continue;
+        }
+
+        const keys = (state.peers[sender._id] || []).filter(
+          (key) => key.keyId !== distribution.keyId
+        );
+
+        keys.push({
+          keyId: distribution.keyId,
+          chainKey: distribution.chainKey,
+          iteration: distribution.iteration,
+          signingKey: distribution.signingKey,
+          skippedKeys: {},
+        });
+
+        state.peers[sender._id] = keys.slice(-MAX_KEYS_PER_SENDER);
+      } catch (error) {
+        console.error('Receive sender key error:', error);
+      }
+    }
+
+    await this.saveGroup(conversationId, state);
+  }
+
+  /**
+   * Decrypt one of our own messages sent with our current key
+   */
+  private decryptOwnMessage(
+    conversationId: string,
+    own: OwnSenderKey,
+    payload: SenderKeyPayload
+  ): string {
+    const isValid = nacl.sign.detached.verify(
+      signedBytes(conversationId, payload),
+      util.decodeBase64(payload.signature),
+      util.decodeBase64(own.signingKeyPair.publicKey)
+    );
+
+    if (!isValid || payload.iteration >= own.iteration) {
+      throw new Error('Invalid group message');
+    }
+
+    let chainKey = util.decodeBase64(own.initialChainKey);
+
+    for (let i = 0; i < payload.iteration; i++) {
+      chainKey = kdfChainKey(chainKey)[0];
+    }
+
+    const decryptedBytes = nacl.secretbox.open(
+      util.decodeBase64(payload.ciphertext),
+      util.decodeBase64(payload.nonce),
+      kdfChainKey(chainKey)[1]
+    );
+
+    if (!decryptedBytes) {
+      throw new Error('Failed to decrypt message');
+    }
+
+    return util.encodeUTF8(decryptedBytes);
+  }
+
+  /**
+   * Find a sender key by sender and key ID
+   */
+  private findPeerKey(
+    state: GroupState,
+    senderId: string,
+    keyId: string
+  ): PeerSenderKey | undefined {
+    return (state.peers[senderId] || []).find((key) => key.keyId === keyId);
+  }
+
+  /**
+   * Get the message key for an iteration, advancing the chain as needed
+   */
+  private takeMessageKey(key: PeerSenderKey, iteration: number): Uint8Array {
+    if (iteration < key.iteration) {
+      const skippedKey = key.skippedKeys[iteration];
+
+      if (!skippedKey) {
+        throw new Error('Message key already used');
+      }
+
+      delete key.skippedKeys[iteration];
+      return util.decodeBase64(skippedKey);
+    }
+
+    if (iteration - key.iteration > MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chainKey = util.decodeBase64(key.chainKey);
+
+    while (key.iteration < iteration) {
+      const [nextChainKey, skippedKey] = kdfChainKey(chainKey);
+      key.skippedKeys[key.iteration] = util.encodeBase64(skippedKey);
+      chainKey = nextChainKey;
+      key.iteration += 1;
+    }
+
+    const [nextChainKey, messageKey] = kdfChainKey(chainKey);
+
+    key.chainKey = util.encodeBase64(nextChainKey);
+    key.iteration += 1;
+
+    // Drop the oldest skipped keys once the limit is reached
+    const skippedIterations = Object.keys(key.skippedKeys);
+
+    if (skippedIterations.length > MAX_STORED_SKIPPED_KEYS) {
+      skippedIterations
+        .map(Number)
+        .sort((a, b) => a - b)
+        .slice(0, skippedIterations.length - MAX_STORED_SKIPPED_KEYS)
+        .forEach((skipped) => delete key.skippedKeys[skipped]);
+    }
+
+    return messageKey;
+  }
+
+  /**
+   * Load group state from memory or its sealed record
+   */
+  private async loadGroup(conversationId: string): Promise<GroupState> {
+    const cached = this.groups.get(conversationId);
+
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await groupRecords.read<GroupState>(conversationId);
+    const state = stored || { own: null, peers: {} };
+
+    this.groups.set(conversationId, state);
+
+    return state;
+  }
+
+  /**
+   * Persist group state
+   */
+  private async saveGroup(conversationId: string, state: GroupState): Promise<void> {
+    await groupRecords.write(conversationId, state);
+    this.groups.set(conversationId, state);
+  }
+}
+
+export const senderKeys = SenderKeyManager.getInstance();
@@ -15,12 +15,13 @@ export enum StorageKeys {
   USER_DATA = 'user_data',
   PUBLIC_KEY = 'public_key',
   PRIVATE_KEY = 'private_key',
+  SIGNING_PUBLIC_KEY = 'signing_public_key',
+  SIGNING_PRIVATE_KEY = 'signing_private_key',
   DEVICE_ID = 'device_id',
   SETTINGS = 'settings',
   SECURITY_LEVEL = 'security_level',
   BIOMETRIC_ENABLED = 'biometric_enabled',
   EMERGENCY_CONTACTS = 'emergency_contacts',
-  LAST_SYNC = 'last_sync',
   ENCRYPTION_VERSION = 'encryption_version',
 }
 
@@ -0,0 +1,559 @@
+/**
+ * SecuriComm Threat Detectors
+ *
+ * Detectors are the plugins the security engine runs on every scan. Each
+ * one looks at a single signal the platform exposes, such as whether the
+ * device is rooted or the API is reached over plain HTTP, and reports what
+ * it observed as evidence. Detectors are deterministic: the same device in
+ * the same state gives the same findings. The old randomised checks live
+ * on only as the demo set, which the engine leaves off unless asked.
+ */
+
+import { AccessibilityInfo, Platform } from 'react-native';
+import * as Application from 'expo-application';
+import * as Device from 'expo-device';
+import * as Network from 'expo-network';
+import * as ScreenCapture from 'expo-screen-capture';
+import { API_BASE_URL } from './api';
+import { behavior } from './behavior';
+import { ThreatFactors } from '../types';
+
+// How long a detector may take before its result is dropped
+export const DEFAULT_DETECTOR_TIMEOUT = 2000;
+
+// How far back screenshots count against the session
+const SCREENSHOT_WINDOW = 60 * 60 * 1000;
+
+export type DetectorCategory = 'device' | 'network' | 'application' | 'environment';
+
+// One thing a detector observed
+export interface DetectionEvidence {
+  source: string;
+  observation: string;
+  value?: string | number | boolean | null;
+}
+
+// What a detector reports; severity is 0-10, confidence 0-100
+export interface DetectorFinding {
+  detected: boolean;
+  severity: number;
+  confidence: number;
+  evidence: DetectionEvidence[];
+  issue?: string;
+  recommendation?: string;
+}
+
+export interface ThreatDetector {
+  id: string;
+  name: string;
+  category: DetectorCategory;
+  factor: keyof ThreatFactors;
+  weight: number;
+  timeout?: number;
+  platforms?: (typeof Platform.OS)[];
+  demo?: boolean;
+  detect: () => Promise<DetectorFinding>;
+}
+
+// Outcome of running one detector during a scan
+export interface DetectionRecord {
+  detectorId: string;
+  name: string;
+  category: DetectorCategory;
+  factor: keyof ThreatFactors;
+  weight: number;
+  status: 'detected' | 'clear' | 'timeout' | 'error';
+  severity: number;
+  confidence: number;
+  evidence: DetectionEvidence[];
+  issue?: string;
+  recommendation?: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+const clear = (confidence: number, evidence: DetectionEvidence[]): DetectorFinding => ({
+  detected: false,
+  severity: 0,
+  confidence,
+  evidence,
+});
+
+/**
+ * Run a detector, giving up once its timeout passes
+ */
+export const runDetector = async (
+  detector: ThreatDetector,
+  weight: number = detector.weight
+): Promise<DetectionRecord> => {
+  const startedAt = Date.now();
+  const timeout = detector.timeout ?? DEFAULT_DETECTOR_TIMEOUT;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const record = (
+    status: DetectionRecord['status'],
+    finding: Omit<DetectorFinding, 'detected'>
+  ): DetectionRecord => ({
+    detectorId: detector.id,
+    name: detector.name,
+    category: detector.category,
+    factor: detector.factor,
+    weight,
+    status,
+    severity: status === 'detected' ? Math.min(10, Math.max(0, finding.severity)) : 0,
+    confidence: Math.min(100, Math.max(0, finding.confidence)),
+    evidence: finding.evidence,
+    issue: finding.issue,
+    recommendation: finding.recommendation,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+  });
+
+  try {
+    const finding = await Promise.race([
+      detector.detect(),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), timeout);
+      }),
+    ]);
+
+    if (!finding) {
+      return record('timeout', {
+        severity: 0,
+        confidence: 0,
+        evidence: [{ source: detector.id, observation: `No result within ${timeout} ms` }],
+      });
+    }
+
+    return record(finding.detected ? 'detected' : 'clear', finding);
+  } catch (error) {
+    console.error(`Threat detector ${detector.id} error:`, error);
+    return record('error', {
+      severity: 0,
+      confidence: 0,
+      evidence: [
+        {
+          source: detector.id,
+          observation: 'Detector failed',
+          value: error instanceof Error ? error.message : String(error),
+        },
+      ],
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Rooted or jailbroken device
+const rootDetector: ThreatDetector = {
+  id: 'root',
+  name: 'Root / jailbreak',
+  category: 'device',
+  factor: 'deviceIntegrity',
+  weight: 30,
+  platforms: ['ios', 'android'],
+  detect: async () => {
+    const isRooted = await Device.isRootedExperimentalAsync();
+    const evidence = [{ source: 'expo-device', observation: 'Root heuristics', value: isRooted }];
+
+    if (!isRooted) {
+      return clear(70, evidence);
+    }
+
+    return {
+      detected: true,
+      severity: 10,
+      // The check is a heuristic and can be fooled
+      confidence: 70,
+      evidence,
+      issue: 'Device appears to be rooted/jailbroken',
+      recommendation: 'Use a non-rooted device for maximum security',
+    };
+  },
+};
+
+// Development build or open developer tools
+const debuggerDetector: ThreatDetector = {
+  id: 'debugger',
+  name: 'Debugger',
+  category: 'device',
+  factor: 'deviceIntegrity',
+  weight: 20,
+  detect: async () => {
+    if (Platform.OS === 'web') {
+      const gap = Math.max(
+        window.outerHeight - window.innerHeight,
+        window.outerWidth - window.innerWidth
+      );
+      const evidence = [{ source: 'window', observation: 'Docked panel size in px', value: gap }];
+
+      // A docked developer panel shrinks the page well below the window
+      return gap > 200
+        ? {
+            detected: true,
+            severity: 6,
+            confidence: 50,
+            evidence,
+            issue: 'Debugging tools detected',
+            recommendation: 'Disable developer tools and debugging',
+          }
+        : clear(50, evidence);
+    }
+
+    const evidence = [{ source: 'runtime', observation: 'Development build', value: __DEV__ }];
+
+    return __DEV__
+      ? {
+          detected: true,
+          severity: 6,
+          confidence: 100,
+          evidence,
+          issue: 'Debugging tools detected',
+          recommendation: 'Disable developer tools and debugging',
+        }
+      : clear(100, evidence);
+  },
+};
+
+// Emulator or simulator
+const emulatorDetector: ThreatDetector = {
+  id: 'emulator',
+  name: 'Emulator',
+  category: 'device',
+  factor: 'deviceIntegrity',
+  weight: 15,
+  platforms: ['ios', 'android'],
+  detect: async () => {
+    const evidence = [
+      { source: 'expo-device', observation: 'Physical device', value: Device.isDevice },
+      { source: 'expo-device', observation: 'Model', value: Device.modelName },
+    ];
+
+    return Device.isDevice
+      ? clear(95, evidence)
+      : {
+          detected: true,
+          severity: 5,
+          confidence: 95,
+          evidence,
+          issue: 'Running on emulator/simulator',
+          recommendation: 'Use physical device for production',
+        };
+  },
+};
+
+// Traffic routed through a VPN; neutral, but worth knowing
+const vpnDetector: ThreatDetector = {
+  id: 'vpn',
+  name: 'VPN',
+  category: 'network',
+  factor: 'networkAnomaly',
+  weight: 5,
+  platforms: ['ios', 'android'],
+  detect: async () => {
+    const state = await Network.getNetworkStateAsync();
+    const evidence = [{ source: 'expo-network', observation: 'Connection type', value: state.type ?? null }];
+
+    return state.type === Network.NetworkStateType.VPN
+      ? {
+          detected: true,
+          severity: 2,
+          confidence: 90,
+          evidence,
+          issue: 'Traffic is routed through a VPN',
+          recommendation: 'Make sure the VPN provider is one you trust',
+        }
+      : clear(90, evidence);
+  },
+};
+
+// API or page reached without TLS
+const insecureTransportDetector: ThreatDetector = {
+  id: 'insecure-transport',
+  name: 'Insecure transport',
+  category: 'network',
+  factor: 'networkAnomaly',
+  weight: 40,
+  detect: async () => {
+    const isPlainApi = API_BASE_URL.startsWith('http://');
+    const isInsecurePage = Platform.OS === 'web' && !window.isSecureContext;
+    const evidence: DetectionEvidence[] = [
+      { source: 'config', observation: 'API endpoint', value: API_BASE_URL },
+    ];
+
+    if (Platform.OS === 'web') {
+      evidence.push({ source: 'window', observation: 'Secure context', value: window.isSecureContext });
+    }
+
+    return isPlainApi || isInsecurePage
+      ? {
+          detected: true,
+          severity: 10,
+          confidence: 100,
+          evidence,
+          issue: 'Insecure connection detected',
+          recommendation: 'Use HTTPS for all communications',
+        }
+      : clear(100, evidence);
+  },
+};
+
+// iOS build that was not installed from the App Store or TestFlight
+const iosDistributionDetector: ThreatDetector = {
+  id: 'ios-distribution',
+  name: 'iOS distribution',
+  category: 'application',
+  factor: 'deviceIntegrity',
+  weight: 30,
+  platforms: ['ios'],
+  detect: async () => {
+    const releaseType = await Application.getIosApplicationReleaseTypeAsync();
+    const evidence = [
+      {
+        source: 'expo-application',
+        observation: 'Release type',
+        value: Application.ApplicationReleaseType[releaseType],
+      },
+    ];
+
+    if (releaseType === Application.ApplicationReleaseType.UNKNOWN) {
+      return clear(0, evidence);
+    }
+
+    return releaseType === Application.ApplicationReleaseType.ENTERPRISE ||
+      releaseType === Application.ApplicationReleaseType.AD_HOC
+      ? {
+          detected: true,
+          severity: 7,
+          confidence: 90,
+          evidence,
+          issue: 'App was installed outside the App Store',
+          recommendation: 'Use official app distribution channels',
+        }
+      : clear(90, evidence);
+  },
+};
+
+// Android device that installs apps from unknown sources
+const sideloadingDetector: ThreatDetector = {
+  id: 'sideloading',
+  name: 'Unknown sources',
+  category: 'application',
+  factor: 'deviceIntegrity',
+  weight: 10,
+  platforms: ['android'],
+  detect: async () => {
+    const isEnabled = await Device.isSideLoadingEnabledAsync();
+    const evidence = [
+      { source: 'expo-device', observation: 'Installs from unknown sources', value: isEnabled },
+    ];
+
+    return isEnabled
+      ? {
+          detected: true,
+          severity: 4,
+          confidence: 90,
+          evidence,
+          issue: 'Apps can be installed from unknown sources',
+          recommendation: 'Turn off installing apps from unknown sources',
+        }
+      : clear(90, evidence);
+  },
+};
+
+// Accessibility services can read everything on screen
+const accessibilityDetector: ThreatDetector = {
+  id: 'accessibility-services',
+  name: 'Accessibility services',
+  category: 'environment',
+  factor: 'deviceIntegrity',
+  weight: 15,
+  platforms: ['android'],
+  detect: async () => {
+    const isEnabled = await AccessibilityInfo.isAccessibilityServiceEnabled();
+    const evidence = [
+      { source: 'AccessibilityInfo', observation: 'Accessibility service enabled', value: isEnabled },
+    ];
+
+    // Screen readers are legitimate, so this is only a hint
+    return isEnabled
+      ? {
+          detected: true,
+          severity: 3,
+          confidence: 40,
+          evidence,
+          issue: 'Accessibility services can read the screen',
+          recommendation: 'Review and disable unnecessary accessibility services',
+        }
+      : clear(90, evidence);
+  },
+};
+
+let screenshotTimes: number[] = [];
+let screenshotSubscription: { remove: () => void } | null = null;
+
+// Screenshots taken while the app was open
+const screenshotDetector: ThreatDetector = {
+  id: 'screenshots',
+  name: 'Screenshots',
+  category: 'environment',
+  factor: 'behaviorPattern',
+  weight: 10,
+  platforms: ['ios', 'android'],
+  detect: async () => {
+    // Android only reports screenshots with media library access
+    if (Platform.OS === 'android') {
+      const permission = await ScreenCapture.getPermissionsAsync();
+
+      if (!permission.granted) {
+        return clear(0, [
+          { source: 'expo-screen-capture', observation: 'Permission to watch screenshots', value: false },
+        ]);
+      }
+    }
+
+    if (!screenshotSubscription) {
+      screenshotSubscription = ScreenCapture.addScreenshotListener(() => {
+        screenshotTimes.push(Date.now());
+      });
+    }
+
+    const since = Date.now() - SCREENSHOT_WINDOW;
+    screenshotTimes = screenshotTimes.filter((time) => time >= since);
+
+    const count = screenshotTimes.length;
+    const evidence = [
+      { source: 'expo-screen-capture', observation: 'Screenshots in the last hour', value: count },
+    ];
+
+    return count > 0
+      ? {
+          detected: true,
+          severity: Math.min(6, 2 + count),
+          confidence: 100,
+          evidence,
+          issue: 'Screenshots were taken in the app',
+          recommendation: 'Turn on screen security to block screenshots of conversations',
+        }
+      : clear(100, evidence);
+  },
+};
+
+/**
+ * Detector for the behaviour factors that feed one threat factor
+ */
+const behaviorDetector = (
+  id: string,
+  name: string,
+  factor: keyof ThreatFactors,
+  issue: string,
+  recommendation: string
+): ThreatDetector => ({
+  id,
+  name,
+  category: 'environment',
+  factor,
+  weight: 20,
+  detect: async () => {
+    const assessment = await behavior.assess();
+    const factors = assessment.factors.filter((item) => item.factor === factor);
+    const severity = Math.max(0, ...factors.map((item) => item.score));
+    const evidence = factors.map((item) => ({
+      source: `behavior:${item.id}`,
+      observation: item.explanation,
+      value: item.observed,
+    }));
+
+    // A model that is still learning knows little about what is normal
+    const confidence = assessment.learning ? 40 : 80;
+
+    return severity > 0
+      ? { detected: true, severity, confidence, evidence, issue, recommendation }
+      : clear(confidence, evidence);
+  },
+});
+
+// Activity unlike the user's usual behaviour
+const behaviorPatternDetector = behaviorDetector(
+  'behavior',
+  'Behaviour',
+  'behaviorPattern',
+  'Unusual user behavior',
+  'Verify user identity'
+);
+
+// Sign-in at an hour the user does not usually sign in
+const accessTimeDetector = behaviorDetector(
+  'access-time',
+  'Access time',
+  'timeBasedThreats',
+  'Unusual access time',
+  'Verify access legitimacy'
+);
+
+// Detectors backed by real platform signals
+export const DEFAULT_DETECTORS: ThreatDetector[] = [
+  rootDetector,
+  debuggerDetector,
+  emulatorDetector,
+  vpnDetector,
+  insecureTransportDetector,
+  iosDistributionDetector,
+  sideloadingDetector,
+  accessibilityDetector,
+  screenshotDetector,
+  behaviorPatternDetector,
+  accessTimeDetector,
+];
+
+const demoDetector = (
+  id: string,
+  category: DetectorCategory,
+  factor: keyof ThreatFactors,
+  weight: number,
+  chance: number,
+  severity: number,
+  issue: string,
+  recommendation: string
+): ThreatDetector => ({
+  id: `demo-${id}`,
+  name: `Demo: ${issue}`,
+  category,
+  factor,
+  weight,
+  demo: true,
+  detect: async () => {
+    const detected = Math.random() < chance;
+
+    return {
+      detected,
+      severity: detected ? severity : 0,
+      confidence: 75 + Math.round(Math.random() * 20),
+      evidence: [{ source: 'demo', observation: 'Random draw', value: detected }],
+      issue: detected ? issue : undefined,
+      recommendation: detected ? recommendation : undefined,
+    };
+  },
+});
+
+// Random findings for demos; never enabled unless asked for
+export const DEMO_DETECTORS: ThreatDetector[] = [
+  demoDetector('root', 'device', 'deviceIntegrity', 30, 0.05, 10,
+    'Device appears to be rooted/jailbroken', 'Use a non-rooted device for maximum security'),
+  demoDetector('debugger', 'device', 'deviceIntegrity', 20, 0.02, 6,
+    'Debugging tools detected', 'Disable developer tools and debugging'),
+  demoDetector('emulator', 'device', 'deviceIntegrity', 15, 0.03, 5,
+    'Running on emulator/simulator', 'Use physical device for production'),
+  demoDetector('network', 'network', 'networkAnomaly', 25, 0.08, 7,
+    'Suspicious network activity detected', 'Monitor network connections'),
+  demoDetector('code-integrity', 'application', 'deviceIntegrity', 35, 0.02, 9,
+    'Code integrity verification failed', 'Reinstall application from trusted source'),
+  demoDetector('tampering', 'application', 'deviceIntegrity', 30, 0.03, 9,
+    'Application tampering detected', 'Use official app distribution channels'),
+  demoDetector('screen-recording', 'environment', 'behaviorPattern', 20, 0.05, 5,
+    'Screen recording detected', 'Disable screen recording for security'),
+  demoDetector('behavior', 'environment', 'behaviorPattern', 10, 0.25, 2,
+    'Unusual user behavior', 'Verify user identity'),
+  demoDetector('access-time', 'environment', 'timeBasedThreats', 10, 0.2, 1,
+    'Unusual access time', 'Verify access legitimacy'),
+];
@@ -0,0 +1,340 @@
+/**
+ * SecuriComm Contact Verification Service
+ *
+ * Computes safety numbers from both parties' identity keys, builds and
+ * parses the QR payload used to compare keys in person, and keeps track
+ * of which contacts have been verified on this device. The first identity
+ * key seen for each contact is remembered too, so a changed safety number
+ * is noticed even for contacts that were never verified. Both grow with
+ * every contact, so they are kept in sealed records.
+ */
+
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+import { SealedRecords } from './sealedRecords';
+import { auditLog } from './auditLog';
+
+// Hash iterations per fingerprint; makes finding a colliding key expensive
+const FINGERPRINT_ITERATIONS = 5200;
+
+// Digits per fingerprint half
+const FINGERPRINT_DIGITS = 30;
+
+// Prefix of the QR verification payload
+const VERIFICATION_PAYLOAD_PREFIX = 'securicomm://verify?';
+
+// Current QR payload version
+const VERIFICATION_PAYLOAD_VERSION = 1;
+
+// Verified contacts and the identity keys seen for contacts
+const contactRecords = new SealedRecords({
+  name: 'contact_keys',
+  context: 'SecuriComm/contact-keys',
+  label: 'Contact keys',
+});
+
+// Contents of a scanned verification code
+export interface VerificationPayload {
+  userId: string;
+  identityKey: string;
+}
+
+// Contact verified on this device
+export interface VerifiedContact {
+  identityKey: string;
+  verifiedAt: number;
+}
+
+// Identity key last seen for a contact, and the one it replaced until the change is acknowledged
+export interface KnownIdentityKey {
+  identityKey: string;
+  previousKey?: string;
+  changedAt?: number;
+}
+
+// Verification state of a contact's current identity key
+export type VerificationStatus = 'verified' | 'unverified' | 'changed';
+
+// Contact whose identity key is being recorded
+export interface IdentityKeyHolder {
+  _id: string;
+  publicKey?: string;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+
+  return output;
+};
+
+/**
+ * Compute the numeric fingerprint for one identity key
+ */
+export const computeFingerprint = (userId: string, identityKey: string): string => {
+  const publicKey = util.decodeBase64(identityKey);
+  let hash = nacl.hash(
+    concatBytes(new Uint8Array([0, 0]), publicKey, util.decodeUTF8(userId))
+  );
+
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = nacl.hash(concatBytes(hash, publicKey));
+  }
+
+  // Every 5 bytes become 5 decimal digits
+  let digits = '';
+
+  for (let offset = 0; digits.length < FINGERPRINT_DIGITS; offset += 5) {
+    let chunk = 0;
+
+    for (let i = 0; i < 5; i++) {
+      chunk = chunk * 256 + hash[offset + i];
+    }
+
+    digits += (chunk % 100000).toString().padStart(5, '0');
+  }
+
+  return digits;
+};
+
+/**
+ * Compute the safety number shared by two users
+ */
+export const computeSafetyNumber = (
+  localUserId: string,
+  localIdentityKey: string,
+  remoteUserId: string,
+  remoteIdentityKey: string
+): string => {
+  const fingerprints = [
+    computeFingerprint(localUserId, localIdentityKey),
+    computeFingerprint(remoteUserId, remoteIdentityKey),
+  ];
+
+  // Same order on both devices so both show the same number
+  return fingerprints.sort().join('');
+};
+
+/**
+ * Split a safety number into groups of five digits
+ */
+export const formatSafetyNumber = (safetyNumber: string): string[] => {
+  return safetyNumber.match(/.{1,5}/g) || [];
+};
+
+/**
+ * Build the QR payload that identifies our identity key
+ */
+export const createVerificationPayload = (
+  userId: string,
+  identityKey: string
+): string => {
+  return (
+    VERIFICATION_PAYLOAD_PREFIX +
+    [
+      `v=${VERIFICATION_PAYLOAD_VERSION}`,
+      `u=${encodeURIComponent(userId)}`,
+      `k=${encodeURIComponent(identityKey)}`,
+    ].join('&')
+  );
+};
+
+/**
+ * Parse a scanned QR payload
+ */
+export const parseVerificationPayload = (data: string): VerificationPayload | null => {
+  if (!data.startsWith(VERIFICATION_PAYLOAD_PREFIX)) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  data
+    .slice(VERIFICATION_PAYLOAD_PREFIX.length)
+    .split('&')
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      params[key] = decodeURIComponent(value);
+    });
+
+  if (Number(params.v) !== VERIFICATION_PAYLOAD_VERSION || !params.u || !params.k) {
+    return null;
+  }
+
+  try {
+    if (util.decodeBase64(params.k).length !== nacl.box.publicKeyLength) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  return {
+    userId: params.u,
+    identityKey: params.k,
+  };
+};
+
+/**
+ * Get all contacts verified on this device
+ */
+export const getVerifiedContacts = async (): Promise<Record<string, VerifiedContact>> => {
+  const contacts = await contactRecords.read<Record<string, VerifiedContact>>('verified');
+
+  return contacts || {};
+};
+
+/**
+ * Add contacts verified elsewhere, e.g. on the device a key backup came from
+ *
+ * Verifications made on this device win over the added ones.
+ */
+export const mergeVerifiedContacts = async (
+  contacts: Record<string, VerifiedContact>
+): Promise<void> => {
+  await contactRecords.write('verified', { ...contacts, ...(await getVerifiedContacts()) });
+};
+
+/**
+ * Mark a contact's identity key as verified
+ */
+export const markContactVerified = async (
+  userId: string,
+  identityKey: string
+): Promise<void> => {
+  const contacts = await getVerifiedContacts();
+
+  contacts[userId] = {
+    identityKey,
+    verifiedAt: Date.now(),
+  };
+
+  await contactRecords.write('verified', contacts);
+  await acknowledgeIdentityKeyChange(userId, identityKey);
+  await auditLog.append('key', 'contact_verified', 'Contact identity key verified', {
+    details: { userId },
+  });
+};
+
+/**
+ * Remove a contact's verification
+ */
+export const clearContactVerification = async (userId: string): Promise<void> => {
+  const contacts = await getVerifiedContacts();
+
+  delete contacts[userId];
+
+  await contactRecords.write('verified', contacts);
+  await auditLog.append('key', 'contact_verification_cleared', 'Contact verification removed', {
+    severity: 'medium',
+    details: { userId },
+  });
+};
+
+/**
+ * Get the identity keys seen for contacts on this device
+ */
+export const getKnownIdentityKeys = async (): Promise<Record<string, KnownIdentityKey>> => {
+  const keys = await contactRecords.read<Record<string, KnownIdentityKey>>('known');
+
+  return keys || {};
+};
+
+/**
+ * Remember the identity keys the server reports for contacts
+ *
+ * A key that differs from the one seen before is kept as a change until
+ * the user acknowledges it or verifies the contact again.
+ */
+export const recordIdentityKeys = async (
+  contacts: IdentityKeyHolder[]
+): Promise<Record<string, KnownIdentityKey>> => {
+  const keys = await getKnownIdentityKeys();
+  let isModified = false;
+
+  for (const contact of contacts) {
+    const known = keys[contact._id];
+
+    if (!contact.publicKey || known?.identityKey === contact.publicKey) {
+      continue;
+    }
+
+    isModified = true;
+
+    if (!known) {
+      keys[contact._id] = { identityKey: contact.publicKey };
+      continue;
+    }
+
+    keys[contact._id] = {
+      identityKey: contact.publicKey,
+      previousKey: known.previousKey || known.identityKey,
+      changedAt: Date.now(),
+    };
+
+    await auditLog.append('key', 'contact_key_changed', 'Contact identity key changed', {
+      severity: 'high',
+      details: { userId: contact._id },
+    });
+  }
+
+  if (isModified) {
+    await contactRecords.write('known', keys);
+  }
+
+  return keys;
+};
+
+/**
+ * Accept a contact's changed identity key
+ */
+export const acknowledgeIdentityKeyChange = async (
+  userId: string,
+  identityKey: string
+): Promise<void> => {
+  const keys = await getKnownIdentityKeys();
+
+  keys[userId] = { identityKey };
+
+  await contactRecords.write('known', keys);
+};
+
+/**
+ * Forget the contact record key kept in memory (e.g. on logout)
+ */
+export const clearMemoryContactKeys = (): void => {
+  contactRecords.clearMemoryKey();
+};
+
+/**
+ * Compare a contact's current identity key with the verified one
+ *
+ * Contacts that were never verified count as changed while a change of
+ * their key has not been acknowledged.
+ */
+export const getVerificationStatus = (
+  verifiedContacts: Record<string, VerifiedContact>,
+  userId: string,
+  identityKey?: string,
+  knownIdentityKeys: Record<string, KnownIdentityKey> = {}
+): VerificationStatus => {
+  const verified = verifiedContacts[userId];
+
+  if (!verified || !identityKey) {
+    const known = knownIdentityKeys[userId];
+
+    return identityKey && known?.previousKey && known.identityKey === identityKey
+      ? 'changed'
+      : 'unverified';
+  }
+
+  return verified.identityKey === identityKey ? 'verified' : 'changed';
+};
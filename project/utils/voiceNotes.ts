@@ -0,0 +1,242 @@
+/**
+ * SecuriComm Voice Notes
+ *
+ * Records voice notes with audio levels for their waveform, and plays
+ * received ones. A received voice note is downloaded and decrypted into the
+ * app's cache only while it plays; the plaintext file is deleted as soon as
+ * playback ends. Recordings are deleted once they are sent or cancelled.
+ */
+
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { Buffer } from 'buffer';
+import * as FileSystem from 'expo-file-system';
+import { attachmentManager, Attachment } from './attachments';
+import { generateRandomBytes } from './encryption';
+import { MAX_VOICE_NOTE_DURATION } from './richMessages';
+
+// How often the recording level is sampled
+const METERING_INTERVAL = 100;
+
+// Type of recorded voice notes
+export const VOICE_NOTE_MIME_TYPE = 'audio/mp4';
+
+// Finished recording, waiting to be sent
+export interface VoiceRecording {
+  uri: string;
+  durationMillis: number;
+  levels: number[];
+}
+
+type RecordingListener = (durationMillis: number) => void;
+
+type PlaybackListener = (attachmentId: string | null) => void;
+
+export class VoiceNotes {
+  private static instance: VoiceNotes;
+  private recording: Audio.Recording | null = null;
+  private levels: number[] = [];
+  private sound: Audio.Sound | null = null;
+  private playingId: string | null = null;
+  private playingUri: string | null = null;
+  private playbackListeners = new Set<PlaybackListener>();
+
+  private constructor() {}
+
+  public static getInstance(): VoiceNotes {
+    if (!VoiceNotes.instance) {
+      VoiceNotes.instance = new VoiceNotes();
+    }
+    return VoiceNotes.instance;
+  }
+
+  /**
+   * Start recording a voice note; false when the microphone may not be used
+   *
+   * The listener hears the length so far. Recording stops by itself at the
+   * longest length a voice note can have.
+   */
+  public async startRecording(onProgress?: RecordingListener): Promise<boolean> {
+    if (this.recording) {
+      return true;
+    }
+
+    const permission = await Audio.requestPermissionsAsync();
+
+    if (!permission.granted) {
+      return false;
+    }
+
+    await this.stopPlayback();
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+
+    this.levels = [];
+
+    const { recording } = await Audio.Recording.createAsync(
+      { ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true },
+      (status) => {
+        if (!status.isRecording) {
+          return;
+        }
+
+        if (status.metering !== undefined) {
+          this.levels.push(status.metering);
+        }
+
+        onProgress?.(status.durationMillis);
+
+        if (status.durationMillis >= MAX_VOICE_NOTE_DURATION * 1000) {
+          recording.pauseAsync().catch((error) => console.error('Pause recording error:', error));
+        }
+      },
+      METERING_INTERVAL
+    );
+
+    this.recording = recording;
+    return true;
+  }
+
+  /**
+   * Stop recording and get the voice note to send
+   */
+  public async stopRecording(): Promise<VoiceRecording | null> {
+    const recording = this.recording;
+
+    if (!recording) {
+      return null;
+    }
+
+    this.recording = null;
+
+    try {
+      const status = await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+
+      return uri
+        ? {
+            uri,
+            durationMillis: Math.min(status.durationMillis, MAX_VOICE_NOTE_DURATION * 1000),
+            levels: this.levels,
+          }
+        : null;
+    } catch (error) {
+      console.error('Stop recording error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stop recording and throw the recording away
+   */
+  public async cancelRecording(): Promise<void> {
+    const recording = await this.stopRecording();
+
+    if (recording) {
+      await this.deleteRecording(recording);
+    }
+  }
+
+  /**
+   * Delete a recording from the device once it was sent
+   */
+  public async deleteRecording(recording: VoiceRecording): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(recording.uri, { idempotent: true });
+    } catch (error) {
+      console.error('Delete recording error:', error);
+    }
+  }
+
+  /**
+   * Download, decrypt and play a voice note; stops the one playing
+   */
+  public async play(attachment: Attachment): Promise<void> {
+    await this.stopPlayback();
+
+    const uri =
+      `${FileSystem.cacheDirectory}voice-` +
+      `${Buffer.from(await generateRandomBytes(8)).toString('hex')}.m4a`;
+
+    this.playingId = attachment._id;
+    this.playingUri = uri;
+    this.notifyPlayback();
+
+    try {
+      const data = await attachmentManager.downloadData(attachment);
+
+      // Stopped while downloading
+      if (this.playingUri !== uri) {
+        return;
+      }
+
+      await FileSystem.writeAsStringAsync(uri, Buffer.from(data).toString('base64'), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        { shouldPlay: true },
+        (status: AVPlaybackStatus) => {
+          if (status.isLoaded && status.didJustFinish) {
+            this.stopPlayback();
+          }
+        }
+      );
+
+      if (this.playingUri !== uri) {
+        await sound.unloadAsync();
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        return;
+      }
+
+      this.sound = sound;
+    } catch (error) {
+      console.error('Play voice note error:', error);
+      await this.stopPlayback();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the voice note playing and delete its decrypted audio
+   */
+  public async stopPlayback(): Promise<void> {
+    const sound = this.sound;
+    const uri = this.playingUri;
+
+    this.sound = null;
+    this.playingId = null;
+    this.playingUri = null;
+
+    try {
+      await sound?.unloadAsync();
+
+      if (uri) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      }
+    } catch (error) {
+      console.error('Stop voice note error:', error);
+    }
+
+    if (uri) {
+      this.notifyPlayback();
+    }
+  }
+
+  /**
+   * Listen to which voice note is playing
+   */
+  public onPlaybackChange(listener: PlaybackListener): () => void {
+    this.playbackListeners.add(listener);
+    return () => {
+      this.playbackListeners.delete(listener);
+    };
+  }
+
+  private notifyPlayback(): void {
+    this.playbackListeners.forEach((listener) => listener(this.playingId));
+  }
+}
+
+export const voiceNotes = VoiceNotes.getInstance();
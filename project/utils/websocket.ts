@@ -1,62 +1,217 @@
 /**
  * SecuriComm WebSocket Service
- * 
+ *
  * Provides WebSocket functionality for real-time communication.
- * Handles connection, reconnection, and event handling.
+ * A single connection is shared by the whole app and lives outside React.
+ * It reconnects for as long as the app is signed in, checks the connection
+ * with heartbeats, and resumes after the last event it processed so the
+ * server replays what was missed. An event only counts as processed once
+ * every handler of it has finished. Events follow the contract shared with
+ * the server; malformed or unknown events are dropped.
  */
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { z } from 'zod';
 import { secureStorage, StorageKeys } from './storage';
+import {
+  CLIENT_EVENT_CHANNEL,
+  clientEventSchemas,
+  serverEventSchemas,
+  parseEvent,
+} from '../shared/realtimeEvents';
 
-// WebSocket options interface
-interface WebSocketOptions {
-  url?: string;
-  autoConnect?: boolean;
-  reconnectionAttempts?: number;
-  reconnectionDelay?: number;
-  reconnectionDelayMax?: number;
-  timeout?: number;
-}
+// Events the app sends and their payloads
+export type ClientEvents = {
+  [E in keyof typeof clientEventSchemas]: z.infer<(typeof clientEventSchemas)[E]>;
+};
 
-// Default WebSocket options
-const defaultOptions: WebSocketOptions = {
-  url: process.env.EXPO_PUBLIC_API_URL || 'https://api.securicomm.app',
-  autoConnect: true,
-  reconnectionAttempts: 5,
-  reconnectionDelay: 1000,
-  reconnectionDelayMax: 5000,
-  timeout: 10000,
+// Events the server sends and their payloads
+export type ServerEvents = {
+  [E in keyof typeof serverEventSchemas]: z.infer<(typeof serverEventSchemas)[E]>;
 };
 
+// Connection state shown to the app
+export interface ConnectionState {
+  isConnected: boolean;
+  isConnecting: boolean;
+  error: Error | null;
+}
+
+// Handler of a server event, given the payload the contract describes; a
+// numbered event is processed once the promise it returns resolves
+export type EventHandler<E extends keyof ServerEvents> = (
+  data: ServerEvents[E]
+) => void | Promise<void>;
+
+type StateListener = (state: ConnectionState) => void;
+
+// Server to connect to
+const SERVER_URL = process.env.EXPO_PUBLIC_API_URL || 'https://api.securicomm.app';
+
+// Time allowed to open a connection
+const CONNECT_TIMEOUT = 10000;
+
+// First and longest wait before reconnecting
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Time between heartbeats, and how long to wait for the server to answer one
+const HEARTBEAT_INTERVAL = 25000;
+const PONG_TIMEOUT = 10000;
+
+// Acknowledgements are batched over this delay
+const ACK_DELAY = 1000;
+
+// Events held after a gap before the gap is given up on
+const MAX_PENDING_EVENTS = 500;
+
+// Times an event is handled before it is given up on
+const MAX_HANDLER_ATTEMPTS = 5;
+
 /**
- * WebSocket hook
+ * Wait before a reconnection attempt
+ *
+ * Exponential backoff with full jitter, so devices dropped together do not
+ * all come back at once.
  */
-export const useWebSocket = (options: WebSocketOptions = {}) => {
-  // Merge options with defaults
-  const mergedOptions = { ...defaultOptions, ...options };
-  
-  // WebSocket state
-  const [socket, setSocket] = useState<Socket | null>(null);
-  const [isConnected, setIsConnected] = useState<boolean>(false);
-  const [isConnecting, setIsConnecting] = useState<boolean>(false);
-  const [error, setError] = useState<Error | null>(null);
-  
-  // Reconnection state
-  const reconnectAttempts = useRef<number>(0);
-  const reconnectTimer = useRef<NodeJS.Timeout | null>(null);
-  
-  // Connect to WebSocket
-  const connect = useCallback(async () => {
+export const getReconnectDelay = (attempt: number): number => {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** Math.min(attempt, 10));
+  
+  return Math.random() * ceiling;
+};
+
+export class RealtimeConnection {
+  private static instance: RealtimeConnection;
+  private socket: Socket | null = null;
+  private running = false;
+  private attempts = 0;
+  private state: ConnectionState = { isConnected: false, isConnecting: false, error: null };
+  // Handlers are only ever filed under the event they were subscribed to
+  private handlers = new Map<keyof ServerEvents, Set<EventHandler<never>>>();
+  private stateListeners = new Set<StateListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private ackTimer: ReturnType<typeof setTimeout> | null = null;
+  // Last event processed with nothing missing before it, and the last one acknowledged
+  private lastSeq: number | null = null;
+  private ackedSeq: number | null = null;
+  // Events processed after a gap
+  private pendingSeqs = new Set<number>();
+  // Events being handled, and how often events failed that no handler took
+  // or a handler failed on
+  private handlingSeqs = new Set<number>();
+  private failedSeqs = new Map<number, number>();
+  
+  private constructor() {}
+  
+  public static getInstance(): RealtimeConnection {
+    if (!RealtimeConnection.instance) {
+      RealtimeConnection.instance = new RealtimeConnection();
+    }
+    return RealtimeConnection.instance;
+  }
+  
+  /**
+   * Connect and stay connected until stopped
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    
+    this.running = true;
+    await this.connect();
+  }
+  
+  /**
+   * Disconnect and forget the event position (e.g. on logout)
+   */
+  public stop(): void {
+    this.running = false;
+    this.attempts = 0;
+    
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    
+    if (this.ackTimer) {
+      clearTimeout(this.ackTimer);
+      this.ackTimer = null;
+    }
+    
+    this.closeSocket();
+    this.lastSeq = null;
+    this.ackedSeq = null;
+    this.pendingSeqs.clear();
+    this.handlingSeqs.clear();
+    this.failedSeqs.clear();
+    this.setState({ isConnected: false, isConnecting: false, error: null });
+  }
+  
+  public getState(): ConnectionState {
+    return this.state;
+  }
+  
+  /**
+   * Subscribe to connection state changes
+   */
+  public onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Send an event to the server
+   */
+  public send<E extends keyof ClientEvents>(event: E, data: ClientEvents[E]): boolean {
+    if (!this.socket || !this.state.isConnected) {
+      console.warn('WebSocket not connected, cannot send event:', event);
+      return false;
+    }
+    
+    const result = parseEvent(clientEventSchemas, event, data);
+    
+    if (!result.success) {
+      console.error('WebSocket send event error:', result.error);
+      return false;
+    }
+    
+    this.socket.emit(CLIENT_EVENT_CHANNEL, { type: event, payload: result.data });
+    return true;
+  }
+  
+  /**
+   * Listen to a server event; malformed payloads never reach the handler
+   *
+   * Handlers stay registered across reconnections.
+   */
+  public subscribe<E extends keyof ServerEvents>(
+    event: E,
+    handler: EventHandler<E>
+  ): () => void {
+    const handlers = this.handlers.get(event) || new Set<EventHandler<never>>();
+    
+    handlers.add(handler);
+    this.handlers.set(event, handlers);
+    
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+  
+  private async connect(): Promise<void> {
+    if (!this.running || this.socket) {
+      return;
+    }
+    
+    this.setState({ isConnected: false, isConnecting: true, error: null });
+    
     try {
-      // Check if already connecting
-      if (isConnecting) {
-        return;
-      }
-      
-      setIsConnecting(true);
-      setError(null);
-      
       // Get authentication token
       const token = await secureStorage.getItem(StorageKeys.AUTH_TOKEN);
       
@@ -64,151 +219,333 @@ export const useWebSocket = (options: WebSocketOptions = {}) => {
         throw new Error('Authentication token not found');
       }
       
-      // Create socket instance
-      const socketInstance = io(mergedOptions.url as string, {
+      // Stopped or connected again while the token was read
+      if (!this.running || this.socket) {
+        return;
+      }
+      
+      // The server replays everything after the last event processed
+      const query: Record<string, string> = { token };
+      
+      if (this.lastSeq !== null) {
+        query.lastEventSeq = String(this.lastSeq);
+      }
+      
+      const socket = io(SERVER_URL, {
         autoConnect: false,
         reconnection: false,
-        timeout: mergedOptions.timeout,
-        query: {
-          token,
-        },
+        timeout: CONNECT_TIMEOUT,
+        query,
       });
       
-      // Set up event handlers
-      socketInstance.on('connect', () => {
-        setIsConnected(true);
-        setIsConnecting(false);
-        reconnectAttempts.current = 0;
+      socket.onAny((event: string, data: unknown) => this.dispatch(event, data));
+      
+      socket.on('connect', () => {
+        this.attempts = 0;
+        this.setState({ isConnected: true, isConnecting: false, error: null });
+        this.startHeartbeat(socket);
         console.log('WebSocket connected');
       });
       
-      socketInstance.on('disconnect', (reason) => {
-        setIsConnected(false);
+      socket.on('disconnect', (reason: string) => {
         console.log(`WebSocket disconnected: ${reason}`);
-        
-        // Attempt to reconnect
-        if (
-          reason !== 'io client disconnect' &&
-          reason !== 'io server disconnect'
-        ) {
-          reconnect();
-        }
+        this.handleClose(socket, reason);
       });
       
-      socketInstance.on('connect_error', (err) => {
-        setIsConnecting(false);
-        setError(err);
-        console.error('WebSocket connection error:', err);
-        
-        // Attempt to reconnect
-        reconnect();
+      socket.on('connect_error', (error: Error) => {
+        console.error('WebSocket connection error:', error);
+        this.handleClose(socket, 'connect error', error);
       });
       
-      // Connect to socket
-      socketInstance.connect();
+      this.socket = socket;
+      socket.connect();
+    } catch (error) {
+      console.error('WebSocket connect error:', error);
+      this.setState({
+        isConnected: false,
+        isConnecting: false,
+        error: error instanceof Error ? error : new Error('Failed to connect'),
+      });
+      this.scheduleReconnect();
+    }
+  }
+  
+  private handleClose(socket: Socket, reason: string, error?: Error): void {
+    // Already replaced by a newer connection
+    if (socket !== this.socket) {
+      return;
+    }
+    
+    this.closeSocket();
+    this.setState({ isConnected: false, isConnecting: false, error: error || this.state.error });
+    
+    // The server closed the connection on purpose, e.g. the device was revoked
+    if (reason === 'io server disconnect') {
+      return;
+    }
+    
+    this.scheduleReconnect();
+  }
+  
+  private closeSocket(): void {
+    this.stopHeartbeat();
+    
+    if (this.socket) {
+      const socket = this.socket;
       
-      // Set socket instance
-      setSocket(socketInstance);
-    } catch (err) {
-      setIsConnecting(false);
-      setError(err instanceof Error ? err : new Error('Failed to connect'));
-      console.error('WebSocket connect error:', err);
+      this.socket = null;
+      socket.offAny();
+      socket.removeAllListeners();
+      socket.disconnect();
+    }
+  }
+  
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+    
+    const delay = getReconnectDelay(this.attempts);
+    
+    this.attempts += 1;
+    console.log(`WebSocket reconnecting in ${Math.round(delay)}ms (attempt ${this.attempts})`);
+    
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+  
+  private startHeartbeat(socket: Socket): void {
+    this.stopHeartbeat();
+    
+    this.heartbeatTimer = setInterval(() => {
+      if (this.pongTimer || !this.send('ping', {})) {
+        return;
+      }
       
-      // Attempt to reconnect
-      reconnect();
+      // A connection that stops answering is only noticed by the transport much later
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        console.warn('WebSocket heartbeat timed out');
+        this.handleClose(socket, 'heartbeat timeout');
+      }, PONG_TIMEOUT);
+    }, HEARTBEAT_INTERVAL);
+  }
+  
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
-  }, [isConnecting, mergedOptions.url, mergedOptions.timeout]);
+    
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
   
-  // Reconnect to WebSocket
-  const reconnect = useCallback(() => {
-    // Clear existing timer
-    if (reconnectTimer.current) {
-      clearTimeout(reconnectTimer.current);
-      reconnectTimer.current = null;
+  private dispatch(event: string, data: unknown): void {
+    const result = parseEvent(serverEventSchemas, event, data);
+    
+    if (!result.success) {
+      console.error('WebSocket event rejected:', result.error);
+      return;
+    }
+    
+    const payload = result.data as { seq?: number };
+    
+    if (event === 'pong' && this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
     }
     
-    // Check if max reconnection attempts reached
+    if (event === 'resume' || event === 'resync') {
+      this.moveTo(payload.seq!);
+    } else if (payload?.seq !== undefined) {
+      this.handleNumbered(event as keyof ServerEvents, result.data, payload.seq);
+      return;
+    }
+    
+    this.notify(event as keyof ServerEvents, result.data);
+  }
+  
+  /**
+   * Hand a numbered event to its handlers and record it once they all finished
+   *
+   * An event no handler took, or a handler failed on, is not recorded, so
+   * it is not acknowledged and the server replays it after a reconnect.
+   * After MAX_HANDLER_ATTEMPTS failures it is recorded anyway, so one bad
+   * event cannot hold back every event after it.
+   */
+  private async handleNumbered<E extends keyof ServerEvents>(
+    event: E,
+    data: ServerEvents[E],
+    seq: number
+  ): Promise<void> {
+    // Already processed or being processed, e.g. replayed after arriving live
     if (
-      reconnectAttempts.current >= (mergedOptions.reconnectionAttempts || 5)
+      (this.lastSeq !== null && seq <= this.lastSeq) ||
+      this.pendingSeqs.has(seq) ||
+      this.handlingSeqs.has(seq)
     ) {
-      console.error(
-        `WebSocket reconnection failed after ${reconnectAttempts.current} attempts`
-      );
       return;
     }
     
-    // Increment reconnection attempts
-    reconnectAttempts.current += 1;
+    this.handlingSeqs.add(seq);
     
-    // Calculate delay with exponential backoff
-    const delay = Math.min(
-      mergedOptions.reconnectionDelay! * Math.pow(2, reconnectAttempts.current),
-      mergedOptions.reconnectionDelayMax!
-    );
+    const handled = await this.notify(event, data);
+    
+    // Stopped while the handlers ran
+    if (!this.handlingSeqs.delete(seq)) {
+      return;
+    }
+    
+    const failures = handled ? 0 : (this.failedSeqs.get(seq) || 0) + 1;
     
-    console.log(
-      `WebSocket reconnecting in ${delay}ms (attempt ${reconnectAttempts.current})`
+    if (failures > 0 && failures < MAX_HANDLER_ATTEMPTS) {
+      this.failedSeqs.set(seq, failures);
+      return;
+    }
+    
+    if (failures > 0) {
+      console.error(`WebSocket event ${event} #${seq} dropped after ${failures} failed attempts`);
+    }
+    
+    this.failedSeqs.delete(seq);
+    this.track(seq);
+  }
+  
+  /**
+   * Hand a checked event to its handlers
+   *
+   * Resolves to whether there were handlers and all of them succeeded.
+   */
+  private async notify<E extends keyof ServerEvents>(
+    event: E,
+    data: ServerEvents[E]
+  ): Promise<boolean> {
+    const handlers = [...(this.handlers.get(event) || [])];
+    const results = await Promise.allSettled(
+      handlers.map(async (handler) => (handler as EventHandler<E>)(data))
     );
     
-    // Set reconnection timer
-    reconnectTimer.current = setTimeout(() => {
-      connect();
-    }, delay);
-  }, [
-    connect,
-    mergedOptions.reconnectionAttempts,
-    mergedOptions.reconnectionDelay,
-    mergedOptions.reconnectionDelayMax,
-  ]);
-  
-  // Disconnect from WebSocket
-  const disconnect = useCallback(() => {
-    if (socket) {
-      socket.disconnect();
-      setIsConnected(false);
-      setSocket(null);
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        console.error('WebSocket event handler error:', result.reason);
+      }
+    });
+    
+    return handlers.length > 0 && results.every((result) => result.status === 'fulfilled');
+  }
+  
+  /**
+   * Record a processed numbered event
+   */
+  private track(seq: number): void {
+    this.pendingSeqs.add(seq);
+    
+    // Give up on a gap that is never filled, the next reconnect resyncs if needed;
+    // events that were received but not processed are never skipped
+    if (this.lastSeq !== null && this.pendingSeqs.size > MAX_PENDING_EVENTS) {
+      const lastSeq = Math.min(...this.pendingSeqs, ...this.failedSeqs.keys()) - 1;
+      
+      this.lastSeq = Math.max(this.lastSeq, lastSeq);
     }
     
-    // Clear reconnection timer
-    if (reconnectTimer.current) {
-      clearTimeout(reconnectTimer.current);
-      reconnectTimer.current = null;
+    this.advance();
+  }
+  
+  /**
+   * Continue the event stream from a position the server gave
+   */
+  private moveTo(seq: number): void {
+    if (this.lastSeq === null || seq > this.lastSeq) {
+      this.lastSeq = seq;
     }
     
-    reconnectAttempts.current = 0;
-  }, [socket]);
+    this.advance();
+  }
   
-  // Send event to WebSocket
-  const sendEvent = useCallback(
-    (event: string, data: any) => {
-      if (socket && isConnected) {
-        socket.emit(event, data);
-      } else {
-        console.warn('WebSocket not connected, cannot send event:', event);
+  private advance(): void {
+    if (this.lastSeq === null) {
+      return;
+    }
+    
+    while (this.pendingSeqs.has(this.lastSeq + 1)) {
+      this.lastSeq += 1;
+    }
+    
+    this.pendingSeqs.forEach((seq) => {
+      if (seq <= this.lastSeq!) {
+        this.pendingSeqs.delete(seq);
       }
-    },
-    [socket, isConnected]
-  );
+    });
+    this.failedSeqs.forEach((_, seq) => {
+      if (seq <= this.lastSeq!) {
+        this.failedSeqs.delete(seq);
+      }
+    });
+    
+    this.scheduleAck();
+  }
   
-  // Connect on mount if autoConnect is true
-  useEffect(() => {
-    if (mergedOptions.autoConnect) {
-      connect();
+  private scheduleAck(): void {
+    if (this.ackTimer || this.lastSeq === null || this.lastSeq === this.ackedSeq) {
+      return;
     }
     
-    // Disconnect on unmount
-    return () => {
-      disconnect();
-    };
-  }, [connect, disconnect, mergedOptions.autoConnect]);
+    this.ackTimer = setTimeout(() => {
+      this.ackTimer = null;
+      
+      // Otherwise the position is sent with the next connection
+      if (this.lastSeq !== null && this.send('ack', { seq: this.lastSeq })) {
+        this.ackedSeq = this.lastSeq;
+      }
+    }, ACK_DELAY);
+  }
+  
+  private setState(state: ConnectionState): void {
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
+
+export const realtime = RealtimeConnection.getInstance();
+
+/**
+ * WebSocket hook
+ *
+ * Gives components the shared connection and its state.
+ */
+export const useWebSocket = () => {
+  const [state, setState] = useState<ConnectionState>(realtime.getState());
+  
+  useEffect(() => {
+    setState(realtime.getState());
+    return realtime.onStateChange(setState);
+  }, []);
+  
+  const connect = useCallback(() => realtime.start(), []);
+  
+  const disconnect = useCallback(() => realtime.stop(), []);
+  
+  const sendEvent = useCallback(
+    <E extends keyof ClientEvents>(event: E, data: ClientEvents[E]) => realtime.send(event, data),
+    []
+  );
+  
+  const subscribe = useCallback(
+    <E extends keyof ServerEvents>(event: E, handler: EventHandler<E>) =>
+      realtime.subscribe(event, handler),
+    []
+  );
   
   return {
-    socket,
-    isConnected,
-    isConnecting,
-    error,
+    ...state,
     connect,
     disconnect,
     sendEvent,
+    subscribe,
   };
 };